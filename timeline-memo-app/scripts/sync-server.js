@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+
+/**
+ * 同期サーバーの参照実装
+ * SYNC_API.md の仕様どおりに動く、依存パッケージのない小さなサーバー
+ * ローカルで起動して、オフライン環境でも同期を試せるようにする
+ *
+ * 使い方:
+ *   node scripts/sync-server.js [--port 8787] [--data ./sync-data.json] [--token 秘密の文字列]
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+
+// 同期APIのパス
+const SYNC_API_PATH = '/api/sync';
+
+// 1回の取得で返す件数の上限
+const DEFAULT_PULL_LIMIT = 500;
+const MAX_PULL_LIMIT = 1000;
+
+// 受け付けるリクエストボディの上限
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// HTTPエラー
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// 保存しているデータを読み込む（ファイルがない場合は空の状態から始める）
+function loadState(dataFile) {
+  if (dataFile && fs.existsSync(dataFile)) {
+    const saved = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+    return {
+      revision: saved.revision || 0,
+      records: new Map((saved.records || []).map(record => [record.postId, record])),
+    };
+  }
+  return { revision: 0, records: new Map() };
+}
+
+// データをファイルに保存する（一時ファイルに書いてから置き換える）
+function saveState(dataFile, state) {
+  if (!dataFile) {
+    return;
+  }
+  const tempFile = `${dataFile}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify({
+    revision: state.revision,
+    records: [...state.records.values()],
+  }));
+  fs.renameSync(tempFile, dataFile);
+}
+
+// リクエストボディをJSONとして読み込む
+function readJsonBody(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'リクエストが大きすぎます'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'JSONの形式が正しくありません'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// 送信された変更の形式を確認する
+function validateChange(change) {
+  if (!change || typeof change.postId !== 'string' || change.postId.length === 0) {
+    throw new HttpError(400, 'postIdが指定されていません');
+  }
+  if (change.baseRevision !== null && !Number.isInteger(change.baseRevision)) {
+    throw new HttpError(400, 'baseRevisionは整数またはnullで指定してください');
+  }
+  if (change.post !== null && (typeof change.post !== 'object' || change.post.id !== change.postId)) {
+    throw new HttpError(400, 'postの形式が正しくありません');
+  }
+  if (typeof change.updatedAt !== 'string' || Number.isNaN(Date.parse(change.updatedAt))) {
+    throw new HttpError(400, 'updatedAtの形式が正しくありません');
+  }
+}
+
+/**
+ * 同期サーバーを作成する
+ * @param {{ dataFile?: string, token?: string }} options
+ *   dataFile: データを保存するJSONファイル（省略時はメモリ上のみ）
+ *   token: 指定した場合、Authorization: Bearer <token> が必要になる
+ * @returns {http.Server}
+ */
+export function createSyncServer(options = {}) {
+  const { dataFile, token } = options;
+  const state = loadState(dataFile);
+
+  // 指定したリビジョンより後の変更を取得
+  const handlePull = (url) => {
+    const since = Number(url.searchParams.get('since') || '0');
+    const limit = Math.min(Number(url.searchParams.get('limit') || DEFAULT_PULL_LIMIT), MAX_PULL_LIMIT);
+    if (!Number.isInteger(since) || since < 0 || !Number.isInteger(limit) || limit <= 0) {
+      throw new HttpError(400, 'sinceとlimitは0以上の整数で指定してください');
+    }
+
+    const changed = [...state.records.values()]
+      .filter(record => record.revision > since)
+      .sort((a, b) => a.revision - b.revision);
+    const records = changed.slice(0, limit);
+    const hasMore = changed.length > limit;
+
+    return {
+      records,
+      cursor: hasMore ? records[records.length - 1].revision : state.revision,
+      hasMore,
+    };
+  };
+
+  // 変更を反映（サーバーの投稿がbaseRevisionから変わっていた場合は競合）
+  const handlePush = (body) => {
+    if (!body || typeof body.clientId !== 'string' || !Array.isArray(body.changes)) {
+      throw new HttpError(400, 'clientIdとchangesを指定してください');
+    }
+    body.changes.forEach(validateChange);
+
+    const results = body.changes.map(change => {
+      const current = state.records.get(change.postId) || null;
+      const currentRevision = current ? current.revision : null;
+
+      if (currentRevision !== change.baseRevision) {
+        return { postId: change.postId, status: 'conflict', record: current };
+      }
+
+      state.revision += 1;
+      state.records.set(change.postId, {
+        postId: change.postId,
+        revision: state.revision,
+        post: change.post,
+        updatedAt: change.updatedAt,
+        clientId: body.clientId,
+      });
+      return { postId: change.postId, status: 'applied', revision: state.revision };
+    });
+
+    if (results.some(result => result.status === 'applied')) {
+      saveState(dataFile, state);
+    }
+
+    return { results, cursor: state.revision };
+  };
+
+  return http.createServer(async (request, response) => {
+    try {
+      const url = new URL(request.url || '/', 'http://localhost');
+
+      if (request.method === 'OPTIONS') {
+        sendJson(response, 204);
+        return;
+      }
+
+      if (token && request.headers.authorization !== `Bearer ${token}`) {
+        throw new HttpError(401, '認証に失敗しました');
+      }
+
+      if (url.pathname !== `${SYNC_API_PATH}/changes`) {
+        throw new HttpError(404, '見つかりません');
+      }
+
+      if (request.method === 'GET') {
+        sendJson(response, 200, handlePull(url));
+      } else if (request.method === 'POST') {
+        sendJson(response, 200, handlePush(await readJsonBody(request)));
+      } else {
+        throw new HttpError(405, '対応していないメソッドです');
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        console.error('同期サーバーでエラーが発生しました:', error);
+      }
+      sendJson(response, status, { error: error instanceof HttpError ? error.message : 'サーバーエラー' });
+    }
+  });
+}
+
+// コマンドライン引数の取得
+function getArg(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// 直接実行された場合はサーバーを起動する
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  const port = Number(getArg('port') || process.env.PORT || 8787);
+  const dataFile = path.resolve(getArg('data') || process.env.SYNC_DATA_FILE || 'sync-data.json');
+  const token = getArg('token') || process.env.SYNC_TOKEN;
+
+  createSyncServer({ dataFile, token }).listen(port, () => {
+    console.log(`🔄 同期サーバーを起動しました: http://localhost:${port}`);
+    console.log(`   データファイル: ${dataFile}`);
+    console.log(`   認証: ${token ? 'アクセストークンが必要' : 'なし'}`);
+  });
+}
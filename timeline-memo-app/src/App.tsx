@@ -1,8 +1,15 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { AppProvider } from './context/AppContext';
 import MainLayout from './components/MainLayout';
 import { SimpleToastContainer } from './components/SimpleToastContainer';
+import StorageFallbackBanner from './components/StorageFallbackBanner';
+import { LoadingSpinner } from './components/LoadingSpinner';
+import LockScreen from './components/LockScreen';
 import { useToast } from './hooks/useToast';
+import { useEncryptionSession } from './hooks/useEncryptionSession';
+import { selectDataService, type DataServiceSelection } from './services/dataServiceFactory';
+import { createSyncEngine } from './services/SyncEngine';
+import { EncryptedDataService } from './services/EncryptedDataService';
 
 /**
  * エラーバウンダリーコンポーネント
@@ -64,11 +71,14 @@ class ErrorBoundary extends React.Component<
  * 統合されたアプリケーションコンポーネント
  * MainLayoutを使用してタイムライン機能を提供
  */
-function IntegratedApp() {
+function IntegratedApp({ selection }: { selection: DataServiceSelection }) {
   const { toasts, removeToast } = useToast();
 
   return (
     <>
+      {/* 保存先が通常と異なる場合の案内 */}
+      <StorageFallbackBanner selection={selection} />
+
       {/* MainLayoutを使用してタイムライン機能を統合 */}
       <MainLayout>
         {/* モーダルやダイアログなどの子コンポーネントがここに配置される */}
@@ -83,13 +93,74 @@ function IntegratedApp() {
 
 /**
  * アプリケーションルートコンポーネント
- * AppProviderでコンテキストを提供し、MainLayoutを統合
+ * 利用できる保存先を選択してから、AppProviderでコンテキストを提供し、MainLayoutを統合
+ * 投稿が暗号化されている場合は、ロックを解除するまでロック画面を表示する
  */
 function AppRoot() {
+  const [selection, setSelection] = useState<DataServiceSelection | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    selectDataService().then(result => {
+      if (!cancelled) {
+        setSelection(result);
+      } else {
+        // StrictModeなどで再実行された場合、使わなくなった接続を閉じる
+        result.service.close?.();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 暗号化と同期は、保存先が永続的な場合だけ使う
+  const isPersistent = selection !== null && (selection.backend === 'indexedDB' || selection.backend === 'localStorage');
+
+  // 保存先を変更ログで包んで同期サーバーと同期できるようにする
+  const synced = useMemo(() => {
+    if (!selection || !isPersistent) {
+      return null;
+    }
+    return createSyncEngine(selection.service);
+  }, [selection, isPersistent]);
+
+  // 暗号化の有効化などで書き換えた投稿も、変更ログに記録して送信する
+  const encryption = useEncryptionSession(synced ? synced.dataService : null);
+
+  // 暗号化が有効な場合はさらに暗号化で包む（変更ログと同期サーバーには暗号文だけが渡る）
+  const { key } = encryption;
+  const encrypted = useMemo(() => {
+    return synced && key ? new EncryptedDataService(synced.dataService, key) : null;
+  }, [synced, key]);
+
+  // 同期の競合は、この鍵で復号して判定・表示する
+  useEffect(() => {
+    synced?.syncEngine.setContentCipher(encrypted);
+  }, [synced, encrypted]);
+
+  if (!selection) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" message="保存先を準備しています..." />
+      </div>
+    );
+  }
+
+  if (isPersistent && encryption.isLocked) {
+    return <LockScreen onUnlock={encryption.unlock} />;
+  }
+
   return (
     <ErrorBoundary>
-      <AppProvider>
-        <IntegratedApp />
+      <AppProvider
+        dataService={encrypted ?? (synced ? synced.dataService : selection.service)}
+        syncEngine={synced ? synced.syncEngine : null}
+        encryption={isPersistent ? encryption.controls : null}
+      >
+        <IntegratedApp selection={selection} />
       </AppProvider>
     </ErrorBoundary>
   );
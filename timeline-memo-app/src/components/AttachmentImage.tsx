@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { useDataService } from '../hooks/useDataService';
+
+interface AttachmentImageProps {
+  /** 添付画像のID（本文の attachment://<id> から取り出したもの） */
+  attachmentId: string;
+  /** 代替テキスト */
+  alt?: string;
+  isMobile?: boolean;
+}
+
+// 読み込んだ添付画像の表示状態
+type AttachmentImageState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'loaded'; thumbnailUrl: string; fullUrl: string; width: number; height: number };
+
+/**
+ * 投稿に添付した画像の表示コンポーネント
+ * - 保存先から画像を読み込み、Object URLで表示する（アンマウント時に解放する）
+ * - 一覧にはサムネイルを表示し、クリックすると元の画像を新しいタブで開く
+ * - この端末に画像がない場合（同期で受け取った投稿など）は代わりのテキストを表示する
+ */
+const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachmentId, alt, isMobile = false }) => {
+  const attachmentStore = useDataService().attachments;
+  const [state, setState] = useState<AttachmentImageState>({ status: 'loading' });
+
+  useEffect(() => {
+    if (!attachmentStore) {
+      return;
+    }
+
+    let isCancelled = false;
+    const objectUrls: string[] = [];
+
+    attachmentStore.getAttachment(attachmentId)
+      .then(attachment => {
+        if (isCancelled) {
+          return;
+        }
+        if (!attachment) {
+          setState({ status: 'missing' });
+          return;
+        }
+
+        const fullUrl = URL.createObjectURL(new Blob([attachment.data], { type: attachment.mimeType }));
+        objectUrls.push(fullUrl);
+        let thumbnailUrl = fullUrl;
+        if (attachment.thumbnail) {
+          thumbnailUrl = URL.createObjectURL(new Blob([attachment.thumbnail.data], { type: attachment.thumbnail.mimeType }));
+          objectUrls.push(thumbnailUrl);
+        }
+
+        const size = attachment.thumbnail || attachment;
+        setState({ status: 'loaded', thumbnailUrl, fullUrl, width: size.width, height: size.height });
+      })
+      .catch(error => {
+        console.warn('添付画像の読み込みに失敗しました:', error);
+        if (!isCancelled) {
+          setState({ status: 'missing' });
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [attachmentStore, attachmentId]);
+
+  if (!attachmentStore || state.status === 'missing') {
+    return (
+      <span className="inline-block px-2 py-1 text-xs text-gray-500 bg-gray-100 rounded">
+        🖼️ 画像が見つかりません{alt ? `（${alt}）` : ''}
+      </span>
+    );
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <span
+        className={`inline-block ${isMobile ? 'w-24 h-24' : 'w-32 h-32'} bg-gray-100 rounded animate-pulse`}
+        aria-label="画像を読み込んでいます"
+      />
+    );
+  }
+
+  return (
+    <a
+      href={state.fullUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()} // 親の投稿選択を防ぐ
+      className="inline-block"
+      title="元の画像を開く"
+    >
+      <img
+        src={state.thumbnailUrl}
+        alt={alt || '添付画像'}
+        width={state.width}
+        height={state.height}
+        loading="lazy"
+        className={`${isMobile ? 'max-h-40' : 'max-h-64'} max-w-full h-auto rounded border border-gray-200`}
+      />
+    </a>
+  );
+};
+
+export default AttachmentImage;
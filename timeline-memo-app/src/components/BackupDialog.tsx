@@ -0,0 +1,260 @@
+import React, { useRef, useState } from 'react';
+import type { Post } from '../types';
+import type { BackupImportPlan, BackupMergeStrategy } from '../services/BackupService';
+
+interface BackupDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** 取り込む前に確認しているファイル名（選択していない場合はnull） */
+  pendingFileName: string | null;
+  /** 取り込まない投稿・編集履歴があった場合の内容 */
+  pendingIssues: string[];
+  /** 取り込みの計画（ファイルを選択していない場合はnull） */
+  importPlan: BackupImportPlan | null;
+  /** 同じIDの投稿が既にある場合の取り込み方 */
+  mergeStrategy: BackupMergeStrategy;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 書き出す時のコールバック */
+  onExport: () => Promise<boolean>;
+  /** 取り込むファイルを選択した時のコールバック */
+  onSelectFile: (file: File) => Promise<boolean>;
+  /** 取り込み方を変更した時のコールバック */
+  onMergeStrategyChange: (strategy: BackupMergeStrategy) => void;
+  /** 取り込みを確定する時のコールバック */
+  onConfirmImport: () => Promise<boolean>;
+  /** 取り込みをやめる時のコールバック */
+  onCancelImport: () => void;
+}
+
+const MERGE_STRATEGY_OPTIONS: { value: BackupMergeStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'スキップ', description: '既存の投稿を残し、取り込まない' },
+  { value: 'overwrite', label: '上書き', description: 'バックアップの投稿で置き換える' },
+  { value: 'keepBoth', label: '両方残す', description: '別の投稿として追加する' }
+];
+
+// プレビューに表示する重複した投稿の件数
+const PREVIEW_LIMIT = 5;
+
+/**
+ * バックアップダイアログコンポーネント
+ * - 全ての投稿と編集履歴のJSONファイルへの書き出し
+ * - ファイルの取り込み（同じIDの投稿の取り込み方の選択と、取り込む前のプレビュー）
+ */
+const BackupDialog: React.FC<BackupDialogProps> = ({
+  isOpen,
+  pendingFileName,
+  pendingIssues,
+  importPlan,
+  mergeStrategy,
+  onClose,
+  onExport,
+  onSelectFile,
+  onMergeStrategyChange,
+  onConfirmImport,
+  onCancelImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const runAction = async (action: () => Promise<boolean>) => {
+    setIsProcessing(true);
+    try {
+      await action();
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 同じファイルを選び直せるように選択を解除する
+    event.target.value = '';
+    if (file) {
+      runAction(() => onSelectFile(file));
+    }
+  };
+
+  const handleClose = () => {
+    onCancelImport();
+    onClose();
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      handleClose();
+    }
+  };
+
+  const formatDateTime = (date: Date) => {
+    return new Intl.DateTimeFormat('ja-JP', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  // 取り込み方によって扱いが変わる投稿（既存の投稿とIDが重複し、内容が異なる）
+  const conflictPosts: Post[] = importPlan
+    ? [...importPlan.overwritten, ...importPlan.duplicated, ...importPlan.skipped]
+    : [];
+
+  const summaryRows = importPlan
+    ? [
+      { label: '新しく追加', count: importPlan.added.length },
+      { label: '上書き', count: importPlan.overwritten.length },
+      { label: '別の投稿として追加', count: importPlan.duplicated.length },
+      { label: 'スキップ', count: importPlan.skipped.length },
+      { label: '同じ内容のため変更なし', count: importPlan.unchangedCount }
+    ].filter(row => row.count > 0)
+    : [];
+
+  const buttonClassName = 'px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="backup-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 id="backup-dialog-title" className="text-lg font-semibold text-gray-900">
+              バックアップ
+            </h3>
+            <p className="text-sm text-gray-500">
+              投稿と編集履歴をファイルに書き出し、別の端末やブラウザで取り込めます（添付画像は含まれません）
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="バックアップを閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* 書き出し・取り込むファイルの選択 */}
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">ゴミ箱の投稿を含む全ての投稿を書き出します</p>
+              <button onClick={() => runAction(onExport)} disabled={isProcessing} className={buttonClassName}>
+                書き出す
+              </button>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">書き出したファイルから投稿を取り込みます</p>
+              <button onClick={() => fileInputRef.current?.click()} disabled={isProcessing} className={buttonClassName}>
+                ファイルを選択
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                className="hidden"
+                aria-label="取り込むバックアップファイル"
+              />
+            </div>
+          </section>
+
+          {/* 取り込む前のプレビュー */}
+          {importPlan && (
+            <section className="space-y-4 border-t border-gray-200 pt-4">
+              <h4 className="text-sm font-medium text-gray-900">「{pendingFileName}」の取り込み</h4>
+
+              {pendingIssues.length > 0 && (
+                <ul className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md list-disc list-inside">
+                  {pendingIssues.map(issue => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+
+              {conflictPosts.length > 0 && (
+                <fieldset>
+                  <legend className="text-sm text-gray-700 mb-2">
+                    {conflictPosts.length}件の投稿が既存の投稿と重複しています
+                  </legend>
+                  <div className="space-y-1">
+                    {MERGE_STRATEGY_OPTIONS.map(option => (
+                      <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          name="backup-merge-strategy"
+                          value={option.value}
+                          checked={mergeStrategy === option.value}
+                          onChange={() => onMergeStrategyChange(option.value)}
+                        />
+                        <span>{option.label}</span>
+                        <span className="text-gray-500">（{option.description}）</span>
+                      </label>
+                    ))}
+                  </div>
+                  <ul className="mt-3 space-y-2">
+                    {conflictPosts.slice(0, PREVIEW_LIMIT).map(post => (
+                      <li key={post.id} className="p-2 text-xs bg-gray-50 border border-gray-200 rounded-md">
+                        <time className="text-gray-500">{formatDateTime(post.createdAt)}</time>
+                        <p className="text-gray-700 truncate">{post.content}</p>
+                      </li>
+                    ))}
+                  </ul>
+                  {conflictPosts.length > PREVIEW_LIMIT && (
+                    <p className="mt-1 text-xs text-gray-500">ほか{conflictPosts.length - PREVIEW_LIMIT}件</p>
+                  )}
+                </fieldset>
+              )}
+
+              <dl className="grid grid-cols-2 gap-y-1 text-sm" aria-label="取り込みのプレビュー">
+                {summaryRows.map(row => (
+                  <React.Fragment key={row.label}>
+                    <dt className="text-gray-600">{row.label}</dt>
+                    <dd className="text-right text-gray-900">{row.count}件</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+
+              <div className="flex justify-end space-x-2">
+                <button onClick={onCancelImport} disabled={isProcessing} className={buttonClassName}>
+                  キャンセル
+                </button>
+                <button
+                  onClick={() => runAction(onConfirmImport)}
+                  disabled={isProcessing || importPlan.posts.length === 0}
+                  className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {importPlan.posts.length}件を取り込む
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { CalendarDay } from '../types';
+import { toDateInputValue } from '../utils/dateUtils';
 
 interface CalendarViewProps {
   year: number;
@@ -8,11 +9,15 @@ interface CalendarViewProps {
   selectedDate?: Date;
   onDateClick: (date: Date) => void;
   onMonthChange: (year: number, month: number) => void;
+  onComposeForDate?: (date: Date) => void; // 選択した日の投稿を書く（未来の日は対象外）
+  onExportMonth?: (year: number, month: number) => void; // 表示中の月の投稿をiCalendar（.ics）に書き出す
 }
 
 /**
  * カレンダー形式で投稿履歴を表示するコンポーネント
  * 投稿がある日をハイライト表示し、日付クリックで投稿表示機能を提供
+ * 選択した日の投稿を書くこともできる（過去の日付での投稿）
+ * 表示中の月の投稿を.icsファイルに書き出し、他のカレンダーアプリで表示できる
  * レスポンシブデザイン対応
  */
 const CalendarView: React.FC<CalendarViewProps> = ({
@@ -22,6 +27,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   selectedDate,
   onDateClick,
   onMonthChange,
+  onComposeForDate,
+  onExportMonth,
 }) => {
   // デバイス情報の状態管理
   const [screenSize, setScreenSize] = useState<'mobile' | 'tablet' | 'desktop'>('desktop');
@@ -304,6 +311,31 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         })}
       </div>
 
+      {/* 選択した日の投稿を書くボタン（今日以前の日のみ） */}
+      {onComposeForDate && selectedDate && toDateInputValue(selectedDate) <= toDateInputValue(new Date()) && (
+        <div className="flex justify-center mt-3">
+          <button
+            onClick={() => onComposeForDate(selectedDate)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            ✍️ {selectedDate.getMonth() + 1}月{selectedDate.getDate()}日の投稿を書く
+          </button>
+        </div>
+      )}
+
+      {/* 表示中の月の投稿の書き出しボタン */}
+      {onExportMonth && (
+        <div className="flex justify-center mt-3">
+          <button
+            onClick={() => onExportMonth(year, month)}
+            className="px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            aria-label={`${year}年${month}月の投稿をiCalendarに書き出す`}
+          >
+            📅 この月を.icsで書き出す
+          </button>
+        </div>
+      )}
+
       {/* カレンダー凡例 */}
       {!(screenSize === 'mobile' && orientation === 'landscape') && (
         <div className={styles.legend}>
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import type { Post } from '../types';
+import type { SyncConflict } from '../services/SyncChangeLog';
+import type { ConflictResolution } from '../services/SyncEngine';
+import { diffLines } from '../utils/diffUtils';
+
+interface ConflictMergeDialogProps {
+  /** 解決する競合 */
+  conflict: SyncConflict;
+  /** 解決中かどうか */
+  isResolving?: boolean;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 解決方法を選んだ時のコールバック */
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+// 日時のフォーマット
+const formatDateTime = (date: Date) => {
+  return new Intl.DateTimeFormat('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(date));
+};
+
+// 差分の行の表示スタイル（RevisionHistoryDialogと同じ）
+const DIFF_LINE_STYLES = {
+  added: { className: 'bg-green-50 text-green-800', prefix: '+' },
+  removed: { className: 'bg-red-50 text-red-800 line-through', prefix: '-' },
+  unchanged: { className: 'text-gray-600', prefix: ' ' }
+} as const;
+
+// 両方のタグをまとめる（重複は除く）
+const mergeTags = (local: Post | null, remote: Post | null): string[] => {
+  return [...new Set([...(local?.tags || []), ...(remote?.tags || [])])];
+};
+
+/**
+ * 同期の競合を手動で解決するダイアログ
+ * この端末とサーバーの内容を並べて表示し、どちらかを選ぶか、編集して1つにまとめる
+ */
+const ConflictMergeDialog: React.FC<ConflictMergeDialogProps> = ({
+  conflict,
+  isResolving = false,
+  onClose,
+  onResolve
+}) => {
+  const { local, remote } = conflict;
+  const [mergedContent, setMergedContent] = useState(local?.content || remote?.content || '');
+  const [mergedTags, setMergedTags] = useState(mergeTags(local, remote).join(', '));
+  const diff = diffLines(remote?.content || '', local?.content || '');
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const handleMergedSave = () => {
+    onResolve({
+      type: 'merged',
+      content: mergedContent,
+      tags: mergedTags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0),
+    });
+  };
+
+  const renderVersion = (title: string, post: Post | null) => (
+    <div className="flex-1 min-w-0 border border-gray-200 rounded-lg p-3 bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+        {post && (
+          <time className="text-xs text-gray-500">{formatDateTime(post.updatedAt)}</time>
+        )}
+      </div>
+      {post ? (
+        <>
+          <div className="text-sm text-gray-700 whitespace-pre-wrap break-words">{post.content}</div>
+          {post.tags && post.tags.length > 0 && (
+            <div className="mt-2 text-xs text-blue-700">
+              {post.tags.map(tag => `#${tag}`).join(' ')}
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">削除されています</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-merge-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="p-6 border-b border-gray-200">
+          <h3 id="conflict-merge-dialog-title" className="text-lg font-semibold text-gray-900">
+            競合の解決
+          </h3>
+          <p className="text-sm text-gray-500">
+            この投稿は別の端末でも編集されました。残す内容を選ぶか、編集して1つにまとめてください。
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* 両方の内容 */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            {renderVersion('この端末の内容', local)}
+            {renderVersion('サーバーの内容', remote)}
+          </div>
+
+          {/* 差分（サーバーの内容 → この端末の内容） */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-1">差分</h4>
+            <pre className="text-sm font-mono whitespace-pre-wrap break-words border border-gray-200 rounded">
+              {diff.map((line, index) => {
+                const style = DIFF_LINE_STYLES[line.type];
+                return (
+                  <div key={index} className={`px-2 ${style.className}`}>
+                    <span className="select-none text-gray-400 mr-2" aria-hidden="true">{style.prefix}</span>
+                    {line.text || ' '}
+                  </div>
+                );
+              })}
+            </pre>
+          </div>
+
+          {/* 編集してまとめる */}
+          <div>
+            <label htmlFor="conflict-merged-content" className="block text-sm font-medium text-gray-900 mb-1">
+              まとめた内容
+            </label>
+            <textarea
+              id="conflict-merged-content"
+              value={mergedContent}
+              onChange={(e) => setMergedContent(e.target.value)}
+              rows={6}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <label htmlFor="conflict-merged-tags" className="block text-sm font-medium text-gray-900 mt-2 mb-1">
+              タグ（カンマ区切り）
+            </label>
+            <input
+              id="conflict-merged-tags"
+              type="text"
+              value={mergedTags}
+              onChange={(e) => setMergedTags(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        {/* 操作 */}
+        <div className="flex flex-wrap items-center justify-end gap-2 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onClose}
+            disabled={isResolving}
+            className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            あとで
+          </button>
+          <button
+            onClick={() => onResolve({ type: 'remote' })}
+            disabled={isResolving}
+            className="px-3 py-2 text-sm text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            サーバーの内容を使う
+          </button>
+          <button
+            onClick={() => onResolve({ type: 'local' })}
+            disabled={isResolving}
+            className="px-3 py-2 text-sm text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            この端末の内容を使う
+          </button>
+          <button
+            onClick={handleMergedSave}
+            disabled={isResolving || mergedContent.trim().length === 0}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            まとめた内容で保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictMergeDialog;
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { Post } from '../types';
+import { getTrashRetentionDays } from '../utils/trashUtils';
 
 interface DeleteConfirmDialogProps {
   /** 削除対象の投稿 */
@@ -12,6 +13,8 @@ interface DeleteConfirmDialogProps {
   onCancel: () => void;
   /** 削除処理中かどうか */
   isDeleting?: boolean;
+  /** 完全に削除するかどうか（falseの場合はゴミ箱に移動） */
+  permanent?: boolean;
 }
 
 /**
@@ -20,13 +23,15 @@ interface DeleteConfirmDialogProps {
  * - 削除確認ダイアログの表示
  * - 投稿内容のプレビュー表示
  * - 削除処理の実行
+ * - 通常はゴミ箱への移動、ゴミ箱からは完全削除の確認に使用
  */
 const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
   post,
   isOpen,
   onConfirm,
   onCancel,
-  isDeleting = false
+  isDeleting = false,
+  permanent = false
 }) => {
   // ダイアログが閉じている場合は何も表示しない
   if (!isOpen) {
@@ -87,7 +92,7 @@ const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
                 投稿を削除
               </h3>
               <p className="text-sm text-gray-500">
-                この操作は取り消せません
+                {permanent ? 'この操作は取り消せません' : '投稿はゴミ箱に移動されます'}
               </p>
             </div>
           </div>
@@ -129,21 +134,29 @@ const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
           </div>
 
           {/* 警告メッセージ */}
-          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
-            <div className="flex items-start space-x-2">
-              <svg className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-              </svg>
-              <div>
-                <p className="text-sm font-medium text-red-800">
-                  注意: この操作は取り消せません
-                </p>
-                <p className="text-xs text-red-700 mt-1">
-                  削除された投稿は完全に失われ、復元することはできません。
-                </p>
+          {permanent ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+              <div className="flex items-start space-x-2">
+                <svg className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+                <div>
+                  <p className="text-sm font-medium text-red-800">
+                    注意: この操作は取り消せません
+                  </p>
+                  <p className="text-xs text-red-700 mt-1">
+                    削除された投稿は完全に失われ、復元することはできません。
+                  </p>
+                </div>
               </div>
             </div>
-          </div>
+          ) : (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-6">
+              <p className="text-sm text-blue-800">
+                削除した投稿はゴミ箱に{getTrashRetentionDays()}日間保存され、その間は復元できます。
+              </p>
+            </div>
+          )}
         </div>
 
         {/* アクションボタン */}
@@ -170,7 +183,7 @@ const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
                 <span>削除中...</span>
               </>
             ) : (
-              <span>削除する</span>
+              <span>{permanent ? '完全に削除する' : '削除する'}</span>
             )}
           </button>
         </div>
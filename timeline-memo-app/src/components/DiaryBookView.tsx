@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import AttachmentImage from './AttachmentImage';
+import { DateRangeFilter } from './DateRangeFilter';
+import { isUrlSafe } from '../utils/securityUtils';
+import { getAttachmentId, isAttachmentUrl } from '../utils/attachmentUtils';
+import { formatTime, toDateInputValue } from '../utils/dateUtils';
+import { formatDiaryHeading, getMonthDateRange } from '../utils/markdownExportUtils';
+import { getYearDateRange, type DiaryBook, type DiaryBookAppendix } from '../utils/diaryBookUtils';
+import type { DateRange, Post } from '../types';
+
+interface DiaryBookViewProps {
+  /** 初めに選択しておく月・年に含まれる日 */
+  initialDate: Date;
+  /** 初めに選択しておく日付範囲（日記ビューで絞り込んでいる範囲） */
+  initialRange?: DateRange | null;
+  /** 表示する日記の本（読み込み前はnull） */
+  book: DiaryBook | null;
+  /** 付録の統計 */
+  appendix: DiaryBookAppendix | null;
+  /** 読み込み中かどうか */
+  isLoading: boolean;
+  /** 期間を指定して本を作り直す時のコールバック */
+  onLoad: (range: DateRange) => Promise<boolean>;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+}
+
+type BookScope = 'month' | 'year' | 'range';
+
+// 本を表示している間bodyに付けるクラス（印刷時に本以外を隠す）
+const BOOK_OPEN_CLASS = 'diary-book-open';
+
+// 月の入力欄（input type="month"）の値（YYYY-MM）
+const toMonthInputValue = (date: Date) => toDateInputValue(date).slice(0, 7);
+
+// 付録の表の小数（1日あたりの投稿数）
+const formatAverage = (value: number) => value.toFixed(1);
+
+const urlTransform = (url: string): string => (isAttachmentUrl(url) ? url : defaultUrlTransform(url));
+
+// 印刷に合わせたMarkdownの表示（画面と紙で同じ見た目にするため、余白・文字の大きさを固定する）
+const markdownComponents: React.ComponentProps<typeof ReactMarkdown>['components'] = {
+  h1: ({ children }) => <h1 className="text-lg font-bold mb-2 text-gray-900">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-semibold mb-2 text-gray-800">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-medium mb-1 text-gray-700">{children}</h3>,
+  p: ({ children }) => <p className="text-sm text-gray-800 mb-2 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="text-sm text-gray-800 mb-2 pl-5 list-disc">{children}</ul>,
+  ol: ({ children }) => <ol className="text-sm text-gray-800 mb-2 pl-5 list-decimal">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-gray-300 pl-3 italic text-gray-600 my-2">{children}</blockquote>
+  ),
+  code: ({ children, className }) => {
+    if (!className) {
+      return <code className="bg-gray-100 px-1 rounded text-xs font-mono">{children}</code>;
+    }
+    return (
+      <pre className="bg-gray-100 p-3 rounded text-xs font-mono whitespace-pre-wrap my-2">
+        <code>{children}</code>
+      </pre>
+    );
+  },
+  a: ({ children, href }) => {
+    // 安全でないURLはリンクにしない
+    if (!href || !isUrlSafe(href)) {
+      return <span>{children}</span>;
+    }
+    return (
+      <a href={href} className="text-blue-700 underline" target="_blank" rel="noopener noreferrer">
+        {children}
+      </a>
+    );
+  },
+  img: ({ src, alt }) => {
+    const attachmentId = typeof src === 'string' ? getAttachmentId(src) : null;
+    if (attachmentId) {
+      return <AttachmentImage attachmentId={attachmentId} alt={alt} />;
+    }
+    return <img src={src} alt={alt} className="max-w-full h-auto" />;
+  }
+};
+
+const BookPost: React.FC<{ post: Post }> = ({ post }) => (
+  <article className="diary-book-post mb-4">
+    <p className="text-xs text-gray-500 mb-1">{formatTime(post.createdAt)}</p>
+    <ReactMarkdown urlTransform={urlTransform} components={markdownComponents}>
+      {post.content}
+    </ReactMarkdown>
+    {post.tags && post.tags.length > 0 && (
+      <p className="text-xs text-gray-500">{post.tags.map(tag => `#${tag}`).join(' ')}</p>
+    )}
+  </article>
+);
+
+/**
+ * 日記の本（印刷用の表示）コンポーネント
+ * - 月・年・期間を指定して、表紙・月ごとの目次・1日1節の本文を表示する
+ * - 付録として、本に含まれる投稿の統計と月ごとの統計を付けられる
+ * - 印刷（PDFへの保存）時は本だけを出力し、月ごとに改ページする（スタイルはindex.cssの@media print）
+ */
+const DiaryBookView: React.FC<DiaryBookViewProps> = ({
+  initialDate,
+  initialRange = null,
+  book,
+  appendix,
+  isLoading,
+  onLoad,
+  onClose
+}) => {
+  const [scope, setScope] = useState<BookScope>(initialRange ? 'range' : 'month');
+  const [monthValue, setMonthValue] = useState(toMonthInputValue(initialDate));
+  const [yearValue, setYearValue] = useState(String(initialDate.getFullYear()));
+  const [range, setRange] = useState<DateRange | null>(initialRange);
+  const [showAppendix, setShowAppendix] = useState(true);
+
+  // 本を表示している間だけ、印刷用のスタイルを有効にする
+  useEffect(() => {
+    document.body.classList.add(BOOK_OPEN_CLASS);
+    return () => {
+      document.body.classList.remove(BOOK_OPEN_CLASS);
+    };
+  }, []);
+
+  const getSelectedRange = (): DateRange | null => {
+    if (scope === 'month') {
+      if (!/^\d{4}-\d{2}$/.test(monthValue)) {
+        return null;
+      }
+      const [year, month] = monthValue.split('-').map(Number);
+      return getMonthDateRange(year, month);
+    }
+    if (scope === 'year') {
+      return /^\d{4}$/.test(yearValue) ? getYearDateRange(Number(yearValue)) : null;
+    }
+    return range;
+  };
+
+  const selectedRange = getSelectedRange();
+
+  const handleLoad = () => {
+    if (selectedRange) {
+      void onLoad(selectedRange);
+    }
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return createPortal(
+    <div
+      className="diary-book fixed inset-0 z-50 overflow-y-auto bg-gray-100"
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="diary-book-title"
+    >
+      {/* 操作バー（印刷しない） */}
+      <div className="diary-book-toolbar sticky top-0 z-10 bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-3xl mx-auto flex flex-wrap items-center gap-3 p-3">
+          <fieldset className="flex space-x-3">
+            <legend className="sr-only">本にする期間</legend>
+            <label className="flex items-center space-x-1 text-sm text-gray-700">
+              <input type="radio" name="diary-book-scope" checked={scope === 'month'} onChange={() => setScope('month')} />
+              <span>月</span>
+            </label>
+            <label className="flex items-center space-x-1 text-sm text-gray-700">
+              <input type="radio" name="diary-book-scope" checked={scope === 'year'} onChange={() => setScope('year')} />
+              <span>年</span>
+            </label>
+            <label className="flex items-center space-x-1 text-sm text-gray-700">
+              <input type="radio" name="diary-book-scope" checked={scope === 'range'} onChange={() => setScope('range')} />
+              <span>期間</span>
+            </label>
+          </fieldset>
+          {scope === 'month' && (
+            <input
+              type="month"
+              value={monthValue}
+              onChange={(e) => setMonthValue(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="本にする月"
+            />
+          )}
+          {scope === 'year' && (
+            <input
+              type="number"
+              min={1970}
+              max={9999}
+              value={yearValue}
+              onChange={(e) => setYearValue(e.target.value)}
+              className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="本にする年"
+            />
+          )}
+          <button
+            onClick={handleLoad}
+            disabled={!selectedRange || isLoading}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isLoading ? '読み込み中...' : '表示'}
+          </button>
+          <label className="flex items-center space-x-1 text-sm text-gray-700">
+            <input type="checkbox" checked={showAppendix} onChange={(e) => setShowAppendix(e.target.checked)} />
+            <span>付録の統計</span>
+          </label>
+          <div className="flex items-center space-x-2 ml-auto">
+            <button
+              onClick={() => window.print()}
+              disabled={!book || book.postCount === 0 || isLoading}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              🖨️ 印刷
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="日記の本を閉じる"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+        {scope === 'range' && (
+          <div className="max-w-3xl mx-auto px-3 pb-3">
+            <DateRangeFilter
+              onDateRangeChange={setRange}
+              onClear={() => setRange(null)}
+              currentRange={range}
+            />
+          </div>
+        )}
+        <p className="max-w-3xl mx-auto px-3 pb-2 text-xs text-gray-500">
+          印刷画面で「PDFに保存」を選ぶと、PDFファイルとして保存できます
+        </p>
+      </div>
+
+      <div className="diary-book-pages max-w-3xl mx-auto my-6 bg-white shadow-sm">
+        {!book ? (
+          <p className="p-12 text-center text-sm text-gray-500">
+            {isLoading ? '日記を読み込んでいます...' : '期間を選んで「表示」を押してください'}
+          </p>
+        ) : (
+          <>
+            {/* 表紙 */}
+            <section className="diary-book-cover flex flex-col items-center justify-center text-center px-12 py-32">
+              <h1 id="diary-book-title" className="text-3xl font-bold text-gray-900 mb-6">{book.title}</h1>
+              <p className="text-sm text-gray-600">
+                {formatDiaryHeading(toDateInputValue(book.range.start))} 〜 {formatDiaryHeading(toDateInputValue(book.range.end))}
+              </p>
+              <p className="mt-2 text-sm text-gray-600">{book.dayCount}日・{book.postCount}件の記録</p>
+            </section>
+
+            {book.months.length === 0 ? (
+              <p className="diary-book-page-break p-12 text-center text-sm text-gray-500">
+                この期間の日記はありません
+              </p>
+            ) : (
+              <>
+                {/* 目次 */}
+                <nav className="diary-book-page-break px-12 py-10" aria-label="目次">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">目次</h2>
+                  <ol className="space-y-1 text-sm">
+                    {book.months.map(bookMonth => (
+                      <li key={bookMonth.key} className="flex justify-between border-b border-dotted border-gray-300">
+                        <a href={`#diary-book-${bookMonth.key}`} className="text-gray-800 hover:text-blue-700">
+                          {bookMonth.year}年{bookMonth.month}月
+                        </a>
+                        <span className="text-gray-500">{bookMonth.entries.length}日・{bookMonth.postCount}件</span>
+                      </li>
+                    ))}
+                    {showAppendix && appendix && (
+                      <li className="flex justify-between border-b border-dotted border-gray-300">
+                        <a href="#diary-book-appendix" className="text-gray-800 hover:text-blue-700">付録 統計</a>
+                      </li>
+                    )}
+                  </ol>
+                </nav>
+
+                {/* 本文（月ごとに改ページする） */}
+                {book.months.map(bookMonth => (
+                  <section
+                    key={bookMonth.key}
+                    id={`diary-book-${bookMonth.key}`}
+                    className="diary-book-page-break px-12 py-10"
+                  >
+                    <h2 className="text-xl font-semibold text-gray-900 mb-6">{bookMonth.year}年{bookMonth.month}月</h2>
+                    {bookMonth.entries.map(entry => (
+                      <section key={entry.date} className="diary-book-day mb-8">
+                        <h3 className="diary-book-day-heading text-base font-semibold text-gray-900 border-b border-gray-200 pb-1 mb-3">
+                          {formatDiaryHeading(entry.date)}
+                        </h3>
+                        {entry.posts.map(post => (
+                          <BookPost key={post.id} post={post} />
+                        ))}
+                      </section>
+                    ))}
+                  </section>
+                ))}
+
+                {/* 付録 */}
+                {showAppendix && appendix && (
+                  <section id="diary-book-appendix" className="diary-book-page-break px-12 py-10">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">付録 統計</h2>
+                    <dl className="grid grid-cols-2 gap-y-1 text-sm mb-8 max-w-sm">
+                      <dt className="text-gray-600">投稿数</dt>
+                      <dd className="text-right text-gray-900">{appendix.stats.totalPosts}件</dd>
+                      <dt className="text-gray-600">投稿した日数</dt>
+                      <dd className="text-right text-gray-900">{appendix.stats.totalDays}日</dd>
+                      <dt className="text-gray-600">最長の連続記録</dt>
+                      <dd className="text-right text-gray-900">{appendix.stats.longestStreak}日</dd>
+                      <dt className="text-gray-600">1日あたりの投稿数</dt>
+                      <dd className="text-right text-gray-900">{formatAverage(appendix.stats.averagePostsPerDay)}件</dd>
+                    </dl>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-300 text-gray-600">
+                          <th className="py-1 text-left font-medium">月</th>
+                          <th className="py-1 text-right font-medium">投稿数</th>
+                          <th className="py-1 text-right font-medium">投稿した日数</th>
+                          <th className="py-1 text-right font-medium">1日あたり</th>
+                          <th className="py-1 text-right font-medium">最長の連続記録</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {appendix.monthlySummaries.map(summary => (
+                          <tr key={`${summary.year}-${summary.month}`} className="border-b border-gray-100">
+                            <td className="py-1 text-gray-800">{summary.year}年{summary.month}月</td>
+                            <td className="py-1 text-right">{summary.postCount}件</td>
+                            <td className="py-1 text-right">{summary.activeDays}日</td>
+                            <td className="py-1 text-right">{formatAverage(summary.averagePostsPerDay)}件</td>
+                            <td className="py-1 text-right">{summary.longestStreakInMonth}日</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </section>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default DiaryBookView;
@@ -6,9 +6,14 @@ import { DateRangeFilter } from './DateRangeFilter';
 import { usePosts } from '../hooks/usePosts';
 import { useAppContext } from '../context/AppContext';
 import { useErrorHandler } from '../hooks/useErrorHandler';
+import { useSync } from '../hooks/useSync';
 import { useRenderTime } from '../hooks/usePerformanceMonitor';
+import { toDateInputValue } from '../utils/dateUtils';
 import type { Post, DiaryEntry, DateRange } from '../types';
 
+// 末尾からこの距離（px）以内までスクロールしたら続きを読み込む
+const LOAD_MORE_THRESHOLD = 400;
+
 interface DiaryViewProps {
   /** 日記エントリーのリスト */
   entries: DiaryEntry[];
@@ -26,11 +31,22 @@ interface DiaryViewProps {
   onDateRangeChange?: (range: DateRange | null) => void;
   /** 現在の日付範囲フィルター */
   currentDateRange?: DateRange | null;
+  /** 未読み込みのエントリーがあるか（無限スクロール用） */
+  hasMore?: boolean;
+  /** 続きのエントリー読み込み時のコールバック（無限スクロール用） */
+  onLoadMore?: () => void;
+  /** 選択した日の投稿を書く時のコールバック（未来の日は対象外） */
+  onComposeForDate?: (date: Date) => void;
+  /** Markdownで書き出す時のコールバック（省略時はボタンを表示しない） */
+  onExportMarkdown?: () => void;
+  /** 日記の本（印刷用の表示）を開く時のコールバック（日付範囲フィルターの期間を渡す。省略時はボタンを表示しない） */
+  onOpenBook?: (range: DateRange | null) => void;
 }
 
 /**
  * 日記ビューコンポーネント
  * 日付ごとにグループ化された投稿を表示
+ * 選択した日の投稿を書くこともできる（過去の日付での投稿）
  * 要件1.1, 1.2, 1.3に対応
  */
 const DiaryView: React.FC<DiaryViewProps> = ({
@@ -41,15 +57,22 @@ const DiaryView: React.FC<DiaryViewProps> = ({
   selectedPostId,
   showDateFilter = true,
   onDateRangeChange,
-  currentDateRange
+  currentDateRange,
+  hasMore = false,
+  onLoadMore,
+  onComposeForDate,
+  onExportMarkdown,
+  onOpenBook
 }) => {
   // パフォーマンス監視
   useRenderTime('DiaryView');
   
-  const { posts, isLoading, error, selectPost, deletePost } = usePosts();
+  const { isLoading, error, selectPost, deletePost, restorePost } = usePosts();
   const { state } = useAppContext();
   const { highlightedPostIds } = state;
-  const { showSuccess } = useErrorHandler();
+  const { showActionToast } = useErrorHandler();
+  // 同期サーバーに送信していない投稿の状態（バッジ表示用）
+  const { postStatuses } = useSync();
   
   // デバイス情報の状態管理
   const [isMobile, setIsMobile] = useState(false);
@@ -126,12 +149,24 @@ const DiaryView: React.FC<DiaryViewProps> = ({
 
 
   // 投稿削除ハンドラー（確認ダイアログ表示）
+  // 投稿リストの読み込み範囲外の日も表示されるため、エントリーから投稿を探す
   const handlePostDelete = useCallback((postId: string) => {
-    const post = posts.find(p => p.id === postId);
+    const post = entries.flatMap(entry => entry.posts).find(p => p.id === postId);
     if (!post) return;
     
     setDeletingPost(post);
-  }, [posts]);
+  }, [entries]);
+
+  // リスト末尾に近づいたら続きのエントリーを読み込む
+  const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    if (!hasMore || !onLoadMore || isLoading) return;
+
+    const container = e.currentTarget;
+    const distanceToBottom = container.scrollHeight - container.clientHeight - container.scrollTop;
+    if (distanceToBottom <= LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    }
+  }, [hasMore, onLoadMore, isLoading]);
 
   // 削除確定ハンドラー
   const handleDeleteConfirm = useCallback(async () => {
@@ -142,8 +177,14 @@ const DiaryView: React.FC<DiaryViewProps> = ({
     try {
       const success = await deletePost(deletingPost.id);
       if (success) {
-        // 成功通知を表示
-        showSuccess('投稿を削除しました', '投稿が日記から削除されました');
+        // 誤操作に備えて「元に戻す」操作付きで通知（ゴミ箱からも復元できる）
+        const deletedPostId = deletingPost.id;
+        showActionToast(
+          '投稿を削除しました',
+          '投稿をゴミ箱に移動しました',
+          '元に戻す',
+          () => { restorePost(deletedPostId); }
+        );
         
         // 削除された投稿が選択されていた場合、選択を解除
         if (selectedPostId === deletingPost.id) {
@@ -161,7 +202,7 @@ const DiaryView: React.FC<DiaryViewProps> = ({
     } finally {
       setIsDeleting(false);
     }
-  }, [deletingPost, deletePost, selectedPostId, selectPost, onPostSelect, editingPost, showSuccess]);
+  }, [deletingPost, deletePost, restorePost, selectedPostId, selectPost, onPostSelect, editingPost, showActionToast]);
 
   // 削除キャンセルハンドラー
   const handleDeleteCancel = useCallback(() => {
@@ -273,9 +314,36 @@ const DiaryView: React.FC<DiaryViewProps> = ({
           <h2 className={`${textSizes.header} font-semibold text-gray-800`}>
             日記
           </h2>
-          <span className={`${textSizes.postCount} text-gray-500`}>
-            {isMobile ? `${entries.length}日` : `${entries.length}日間の記録`}
-          </span>
+          <div className="flex items-center space-x-2">
+            {/* 選択した日の投稿を書くボタン（今日以前の日のみ） */}
+            {onComposeForDate && selectedDate && toDateInputValue(new Date(selectedDate)) <= toDateInputValue(new Date()) && (
+              <button
+                onClick={() => onComposeForDate(new Date(selectedDate))}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors shadow-sm"
+              >
+                ✍️ {new Date(selectedDate).getMonth() + 1}月{new Date(selectedDate).getDate()}日の投稿を書く
+              </button>
+            )}
+            {onExportMarkdown && (
+              <button
+                onClick={onExportMarkdown}
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                📝 Markdownで書き出す
+              </button>
+            )}
+            {onOpenBook && (
+              <button
+                onClick={() => onOpenBook(currentDateRange ?? null)}
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                📖 本にして印刷
+              </button>
+            )}
+            <span className={`${textSizes.postCount} text-gray-500`}>
+              {isMobile ? `${entries.length}日` : `${entries.length}日間の記録`}
+            </span>
+          </div>
         </div>
         
         {/* フィルター適用時の結果表示 */}
@@ -295,6 +363,7 @@ const DiaryView: React.FC<DiaryViewProps> = ({
 
       {/* 日記エントリーリスト */}
       <div 
+        onScroll={handleScroll}
         className={`flex-1 overflow-y-auto ${isMobile ? 'mt-2' : 'mt-4'} ${
           isMobile ? 'pr-1 -mr-1' : 'pr-2 -mr-2'
         } ${isTouchDevice ? 'touch-manipulation' : ''}`}
@@ -345,6 +414,7 @@ const DiaryView: React.FC<DiaryViewProps> = ({
                       post={post}
                       isSelected={selectedPostId === post.id}
                       isHighlighted={highlightedPostIds.includes(post.id)}
+                      syncStatus={postStatuses[post.id]}
                       onSelect={handlePostSelect}
                       onEdit={handlePostEdit}
                       onDelete={handlePostDelete}
@@ -364,6 +434,18 @@ const DiaryView: React.FC<DiaryViewProps> = ({
             <div className={`animate-spin rounded-full ${isMobile ? 'h-4 w-4' : 'h-6 w-6'} border-b-2 border-blue-600`}></div>
           </div>
         )}
+
+        {/* 続きの読み込みボタン（リストがスクロールできない高さの場合用） */}
+        {hasMore && onLoadMore && !isLoading && (
+          <div className={`flex justify-center ${isMobile ? 'py-2' : 'py-4'}`}>
+            <button
+              onClick={onLoadMore}
+              className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-md transition-colors"
+            >
+              さらに読み込む
+            </button>
+          </div>
+        )}
       </div>
 
       {/* スクロールヒント（エントリーが多い場合、デスクトップのみ） */}
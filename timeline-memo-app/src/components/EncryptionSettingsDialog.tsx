@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../services/EncryptionService';
+
+interface EncryptionSettingsDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** 暗号化が有効かどうか */
+  isEnabled: boolean;
+  /** 自動ロックまでの時間（分、0の場合は自動ロックしない） */
+  autoLockMinutes: number;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 暗号化を有効にする時のコールバック */
+  onEnable: (passphrase: string) => Promise<boolean>;
+  /** パスフレーズを変更する時のコールバック */
+  onChangePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<boolean>;
+  /** 暗号化を解除する時のコールバック */
+  onDisable: (passphrase: string) => Promise<boolean>;
+  /** 自動ロックまでの時間を変更する時のコールバック */
+  onAutoLockMinutesChange: (minutes: number) => void;
+  /** 今すぐロックする時のコールバック */
+  onLock: () => void;
+}
+
+// 自動ロックまでの時間の選択肢（分）
+const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60] as const;
+
+const INPUT_CLASS_NAME = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 暗号化の設定ダイアログコンポーネント
+ * - 暗号化の有効化（パスフレーズの設定）
+ * - パスフレーズの変更と暗号化の解除
+ * - 自動ロックまでの時間の設定と、今すぐロック
+ */
+const EncryptionSettingsDialog: React.FC<EncryptionSettingsDialogProps> = ({
+  isOpen,
+  isEnabled,
+  autoLockMinutes,
+  onClose,
+  onEnable,
+  onChangePassphrase,
+  onDisable,
+  onAutoLockMinutesChange,
+  onLock
+}) => {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const resetForm = () => {
+    setCurrentPassphrase('');
+    setNextPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  // 新しいパスフレーズの入力エラー
+  const nextPassphraseError = nextPassphrase.length > 0 && nextPassphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`
+    : confirmPassphrase.length > 0 && nextPassphrase !== confirmPassphrase
+      ? '確認用のパスフレーズが一致しません'
+      : null;
+  const canSubmitNext = nextPassphrase.length >= MIN_PASSPHRASE_LENGTH && nextPassphrase === confirmPassphrase;
+
+  const runOperation = async (operation: () => Promise<boolean>) => {
+    setIsProcessing(true);
+    try {
+      if (await operation()) {
+        resetForm();
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleEnable = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmitNext) {
+      runOperation(() => onEnable(nextPassphrase));
+    }
+  };
+
+  const handleChangePassphrase = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmitNext && currentPassphrase.length > 0) {
+      runOperation(() => onChangePassphrase(currentPassphrase, nextPassphrase));
+    }
+  };
+
+  const handleDisable = () => {
+    if (currentPassphrase.length === 0) {
+      return;
+    }
+    if (window.confirm('暗号化を解除すると、投稿は暗号化されずに保存されます。よろしいですか？')) {
+      runOperation(() => onDisable(currentPassphrase));
+    }
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && !isProcessing) {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget && !isProcessing) {
+      onClose();
+    }
+  };
+
+  const renderNextPassphraseFields = (label: string) => (
+    <>
+      <div>
+        <label htmlFor="encryption-next-passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+        <input
+          id="encryption-next-passphrase"
+          type="password"
+          value={nextPassphrase}
+          onChange={(e) => setNextPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className={INPUT_CLASS_NAME}
+        />
+      </div>
+      <div>
+        <label htmlFor="encryption-confirm-passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+          確認のためもう一度入力
+        </label>
+        <input
+          id="encryption-confirm-passphrase"
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className={INPUT_CLASS_NAME}
+        />
+      </div>
+      {nextPassphraseError && (
+        <p className="text-sm text-red-700" role="alert">{nextPassphraseError}</p>
+      )}
+    </>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="encryption-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 id="encryption-dialog-title" className="text-lg font-semibold text-gray-900">
+              暗号化
+            </h3>
+            <p className="text-sm text-gray-500">
+              {isEnabled ? '投稿の本文は暗号化して保存されています' : '投稿の本文をパスフレーズで暗号化して保存します'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+            aria-label="暗号化の設定を閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {!isEnabled ? (
+            /* 暗号化の有効化 */
+            <form onSubmit={handleEnable} className="space-y-3">
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                パスフレーズを忘れると、暗号化した投稿は誰にも復元できません。タグと日時、添付した画像は暗号化されません。
+              </div>
+              {renderNextPassphraseFields('パスフレーズ')}
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={!canSubmitNext || isProcessing}
+                  className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  暗号化を有効にする
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              {/* 自動ロックと今すぐロック */}
+              <div className="flex items-end justify-between gap-3">
+                <div className="flex-1">
+                  <label htmlFor="encryption-auto-lock" className="block text-sm font-medium text-gray-700 mb-1">
+                    操作がない場合に自動でロック
+                  </label>
+                  <select
+                    id="encryption-auto-lock"
+                    value={autoLockMinutes}
+                    onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))}
+                    className={INPUT_CLASS_NAME}
+                  >
+                    {AUTO_LOCK_OPTIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>
+                        {minutes === 0 ? 'しない' : `${minutes}分後`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  type="button"
+                  onClick={onLock}
+                  disabled={isProcessing}
+                  className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  🔒 今すぐロック
+                </button>
+              </div>
+
+              {/* パスフレーズの変更と暗号化の解除 */}
+              <form onSubmit={handleChangePassphrase} className="space-y-3 border-t border-gray-200 pt-6">
+                <div>
+                  <label htmlFor="encryption-current-passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+                    現在のパスフレーズ
+                  </label>
+                  <input
+                    id="encryption-current-passphrase"
+                    type="password"
+                    value={currentPassphrase}
+                    onChange={(e) => setCurrentPassphrase(e.target.value)}
+                    autoComplete="current-password"
+                    className={INPUT_CLASS_NAME}
+                  />
+                </div>
+                {renderNextPassphraseFields('新しいパスフレーズ')}
+                <div className="flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    onClick={handleDisable}
+                    disabled={currentPassphrase.length === 0 || isProcessing}
+                    className="px-3 py-2 text-sm text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                  >
+                    暗号化を解除
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!canSubmitNext || currentPassphrase.length === 0 || isProcessing}
+                    className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    パスフレーズを変更
+                  </button>
+                </div>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionSettingsDialog;
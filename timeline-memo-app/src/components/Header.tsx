@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { isDemoMode, getDemoModeUrl } from '../services/dataServiceFactory';
 
 
 /**
@@ -9,6 +10,7 @@ import React, { useState, useEffect } from 'react';
  */
 const Header: React.FC = () => {
   const [isMobile, setIsMobile] = useState(false);
+  const demoMode = isDemoMode();
 
   // 画面サイズの検出
   useEffect(() => {
@@ -45,7 +47,7 @@ const Header: React.FC = () => {
 
   return (
     <header className={getHeaderClasses()}>
-      <div className={getContainerClasses()}>
+      <div className={`${getContainerClasses()} flex items-start justify-between gap-4`}>
         {/* アプリタイトル */}
         <div className="flex-shrink-0">
           <h1 className={`font-bold text-gray-900 ${
@@ -59,7 +61,22 @@ const Header: React.FC = () => {
             </p>
           )}
         </div>
+
+        {/* お試しモードの切り替え（データサービスを切り替えるためページを再読み込みする） */}
+        <a
+          href={getDemoModeUrl(!demoMode)}
+          className="flex-shrink-0 text-sm text-blue-600 hover:text-blue-800 hover:underline"
+        >
+          {demoMode ? '通常モードに戻る' : 'お試しモード'}
+        </a>
       </div>
+
+      {/* お試しモードの案内 */}
+      {demoMode && (
+        <div className="bg-amber-50 border-t border-amber-200 px-4 py-2 text-center text-sm text-amber-800" role="status">
+          お試しモードで表示しています。サンプルの投稿を自由に編集できますが、変更は保存されずページを閉じると消えます。
+        </div>
+      )}
     </header>
   );
 };
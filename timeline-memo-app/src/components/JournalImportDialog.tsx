@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import {
+  JOURNAL_PARSERS,
+  DEFAULT_JOURNAL_IMPORT_OPTIONS,
+  type JournalFormat,
+  type JournalImportOptions
+} from '../services/journalParsers';
+import type { JournalImportReport } from '../services/JournalImportService';
+
+interface JournalImportDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** 最後に取り込んだ結果（取り込んでいない場合はnull） */
+  report: JournalImportReport | null;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 取り込むファイルを選択した時のコールバック */
+  onImport: (files: File[], format: JournalFormat | 'auto', options: JournalImportOptions) => Promise<boolean>;
+  /** 結果を消す時のコールバック（閉じる時・別のファイルを取り込む時） */
+  onClearReport: () => void;
+}
+
+// 結果に表示する取り込めなかった記事の件数
+const FAILURE_LIMIT = 10;
+
+/**
+ * 他の日記アプリからの取り込みダイアログコンポーネント
+ * - 形式（自動判定・Day One・Journey・X・LINE・iCalendar・テキスト）を選んでファイルを取り込む
+ * - 返信・写真などを除く設定
+ * - 取り込んだ・スキップした・取り込めなかった記事の件数と、取り込めなかった理由の表示
+ */
+const JournalImportDialog: React.FC<JournalImportDialogProps> = ({
+  isOpen,
+  report,
+  onClose,
+  onImport,
+  onClearReport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<JournalFormat | 'auto'>('auto');
+  const [options, setOptions] = useState<JournalImportOptions>(DEFAULT_JOURNAL_IMPORT_OPTIONS);
+  const [isImporting, setIsImporting] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const accept = format === 'auto'
+    ? Array.from(new Set(JOURNAL_PARSERS.flatMap(parser => parser.accept.split(',')))).join(',')
+    : JOURNAL_PARSERS.find(parser => parser.format === format)?.accept;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // 同じファイルを選び直せるように選択を解除する
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+    onClearReport();
+    setIsImporting(true);
+    try {
+      await onImport(files, format, options);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    onClearReport();
+    onClose();
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      handleClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="journal-import-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 id="journal-import-dialog-title" className="text-lg font-semibold text-gray-900">
+              日記アプリから取り込む
+            </h3>
+            <p className="text-sm text-gray-500">
+              他の日記アプリで書き出したファイルから、元の日時とタグのまま投稿を取り込みます（写真は含まれません）
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="日記アプリからの取り込みを閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* 形式と取り込むファイルの選択 */}
+          <section className="space-y-3">
+            <div>
+              <label htmlFor="journal-import-format" className="block text-sm font-medium text-gray-700 mb-1">
+                ファイルの形式
+              </label>
+              <select
+                id="journal-import-format"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as JournalFormat | 'auto')}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="auto">自動で判定</option>
+                {JOURNAL_PARSERS.map(parser => (
+                  <option key={parser.format} value={parser.format}>{parser.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                テキスト・Markdownは、ファイル名（2024-01-15.mdなど）か本文の日付だけの行から日付を読み取ります
+              </p>
+            </div>
+            <fieldset className="space-y-1">
+              <legend className="sr-only">取り込みの設定</legend>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={options.excludeReplies}
+                  onChange={(e) => setOptions({ ...options, excludeReplies: e.target.checked })}
+                />
+                <span>返信を取り込まない（X）</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={options.excludeMedia}
+                  onChange={(e) => setOptions({ ...options, excludeMedia: e.target.checked })}
+                />
+                <span>写真・動画・スタンプを取り込まない（X・LINE）</span>
+              </label>
+            </fieldset>
+            <div className="flex justify-end">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting}
+                className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isImporting ? '取り込み中...' : 'ファイルを選択'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={accept}
+                onChange={handleFileChange}
+                className="hidden"
+                aria-label="取り込む日記のファイル"
+              />
+            </div>
+          </section>
+
+          {/* 取り込みの結果 */}
+          {report && (
+            <section className="space-y-3 border-t border-gray-200 pt-4" aria-label="取り込みの結果">
+              <h4 className="text-sm font-medium text-gray-900">取り込みの結果</h4>
+              <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                <dt className="text-gray-600">取り込んだ記事</dt>
+                <dd className="text-right text-gray-900">{report.imported}件</dd>
+                <dt className="text-gray-600">スキップ（本文なし・取り込み済み・除外）</dt>
+                <dd className="text-right text-gray-900">{report.skipped}件</dd>
+                <dt className="text-gray-600">取り込めなかった記事</dt>
+                <dd className={`text-right ${report.failed > 0 ? 'text-red-600' : 'text-gray-900'}`}>{report.failed}件</dd>
+              </dl>
+              {report.failures.length > 0 && (
+                <ul className="p-3 space-y-1 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+                  {report.failures.slice(0, FAILURE_LIMIT).map((failure, index) => (
+                    <li key={`${failure.source}-${index}`}>
+                      <span className="font-medium">{failure.source}</span>: {failure.reason}
+                    </li>
+                  ))}
+                  {report.failures.length > FAILURE_LIMIT && (
+                    <li>ほか{report.failures.length - FAILURE_LIMIT}件</li>
+                  )}
+                </ul>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalImportDialog;
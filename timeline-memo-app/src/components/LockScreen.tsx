@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+
+interface LockScreenProps {
+  /** パスフレーズでロックを解除する（正しくない場合はエラーを投げる） */
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+/**
+ * ロック画面
+ * 投稿が暗号化されている場合に、起動時と自動ロック後に表示する
+ * ロック中は投稿を読み込まないため、画面にもメモリにも復号した内容は残らない
+ */
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (passphrase.length === 0 || isUnlocking) {
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : 'ロックを解除できませんでした');
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-md border border-gray-200 max-w-sm w-full p-6 space-y-4"
+        aria-labelledby="lock-screen-title"
+      >
+        <div className="text-center">
+          <div className="text-4xl mb-2" aria-hidden="true">🔒</div>
+          <h1 id="lock-screen-title" className="text-lg font-semibold text-gray-900">
+            ロックされています
+          </h1>
+          <p className="text-sm text-gray-500">
+            投稿は暗号化されています。パスフレーズを入力してください
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="lock-screen-passphrase" className="sr-only">
+            パスフレーズ
+          </label>
+          <input
+            id="lock-screen-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+            autoFocus
+            placeholder="パスフレーズ"
+            disabled={isUnlocking}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {error && (
+            <p className="mt-2 text-sm text-red-700" role="alert">{error}</p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={passphrase.length === 0 || isUnlocking}
+          className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isUnlocking ? '解除しています...' : 'ロックを解除'}
+        </button>
+
+        <p className="text-xs text-gray-500 text-center">
+          パスフレーズを忘れた場合、暗号化された投稿は復元できません
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -1,16 +1,40 @@
-import React, { useCallback, useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect, useMemo } from 'react';
 import Header from './Header';
 import PostListPanel from './PostListPanel';
 import TimelinePanel from './TimelinePanel';
 import DiaryView from './DiaryView';
 import CalendarView from './CalendarView';
 import { ViewModeSelector } from './ViewModeSelector';
+import { SearchBar } from './SearchBar';
 import MotivationPanel from './MotivationPanel';
 import { DiaryStatsPanel } from './DiaryStatsPanel';
+import TrashDialog from './TrashDialog';
+import SyncDialog from './SyncDialog';
+import EncryptionSettingsDialog from './EncryptionSettingsDialog';
+import StorageRecoveryDialog from './StorageRecoveryDialog';
+import BackupDialog from './BackupDialog';
+import MarkdownExportDialog from './MarkdownExportDialog';
+import DiaryBookView from './DiaryBookView';
+import JournalImportDialog from './JournalImportDialog';
+import PostComposeDialog from './PostComposeDialog';
 import { useAppContext } from '../context/AppContext';
 import { useDiary } from '../hooks/useDiary';
 import { useCalendar } from '../hooks/useCalendar';
 import { useStats } from '../hooks/useStats';
+import { useSearch } from '../hooks/useSearch';
+import { useStarredFilter } from '../hooks/useStarredFilter';
+import { useTrash } from '../hooks/useTrash';
+import { useSync } from '../hooks/useSync';
+import { useEncryption } from '../hooks/useEncryption';
+import { useStorageQuota } from '../hooks/useStorageQuota';
+import { useBackup } from '../hooks/useBackup';
+import { useMarkdownExport } from '../hooks/useMarkdownExport';
+import { useJournalImport } from '../hooks/useJournalImport';
+import { useICalendarExport } from '../hooks/useICalendarExport';
+import { useDiaryBook } from '../hooks/useDiaryBook';
+import { usePostUpdates } from '../hooks/usePostUpdates';
+import { getMonthDateRange } from '../utils/markdownExportUtils';
+import { groupSearchResultsByDate, filterCalendarDaysBySearch } from '../utils/searchUtils';
 import type { ViewMode, DateRange } from '../types';
 
 interface MainLayoutProps {
@@ -28,22 +52,95 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
   
   // 日記機能用のhooks
   const { 
-    diaryEntries, 
+    diaryEntries: allDiaryEntries, 
+    hasMoreDiaryEntries,
+    loadMoreDiaryEntries,
     applyDateRangeFilter 
   } = useDiary();
   const { 
     currentYear, 
     currentMonth, 
-    calendarData,
+    calendarData: allCalendarData,
     goToMonth 
   } = useCalendar();
   const { 
     stats, 
     isLoading: statsLoading 
   } = useStats();
-  
+
+  // 全文検索（検索中は全ビューモードの表示を検索結果で絞り込む）
+  const {
+    searchQuery,
+    searchResults,
+    isSearching,
+    setSearchQuery,
+    clearSearch
+  } = useSearch();
+
+  // スター付きのみの絞り込み（全文検索と同様に全ビューモードの表示を絞り込む）
+  // 絞り込んだ投稿はここで1回だけ取得し、各パネルに渡す
+  const { showStarredOnly, filteredPosts, setShowStarredOnly } = useStarredFilter();
+
+  // ゴミ箱（起動時に保持期間を過ぎた投稿を自動で完全削除する）
+  const {
+    trashedPosts,
+    retentionDays,
+    isLoading: trashLoading,
+    loadTrashedPosts,
+    restorePost: restoreTrashedPost,
+    purgePost,
+    emptyTrash,
+    changeRetentionDays
+  } = useTrash();
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+
+  // 同期サーバーとの同期（設定されている場合は起動時と一定間隔で自動的に同期する）
+  const sync = useSync({ autoSync: true });
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+
+  // 投稿の暗号化
+  const encryption = useEncryption();
+  const [isEncryptionOpen, setIsEncryptionOpen] = useState(false);
+
+  // 保存容量の確認（容量不足で保存できなかった場合は自動で開く）
+  const storageQuota = useStorageQuota();
+
+  // 投稿のバックアップ（書き出しと取り込み）
+  const backup = useBackup();
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+
+  // 日記のMarkdown形式での書き出し
+  const markdownExport = useMarkdownExport();
+  const [isMarkdownExportOpen, setIsMarkdownExportOpen] = useState(false);
+
+  // 日記の本（印刷用の表示）。開いた時の日記ビューの絞り込み範囲を初期値にする
+  const diaryBook = useDiaryBook();
+  const { loadBook: loadDiaryBook, closeBook: closeDiaryBook } = diaryBook;
+  const [isDiaryBookOpen, setIsDiaryBookOpen] = useState(false);
+  const [diaryBookInitialRange, setDiaryBookInitialRange] = useState<DateRange | null>(null);
+
+  // 表示中の月の投稿のiCalendar形式での書き出し
+  const icalendarExport = useICalendarExport();
+
+  // 他の日記アプリからの取り込み
+  const journalImport = useJournalImport();
+  const [isJournalImportOpen, setIsJournalImportOpen] = useState(false);
+
+  // 他のタブでの投稿の作成・更新・削除を反映
+  usePostUpdates();
+
   // 日付フィルタリング用の状態
   const [currentDateRange, setCurrentDateRange] = useState<DateRange | null>(null);
+
+  const diaryEntries = useMemo(
+    () => filteredPosts ? groupSearchResultsByDate(filteredPosts, currentDateRange) : allDiaryEntries,
+    [allDiaryEntries, filteredPosts, currentDateRange]
+  );
+
+  const calendarData = useMemo(
+    () => filterCalendarDaysBySearch(allCalendarData, filteredPosts),
+    [allCalendarData, filteredPosts]
+  );
   
   // 画面サイズの状態管理
   const [screenSize, setScreenSize] = useState<'mobile' | 'tablet' | 'desktop'>('desktop');
@@ -121,6 +218,17 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
     dispatch({ type: 'SET_SELECTED_DATE', payload: date });
   }, [dispatch]);
 
+  // 選択した日の投稿作成（カレンダー・日記ビュー用）
+  const [composeDate, setComposeDate] = useState<Date | null>(null);
+
+  const handleComposeForDate = useCallback((date: Date) => {
+    setComposeDate(date);
+  }, []);
+
+  const handleComposeClose = useCallback(() => {
+    setComposeDate(null);
+  }, []);
+
   // 月変更ハンドラー（カレンダービュー用）
   const handleMonthChange = useCallback((year: number, month: number) => {
     goToMonth(year, month);
@@ -131,6 +239,69 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
     setCurrentDateRange(range);
     await applyDateRangeFilter(range);
   }, [applyDateRangeFilter]);
+  // ゴミ箱を開く（開くたびに最新の内容を読み込む）
+  const handleTrashOpen = useCallback(() => {
+    setIsTrashOpen(true);
+    loadTrashedPosts();
+  }, [loadTrashedPosts]);
+
+  const handleTrashClose = useCallback(() => {
+    setIsTrashOpen(false);
+  }, []);
+
+  const handleSyncOpen = useCallback(() => {
+    setIsSyncOpen(true);
+  }, []);
+
+  const handleSyncClose = useCallback(() => {
+    setIsSyncOpen(false);
+  }, []);
+
+  const handleEncryptionOpen = useCallback(() => {
+    setIsEncryptionOpen(true);
+  }, []);
+
+  const handleEncryptionClose = useCallback(() => {
+    setIsEncryptionOpen(false);
+  }, []);
+
+  const handleBackupOpen = useCallback(() => {
+    setIsBackupOpen(true);
+  }, []);
+
+  const handleBackupClose = useCallback(() => {
+    setIsBackupOpen(false);
+  }, []);
+
+  const handleMarkdownExportOpen = useCallback(() => {
+    setIsMarkdownExportOpen(true);
+  }, []);
+
+  const handleMarkdownExportClose = useCallback(() => {
+    setIsMarkdownExportOpen(false);
+  }, []);
+
+  const handleDiaryBookOpen = useCallback((range: DateRange | null) => {
+    // 絞り込んでいない場合は選択中の日（なければ今日）の月を本にする
+    const baseDate = selectedDate ? new Date(selectedDate) : new Date();
+    setDiaryBookInitialRange(range);
+    setIsDiaryBookOpen(true);
+    void loadDiaryBook(range ?? getMonthDateRange(baseDate.getFullYear(), baseDate.getMonth() + 1));
+  }, [selectedDate, loadDiaryBook]);
+
+  const handleDiaryBookClose = useCallback(() => {
+    setIsDiaryBookOpen(false);
+    closeDiaryBook();
+  }, [closeDiaryBook]);
+
+  const handleJournalImportOpen = useCallback(() => {
+    setIsJournalImportOpen(true);
+  }, []);
+
+  const handleJournalImportClose = useCallback(() => {
+    setIsJournalImportOpen(false);
+  }, []);
+
   // レイアウトクラスの動的生成
   const getLayoutClasses = () => {
     const baseClasses = "min-h-screen bg-gray-50";
@@ -189,6 +360,95 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
               currentMode={viewMode}
               onModeChange={handleViewModeChange}
             />
+            <div className="mt-4 flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <SearchBar
+                  query={searchQuery}
+                  onQueryChange={setSearchQuery}
+                  onClear={clearSearch}
+                  resultCount={searchResults ? searchResults.length : null}
+                  isSearching={isSearching}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowStarredOnly(!showStarredOnly)}
+                className={`flex-shrink-0 px-3 py-2 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  showStarredOnly
+                    ? 'text-amber-800 bg-amber-50 border-amber-300 hover:bg-amber-100'
+                    : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+                aria-pressed={showStarredOnly}
+                title="スター付きの投稿のみ表示"
+              >
+                {showStarredOnly ? '★' : '☆'} スター付きのみ
+              </button>
+              <button
+                type="button"
+                onClick={handleTrashOpen}
+                className="flex-shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="ゴミ箱を開く"
+              >
+                🗑️ ゴミ箱
+              </button>
+              {sync.isAvailable && (
+                <button
+                  type="button"
+                  onClick={handleSyncOpen}
+                  className="relative flex-shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={
+                    sync.conflicts.length > 0
+                      ? `同期を開く（競合${sync.conflicts.length}件）`
+                      : sync.failedCount > 0 ? `同期を開く（送信失敗${sync.failedCount}件）` : '同期を開く'
+                  }
+                >
+                  🔄 同期
+                  {sync.conflicts.length > 0 ? (
+                    <span className="absolute -top-2 -right-2 min-w-[1.25rem] px-1 text-xs font-medium text-white bg-amber-600 rounded-full">
+                      {sync.conflicts.length}
+                    </span>
+                  ) : sync.failedCount > 0 && (
+                    <span className="absolute -top-2 -right-2 min-w-[1.25rem] px-1 text-xs font-medium text-white bg-red-600 rounded-full">
+                      {sync.failedCount}
+                    </span>
+                  )}
+                </button>
+              )}
+              {encryption.isAvailable && (
+                <button
+                  type="button"
+                  onClick={handleEncryptionOpen}
+                  className="flex-shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="暗号化の設定を開く"
+                >
+                  {encryption.isEnabled ? '🔒 暗号化' : '🔓 暗号化'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleBackupOpen}
+                className="flex-shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="バックアップを開く"
+              >
+                📦 バックアップ
+              </button>
+              <button
+                type="button"
+                onClick={handleJournalImportOpen}
+                className="flex-shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="日記アプリからの取り込みを開く"
+              >
+                📥 取り込み
+              </button>
+              <button
+                type="button"
+                onClick={storageQuota.openRecovery}
+                className="flex-shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="保存容量を確認する"
+              >
+                💾 保存容量
+              </button>
+            </div>
           </div>
         </div>
 
@@ -217,6 +477,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                         onPostSelect={handlePostSelect}
                         onScrollChange={handleScrollChange}
                         onHighlightChange={handleHighlightChange}
+                        filteredPosts={filteredPosts}
                       />
                     </div>
                   </div>
@@ -232,6 +493,9 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                       onPostSelect={handlePostSelect}
                       onScrollChange={handleScrollChange}
                       onHighlightChange={handleHighlightChange}
+                      filteredPosts={filteredPosts}
+                      showStarredOnly={showStarredOnly}
+                      onShowStarredOnlyChange={setShowStarredOnly}
                     />
                   </div>
                 </div>
@@ -251,6 +515,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                         onPostSelect={handlePostSelect}
                         onScrollChange={handleScrollChange}
                         onHighlightChange={handleHighlightChange}
+                        filteredPosts={filteredPosts}
                       />
                     </div>
                   </div>
@@ -264,6 +529,9 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                       onPostSelect={handlePostSelect}
                       onScrollChange={handleScrollChange}
                       onHighlightChange={handleHighlightChange}
+                      filteredPosts={filteredPosts}
+                      showStarredOnly={showStarredOnly}
+                      onShowStarredOnlyChange={setShowStarredOnly}
                     />
                   </div>
                 </div>
@@ -290,6 +558,11 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                       showDateFilter={true}
                       onDateRangeChange={handleDateRangeChange}
                       currentDateRange={currentDateRange}
+                      hasMore={hasMoreDiaryEntries && !filteredPosts}
+                      onLoadMore={loadMoreDiaryEntries}
+                      onComposeForDate={handleComposeForDate}
+                      onExportMarkdown={handleMarkdownExportOpen}
+                      onOpenBook={handleDiaryBookOpen}
                     />
                   </div>
                 </div>
@@ -345,6 +618,11 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                       showDateFilter={true}
                       onDateRangeChange={handleDateRangeChange}
                       currentDateRange={currentDateRange}
+                      hasMore={hasMoreDiaryEntries && !filteredPosts}
+                      onLoadMore={loadMoreDiaryEntries}
+                      onComposeForDate={handleComposeForDate}
+                      onExportMarkdown={handleMarkdownExportOpen}
+                      onOpenBook={handleDiaryBookOpen}
                     />
                   </div>
                 </div>
@@ -364,11 +642,133 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 selectedDate={selectedDate || undefined}
                 onDateClick={handleDateSelect}
                 onMonthChange={handleMonthChange}
+                onComposeForDate={handleComposeForDate}
+                onExportMonth={icalendarExport.exportMonth}
               />
             </div>
           </div>
         )}
         
+        {/* ゴミ箱ダイアログ */}
+        <TrashDialog
+          isOpen={isTrashOpen}
+          trashedPosts={trashedPosts}
+          retentionDays={retentionDays}
+          isLoading={trashLoading}
+          onClose={handleTrashClose}
+          onRestore={restoreTrashedPost}
+          onPurge={purgePost}
+          onEmptyTrash={emptyTrash}
+          onRetentionDaysChange={changeRetentionDays}
+        />
+
+        {/* 同期ダイアログ */}
+        <SyncDialog
+          isOpen={isSyncOpen}
+          status={sync.status}
+          settings={sync.settings}
+          lastSyncedAt={sync.lastSyncedAt}
+          lastError={sync.lastError}
+          pendingCount={sync.pendingCount}
+          failedCount={sync.failedCount}
+          nextRetryAt={sync.nextRetryAt}
+          isOnline={sync.isOnline}
+          conflicts={sync.conflicts}
+          onClose={handleSyncClose}
+          onSaveSettings={sync.updateSettings}
+          onSyncNow={sync.syncNow}
+          onRetryAll={sync.retryAll}
+          onResolveConflict={sync.resolveConflict}
+        />
+
+        {/* 暗号化の設定ダイアログ */}
+        <EncryptionSettingsDialog
+          isOpen={isEncryptionOpen}
+          isEnabled={encryption.isEnabled}
+          autoLockMinutes={encryption.autoLockMinutes}
+          onClose={handleEncryptionClose}
+          onEnable={encryption.enable}
+          onChangePassphrase={encryption.changePassphrase}
+          onDisable={encryption.disable}
+          onAutoLockMinutesChange={encryption.setAutoLockMinutes}
+          onLock={encryption.lock}
+        />
+
+        {/* バックアップダイアログ */}
+        <BackupDialog
+          isOpen={isBackupOpen}
+          pendingFileName={backup.pendingFileName}
+          pendingIssues={backup.pendingIssues}
+          importPlan={backup.importPlan}
+          mergeStrategy={backup.mergeStrategy}
+          onClose={handleBackupClose}
+          onExport={backup.exportBackup}
+          onSelectFile={backup.selectImportFile}
+          onMergeStrategyChange={backup.setMergeStrategy}
+          onConfirmImport={backup.confirmImport}
+          onCancelImport={backup.cancelImport}
+        />
+
+        {/* 日記アプリからの取り込みダイアログ */}
+        <JournalImportDialog
+          isOpen={isJournalImportOpen}
+          report={journalImport.report}
+          onClose={handleJournalImportClose}
+          onImport={journalImport.importFiles}
+          onClearReport={journalImport.clearReport}
+        />
+
+        {/* 日記のMarkdown書き出しダイアログ（開くたびに選択中の日・絞り込み中の範囲で初期化する） */}
+        {isMarkdownExportOpen && (
+          <MarkdownExportDialog
+            isOpen={true}
+            initialDate={selectedDate ? new Date(selectedDate) : new Date()}
+            initialRange={currentDateRange}
+            onClose={handleMarkdownExportClose}
+            onExportMonth={markdownExport.exportMonth}
+            onExportDateRange={markdownExport.exportDateRange}
+          />
+        )}
+
+        {/* 日記の本（開くたびに選択中の日・絞り込み中の範囲で初期化する） */}
+        {isDiaryBookOpen && (
+          <DiaryBookView
+            initialDate={selectedDate ? new Date(selectedDate) : new Date()}
+            initialRange={diaryBookInitialRange}
+            book={diaryBook.book}
+            appendix={diaryBook.appendix}
+            isLoading={diaryBook.isLoading}
+            onLoad={diaryBook.loadBook}
+            onClose={handleDiaryBookClose}
+          />
+        )}
+
+        {/* 保存容量の確認ダイアログ */}
+        <StorageRecoveryDialog
+          isOpen={storageQuota.recovery !== null}
+          failedOperation={storageQuota.recovery?.operation ?? null}
+          unsavedContent={storageQuota.recovery?.unsavedContent ?? null}
+          dataUsage={storageQuota.dataUsage}
+          estimate={storageQuota.estimate}
+          isPersisted={storageQuota.isPersisted}
+          isLoading={storageQuota.isLoading}
+          onClose={storageQuota.closeRecovery}
+          onExport={backup.exportBackup}
+          onEmptyTrash={emptyTrash}
+          onPurgeOrphanAttachments={storageQuota.canPurgeAttachments ? storageQuota.purgeOrphanAttachments : undefined}
+          onClearCaches={storageQuota.clearCaches}
+          onRequestPersist={storageQuota.requestPersist}
+          onRefresh={storageQuota.refreshUsage}
+        />
+        
+        {/* 選択した日の投稿作成ダイアログ */}
+        {composeDate && (
+          <PostComposeDialog
+            date={composeDate}
+            onClose={handleComposeClose}
+          />
+        )}
+        
         {/* 子コンポーネント（モーダルなど） */}
         {children}
       </main>
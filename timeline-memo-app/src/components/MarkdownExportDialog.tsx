@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { DateRangeFilter } from './DateRangeFilter';
+import { toDateInputValue } from '../utils/dateUtils';
+import type { DateRange } from '../types';
+
+interface MarkdownExportDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** 初めに選択しておく月に含まれる日 */
+  initialDate: Date;
+  /** 初めに選択しておく日付範囲（日記ビューで絞り込んでいる範囲） */
+  initialRange?: DateRange | null;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 月を指定して書き出す時のコールバック */
+  onExportMonth: (year: number, month: number) => Promise<boolean>;
+  /** 日付範囲を指定して書き出す時のコールバック */
+  onExportDateRange: (range: DateRange) => Promise<boolean>;
+}
+
+type ExportScope = 'month' | 'range';
+
+// 月の入力欄（input type="month"）の値（YYYY-MM）
+const toMonthInputValue = (date: Date) => toDateInputValue(date).slice(0, 7);
+
+/**
+ * 日記のMarkdown書き出しダイアログコンポーネント
+ * - 月または日付範囲を指定し、1日1ファイルのMarkdownをZIPにまとめて書き出す
+ */
+const MarkdownExportDialog: React.FC<MarkdownExportDialogProps> = ({
+  isOpen,
+  initialDate,
+  initialRange = null,
+  onClose,
+  onExportMonth,
+  onExportDateRange
+}) => {
+  const [scope, setScope] = useState<ExportScope>(initialRange ? 'range' : 'month');
+  const [monthValue, setMonthValue] = useState(toMonthInputValue(initialDate));
+  const [range, setRange] = useState<DateRange | null>(initialRange);
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const canExport = scope === 'month' ? /^\d{4}-\d{2}$/.test(monthValue) : range !== null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      let exported = false;
+      if (scope === 'month') {
+        const [year, month] = monthValue.split('-').map(Number);
+        exported = await onExportMonth(year, month);
+      } else if (range) {
+        exported = await onExportDateRange(range);
+      }
+      if (exported) {
+        onClose();
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="markdown-export-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 id="markdown-export-dialog-title" className="text-lg font-semibold text-gray-900">
+              Markdownで書き出す
+            </h3>
+            <p className="text-sm text-gray-500">
+              1日分の日記を1つのMarkdownファイルにし、ZIPファイルにまとめてダウンロードします
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Markdownの書き出しを閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <fieldset className="flex space-x-4">
+            <legend className="sr-only">書き出す期間</legend>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="radio" name="markdown-export-scope" checked={scope === 'month'} onChange={() => setScope('month')} />
+              <span>月を指定</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="radio" name="markdown-export-scope" checked={scope === 'range'} onChange={() => setScope('range')} />
+              <span>期間を指定</span>
+            </label>
+          </fieldset>
+
+          {scope === 'month' ? (
+            <div>
+              <label htmlFor="markdown-export-month" className="block text-sm font-medium text-gray-700 mb-1">
+                書き出す月
+              </label>
+              <input
+                id="markdown-export-month"
+                type="month"
+                value={monthValue}
+                onChange={(e) => setMonthValue(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ) : (
+            <DateRangeFilter
+              onDateRangeChange={setRange}
+              onClear={() => setRange(null)}
+              currentRange={range}
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!canExport || isExporting}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isExporting ? '書き出し中...' : 'ZIPで書き出す'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownExportDialog;
@@ -0,0 +1,69 @@
+import React, { useCallback } from 'react';
+import { PostForm } from './PostForm';
+import { usePosts } from '../hooks/usePosts';
+import { useErrorHandler } from '../hooks/useErrorHandler';
+import { useAttachments } from '../hooks/useAttachments';
+import type { CreatePostInput } from '../types';
+
+interface PostComposeDialogProps {
+  /** 投稿する日（カレンダー・日記ビューで選択した日） */
+  date: Date;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+}
+
+/**
+ * 日付を指定した投稿作成ダイアログコンポーネント
+ * カレンダー・日記ビューで選択した日の投稿を書くために使用する（投稿日時は選択した日で入力済み）
+ */
+const PostComposeDialog: React.FC<PostComposeDialogProps> = ({ date, onClose }) => {
+  const { createPost } = usePosts();
+  const { showSuccess } = useErrorHandler();
+  const { isAvailable: canAttachImages, uploadImages } = useAttachments();
+
+  const handleSubmit = useCallback(async (input: CreatePostInput) => {
+    const newPost = await createPost(input);
+    if (newPost) {
+      const dateLabel = new Intl.DateTimeFormat('ja-JP', { month: 'long', day: 'numeric' }).format(newPost.createdAt);
+      showSuccess('投稿を作成しました', `${dateLabel}の投稿として保存しました`);
+      onClose();
+    }
+    return Boolean(newPost);
+  }, [createPost, showSuccess, onClose]);
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-label="選択した日の投稿を作成"
+    >
+      <div className="max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <PostForm
+          onSubmit={handleSubmit}
+          onCancel={onClose}
+          initialCreatedAt={date}
+          onAttachImages={canAttachImages ? uploadImages : undefined}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PostComposeDialog;
@@ -1,39 +1,162 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import type { CreatePostInput } from '../types';
+import { sanitizeTags, validatePostDate } from '../utils/validationUtils';
+import { ALLOWED_ATTACHMENT_TYPES } from '../utils/attachmentUtils';
+import { toDateInputValue, toTimeInputValue, fromDateTimeInputValues } from '../utils/dateUtils';
 
 interface PostFormProps {
-  onSubmit: (content: string) => void;
+  onSubmit: (input: CreatePostInput) => void | boolean | Promise<void | boolean>; // 保存できなかった場合はfalseを返す（入力内容を残す）
   onCancel?: () => void;
   initialContent?: string;
+  initialTags?: string[];
+  initialCreatedAt?: Date; // 投稿日時（編集時は投稿の日時、新規作成時はカレンダーなどで選択した日）
   isEditing?: boolean;
+  isDeletedElsewhere?: boolean; // 編集中の投稿が他のタブで削除された
+  onAttachImages?: (files: File[]) => Promise<string[]>; // 画像を保存し、本文に挿入するMarkdownを返す（省略時は添付できない）
 }
 
 /**
  * 投稿作成・編集フォームコンポーネント
+ * 画像は貼り付け・ドラッグ&ドロップ・ファイル選択で添付でき、カーソル位置に挿入される
+ * 投稿日時を指定して過去の日付で書くことや、投稿の日時を変更することができる
  */
-export function PostForm({ 
-  onSubmit, 
-  onCancel, 
-  initialContent = '', 
-  isEditing = false 
+export function PostForm({
+  onSubmit,
+  onCancel,
+  initialContent = '',
+  initialTags = [],
+  initialCreatedAt,
+  isEditing = false,
+  isDeletedElsewhere = false,
+  onAttachImages
 }: PostFormProps) {
   const [content, setContent] = useState(initialContent);
+  const [tags, setTags] = useState<string[]>(() => sanitizeTags(initialTags));
+  const [tagInput, setTagInput] = useState('');
+  // 投稿日時の入力値（新規作成時の時刻は未入力とし、投稿時の時刻を使う）
+  const [initialDateValue] = useState(() => (initialCreatedAt ? toDateInputValue(initialCreatedAt) : ''));
+  const [initialTimeValue] = useState(() => (initialCreatedAt && isEditing ? toTimeInputValue(initialCreatedAt) : ''));
+  const [dateValue, setDateValue] = useState(initialDateValue);
+  const [timeValue, setTimeValue] = useState(initialTimeValue);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 入力中のタグを確定してタグ一覧に追加
+  const commitTagInput = (): string[] => {
+    if (!tagInput.trim()) {
+      return tags;
+    }
+    const nextTags = sanitizeTags([...tags, ...tagInput.split(/[,、]/)]);
+    setTags(nextTags);
+    setTagInput('');
+    return nextTags;
+  };
+
+  // 添付した画像のMarkdownをカーソル位置に挿入（前後の文章とは行を分ける）
+  const insertAtCursor = (text: string) => {
+    const textarea = textareaRef.current;
+    setContent(prev => {
+      const start = textarea ? textarea.selectionStart : prev.length;
+      const end = textarea ? textarea.selectionEnd : prev.length;
+      const before = prev.slice(0, start);
+      const after = prev.slice(end);
+      const prefix = before.length > 0 && !before.endsWith('\n') ? '\n' : '';
+      const suffix = after.startsWith('\n') ? '' : '\n';
+      return `${before}${prefix}${text}${suffix}${after}`;
+    });
+  };
+
+  // 画像ファイルを添付する（画像以外のファイルは無視する）
+  const attachFiles = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (!onAttachImages || images.length === 0) {
+      return;
+    }
+
+    setIsAttaching(true);
+    try {
+      const snippets = await onAttachImages(images);
+      if (snippets.length > 0) {
+        insertAtCursor(snippets.join('\n'));
+      }
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    // 画像を含まない貼り付け（文章など）は通常どおり扱う
+    if (onAttachImages && files.some(file => file.type.startsWith('image/'))) {
+      e.preventDefault();
+      attachFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (onAttachImages && Array.from(e.dataTransfer.types).includes('Files')) {
+      e.preventDefault();
+      setIsDragOver(true);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    if (onAttachImages && e.dataTransfer.files.length > 0) {
+      e.preventDefault();
+      attachFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // 同じファイルを続けて選択できるようにする
+    attachFiles(files);
+  };
+
+  // 指定された投稿日時（日付が未入力の場合や、編集時に変更していない場合はundefined）
+  const isDateTimeChanged = dateValue !== initialDateValue || timeValue !== initialTimeValue;
+  const shouldSubmitCreatedAt = dateValue !== '' && (!isEditing || isDateTimeChanged);
+  const selectedCreatedAt = shouldSubmitCreatedAt ? fromDateTimeInputValues(dateValue, timeValue) : null;
+  const dateTimeError = !shouldSubmitCreatedAt
+    ? null
+    : selectedCreatedAt ? validatePostDate(selectedCreatedAt) : '投稿日時が無効です';
+
+  const handleRemoveTag = (tagToRemove: string) => {
+    setTags(tags.filter(tag => tag !== tagToRemove));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     console.log('PostForm.handleSubmit 開始:', content);
-    
+
     if (!content.trim()) {
       console.log('PostForm: コンテンツが空のため送信をスキップ');
       return;
     }
 
+    if (dateTimeError) {
+      return;
+    }
+    // 時刻が未入力の場合に投稿時の時刻を使うため、送信時に改めて作成する
+    const createdAt = shouldSubmitCreatedAt ? fromDateTimeInputValues(dateValue, timeValue) : null;
+
+    // 確定されていないタグ入力も送信対象に含める
+    const submitTags = commitTagInput();
+
     setIsSubmitting(true);
     try {
       console.log('PostForm: onSubmit 呼び出し:', content.trim());
-      await onSubmit(content.trim());
-      if (!isEditing) {
+      const saved = await onSubmit({ content: content.trim(), tags: submitTags, ...(createdAt && { createdAt }) });
+      // 容量不足などで保存できなかった場合は、書いた内容を失わないようにクリアしない
+      if (!isEditing && saved !== false) {
         setContent(''); // 新規作成の場合のみクリア
+        setTags([]);
+        setDateValue(initialDateValue);
+        setTimeValue(initialTimeValue);
       }
       console.log('PostForm: 送信完了');
     } catch (error) {
@@ -50,37 +173,182 @@ export function PostForm({
     }
   };
 
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // IME変換中のEnterはタグ確定として扱わない
+    if (e.nativeEvent.isComposing) {
+      return;
+    }
+
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+      handleSubmit(e);
+      return;
+    }
+
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitTagInput();
+    } else if (e.key === 'Backspace' && tagInput === '' && tags.length > 0) {
+      // 入力が空の状態でBackspaceを押すと最後のタグを削除
+      setTags(tags.slice(0, -1));
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">
         {isEditing ? '📝 投稿を編集' : '✍️ 新しい投稿'}
       </h3>
-      
+
+      {isEditing && isDeletedElsewhere && (
+        <div className="mb-4 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md" role="alert">
+          この投稿は別のタブで削除されました。編集中の内容を残す場合は、新しい投稿として保存してください。
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
             内容
           </label>
           <textarea
+            ref={textareaRef}
             id="content"
             value={content}
             onChange={(e) => setContent(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
             placeholder="今日はどんな一日でしたか？"
             rows={6}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none ${
+              isDragOver ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+            }`}
             disabled={isSubmitting}
           />
           <div className="flex justify-between items-center mt-2">
-            <p className="text-xs text-gray-500">
-              Ctrl+Enter で投稿
-            </p>
+            <div className="flex items-center gap-3">
+              <p className="text-xs text-gray-500">
+                Ctrl+Enter で投稿
+              </p>
+              {onAttachImages && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isSubmitting || isAttaching}
+                    className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    title="画像は貼り付けやドラッグ&ドロップでも添付できます"
+                  >
+                    {isAttaching ? '画像を添付中...' : '🖼️ 画像を添付'}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                    multiple
+                    onChange={handleFileChange}
+                    className="hidden"
+                    aria-label="添付する画像を選択"
+                  />
+                </>
+              )}
+            </div>
             <p className="text-xs text-gray-500">
               {content.length} 文字
             </p>
           </div>
         </div>
 
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+            タグ
+          </label>
+          <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+            {tags.map(tag => (
+              <span
+                key={tag}
+                className="inline-flex items-center px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-full"
+              >
+                #{tag}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveTag(tag)}
+                  disabled={isSubmitting}
+                  className="ml-1 text-blue-400 hover:text-blue-700 disabled:opacity-50"
+                  aria-label={`タグ「${tag}」を削除`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              id="tags"
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={handleTagKeyDown}
+              onBlur={commitTagInput}
+              placeholder={tags.length === 0 ? '仕事, 読書 など' : ''}
+              className="flex-1 min-w-24 text-sm focus:outline-none"
+              disabled={isSubmitting || tags.length >= 10}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Enter またはカンマでタグを追加（最大10個）
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="post-date" className="block text-sm font-medium text-gray-700 mb-2">
+            投稿日時
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              id="post-date"
+              type="date"
+              value={dateValue}
+              max={toDateInputValue(new Date())}
+              onChange={(e) => setDateValue(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isSubmitting}
+            />
+            <input
+              type="time"
+              value={timeValue}
+              onChange={(e) => setTimeValue(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="投稿時刻"
+              disabled={isSubmitting || dateValue === ''}
+            />
+            {!isEditing && dateValue !== '' && (
+              <button
+                type="button"
+                onClick={() => {
+                  setDateValue('');
+                  setTimeValue('');
+                }}
+                disabled={isSubmitting}
+                className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                現在の日時にする
+              </button>
+            )}
+          </div>
+          {dateTimeError ? (
+            <p className="text-xs text-red-700 mt-2" role="alert">{dateTimeError}</p>
+          ) : (
+            <p className="text-xs text-gray-500 mt-2">
+              {isEditing
+                ? '日時を変更すると、日記やカレンダーでは変更後の日付に表示されます'
+                : dateValue === ''
+                  ? '未入力の場合は現在の日時で投稿します'
+                  : '時刻が未入力の場合は投稿時の時刻を使います'}
+            </p>
+          )}
+        </div>
+
         <div className="flex justify-end space-x-3">
           {onCancel && (
             <button
@@ -94,7 +362,7 @@ export function PostForm({
           )}
           <button
             type="submit"
-            disabled={!content.trim() || isSubmitting}
+            disabled={!content.trim() || isSubmitting || isAttaching || dateTimeError !== null}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
           >
             {isSubmitting ? (
@@ -103,11 +371,11 @@ export function PostForm({
                 {isEditing ? '更新中...' : '投稿中...'}
               </span>
             ) : (
-              isEditing ? '更新' : '投稿'
+              isEditing ? (isDeletedElsewhere ? '新しい投稿として保存' : '更新') : '投稿'
             )}
           </button>
         </div>
       </form>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,6 +1,10 @@
-import React, { memo, useMemo, useCallback } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { memo, useMemo, useCallback, useState } from 'react';
+import { createPortal } from 'react-dom';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import RevisionHistoryDialog from './RevisionHistoryDialog';
+import AttachmentImage from './AttachmentImage';
 import { isUrlSafe } from '../utils/securityUtils';
+import { getAttachmentId, isAttachmentUrl } from '../utils/attachmentUtils';
 import type { PostItemProps } from '../types';
 
 interface ExtendedPostItemProps extends PostItemProps {
@@ -8,22 +12,41 @@ interface ExtendedPostItemProps extends PostItemProps {
   isTouchDevice?: boolean;
 }
 
+// 添付画像のURL（attachment://）は既定の変換で除去されるため、そのまま残す
+const urlTransform = (url: string): string => (isAttachmentUrl(url) ? url : defaultUrlTransform(url));
+
 /**
  * 個別投稿表示コンポーネント
  * Markdownレンダリング、編集・削除ボタンを含む
  * レスポンシブデザインとタッチデバイス対応
+ * 編集済みの投稿は「編集済み」バッジから編集履歴を表示できる
+ * 同期サーバーに送信していない投稿には「未送信」「送信失敗」バッジを表示する
+ * 添付画像（attachment://）はサムネイルで表示する
+ * 複数選択モードではチェックボックスを表示し、クリックで選択を切り替える
+ * スター（☆/★）とピン留め（📌）を切り替えられる
  * 要件2.1, 2.2, 6.1, 6.2, 6.3に対応
  */
 const PostItem: React.FC<ExtendedPostItemProps> = ({
   post,
   isSelected = false,
   isHighlighted = false,
+  syncStatus,
   onSelect,
   onEdit,
   onDelete,
+  onTagClick,
+  isChecked = false,
+  onToggleCheck,
+  onTogglePin,
+  onToggleStar,
   isMobile = false,
   isTouchDevice = false
 }) => {
+  const [isRevisionHistoryOpen, setIsRevisionHistoryOpen] = useState(false);
+
+  // 作成後に編集されたかどうか
+  const isEdited = Boolean(post.updatedAt) && new Date(post.updatedAt).getTime() !== new Date(post.createdAt).getTime();
+
   // 投稿時刻のフォーマット（レスポンシブ対応）- useMemoでメモ化
   const formatDateTime = useMemo(() => {
     const options: Intl.DateTimeFormatOptions = isMobile 
@@ -47,11 +70,14 @@ const PostItem: React.FC<ExtendedPostItemProps> = ({
   }, [isMobile]);
 
   // 投稿選択ハンドラー - useCallbackでメモ化
+  // 複数選択モードでは投稿の選択の代わりにチェックを切り替える
   const handleClick = useCallback(() => {
-    if (onSelect) {
+    if (onToggleCheck) {
+      onToggleCheck(post.id);
+    } else if (onSelect) {
       onSelect(post.id);
     }
-  }, [onSelect, post.id]);
+  }, [onToggleCheck, onSelect, post.id]);
 
   // 編集ボタンハンドラー - useCallbackでメモ化
   const handleEdit = useCallback((e: React.MouseEvent) => {
@@ -69,6 +95,40 @@ const PostItem: React.FC<ExtendedPostItemProps> = ({
     }
   }, [onDelete, post.id]);
 
+  // スターボタンハンドラー - useCallbackでメモ化
+  const handleToggleStar = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation(); // 親のクリックイベントを防ぐ
+    if (onToggleStar) {
+      onToggleStar(post);
+    }
+  }, [onToggleStar, post]);
+
+  // ピン留めボタンハンドラー - useCallbackでメモ化
+  const handleTogglePin = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation(); // 親のクリックイベントを防ぐ
+    if (onTogglePin) {
+      onTogglePin(post);
+    }
+  }, [onTogglePin, post]);
+
+  // 編集済みバッジハンドラー（編集履歴を開く） - useCallbackでメモ化
+  const handleRevisionHistoryOpen = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation(); // 親のクリックイベントを防ぐ
+    setIsRevisionHistoryOpen(true);
+  }, []);
+
+  const handleRevisionHistoryClose = useCallback(() => {
+    setIsRevisionHistoryOpen(false);
+  }, []);
+
+  // タグクリックハンドラー - useCallbackでメモ化
+  const handleTagClick = useCallback((e: React.MouseEvent, tag: string) => {
+    e.stopPropagation(); // 親のクリックイベントを防ぐ
+    if (onTagClick) {
+      onTagClick(tag);
+    }
+  }, [onTagClick]);
+
   // レスポンシブ対応のスタイル計算 - useMemoでメモ化
   const articleClasses = useMemo(() => {
     const baseClasses = "group border border-gray-200 rounded-lg cursor-pointer transition-all duration-200";
@@ -77,165 +137,285 @@ const PostItem: React.FC<ExtendedPostItemProps> = ({
     const touchClasses = isTouchDevice ? "touch-manipulation" : "";
     const hoverClasses = isMobile ? "" : "hover:shadow-md hover:border-gray-300";
     
-    const stateClasses = isSelected 
+    const stateClasses = isSelected || isChecked
       ? 'ring-2 ring-blue-500 border-blue-300 bg-blue-50' 
       : isHighlighted 
         ? 'ring-1 ring-blue-300 border-blue-200 bg-blue-25' 
         : 'bg-white';
     
     return `${baseClasses} ${paddingClasses} ${marginClasses} ${touchClasses} ${hoverClasses} ${stateClasses}`.trim();
-  }, [isMobile, isTouchDevice, isSelected, isHighlighted]);
+  }, [isMobile, isTouchDevice, isSelected, isChecked, isHighlighted]);
 
   return (
-    <article
-      className={articleClasses}
-      onClick={handleClick}
-      role="button"
-      tabIndex={0}
-      onKeyDown={(e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
-          handleClick();
-        }
-      }}
-    >
-      {/* ヘッダー部分：投稿時刻とアクションボタン */}
-      <header className={`flex justify-between items-start ${isMobile ? 'mb-2' : 'mb-3'}`}>
-        <time 
-          className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-500 font-medium`}
-          dateTime={new Date(post.createdAt).toISOString()}
-        >
-          {formatDateTime(post.createdAt)}
-        </time>
-        
-        {/* アクションボタン */}
-        <div className={`flex ${isMobile ? 'gap-1' : 'gap-2'} ${
-          isMobile || isTouchDevice 
-            ? 'opacity-100' // モバイル・タッチデバイスでは常に表示
-            : 'opacity-0 group-hover:opacity-100'
-        } transition-opacity duration-200`}>
-          {onEdit && (
-            <button
-              onClick={handleEdit}
-              className={`text-gray-400 hover:text-blue-600 transition-colors duration-200 ${
-                isMobile ? 'p-2' : 'p-1'
-              } ${isTouchDevice ? 'touch-manipulation' : ''}`}
-              title="投稿を編集"
-              aria-label="投稿を編集"
+    <>
+      <article
+        className={articleClasses}
+        onClick={handleClick}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            handleClick();
+          }
+        }}
+      >
+        {/* ヘッダー部分：投稿時刻とアクションボタン */}
+        <header className={`flex justify-between items-start ${isMobile ? 'mb-2' : 'mb-3'}`}>
+          <div className="flex items-center gap-2">
+            {onToggleCheck && (
+              <input
+                type="checkbox"
+                checked={isChecked}
+                onChange={() => onToggleCheck(post.id)}
+                onClick={(e) => e.stopPropagation()} // 親のクリックイベントを防ぐ
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                aria-label="投稿を選択"
+              />
+            )}
+            <time 
+              className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-500 font-medium`}
+              dateTime={new Date(post.createdAt).toISOString()}
             >
-              <svg className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-              </svg>
-            </button>
-          )}
+              {formatDateTime(post.createdAt)}
+            </time>
+            {onToggleStar ? (
+              <button
+                type="button"
+                onClick={handleToggleStar}
+                className={`text-base leading-none transition-colors duration-200 ${
+                  post.starred ? 'text-amber-500 hover:text-amber-600' : 'text-gray-300 hover:text-amber-400'
+                } ${isTouchDevice ? 'touch-manipulation' : ''}`}
+                title={post.starred ? 'スターを外す' : 'スターを付ける'}
+                aria-label={post.starred ? 'スターを外す' : 'スターを付ける'}
+                aria-pressed={Boolean(post.starred)}
+              >
+                {post.starred ? '★' : '☆'}
+              </button>
+            ) : post.starred && (
+              <span className="text-base leading-none text-amber-500" title="スター付き">★</span>
+            )}
+            {post.pinned && (
+              <span
+                className="px-1.5 py-0.5 text-xs text-gray-600 bg-gray-100 rounded"
+                title="ピン留めした投稿は一覧の先頭に表示されます"
+              >
+                📌 ピン留め
+              </span>
+            )}
+            {isEdited && (
+              <button
+                type="button"
+                onClick={handleRevisionHistoryOpen}
+                className={`px-1.5 py-0.5 text-xs text-gray-500 bg-gray-100 rounded hover:bg-gray-200 hover:text-gray-700 transition-colors duration-200 ${
+                  isTouchDevice ? 'touch-manipulation' : ''
+                }`}
+                title="編集履歴を表示"
+              >
+                編集済み
+              </button>
+            )}
+            {syncStatus === 'pending' && (
+              <span
+                className="px-1.5 py-0.5 text-xs text-amber-700 bg-amber-50 rounded"
+                title="同期サーバーへの送信を待っています"
+              >
+                未送信
+              </span>
+            )}
+            {syncStatus === 'failed' && (
+              <span
+                className="px-1.5 py-0.5 text-xs text-red-700 bg-red-50 rounded"
+                title="同期サーバーへの送信に失敗しました。同期の画面から再送信できます"
+              >
+                送信失敗
+              </span>
+            )}
+          </div>
+        
+          {/* アクションボタン */}
+          <div className={`flex ${isMobile ? 'gap-1' : 'gap-2'} ${
+            isMobile || isTouchDevice 
+              ? 'opacity-100' // モバイル・タッチデバイスでは常に表示
+              : 'opacity-0 group-hover:opacity-100'
+          } transition-opacity duration-200`}>
+            {onTogglePin && (
+              <button
+                onClick={handleTogglePin}
+                className={`transition-colors duration-200 ${
+                  post.pinned ? 'text-gray-700 hover:text-gray-400' : 'text-gray-400 hover:text-gray-700'
+                } ${isMobile ? 'p-2' : 'p-1'} ${isTouchDevice ? 'touch-manipulation' : ''}`}
+                title={post.pinned ? 'ピン留めを外す' : 'ピン留めする'}
+                aria-label={post.pinned ? 'ピン留めを外す' : 'ピン留めする'}
+                aria-pressed={Boolean(post.pinned)}
+              >
+                <span className={`block leading-none ${isMobile ? 'text-base' : 'text-sm'}`}>📌</span>
+              </button>
+            )}
+
+            {onEdit && (
+              <button
+                onClick={handleEdit}
+                className={`text-gray-400 hover:text-blue-600 transition-colors duration-200 ${
+                  isMobile ? 'p-2' : 'p-1'
+                } ${isTouchDevice ? 'touch-manipulation' : ''}`}
+                title="投稿を編集"
+                aria-label="投稿を編集"
+              >
+                <svg className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+            )}
           
-          {onDelete && (
-            <button
-              onClick={handleDelete}
-              className={`text-gray-400 hover:text-red-600 transition-colors duration-200 ${
-                isMobile ? 'p-2' : 'p-1'
-              } ${isTouchDevice ? 'touch-manipulation' : ''}`}
-              title="投稿を削除"
-              aria-label="投稿を削除"
-            >
-              <svg className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-            </button>
-          )}
-        </div>
-      </header>
-
-      {/* メインコンテンツ：Markdownレンダリング */}
-      <div className={`prose ${isMobile ? 'prose-xs' : 'prose-sm'} max-w-none`}>
-        <ReactMarkdown
-          components={{
-            // カスタムコンポーネントでスタイリングを調整（レスポンシブ対応）
-            h1: ({ children }) => (
-              <h1 className={`${isMobile ? 'text-base' : 'text-lg'} font-bold ${isMobile ? 'mb-1' : 'mb-2'} text-gray-900`}>
-                {children}
-              </h1>
-            ),
-            h2: ({ children }) => (
-              <h2 className={`${isMobile ? 'text-sm' : 'text-base'} font-semibold ${isMobile ? 'mb-1' : 'mb-2'} text-gray-800`}>
-                {children}
-              </h2>
-            ),
-            h3: ({ children }) => (
-              <h3 className={`${isMobile ? 'text-xs' : 'text-sm'} font-medium mb-1 text-gray-700`}>
-                {children}
-              </h3>
-            ),
-            p: ({ children }) => (
-              <p className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-700 ${isMobile ? 'mb-1' : 'mb-2'} leading-relaxed`}>
-                {children}
-              </p>
-            ),
-            ul: ({ children }) => (
-              <ul className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-700 ${isMobile ? 'mb-1 pl-3' : 'mb-2 pl-4'} list-disc`}>
-                {children}
-              </ul>
-            ),
-            ol: ({ children }) => (
-              <ol className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-700 ${isMobile ? 'mb-1 pl-3' : 'mb-2 pl-4'} list-decimal`}>
-                {children}
-              </ol>
-            ),
-            li: ({ children }) => <li className={isMobile ? 'mb-0.5' : 'mb-1'}>{children}</li>,
-            blockquote: ({ children }) => (
-              <blockquote className={`border-l-4 border-gray-300 ${isMobile ? 'pl-2' : 'pl-3'} italic text-gray-600 ${isMobile ? 'my-1' : 'my-2'}`}>
-                {children}
-              </blockquote>
-            ),
-            code: ({ children, className }) => {
-              const isInline = !className;
-              if (isInline) {
+            {onDelete && (
+              <button
+                onClick={handleDelete}
+                className={`text-gray-400 hover:text-red-600 transition-colors duration-200 ${
+                  isMobile ? 'p-2' : 'p-1'
+                } ${isTouchDevice ? 'touch-manipulation' : ''}`}
+                title="投稿を削除"
+                aria-label="投稿を削除"
+              >
+                <svg className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            )}
+          </div>
+        </header>
+
+        {/* メインコンテンツ：Markdownレンダリング */}
+        <div className={`prose ${isMobile ? 'prose-xs' : 'prose-sm'} max-w-none`}>
+          <ReactMarkdown
+            urlTransform={urlTransform}
+            components={{
+              // カスタムコンポーネントでスタイリングを調整（レスポンシブ対応）
+              h1: ({ children }) => (
+                <h1 className={`${isMobile ? 'text-base' : 'text-lg'} font-bold ${isMobile ? 'mb-1' : 'mb-2'} text-gray-900`}>
+                  {children}
+                </h1>
+              ),
+              h2: ({ children }) => (
+                <h2 className={`${isMobile ? 'text-sm' : 'text-base'} font-semibold ${isMobile ? 'mb-1' : 'mb-2'} text-gray-800`}>
+                  {children}
+                </h2>
+              ),
+              h3: ({ children }) => (
+                <h3 className={`${isMobile ? 'text-xs' : 'text-sm'} font-medium mb-1 text-gray-700`}>
+                  {children}
+                </h3>
+              ),
+              p: ({ children }) => (
+                <p className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-700 ${isMobile ? 'mb-1' : 'mb-2'} leading-relaxed`}>
+                  {children}
+                </p>
+              ),
+              ul: ({ children }) => (
+                <ul className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-700 ${isMobile ? 'mb-1 pl-3' : 'mb-2 pl-4'} list-disc`}>
+                  {children}
+                </ul>
+              ),
+              ol: ({ children }) => (
+                <ol className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-700 ${isMobile ? 'mb-1 pl-3' : 'mb-2 pl-4'} list-decimal`}>
+                  {children}
+                </ol>
+              ),
+              li: ({ children }) => <li className={isMobile ? 'mb-0.5' : 'mb-1'}>{children}</li>,
+              blockquote: ({ children }) => (
+                <blockquote className={`border-l-4 border-gray-300 ${isMobile ? 'pl-2' : 'pl-3'} italic text-gray-600 ${isMobile ? 'my-1' : 'my-2'}`}>
+                  {children}
+                </blockquote>
+              ),
+              code: ({ children, className }) => {
+                const isInline = !className;
+                if (isInline) {
+                  return (
+                    <code className={`bg-gray-100 text-gray-800 px-1 py-0.5 rounded ${isMobile ? 'text-xs' : 'text-xs'} font-mono`}>
+                      {children}
+                    </code>
+                  );
+                }
                 return (
-                  <code className={`bg-gray-100 text-gray-800 px-1 py-0.5 rounded ${isMobile ? 'text-xs' : 'text-xs'} font-mono`}>
-                    {children}
-                  </code>
+                  <pre className={`bg-gray-100 ${isMobile ? 'p-2' : 'p-3'} rounded ${isMobile ? 'text-xs' : 'text-xs'} font-mono overflow-x-auto ${isMobile ? 'my-1' : 'my-2'}`}>
+                    <code>{children}</code>
+                  </pre>
                 );
-              }
-              return (
-                <pre className={`bg-gray-100 ${isMobile ? 'p-2' : 'p-3'} rounded ${isMobile ? 'text-xs' : 'text-xs'} font-mono overflow-x-auto ${isMobile ? 'my-1' : 'my-2'}`}>
-                  <code>{children}</code>
-                </pre>
-              );
-            },
-            a: ({ children, href }) => {
-              // URLの安全性をチェック
-              const safeHref = href && isUrlSafe(href) ? href : '#';
-              const isUnsafe = href && !isUrlSafe(href);
+              },
+              a: ({ children, href }) => {
+                // URLの安全性をチェック
+                const safeHref = href && isUrlSafe(href) ? href : '#';
+                const isUnsafe = href && !isUrlSafe(href);
               
-              return (
-                <a 
-                  href={safeHref}
-                  className={`${isUnsafe ? 'text-gray-400 cursor-not-allowed' : 'text-blue-600 hover:text-blue-800'} underline`}
-                  target={isUnsafe ? undefined : "_blank"}
-                  rel={isUnsafe ? undefined : "noopener noreferrer"}
-                  title={isUnsafe ? "安全でないURLのため無効化されています" : undefined}
-                  onClick={isUnsafe ? (e) => e.preventDefault() : undefined}
-                >
-                  {children}
-                  {isUnsafe && <span className="ml-1 text-xs">⚠️</span>}
-                </a>
-              );
-            },
-          }}
-        >
-          {post.content}
-        </ReactMarkdown>
-      </div>
-
-      {/* 更新日時表示（作成日時と異なる場合のみ） */}
-      {post.updatedAt && new Date(post.updatedAt).getTime() !== new Date(post.createdAt).getTime() && (
-        <footer className={`${isMobile ? 'mt-2 pt-1' : 'mt-3 pt-2'} border-t border-gray-100`}>
-          <p className={`${isMobile ? 'text-xs' : 'text-xs'} text-gray-400`}>
-            更新: {formatDateTime(post.updatedAt)}
-          </p>
-        </footer>
+                return (
+                  <a 
+                    href={safeHref}
+                    className={`${isUnsafe ? 'text-gray-400 cursor-not-allowed' : 'text-blue-600 hover:text-blue-800'} underline`}
+                    target={isUnsafe ? undefined : "_blank"}
+                    rel={isUnsafe ? undefined : "noopener noreferrer"}
+                    title={isUnsafe ? "安全でないURLのため無効化されています" : undefined}
+                    onClick={isUnsafe ? (e) => e.preventDefault() : undefined}
+                  >
+                    {children}
+                    {isUnsafe && <span className="ml-1 text-xs">⚠️</span>}
+                  </a>
+                );
+              },
+              img: ({ src, alt }) => {
+                const attachmentId = typeof src === 'string' ? getAttachmentId(src) : null;
+                if (attachmentId) {
+                  return <AttachmentImage attachmentId={attachmentId} alt={alt} isMobile={isMobile} />;
+                }
+                return <img src={src} alt={alt} className="max-w-full h-auto" />;
+              },
+            }}
+          >
+            {post.content}
+          </ReactMarkdown>
+        </div>
+
+        {/* タグチップ */}
+        {post.tags && post.tags.length > 0 && (
+          <ul className={`flex flex-wrap ${isMobile ? 'gap-1 mt-1' : 'gap-1.5 mt-2'}`} aria-label="タグ">
+            {post.tags.map(tag => (
+              <li key={tag}>
+                {onTagClick ? (
+                  <button
+                    type="button"
+                    onClick={(e) => handleTagClick(e, tag)}
+                    className={`inline-flex items-center px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-full hover:bg-blue-100 transition-colors duration-200 ${
+                      isTouchDevice ? 'touch-manipulation' : ''
+                    }`}
+                    title={`タグ「${tag}」の投稿を表示`}
+                  >
+                    #{tag}
+                  </button>
+                ) : (
+                  <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-full">
+                    #{tag}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* 更新日時表示（作成日時と異なる場合のみ） */}
+        {isEdited && (
+          <footer className={`${isMobile ? 'mt-2 pt-1' : 'mt-3 pt-2'} border-t border-gray-100`}>
+            <p className={`${isMobile ? 'text-xs' : 'text-xs'} text-gray-400`}>
+              更新: {formatDateTime(post.updatedAt)}
+            </p>
+          </footer>
+        )}
+      </article>
+
+      {/* 編集履歴ダイアログ（リストのスクロールや変形の影響を受けないようbody直下に表示） */}
+      {isRevisionHistoryOpen && createPortal(
+        <RevisionHistoryDialog post={post} onClose={handleRevisionHistoryClose} />,
+        document.body
       )}
-    </article>
+    </>
   );
 };
 
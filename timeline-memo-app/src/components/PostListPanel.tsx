@@ -5,8 +5,13 @@ import DeleteConfirmDialog from './DeleteConfirmDialog';
 import { usePosts } from '../hooks/usePosts';
 import { useAppContext } from '../context/AppContext';
 import { useErrorHandler } from '../hooks/useErrorHandler';
+import { useSync } from '../hooks/useSync';
+import { useAttachments } from '../hooks/useAttachments';
 import { useRenderTime } from '../hooks/usePerformanceMonitor';
-import type { Post } from '../types';
+import { filterPostsBySearch } from '../utils/searchUtils';
+import { sanitizeTags } from '../utils/validationUtils';
+import { sortPinnedFirst } from '../utils/postFlagUtils';
+import type { Post, CreatePostInput, PostUpdate } from '../types';
 
 interface PostListPanelProps {
   /** 選択された投稿ID（時間軸からの連携用） */
@@ -19,12 +24,20 @@ interface PostListPanelProps {
   onHighlightChange?: (postIds: string[]) => void;
   /** 外部からのスクロール制御用（時間軸からの連携） */
   scrollToPost?: string | null;
+  /** 全文検索・スター付きのみで絞り込んだ投稿（絞り込みがない場合はnull） */
+  filteredPosts?: Post[] | null;
+  /** スター付きのみに絞り込んでいるか */
+  showStarredOnly?: boolean;
+  /** スター付きのみの絞り込みを切り替える時のコールバック */
+  onShowStarredOnlyChange?: (showStarredOnly: boolean) => void;
 }
 
 /**
  * 投稿リストパネルコンポーネント
  * 投稿の一覧表示、スクロール制御、パフォーマンス最適化を提供
  * レスポンシブデザインとタッチデバイス対応
+ * 複数選択モードでは、選択した投稿の一括削除とタグの一括追加・削除ができる
+ * ピン留めした投稿は日時の並びに関わらず先頭に表示する
  * 要件2.1, 2.2, 4.3, 7.1, 7.2, 7.3, 7.4, 6.1, 6.2, 6.3に対応
  */
 const PostListPanel: React.FC<PostListPanelProps> = ({
@@ -32,15 +45,23 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
   onPostSelect,
   onScrollChange,
   onHighlightChange,
-  scrollToPost
+  scrollToPost,
+  filteredPosts = null,
+  showStarredOnly = false,
+  onShowStarredOnlyChange
 }) => {
   // パフォーマンス監視
   useRenderTime('PostListPanel');
   
-  const { posts, isLoading, error, selectPost, deletePost, updatePost, createPost } = usePosts();
+  const { posts, hasMorePosts, isLoading, error, remotelyDeletedPostIds, selectPost, deletePost, restorePost, updatePost, createPost, updatePosts, deletePosts, setPostFlags, getPostsByTag, getPinnedPosts, loadMorePosts, dismissRemoteDeletion } = usePosts();
   const { state } = useAppContext();
   const { highlightedPostIds } = state;
-  const { showSuccess } = useErrorHandler();
+  const { showSuccess, showActionToast } = useErrorHandler();
+  // 同期サーバーに送信していない投稿の状態（バッジ表示用）
+  const { postStatuses } = useSync();
+  const { isAvailable: canAttachImages, uploadImages } = useAttachments();
+  // 画像を保存できない保存先では添付のボタンを表示しない
+  const attachImages = canAttachImages ? uploadImages : undefined;
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [isUserScrolling, setIsUserScrolling] = useState(false);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -70,18 +91,77 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
   const [isDeleting, setIsDeleting] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
 
-  // 投稿を新しい順（降順）でソート - useMemoでメモ化
+  // 複数選択モードの状態管理
+  const [isSelectionMode, setIsSelectionMode] = useState(false);
+  const [checkedPostIds, setCheckedPostIds] = useState<string[]>([]);
+  const [bulkTagInput, setBulkTagInput] = useState('');
+  const [isBulkProcessing, setIsBulkProcessing] = useState(false);
+
+  // タグ絞り込みの状態管理
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [taggedPosts, setTaggedPosts] = useState<Post[]>([]);
+
+  // タグ絞り込み中はtagsインデックスから投稿を取得（投稿の変更時も再取得）
+  useEffect(() => {
+    if (!activeTag) {
+      setTaggedPosts([]);
+      return;
+    }
+
+    let cancelled = false;
+    getPostsByTag(activeTag).then(result => {
+      if (!cancelled) {
+        setTaggedPosts(result);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTag, posts, getPostsByTag]);
+
+  // ピン留めした投稿はpinnedインデックスから取得（未読み込みのページにある投稿も先頭に表示するため）
+  const [pinnedPosts, setPinnedPosts] = useState<Post[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPinnedPosts().then(result => {
+      if (!cancelled) {
+        setPinnedPosts(result);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [posts, getPinnedPosts]);
+
+  // 投稿を新しい順（降順）でソートし、ピン留めした投稿を先頭に並べる - useMemoでメモ化
+  // 全文検索・スター付きのみの絞り込み中は絞り込んだ投稿を表示（タグ絞り込み中は両方の条件に一致する投稿のみ）
   const sortedPosts = useMemo(() => {
-    return [...posts].sort((a, b) => 
+    let sourcePosts = activeTag ? taggedPosts : posts;
+    if (filteredPosts) {
+      sourcePosts = activeTag ? filterPostsBySearch(taggedPosts, filteredPosts) : filteredPosts;
+    } else if (!activeTag) {
+      const loadedIds = new Set(posts.map(post => post.id));
+      sourcePosts = [...posts, ...pinnedPosts.filter(post => !loadedIds.has(post.id))];
+    }
+    return sortPinnedFirst([...sourcePosts].sort((a, b) => 
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-  }, [posts]);
+    ));
+  }, [posts, activeTag, taggedPosts, filteredPosts, pinnedPosts]);
 
   // 仮想スクロール用の設定
   const VIRTUAL_SCROLL_THRESHOLD = 50; // 50件以上で仮想スクロールを有効化
   const ITEM_HEIGHT = isMobile ? 120 : 150; // 1つの投稿アイテムの推定高さ
   const BUFFER_SIZE = 5; // 表示範囲外でも描画するアイテム数
 
+  // 末尾からこの距離（px）以内までスクロールしたら次のページを読み込む
+  const LOAD_MORE_THRESHOLD = ITEM_HEIGHT * 3;
+
+  // 無限スクロールの対象かどうか（タグ絞り込み・全文検索・スター付きのみの絞り込み中は結果を一括取得済み）
+  const canLoadMore = hasMorePosts && !activeTag && !filteredPosts;
+
   // 仮想スクロールが有効かどうか
   const isVirtualScrollEnabled = useMemo(() => 
     sortedPosts.length > VIRTUAL_SCROLL_THRESHOLD, 
@@ -128,31 +208,74 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
     setEditingPost(post);
   }, []);
 
+  // 編集中の投稿が他のタブで削除されたか
+  const isEditingPostDeleted = editingPost !== null && remotelyDeletedPostIds.includes(editingPost.id);
+
   // 編集完了ハンドラー
   const handleEditComplete = useCallback(() => {
+    if (editingPost) {
+      dismissRemoteDeletion(editingPost.id);
+    }
     setEditingPost(null);
-  }, []);
+  }, [editingPost, dismissRemoteDeletion]);
 
   // 編集キャンセルハンドラー
   const handleEditCancel = useCallback(() => {
+    if (editingPost) {
+      dismissRemoteDeletion(editingPost.id);
+    }
     setEditingPost(null);
+  }, [editingPost, dismissRemoteDeletion]);
+
+  // 編集フォームの送信ハンドラー
+  // 他のタブで削除された投稿は更新できないため、編集中の内容を新しい投稿として保存する
+  const handleEditSubmit = useCallback(async (input: CreatePostInput) => {
+    if (!editingPost) return;
+
+    const savedPost = isEditingPostDeleted
+      ? await createPost(input)
+      : await updatePost(editingPost.id, input);
+    if (savedPost) {
+      handleEditComplete();
+    }
+  }, [editingPost, isEditingPostDeleted, createPost, updatePost, handleEditComplete]);
+
+  // タグクリックハンドラー（タグ絞り込み）
+  const handleTagClick = useCallback((tag: string) => {
+    setActiveTag(tag);
+  }, []);
+
+  // ピン留めの切り替えハンドラー
+  const handleTogglePin = useCallback((post: Post) => {
+    setPostFlags(post.id, { pinned: !post.pinned });
+  }, [setPostFlags]);
+
+  // スターの切り替えハンドラー
+  const handleToggleStar = useCallback((post: Post) => {
+    setPostFlags(post.id, { starred: !post.starred });
+  }, [setPostFlags]);
+
+  // タグ絞り込み解除ハンドラー
+  const handleTagFilterClear = useCallback(() => {
+    setActiveTag(null);
   }, []);
 
   // 新規投稿作成ハンドラー
-  const handleCreatePost = useCallback(async (content: string) => {
-    console.log('投稿作成を開始:', content);
+  const handleCreatePost = useCallback(async (input: CreatePostInput) => {
+    console.log('投稿作成を開始:', input);
     try {
-      const newPost = await createPost(content);
+      const newPost = await createPost(input);
       console.log('投稿作成結果:', newPost);
       if (newPost) {
         setShowCreateForm(false);
         showSuccess('投稿を作成しました', '新しい投稿がタイムラインに追加されました');
-      } else {
-        console.error('投稿作成に失敗: newPostがnull');
+        return true;
       }
+      console.error('投稿作成に失敗: newPostがnull');
     } catch (error) {
       console.error('投稿作成エラー:', error);
     }
+    return false;
   }, [createPost, showSuccess]);
 
   // 作成フォームキャンセルハンドラー
@@ -161,12 +284,13 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
   }, []);
 
   // 投稿削除ハンドラー（確認ダイアログ表示）
+  // 検索結果など読み込み済みページ外の投稿も対象にするため、表示中の投稿から探す
   const handlePostDelete = useCallback((postId: string) => {
-    const post = posts.find(p => p.id === postId);
+    const post = sortedPosts.find(p => p.id === postId);
     if (!post) return;
     
     setDeletingPost(post);
-  }, [posts]);
+  }, [sortedPosts]);
 
   // 削除確定ハンドラー
   const handleDeleteConfirm = useCallback(async () => {
@@ -177,8 +301,14 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
     try {
       const success = await deletePost(deletingPost.id);
       if (success) {
-        // 成功通知を表示
-        showSuccess('投稿を削除しました', '投稿がタイムラインから削除されました');
+        // 誤操作に備えて「元に戻す」操作付きで通知（ゴミ箱からも復元できる）
+        const deletedPostId = deletingPost.id;
+        showActionToast(
+          '投稿を削除しました',
+          '投稿をゴミ箱に移動しました',
+          '元に戻す',
+          () => { restorePost(deletedPostId); }
+        );
         
         // 削除された投稿が選択されていた場合、選択を解除
         if (selectedPostId === deletingPost.id) {
@@ -196,7 +326,7 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
     } finally {
       setIsDeleting(false);
     }
-  }, [deletingPost, deletePost, selectedPostId, selectPost, onPostSelect, editingPost]);
+  }, [deletingPost, deletePost, restorePost, selectedPostId, selectPost, onPostSelect, editingPost, showActionToast]);
 
   // 削除キャンセルハンドラー
   const handleDeleteCancel = useCallback(() => {
@@ -205,6 +335,103 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
     }
   }, [isDeleting]);
 
+  // 選択中の投稿（他のタブでの削除や絞り込みで表示されなくなった投稿は対象外）
+  const checkedPosts = useMemo(
+    () => sortedPosts.filter(post => checkedPostIds.includes(post.id)),
+    [sortedPosts, checkedPostIds]
+  );
+  const isAllChecked = sortedPosts.length > 0 && checkedPosts.length === sortedPosts.length;
+
+  // 複数選択モードの切り替えハンドラー（終了時は選択を解除）
+  const handleSelectionModeToggle = useCallback(() => {
+    setIsSelectionMode(prev => !prev);
+    setCheckedPostIds([]);
+    setBulkTagInput('');
+  }, []);
+
+  // 投稿のチェック切り替えハンドラー
+  const handleToggleCheck = useCallback((postId: string) => {
+    setCheckedPostIds(prev =>
+      prev.includes(postId) ? prev.filter(id => id !== postId) : [...prev, postId]
+    );
+  }, []);
+
+  // すべて選択・選択解除ハンドラー
+  const handleToggleCheckAll = useCallback(() => {
+    setCheckedPostIds(isAllChecked ? [] : sortedPosts.map(post => post.id));
+  }, [isAllChecked, sortedPosts]);
+
+  // 一括削除ハンドラー（ゴミ箱に移動）
+  const handleBulkDelete = useCallback(async () => {
+    const ids = checkedPosts.map(post => post.id);
+    if (ids.length === 0 || !window.confirm(`${ids.length}件の投稿をゴミ箱に移動しますか？`)) {
+      return;
+    }
+
+    setIsBulkProcessing(true);
+    try {
+      const success = await deletePosts(ids);
+      if (success) {
+        showActionToast(
+          '投稿を削除しました',
+          `${ids.length}件の投稿をゴミ箱に移動しました`,
+          '元に戻す',
+          async () => {
+            for (const id of ids) {
+              await restorePost(id);
+            }
+          }
+        );
+
+        // 削除された投稿が選択されていた場合、選択を解除
+        if (selectedPostId && ids.includes(selectedPostId)) {
+          selectPost(null);
+          if (onPostSelect) {
+            onPostSelect(null);
+          }
+        }
+        // 削除された投稿が編集中だった場合、編集を終了
+        if (editingPost && ids.includes(editingPost.id)) {
+          setEditingPost(null);
+        }
+        setCheckedPostIds([]);
+      }
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  }, [checkedPosts, deletePosts, restorePost, selectedPostId, selectPost, onPostSelect, editingPost, showActionToast]);
+
+  // タグの一括追加・削除ハンドラー（変更のある投稿のみ更新）
+  const handleBulkTags = useCallback(async (mode: 'add' | 'remove') => {
+    const tags = sanitizeTags(bulkTagInput.split(/[,、]/));
+    if (tags.length === 0) {
+      return;
+    }
+
+    const updates: PostUpdate[] = checkedPosts.flatMap(post => {
+      const currentTags = post.tags || [];
+      const nextTags = mode === 'add'
+        ? sanitizeTags([...currentTags, ...tags])
+        : currentTags.filter(tag => !tags.includes(tag));
+      return nextTags.join('\n') === currentTags.join('\n') ? [] : [{ id: post.id, input: { tags: nextTags } }];
+    });
+    if (updates.length === 0) {
+      setBulkTagInput('');
+      return;
+    }
+
+    setIsBulkProcessing(true);
+    try {
+      const updatedPosts = await updatePosts(updates);
+      if (updatedPosts) {
+        showSuccess('タグを更新しました', `${updatedPosts.length}件の投稿のタグを更新しました`);
+        setBulkTagInput('');
+      }
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  }, [bulkTagInput, checkedPosts, updatePosts, showSuccess]);
+
   // スクロールイベントハンドラー（仮想スクロール対応）
   const handleScroll = useCallback(() => {
     if (!scrollContainerRef.current) return;
@@ -228,6 +455,11 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
       onHighlightChange(visiblePostIds);
     }
 
+    // リスト末尾に近づいたら続きのページを読み込む
+    if (canLoadMore && scrollHeight - currentScrollTop <= LOAD_MORE_THRESHOLD) {
+      loadMorePosts();
+    }
+
     // ユーザーがスクロール中であることを示すフラグを設定
     setIsUserScrolling(true);
     
@@ -239,7 +471,7 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
     scrollTimeoutRef.current = setTimeout(() => {
       setIsUserScrolling(false);
     }, 150);
-  }, [onScrollChange, onHighlightChange]);
+  }, [onScrollChange, onHighlightChange, canLoadMore, LOAD_MORE_THRESHOLD, loadMorePosts]);
 
   // コンテナサイズの監視（仮想スクロール用）
   useEffect(() => {
@@ -370,8 +602,8 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
     );
   }
 
-  // 投稿が空の状態
-  if (sortedPosts.length === 0) {
+  // 投稿が空の状態（タグ絞り込み・全文検索・スター付きのみの絞り込み中は絞り込み結果を表示するため除外）
+  if (sortedPosts.length === 0 && !activeTag && !filteredPosts) {
     return (
       <div className="h-full flex flex-col">
         {/* 新規投稿フォーム（作成モード時） */}
@@ -382,6 +614,7 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
               onCancel={handleCreateCancel}
               initialContent=""
               isEditing={false}
+              onAttachImages={attachImages}
             />
           </div>
         )}
@@ -408,7 +641,7 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
                 <button
                   onClick={async () => {
                     console.log('テスト投稿作成開始');
-                    await handleCreatePost('これはテスト投稿です。投稿機能が正常に動作しているかを確認するためのサンプルテキストです。');
+                    await handleCreatePost({ content: 'これはテスト投稿です。投稿機能が正常に動作しているかを確認するためのサンプルテキストです。' });
                   }}
                   className="px-2 py-1 text-xs bg-green-600 text-white rounded-md hover:bg-green-700"
                 >
@@ -445,6 +678,7 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
             onCancel={handleCreateCancel}
             initialContent=""
             isEditing={false}
+            onAttachImages={attachImages}
           />
         </div>
       )}
@@ -453,15 +687,14 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
       {editingPost && (
         <div className={`flex-shrink-0 ${isMobile ? 'mb-2' : 'mb-4'}`}>
           <PostForm
-            onSubmit={async (content: string) => {
-              if (editingPost) {
-                await updatePost(editingPost.id, content);
-                handleEditComplete();
-              }
-            }}
+            onSubmit={handleEditSubmit}
             onCancel={handleEditCancel}
             initialContent={editingPost?.content || ''}
+            initialTags={editingPost?.tags || []}
+            initialCreatedAt={editingPost?.createdAt}
             isEditing={true}
+            isDeletedElsewhere={isEditingPostDeleted}
+            onAttachImages={attachImages}
           />
         </div>
       )}
@@ -484,12 +717,24 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
             >
               {showCreateForm ? 'キャンセル' : '✍️ 新規投稿'}
             </button>
+            <button
+              onClick={handleSelectionModeToggle}
+              disabled={!!editingPost}
+              className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                isSelectionMode
+                  ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+              aria-pressed={isSelectionMode}
+            >
+              {isSelectionMode ? '選択を終了' : '☑️ 選択'}
+            </button>
             {/* 開発用テストボタン */}
             {process.env.NODE_ENV === 'development' && (
               <button
                 onClick={async () => {
                   console.log('テスト投稿作成開始');
-                  await handleCreatePost('これはテスト投稿です。投稿機能が正常に動作しているかを確認するためのサンプルテキストです。');
+                  await handleCreatePost({ content: 'これはテスト投稿です。投稿機能が正常に動作しているかを確認するためのサンプルテキストです。' });
                 }}
                 className="px-2 py-1 text-xs bg-green-600 text-white rounded-md hover:bg-green-700"
               >
@@ -501,6 +746,83 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
             </span>
           </div>
         </div>
+
+        {/* 複数選択モードの操作バー */}
+        {isSelectionMode && (
+          <div className="mt-2 flex flex-wrap items-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md">
+            <span className={`${textSizes.count} text-gray-700`} aria-live="polite">
+              {checkedPosts.length}件選択中
+            </span>
+            <button
+              onClick={handleToggleCheckAll}
+              disabled={isBulkProcessing}
+              className="text-xs text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+            >
+              {isAllChecked ? '選択を解除' : 'すべて選択'}
+            </button>
+            <div className="flex items-center gap-1 ml-auto">
+              <input
+                type="text"
+                value={bulkTagInput}
+                onChange={(e) => setBulkTagInput(e.target.value)}
+                placeholder="タグ（カンマ区切り）"
+                aria-label="一括で追加・削除するタグ"
+                className="w-36 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => handleBulkTags('add')}
+                disabled={checkedPosts.length === 0 || !bulkTagInput.trim() || isBulkProcessing}
+                className="px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                タグを追加
+              </button>
+              <button
+                onClick={() => handleBulkTags('remove')}
+                disabled={checkedPosts.length === 0 || !bulkTagInput.trim() || isBulkProcessing}
+                className="px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                タグを外す
+              </button>
+              <button
+                onClick={handleBulkDelete}
+                disabled={checkedPosts.length === 0 || isBulkProcessing}
+                className="px-2 py-1 text-xs text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                削除
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* タグ絞り込みの表示 */}
+        {activeTag && (
+          <div className="mt-2 flex items-center justify-between px-3 py-2 bg-blue-50 border border-blue-200 rounded-md">
+            <p className={`${textSizes.count} text-blue-800`}>
+              タグ「#{activeTag}」の投稿を表示中
+            </p>
+            <button
+              onClick={handleTagFilterClear}
+              className="text-xs text-blue-600 hover:text-blue-800 underline"
+            >
+              絞り込みを解除
+            </button>
+          </div>
+        )}
+
+        {/* スター付きのみの絞り込みの表示 */}
+        {showStarredOnly && (
+          <div className="mt-2 flex items-center justify-between px-3 py-2 bg-amber-50 border border-amber-200 rounded-md">
+            <p className={`${textSizes.count} text-amber-800`}>
+              ★ スター付きの投稿のみ表示中
+            </p>
+            <button
+              onClick={() => onShowStarredOnlyChange?.(false)}
+              className="text-xs text-amber-700 hover:text-amber-900 underline"
+            >
+              絞り込みを解除
+            </button>
+          </div>
+        )}
       </div>
 
       {/* 投稿リスト（仮想スクロール対応） */}
@@ -547,9 +869,15 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
                         post={post}
                         isSelected={selectedPostId === post.id}
                         isHighlighted={highlightedPostIds.includes(post.id)}
+                        syncStatus={postStatuses[post.id]}
                         onSelect={handlePostSelect}
-                        onEdit={handlePostEdit}
-                        onDelete={handlePostDelete}
+                        onEdit={isSelectionMode ? undefined : handlePostEdit}
+                        onDelete={isSelectionMode ? undefined : handlePostDelete}
+                        onTagClick={handleTagClick}
+                        isChecked={isSelectionMode && checkedPostIds.includes(post.id)}
+                        onToggleCheck={isSelectionMode ? handleToggleCheck : undefined}
+                        onTogglePin={isSelectionMode ? undefined : handleTogglePin}
+                        onToggleStar={isSelectionMode ? undefined : handleToggleStar}
                         isMobile={isMobile}
                         isTouchDevice={isTouchDevice}
                       />
@@ -562,15 +890,27 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
         ) : (
           // 通常のスクロール
           <div className="space-y-0">
+            {/* 絞り込み結果が0件の場合 */}
+            {sortedPosts.length === 0 && (
+              <p className={`${textSizes.count} text-gray-500 text-center py-8`}>
+                条件に一致する投稿はありません
+              </p>
+            )}
             {sortedPosts.map((post) => (
               <div key={post.id} data-post-id={post.id}>
                 <PostItem
                   post={post}
                   isSelected={selectedPostId === post.id}
                   isHighlighted={highlightedPostIds.includes(post.id)}
+                  syncStatus={postStatuses[post.id]}
                   onSelect={handlePostSelect}
-                  onEdit={handlePostEdit}
-                  onDelete={handlePostDelete}
+                  onEdit={isSelectionMode ? undefined : handlePostEdit}
+                  onDelete={isSelectionMode ? undefined : handlePostDelete}
+                  onTagClick={handleTagClick}
+                  isChecked={isSelectionMode && checkedPostIds.includes(post.id)}
+                  onToggleCheck={isSelectionMode ? handleToggleCheck : undefined}
+                  onTogglePin={isSelectionMode ? undefined : handleTogglePin}
+                  onToggleStar={isSelectionMode ? undefined : handleToggleStar}
                   isMobile={isMobile}
                   isTouchDevice={isTouchDevice}
                 />
@@ -585,6 +925,18 @@ const PostListPanel: React.FC<PostListPanelProps> = ({
             <div className={`animate-spin rounded-full ${isMobile ? 'h-4 w-4' : 'h-6 w-6'} border-b-2 border-blue-600`}></div>
           </div>
         )}
+
+        {/* 続きの読み込みボタン（リストがスクロールできない高さの場合用） */}
+        {canLoadMore && !isLoading && (
+          <div className={`flex justify-center ${isMobile ? 'py-2' : 'py-4'}`}>
+            <button
+              onClick={loadMorePosts}
+              className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-md transition-colors"
+            >
+              さらに読み込む
+            </button>
+          </div>
+        )}
       </div>
 
       {/* スクロールヒント（投稿が多い場合、デスクトップのみ） */}
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Post } from '../types';
+import { useRevisions } from '../hooks/useRevisions';
+import { diffLines } from '../utils/diffUtils';
+
+interface RevisionHistoryDialogProps {
+  /** 対象の投稿（現在のバージョン） */
+  post: Post;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+}
+
+// 一覧に表示するバージョン（現在のバージョンと編集履歴を同じ形で扱う）
+interface VersionItem {
+  id: string | null; // 現在のバージョンはnull
+  content: string;
+  tags?: string[];
+  createdAt: Date;
+}
+
+// 差分行の表示スタイル
+const DIFF_LINE_STYLES = {
+  added: { className: 'bg-green-50 text-green-800', prefix: '+' },
+  removed: { className: 'bg-red-50 text-red-800 line-through', prefix: '-' },
+  unchanged: { className: 'text-gray-600', prefix: ' ' }
+} as const;
+
+/**
+ * 編集履歴ダイアログコンポーネント
+ * - 現在のバージョンと過去のバージョンの一覧表示
+ * - 選択したバージョンと1つ前のバージョンとの行単位の差分表示
+ * - 過去のバージョンへの復元
+ */
+const RevisionHistoryDialog: React.FC<RevisionHistoryDialogProps> = ({ post, onClose }) => {
+  const { revisions, isLoading, loadRevisions, restoreRevision } = useRevisions(post.id);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // 新しい順のバージョン一覧（先頭が現在のバージョン）
+  const versions = useMemo<VersionItem[]>(() => [
+    { id: null, content: post.content, tags: post.tags, createdAt: post.updatedAt },
+    ...revisions.map(revision => ({
+      id: revision.id,
+      content: revision.content,
+      tags: revision.tags,
+      createdAt: revision.createdAt
+    }))
+  ], [post, revisions]);
+
+  const currentIndex = Math.min(selectedIndex, versions.length - 1);
+  const selectedVersion = versions[currentIndex];
+  const previousVersion = versions[currentIndex + 1];
+
+  // 1つ前（古い）のバージョンからの変更点
+  const diff = useMemo(
+    () => diffLines(previousVersion ? previousVersion.content : selectedVersion.content, selectedVersion.content),
+    [previousVersion, selectedVersion]
+  );
+
+  const formatDateTime = (date: Date) => {
+    return new Intl.DateTimeFormat('ja-JP', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(date));
+  };
+
+  const handleRestore = async () => {
+    if (!selectedVersion.id) return;
+
+    setIsRestoring(true);
+    try {
+      const restoredPost = await restoreRevision(selectedVersion.id);
+      if (restoredPost) {
+        setSelectedIndex(0);
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && !isRestoring) {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget && !isRestoring) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="revision-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 id="revision-dialog-title" className="text-lg font-semibold text-gray-900">
+            編集履歴
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={isRestoring}
+            className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+            aria-label="編集履歴を閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row flex-1 min-h-0">
+          {/* バージョン一覧 */}
+          <ul className="sm:w-48 flex-shrink-0 border-b sm:border-b-0 sm:border-r border-gray-200 overflow-y-auto max-h-40 sm:max-h-none" aria-label="バージョン一覧">
+            {versions.map((version, index) => (
+              <li key={version.id ?? 'current'}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedIndex(index)}
+                  className={`w-full text-left px-4 py-2 text-sm ${
+                    index === currentIndex ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                  aria-current={index === currentIndex ? 'true' : undefined}
+                >
+                  <span className="block">{index === 0 ? '現在のバージョン' : `バージョン ${versions.length - index}`}</span>
+                  <time className="block text-xs text-gray-500">{formatDateTime(version.createdAt)}</time>
+                </button>
+              </li>
+            ))}
+            {isLoading && (
+              <li className="px-4 py-2 text-xs text-gray-500">読み込み中...</li>
+            )}
+          </ul>
+
+          {/* 差分表示 */}
+          <div className="flex-1 min-w-0 overflow-y-auto p-4">
+            <p className="text-xs text-gray-500 mb-2">
+              {previousVersion ? '1つ前のバージョンからの変更点' : '最初のバージョン'}
+            </p>
+            <pre className="text-sm font-mono whitespace-pre-wrap break-words border border-gray-200 rounded">
+              {diff.map((line, index) => {
+                const style = DIFF_LINE_STYLES[line.type];
+                return (
+                  <div key={index} className={`px-2 ${style.className}`}>
+                    <span className="select-none text-gray-400 mr-2" aria-hidden="true">{style.prefix}</span>
+                    {line.text || ' '}
+                  </div>
+                );
+              })}
+            </pre>
+            {selectedVersion.tags && selectedVersion.tags.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                タグ: {selectedVersion.tags.map(tag => `#${tag}`).join(' ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* アクションボタン */}
+        <div className="flex items-center justify-end space-x-3 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onClose}
+            disabled={isRestoring}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            閉じる
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={!selectedVersion.id || isRestoring}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRestoring ? '復元中...' : 'このバージョンに戻す'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistoryDialog;
@@ -0,0 +1,62 @@
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  onClear: () => void;
+  resultCount: number | null; // 未検索時はnull
+  isSearching?: boolean;
+}
+
+/**
+ * 全文検索ボックスコンポーネント
+ * 入力内容で全てのビューモード（タイムライン・リスト・日記・カレンダー）の投稿を絞り込む
+ */
+export function SearchBar({
+  query,
+  onQueryChange,
+  onClear,
+  resultCount,
+  isSearching = false
+}: SearchBarProps) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Escapeで検索をクリア
+    if (e.key === 'Escape' && query) {
+      e.preventDefault();
+      onClear();
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2" role="search">
+      <div className="relative flex-1">
+        <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-400" aria-hidden="true">
+          🔍
+        </span>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="投稿を検索（本文・タグ）"
+          aria-label="投稿を検索"
+          className="w-full pl-10 pr-10 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-gray-600"
+            aria-label="検索をクリア"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {query && (
+        <p className="text-xs text-gray-500 whitespace-nowrap" aria-live="polite">
+          {isSearching || resultCount === null ? '検索中...' : `${resultCount}件ヒット`}
+        </p>
+      )}
+    </div>
+  );
+}
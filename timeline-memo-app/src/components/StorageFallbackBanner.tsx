@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { DataServiceSelection } from '../services/dataServiceFactory';
+import { migrateFallbackPosts } from '../services/dataServiceFactory';
+import { LocalStorageDataService } from '../services/LocalStorageDataService';
+
+interface StorageFallbackBannerProps {
+  selection: DataServiceSelection;  // 起動時に選択した保存先
+}
+
+// バイト数を読みやすい単位で表示する
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.ceil(bytes / 1024)}KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+/**
+ * 保存先の状態を知らせるバナー
+ * - 簡易保存モード（localStorage）: 容量の制限と使用量を表示し、IndexedDBへの移行を試せる
+ * - 保存先がない（メモリ）: ページを閉じると投稿が消えることを警告する
+ * - IndexedDBが使えるようになった: 簡易保存モードで保存した投稿の移行を案内する
+ */
+const StorageFallbackBanner: React.FC<StorageFallbackBannerProps> = ({ selection }) => {
+  const { service, backend, fallbackReason, pendingMigrationCount } = selection;
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [migrationError, setMigrationError] = useState<string | null>(null);
+
+  // 移行後は保存先を切り替えるためページを再読み込みする
+  const handleMigrate = async () => {
+    setIsMigrating(true);
+    setMigrationError(null);
+    try {
+      await migrateFallbackPosts();
+      window.location.reload();
+    } catch (error) {
+      console.error('[保存先] IndexedDBへの移行に失敗しました', error);
+      setMigrationError(
+        backend === 'localStorage'
+          ? 'IndexedDBはまだ利用できません。しばらくしてから再度お試しください。'
+          : 'IndexedDBへの移行に失敗しました。投稿は簡易保存モードのデータに残っています。'
+      );
+      setIsMigrating(false);
+    }
+  };
+
+  const migrateButton = (label: string) => (
+    <button
+      type="button"
+      onClick={handleMigrate}
+      disabled={isMigrating}
+      className="ml-2 px-3 py-1 text-xs font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:opacity-50"
+    >
+      {isMigrating ? '移行中...' : label}
+    </button>
+  );
+
+  if (backend === 'localStorage' && service instanceof LocalStorageDataService) {
+    const { usedBytes, limitBytes } = service.getUsage();
+    const usagePercent = Math.min(100, Math.round((usedBytes / limitBytes) * 100));
+
+    return (
+      <div className="bg-amber-50 border-b border-amber-200 px-4 py-3 text-sm text-amber-800" role="status">
+        <p className="font-medium">
+          簡易保存モードで動作しています（IndexedDBを利用できませんでした）
+        </p>
+        <p className="mt-1">
+          投稿はブラウザのlocalStorageに保存されます。保存できる容量は約{formatBytes(limitBytes)}までのため、
+          長期間の記録には向きません。IndexedDBが利用できるようになったら投稿を移行してください。
+        </p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <span>使用量: {formatBytes(usedBytes)} / {formatBytes(limitBytes)}（{usagePercent}%）</span>
+          {migrateButton('IndexedDBへの移行を試す')}
+        </div>
+        {fallbackReason && (
+          <p className="mt-1 text-xs text-amber-700">原因: {fallbackReason}</p>
+        )}
+        {migrationError && (
+          <p className="mt-1 text-xs text-red-700" role="alert">{migrationError}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (backend === 'memory') {
+    return (
+      <div className="bg-red-50 border-b border-red-200 px-4 py-3 text-sm text-red-800" role="alert">
+        <p className="font-medium">投稿を保存できません</p>
+        <p className="mt-1">
+          IndexedDBとlocalStorageのどちらも利用できないため、投稿はこのページを閉じると消えます。
+          ブラウザのプライベートモードやストレージの設定を確認してください。
+        </p>
+        {fallbackReason && (
+          <p className="mt-1 text-xs text-red-700">原因: {fallbackReason}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (backend === 'indexedDB' && pendingMigrationCount > 0) {
+    return (
+      <div className="bg-amber-50 border-b border-amber-200 px-4 py-3 text-sm text-amber-800" role="status">
+        <div className="flex flex-wrap items-center gap-2">
+          <span>
+            簡易保存モードで保存した投稿が{pendingMigrationCount}件あります。IndexedDBに移行すると通常どおり表示されます。
+          </span>
+          {migrateButton('IndexedDBに移行')}
+        </div>
+        {migrationError && (
+          <p className="mt-1 text-xs text-red-700" role="alert">{migrationError}</p>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default StorageFallbackBanner;
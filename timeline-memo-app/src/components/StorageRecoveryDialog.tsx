@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import type { DataStorageUsage } from '../types';
+import { formatBytes, STORAGE_WARNING_PERCENTAGE, type StorageEstimateInfo } from '../utils/storageQuotaUtils';
+
+interface StorageRecoveryDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** 容量不足で失敗した操作（画面から開いた場合はnull） */
+  failedOperation: string | null;
+  /** 容量不足で保存できなかった投稿の本文 */
+  unsavedContent: string | null;
+  /** 保存データの種類ごとの使用量（取得できない場合はnull） */
+  dataUsage: DataStorageUsage | null;
+  /** ブラウザの保存容量の使用状況（取得できない場合はnull） */
+  estimate: StorageEstimateInfo | null;
+  /** 保存データが永続化されているかどうか */
+  isPersisted: boolean;
+  /** 読み込み中かどうか */
+  isLoading?: boolean;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** バックアップを書き出す時のコールバック */
+  onExport: () => Promise<boolean>;
+  /** ゴミ箱を空にする時のコールバック */
+  onEmptyTrash: () => Promise<boolean>;
+  /** 使われていない画像を削除する時のコールバック（省略時は画像の添付に対応していない） */
+  onPurgeOrphanAttachments?: () => Promise<boolean>;
+  /** キャッシュを削除する時のコールバック */
+  onClearCaches: () => Promise<boolean>;
+  /** 永続化を要求する時のコールバック */
+  onRequestPersist: () => Promise<boolean>;
+  /** 使用量を読み込み直す時のコールバック */
+  onRefresh: () => Promise<void>;
+}
+
+/**
+ * 保存容量の確認ダイアログコンポーネント
+ * - 容量不足で保存できなかった投稿の本文の表示とコピー
+ * - 種類ごとの使用量（投稿・編集履歴・添付画像・キャッシュ）の表示
+ * - バックアップの書き出しと、空き容量を確保するための削除
+ * - 保存データの永続化の要求
+ */
+const StorageRecoveryDialog: React.FC<StorageRecoveryDialogProps> = ({
+  isOpen,
+  failedOperation,
+  unsavedContent,
+  dataUsage,
+  estimate,
+  isPersisted,
+  isLoading = false,
+  onClose,
+  onExport,
+  onEmptyTrash,
+  onPurgeOrphanAttachments,
+  onClearCaches,
+  onRequestPersist,
+  onRefresh
+}) => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // 削除した後は使用量を読み込み直す
+  const runAction = async (action: () => Promise<boolean>, refreshAfter: boolean) => {
+    setIsProcessing(true);
+    try {
+      const success = await action();
+      if (success && refreshAfter) {
+        await onRefresh();
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setIsConfirmingEmpty(false);
+    await runAction(onEmptyTrash, true);
+  };
+
+  const handleCopy = async () => {
+    if (!unsavedContent) return;
+    try {
+      await navigator.clipboard.writeText(unsavedContent);
+      setIsCopied(true);
+    } catch (error) {
+      console.warn('クリップボードにコピーできませんでした:', error);
+    }
+  };
+
+  // ESCキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      onClose();
+    }
+  };
+
+  // 種類ごとの使用量（その他はブラウザ全体の使用量から各種類を除いた分）
+  const knownTotal = dataUsage
+    ? dataUsage.posts + dataUsage.revisions + dataUsage.attachments + (estimate?.caches ?? 0)
+    : 0;
+  const usageRows: { label: string; bytes: number | null }[] = [
+    { label: '投稿', bytes: dataUsage?.posts ?? null },
+    { label: '編集履歴', bytes: dataUsage?.revisions ?? null },
+    { label: '添付画像', bytes: dataUsage?.attachments ?? null },
+    { label: 'キャッシュ', bytes: estimate?.caches ?? null },
+    { label: 'その他', bytes: estimate && dataUsage ? Math.max(0, estimate.used - knownTotal) : null }
+  ];
+
+  const actionButtonClassName = 'px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="storage-recovery-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 id="storage-recovery-dialog-title" className="text-lg font-semibold text-gray-900">
+              保存容量
+            </h3>
+            {estimate && estimate.quota > 0 && (
+              <p className="text-sm text-gray-500">
+                {formatBytes(estimate.used)} / {formatBytes(estimate.quota)}（{Math.round(estimate.percentage)}%）を使用中
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="保存容量を閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* 容量不足で保存できなかった場合の案内 */}
+          {failedOperation && (
+            <div className="p-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md" role="alert">
+              保存容量が不足しているため保存できませんでした。空き容量を確保してから、もう一度保存してください。
+            </div>
+          )}
+
+          {/* 保存できなかった本文 */}
+          {unsavedContent && (
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900">保存できなかった内容</h4>
+                <button onClick={handleCopy} className={actionButtonClassName}>
+                  {isCopied ? 'コピーしました' : 'コピー'}
+                </button>
+              </div>
+              <textarea
+                value={unsavedContent}
+                readOnly
+                rows={4}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-gray-50"
+                aria-label="保存できなかった内容"
+              />
+            </section>
+          )}
+
+          {/* 種類ごとの使用量 */}
+          <section>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">使用量の内訳</h4>
+            {estimate && estimate.quota > 0 && (
+              <div className="h-2 mb-3 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${estimate.percentage >= STORAGE_WARNING_PERCENTAGE ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, estimate.percentage)}%` }}
+                />
+              </div>
+            )}
+            {isLoading && !dataUsage ? (
+              <p className="text-sm text-gray-500">読み込み中...</p>
+            ) : (
+              <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                {usageRows.map(row => (
+                  <React.Fragment key={row.label}>
+                    <dt className="text-gray-600">{row.label}</dt>
+                    <dd className="text-right text-gray-900">{row.bytes === null ? '不明' : formatBytes(row.bytes)}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            )}
+          </section>
+
+          {/* 空き容量の確保 */}
+          <section className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">空き容量を確保する</h4>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">削除する前に、全ての投稿をファイルに書き出します</p>
+              <button onClick={() => runAction(onExport, false)} disabled={isProcessing} className={actionButtonClassName}>
+                書き出す
+              </button>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">ゴミ箱の投稿を完全に削除します</p>
+              {isConfirmingEmpty ? (
+                <div className="flex space-x-2">
+                  <button onClick={() => setIsConfirmingEmpty(false)} className={actionButtonClassName}>
+                    キャンセル
+                  </button>
+                  <button
+                    onClick={handleEmptyTrash}
+                    disabled={isProcessing}
+                    className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    空にする
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => setIsConfirmingEmpty(true)} disabled={isProcessing} className={actionButtonClassName}>
+                  ゴミ箱を空にする
+                </button>
+              )}
+            </div>
+            {onPurgeOrphanAttachments && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">投稿に使われていない画像を削除します（保存前の投稿に添付した画像も含む）</p>
+                <button onClick={() => runAction(onPurgeOrphanAttachments, false)} disabled={isProcessing} className={actionButtonClassName}>
+                  画像を削除
+                </button>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">アプリのファイルのキャッシュを削除します（投稿は削除されません）</p>
+              <button onClick={() => runAction(onClearCaches, false)} disabled={isProcessing} className={actionButtonClassName}>
+                キャッシュを削除
+              </button>
+            </div>
+          </section>
+
+          {/* 永続化 */}
+          <section className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {isPersisted
+                ? '保存データは永続化されています（ブラウザの容量が不足しても自動で削除されません）'
+                : 'ブラウザの容量が不足すると、保存データが自動で削除される場合があります'}
+            </p>
+            {!isPersisted && (
+              <button onClick={() => runAction(onRequestPersist, false)} disabled={isProcessing} className={actionButtonClassName}>
+                永続化する
+              </button>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageRecoveryDialog;
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import type { SyncSettings, SyncConflict } from '../services/SyncChangeLog';
+import type { SyncStatus, ConflictResolution } from '../services/SyncEngine';
+import ConflictMergeDialog from './ConflictMergeDialog';
+
+interface SyncDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** 同期の状態 */
+  status: SyncStatus;
+  /** 接続先の設定 */
+  settings: SyncSettings;
+  /** 最後に同期した日時 */
+  lastSyncedAt: Date | null;
+  /** 直前の同期のエラー */
+  lastError: string | null;
+  /** 送信待ちの変更の件数 */
+  pendingCount: number;
+  /** 送信に繰り返し失敗している変更の件数 */
+  failedCount: number;
+  /** 次に送信する予定の日時 */
+  nextRetryAt: Date | null;
+  /** オンラインかどうか */
+  isOnline: boolean;
+  /** 手動での解決を待つ競合 */
+  conflicts: SyncConflict[];
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 接続先を保存する時のコールバック */
+  onSaveSettings: (settings: SyncSettings) => boolean;
+  /** 今すぐ同期する時のコールバック */
+  onSyncNow: () => Promise<boolean>;
+  /** 送信待ちの変更を全て送信し直す時のコールバック */
+  onRetryAll: () => Promise<boolean>;
+  /** 競合を解決する時のコールバック */
+  onResolveConflict: (postId: string, resolution: ConflictResolution) => Promise<boolean>;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: '同期していません',
+  idle: '同期済み',
+  syncing: '同期中...',
+  error: '同期に失敗しました'
+};
+
+/**
+ * 同期ダイアログコンポーネント
+ * - 同期サーバーの接続先とアクセストークンの設定
+ * - 同期の状態（最終同期日時・送信待ちの件数・エラー）の表示と手動での同期
+ * - 送信待ちの変更の再送信（オフラインの間や送信に失敗した変更）
+ * - 自動で解決できなかった競合の一覧と手動での解決
+ */
+const SyncDialog: React.FC<SyncDialogProps> = ({
+  isOpen,
+  status,
+  settings,
+  lastSyncedAt,
+  lastError,
+  pendingCount,
+  failedCount,
+  nextRetryAt,
+  isOnline,
+  conflicts,
+  onClose,
+  onSaveSettings,
+  onSyncNow,
+  onRetryAll,
+  onResolveConflict
+}) => {
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl || '');
+  const [token, setToken] = useState(settings.token || '');
+  const [resolvingConflict, setResolvingConflict] = useState<SyncConflict | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  // 開くたびに保存されている設定を入力欄に反映
+  useEffect(() => {
+    if (isOpen) {
+      setServerUrl(settings.serverUrl || '');
+      setToken(settings.token || '');
+    }
+  }, [isOpen, settings.serverUrl, settings.token]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const isEnabled = settings.serverUrl !== null;
+
+  // 日時のフォーマット
+  const formatDateTime = (date: Date) => {
+    return new Intl.DateTimeFormat('ja-JP', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(date));
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (onSaveSettings({ serverUrl: serverUrl.trim() || null, token: token.trim() || null }) && serverUrl.trim()) {
+      onSyncNow();
+    }
+  };
+
+  const handleDisable = () => {
+    if (onSaveSettings({ serverUrl: null, token: null })) {
+      setServerUrl('');
+      setToken('');
+    }
+  };
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    if (!resolvingConflict) return;
+
+    setIsResolving(true);
+    try {
+      if (await onResolveConflict(resolvingConflict.postId, resolution)) {
+        setResolvingConflict(null);
+      }
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  // ESCキーで閉じる（競合の解決中は解決ダイアログ側で処理）
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && !resolvingConflict) {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+        onClick={handleBackdropClick}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="sync-dialog-title"
+      >
+        <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+          {/* ヘッダー */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h3 id="sync-dialog-title" className="text-lg font-semibold text-gray-900">
+                同期
+              </h3>
+              <p className="text-sm text-gray-500">
+                同期サーバーを経由して、他の端末と投稿を共有します
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="同期を閉じる"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* 接続先の設定 */}
+            <form onSubmit={handleSave} className="space-y-3">
+              <div>
+                <label htmlFor="sync-server-url" className="block text-sm font-medium text-gray-700 mb-1">
+                  同期サーバーのURL
+                </label>
+                <input
+                  id="sync-server-url"
+                  type="url"
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  placeholder="http://localhost:8787"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="sync-token" className="block text-sm font-medium text-gray-700 mb-1">
+                  アクセストークン（任意）
+                </label>
+                <input
+                  id="sync-token"
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  autoComplete="off"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                {isEnabled && (
+                  <button
+                    type="button"
+                    onClick={handleDisable}
+                    className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    同期を停止
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={serverUrl.trim().length === 0}
+                  className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  保存して同期
+                </button>
+              </div>
+            </form>
+
+            {/* 同期の状態 */}
+            {isEnabled && (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className={status === 'error' ? 'text-red-700 font-medium' : 'text-gray-900 font-medium'}>
+                    {STATUS_LABELS[status]}
+                  </span>
+                  <button
+                    onClick={() => onSyncNow()}
+                    disabled={status === 'syncing'}
+                    className="px-3 py-1 text-xs font-medium text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    今すぐ同期
+                  </button>
+                </div>
+                <p className="text-gray-600">
+                  最終同期: {lastSyncedAt ? formatDateTime(lastSyncedAt) : 'まだ同期していません'}
+                </p>
+                <p className="text-gray-600">送信待ちの変更: {pendingCount}件</p>
+                {lastError && (
+                  <p className="text-red-700" role="alert">{lastError}</p>
+                )}
+              </div>
+            )}
+
+            {/* 送信待ちの変更 */}
+            {isEnabled && pendingCount > 0 && (
+              <div className={`border rounded-lg p-4 text-sm space-y-1 ${
+                failedCount > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+              }`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900">
+                    {failedCount > 0 ? `${failedCount}件の変更を送信できていません` : `${pendingCount}件の変更を送信待ちです`}
+                  </span>
+                  <button
+                    onClick={() => onRetryAll()}
+                    disabled={status === 'syncing' || !isOnline}
+                    className="flex-shrink-0 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    すべて再送信
+                  </button>
+                </div>
+                {!isOnline ? (
+                  <p className="text-gray-600">オフラインです。オンラインに戻ったら自動的に送信します</p>
+                ) : nextRetryAt && nextRetryAt.getTime() > Date.now() && (
+                  <p className="text-gray-600">次の自動送信: {formatDateTime(nextRetryAt)}</p>
+                )}
+              </div>
+            )}
+
+            {/* 競合の一覧 */}
+            {conflicts.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">
+                  解決が必要な競合（{conflicts.length}件）
+                </h4>
+                <ul className="space-y-2">
+                  {conflicts.map(conflict => {
+                    const preview = (conflict.local || conflict.remote)?.content || '';
+                    return (
+                      <li key={conflict.postId} className="flex items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                        <span className="text-sm text-gray-700 truncate">
+                          {preview.length > 40 ? `${preview.slice(0, 40)}...` : preview}
+                        </span>
+                        <button
+                          onClick={() => setResolvingConflict(conflict)}
+                          className="flex-shrink-0 px-3 py-1 text-xs font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700"
+                        >
+                          解決する
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* 競合の解決ダイアログ */}
+      {resolvingConflict && (
+        <ConflictMergeDialog
+          conflict={resolvingConflict}
+          isResolving={isResolving}
+          onClose={() => setResolvingConflict(null)}
+          onResolve={handleResolve}
+        />
+      )}
+    </>
+  );
+};
+
+export default SyncDialog;
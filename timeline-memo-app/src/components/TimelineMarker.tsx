@@ -47,6 +47,9 @@ const TimelineMarker: React.FC<TimelineMarkerProps> = ({
     posts.filter(post => marker.postIds.includes(post.id)), 
     [posts, marker.postIds]
   );
+
+  // スター付きの投稿を含むマーカーは色を変えて目立たせる
+  const isStarred = markerPosts.some(post => post.starred);
   
   // タッチデバイスの検出（propsで指定されていない場合）
   React.useEffect(() => {
@@ -142,11 +145,17 @@ const TimelineMarker: React.FC<TimelineMarkerProps> = ({
     };
     
     if (isSelected) {
-      return `${baseClasses} ${touchClasses} ${sizeClasses.selected} bg-blue-500 border-blue-600 shadow-lg`;
+      const colorClasses = isStarred ? 'bg-amber-500 border-amber-600' : 'bg-blue-500 border-blue-600';
+      return `${baseClasses} ${touchClasses} ${sizeClasses.selected} ${colorClasses} shadow-lg`;
     }
     
     if (isHighlighted) {
-      return `${baseClasses} ${touchClasses} ${sizeClasses.highlighted} bg-blue-100 border-blue-400 shadow-md`;
+      const colorClasses = isStarred ? 'bg-amber-200 border-amber-500' : 'bg-blue-100 border-blue-400';
+      return `${baseClasses} ${touchClasses} ${sizeClasses.highlighted} ${colorClasses} shadow-md`;
+    }
+    
+    if (isStarred) {
+      return `${baseClasses} ${touchClasses} ${sizeClasses.normal} bg-amber-300 border-amber-500 hover:bg-amber-400 ${sizeClasses.hover}`;
     }
     
     return `${baseClasses} ${touchClasses} ${sizeClasses.normal} bg-white border-gray-400 hover:border-blue-400 hover:bg-blue-50 ${sizeClasses.hover}`;
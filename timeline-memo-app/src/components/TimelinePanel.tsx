@@ -1,7 +1,7 @@
 import React, { useMemo, useCallback, useState, useEffect, memo } from 'react';
 import { useAppContext } from '../context/AppContext';
 import TimelineAxis from './TimelineAxis';
-import type { TimelineMarkerData } from '../types';
+import type { Post, TimelineMarkerData } from '../types';
 import { calculateTimeRange, generateTimelineMarkers, optimizeMarkerPositions } from '../utils/timelineUtils';
 import { useRenderTime } from '../hooks/usePerformanceMonitor';
 
@@ -11,6 +11,8 @@ interface TimelinePanelProps {
   onPostSelect?: (postId: string | null) => void;
   onScrollChange?: (percentage: number) => void;
   onHighlightChange?: (postIds: string[]) => void;
+  // 全文検索・スター付きのみで絞り込んだ投稿（絞り込みがない場合はnull）
+  filteredPosts?: Post[] | null;
 }
 
 /**
@@ -23,13 +25,15 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
   highlightedPostIds = [],
   onPostSelect,
   onScrollChange: _onScrollChange,
-  onHighlightChange
+  onHighlightChange,
+  filteredPosts = null
 }) => {
   // パフォーマンス監視
   useRenderTime('TimelinePanel');
   
   const { state } = useAppContext();
-  const { posts } = state;
+  // 全文検索中・スター付きのみの絞り込み中は、絞り込んだ投稿のみを時間軸に表示
+  const posts = filteredPosts || state.posts;
   
   // デバイス情報の状態管理
   const [isMobile, setIsMobile] = useState(false);
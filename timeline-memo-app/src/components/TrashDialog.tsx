@@ -0,0 +1,244 @@
+import React, { useCallback, useState } from 'react';
+import type { Post } from '../types';
+import DeleteConfirmDialog from './DeleteConfirmDialog';
+import { TRASH_RETENTION_OPTIONS, getDaysUntilPurge } from '../utils/trashUtils';
+
+interface TrashDialogProps {
+  /** ダイアログが開いているかどうか */
+  isOpen: boolean;
+  /** ゴミ箱の投稿（削除日時の新しい順） */
+  trashedPosts: Post[];
+  /** 保持期間（日数） */
+  retentionDays: number;
+  /** 読み込み中かどうか */
+  isLoading?: boolean;
+  /** 閉じる時のコールバック */
+  onClose: () => void;
+  /** 復元時のコールバック */
+  onRestore: (postId: string) => Promise<boolean>;
+  /** 完全削除時のコールバック */
+  onPurge: (postId: string) => Promise<boolean>;
+  /** ゴミ箱を空にする時のコールバック */
+  onEmptyTrash: () => Promise<boolean>;
+  /** 保持期間変更時のコールバック */
+  onRetentionDaysChange: (days: number) => void;
+}
+
+/**
+ * ゴミ箱ダイアログコンポーネント
+ * - 削除した投稿の一覧表示（完全削除までの残り日数付き）
+ * - 投稿の復元・完全削除・ゴミ箱を空にする
+ * - 保持期間の設定
+ */
+const TrashDialog: React.FC<TrashDialogProps> = ({
+  isOpen,
+  trashedPosts,
+  retentionDays,
+  isLoading = false,
+  onClose,
+  onRestore,
+  onPurge,
+  onEmptyTrash,
+  onRetentionDaysChange
+}) => {
+  const [purgingPost, setPurgingPost] = useState<Post | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+
+  // 完全削除の確定
+  const handlePurgeConfirm = useCallback(async () => {
+    if (!purgingPost) return;
+
+    setIsPurging(true);
+    try {
+      const success = await onPurge(purgingPost.id);
+      if (success) {
+        setPurgingPost(null);
+      }
+    } finally {
+      setIsPurging(false);
+    }
+  }, [purgingPost, onPurge]);
+
+  // ゴミ箱を空にする
+  const handleEmptyTrash = useCallback(async () => {
+    await onEmptyTrash();
+    setIsConfirmingEmpty(false);
+  }, [onEmptyTrash]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // 日時のフォーマット
+  const formatDateTime = (date: Date) => {
+    return new Intl.DateTimeFormat('ja-JP', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(date));
+  };
+
+  // ESCキーで閉じる（完全削除の確認中は確認ダイアログ側で処理）
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && !purgingPost) {
+      onClose();
+    }
+  };
+
+  // バックドロップクリックで閉じる
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+        onClick={handleBackdropClick}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trash-dialog-title"
+      >
+        <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+          {/* ヘッダー */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h3 id="trash-dialog-title" className="text-lg font-semibold text-gray-900">
+                ゴミ箱
+              </h3>
+              <p className="text-sm text-gray-500">
+                削除した投稿は{retentionDays}日後に完全に削除されます
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="ゴミ箱を閉じる"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* 保持期間の設定 */}
+          <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200 bg-gray-50">
+            <label htmlFor="trash-retention-days" className="text-sm text-gray-700">
+              保持期間
+            </label>
+            <select
+              id="trash-retention-days"
+              value={retentionDays}
+              onChange={(e) => onRetentionDaysChange(Number(e.target.value))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>
+                  {days}日
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 投稿一覧 */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {isLoading ? (
+              <p className="text-sm text-gray-500 text-center">読み込み中...</p>
+            ) : trashedPosts.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center">ゴミ箱は空です</p>
+            ) : (
+              <ul className="space-y-3">
+                {trashedPosts.map(post => {
+                  const daysLeft = getDaysUntilPurge(post, retentionDays);
+                  const contentPreview = post.content.length > 100
+                    ? `${post.content.slice(0, 100)}...`
+                    : post.content;
+
+                  return (
+                    <li key={post.id} className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+                        <time>{formatDateTime(post.createdAt)}</time>
+                        <span>
+                          {daysLeft > 0 ? `あと${daysLeft}日で完全に削除` : 'まもなく完全に削除'}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-700 whitespace-pre-wrap break-words mb-3">
+                        {contentPreview}
+                      </div>
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => onRestore(post.id)}
+                          className="px-3 py-1 text-xs font-medium text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50"
+                        >
+                          復元
+                        </button>
+                        <button
+                          onClick={() => setPurgingPost(post)}
+                          className="px-3 py-1 text-xs font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+                        >
+                          完全に削除
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* ゴミ箱を空にする */}
+          {trashedPosts.length > 0 && (
+            <div className="flex items-center justify-end space-x-3 p-4 border-t border-gray-200 bg-gray-50">
+              {isConfirmingEmpty ? (
+                <>
+                  <span className="text-sm text-red-700">
+                    {trashedPosts.length}件の投稿を完全に削除します。よろしいですか？
+                  </span>
+                  <button
+                    onClick={() => setIsConfirmingEmpty(false)}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    キャンセル
+                  </button>
+                  <button
+                    onClick={handleEmptyTrash}
+                    className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+                  >
+                    空にする
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setIsConfirmingEmpty(true)}
+                  className="px-3 py-1 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                >
+                  ゴミ箱を空にする
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 完全削除の確認ダイアログ */}
+      {purgingPost && (
+        <DeleteConfirmDialog
+          post={purgingPost}
+          isOpen={true}
+          onConfirm={handlePurgeConfirm}
+          onCancel={() => setPurgingPost(null)}
+          isDeleting={isPurging}
+          permanent={true}
+        />
+      )}
+    </>
+  );
+};
+
+export default TrashDialog;
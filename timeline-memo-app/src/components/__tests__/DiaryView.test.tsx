@@ -24,13 +24,15 @@ vi.mock('../../hooks/usePosts', () => ({
     isLoading: false,
     error: null,
     selectPost: vi.fn(),
-    deletePost: vi.fn()
+    deletePost: vi.fn(),
+    restorePost: vi.fn()
   })
 }));
 
 vi.mock('../../hooks/useErrorHandler', () => ({
   useErrorHandler: () => ({
-    showSuccess: vi.fn()
+    showSuccess: vi.fn(),
+    showActionToast: vi.fn()
   })
 }));
 
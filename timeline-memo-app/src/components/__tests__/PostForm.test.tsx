@@ -238,7 +238,7 @@ describe('PostForm', () => {
       await user.click(submitButton);
       
       await waitFor(() => {
-        expect(mockOnSubmit).toHaveBeenCalledWith('テスト投稿');
+        expect(mockOnSubmit).toHaveBeenCalledWith({ content: 'テスト投稿', tags: [] });
       });
     });
 
@@ -252,10 +252,26 @@ describe('PostForm', () => {
       await user.keyboard('{Control>}{Enter}{/Control}');
       
       await waitFor(() => {
-        expect(mockOnSubmit).toHaveBeenCalledWith('キーボードショートカットテスト');
+        expect(mockOnSubmit).toHaveBeenCalledWith({ content: 'キーボードショートカットテスト', tags: [] });
       });
     });
 
+    it('保存できなかった場合は入力内容を残し、保存できた場合はクリアする', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      render(<PostForm onSubmit={onSubmit} />);
+
+      const textarea = screen.getByPlaceholderText('今日はどんな一日でしたか？');
+      await user.type(textarea, '消えてほしくない投稿');
+      await user.click(screen.getByRole('button', { name: '投稿' }));
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(textarea).toHaveValue('消えてほしくない投稿');
+
+      await user.click(screen.getByRole('button', { name: '投稿' }));
+      await waitFor(() => expect(textarea).toHaveValue(''));
+    });
+
     it('空の内容では投稿できない', async () => {
       const user = userEvent.setup();
       render(<PostForm onSubmit={mockOnSubmit} />);
@@ -275,5 +291,131 @@ describe('PostForm', () => {
       
       expect(mockOnCancel).toHaveBeenCalled();
     });
+
+    it('タグを入力して投稿と一緒に送信できる', async () => {
+      const user = userEvent.setup();
+      render(<PostForm onSubmit={mockOnSubmit} />);
+      
+      await user.type(screen.getByLabelText('内容'), 'タグ付き投稿');
+      
+      // Enterとカンマでタグを確定し、重複や先頭の#は正規化される
+      const tagInput = screen.getByLabelText('タグ');
+      await user.type(tagInput, '仕事{Enter}#読書,仕事');
+      await user.click(screen.getByRole('button', { name: '投稿' }));
+      
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({ content: 'タグ付き投稿', tags: ['仕事', '読書'] });
+      });
+    });
+
+    it('編集時は既存のタグが表示され、削除できる', async () => {
+      const user = userEvent.setup();
+      render(
+        <PostForm
+          onSubmit={mockOnSubmit}
+          initialContent="既存の投稿"
+          initialTags={['日記', '旅行']}
+          isEditing={true}
+        />
+      );
+      
+      expect(screen.getByText('#日記')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'タグ「日記」を削除' }));
+      await user.click(screen.getByRole('button', { name: '更新' }));
+      
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({ content: '既存の投稿', tags: ['旅行'] });
+      });
+    });
+
+    it('編集中の投稿が他のタブで削除された場合は警告を表示し、新しい投稿として保存できる', async () => {
+      const user = userEvent.setup();
+      render(
+        <PostForm
+          onSubmit={mockOnSubmit}
+          initialContent="編集中の投稿"
+          isEditing={true}
+          isDeletedElsewhere={true}
+        />
+      );
+
+      expect(screen.getByRole('alert')).toHaveTextContent('この投稿は別のタブで削除されました');
+      await user.click(screen.getByRole('button', { name: '新しい投稿として保存' }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({ content: '編集中の投稿', tags: [] });
+      });
+    });
+
+    it('選択した日の日付が入力され、指定した日時で投稿できる', async () => {
+      const user = userEvent.setup();
+      render(<PostForm onSubmit={mockOnSubmit} initialCreatedAt={new Date(2024, 0, 5)} />);
+
+      expect(screen.getByLabelText('投稿日時')).toHaveValue('2024-01-05');
+      await user.type(screen.getByLabelText('内容'), '5日の日記');
+      fireEvent.change(screen.getByLabelText('投稿時刻'), { target: { value: '21:30' } });
+      await user.click(screen.getByRole('button', { name: '投稿' }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          content: '5日の日記',
+          tags: [],
+          createdAt: new Date(2024, 0, 5, 21, 30)
+        });
+      });
+    });
+
+    it('未来の日時は指定できず、編集時は日時を変更した場合のみ送信する', async () => {
+      const user = userEvent.setup();
+      const createdAt = new Date(2024, 0, 5, 9, 15, 30);
+      render(
+        <PostForm
+          onSubmit={mockOnSubmit}
+          initialContent="既存の投稿"
+          initialCreatedAt={createdAt}
+          isEditing={true}
+        />
+      );
+
+      expect(screen.getByLabelText('投稿時刻')).toHaveValue('09:15');
+      await user.click(screen.getByRole('button', { name: '更新' }));
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({ content: '既存の投稿', tags: [] });
+      });
+
+      fireEvent.change(screen.getByLabelText('投稿日時'), { target: { value: '2999-01-01' } });
+      expect(screen.getByRole('alert')).toHaveTextContent('未来の日時は指定できません');
+      expect(screen.getByRole('button', { name: '更新' })).toBeDisabled();
+    });
+
+    it('選択した画像を添付し、カーソル位置の次の行に挿入する', async () => {
+      const user = userEvent.setup();
+      const onAttachImages = vi.fn().mockResolvedValue(['![photo](attachment://image-1)']);
+      render(<PostForm onSubmit={mockOnSubmit} onAttachImages={onAttachImages} />);
+
+      await user.type(screen.getByLabelText('内容'), '今日の写真');
+      const image = new File(['image'], 'photo.png', { type: 'image/png' });
+      await user.upload(screen.getByLabelText('添付する画像を選択'), image);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('内容')).toHaveValue('今日の写真\n![photo](attachment://image-1)\n');
+      });
+      expect(onAttachImages).toHaveBeenCalledWith([image]);
+    });
+
+    it('画像の貼り付けを添付として扱い、添付できない場合はボタンを表示しない', async () => {
+      const onAttachImages = vi.fn().mockResolvedValue(['![photo](attachment://image-1)']);
+      const { rerender } = render(<PostForm onSubmit={mockOnSubmit} onAttachImages={onAttachImages} />);
+
+      const image = new File(['image'], 'photo.png', { type: 'image/png' });
+      fireEvent.paste(screen.getByLabelText('内容'), { clipboardData: { files: [image] } });
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('内容')).toHaveValue('![photo](attachment://image-1)\n');
+      });
+
+      rerender(<PostForm onSubmit={mockOnSubmit} />);
+      expect(screen.queryByRole('button', { name: /画像を添付/ })).not.toBeInTheDocument();
+    });
   });
 });
\ No newline at end of file
@@ -10,6 +10,8 @@ export { default as TimelineAxis } from './TimelineAxis';
 export { default as TimelineMarker } from './TimelineMarker';
 export { default as TimelinePanel } from './TimelinePanel';
 export { default as DeleteConfirmDialog } from './DeleteConfirmDialog';
+export { default as TrashDialog } from './TrashDialog';
+export { default as RevisionHistoryDialog } from './RevisionHistoryDialog';
 export { LoadingOverlay } from './LoadingOverlay';
 export { LoadingSpinner } from './LoadingSpinner';
 export { Toast } from './Toast';
@@ -1,7 +1,12 @@
 import React, { createContext, useContext } from 'react';
 import type { ReactNode } from 'react';
 import type { AppState, AppAction } from '../types';
+import type { DataService } from '../services/DataService';
+import type { SyncEngine } from '../services/SyncEngine';
 import { useAppReducer } from '../hooks/useAppReducer';
+import { SyncEngineContext } from '../hooks/useSyncEngine';
+import { EncryptionContext, type EncryptionControls } from '../hooks/useEncryptionSession';
+import { DataServiceProvider } from './DataServiceContext';
 
 // Context の型定義
 interface AppContextType {
@@ -15,10 +20,16 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 // Provider コンポーネントの Props
 interface AppProviderProps {
   children: ReactNode;
+  // 使用するデータサービス（省略時は起動モードに応じた既定のサービス）
+  dataService?: DataService;
+  // 同期サーバーとの同期エンジン（省略時は同期しない）
+  syncEngine?: SyncEngine | null;
+  // 投稿の暗号化の操作（省略時は暗号化に対応しない）
+  encryption?: EncryptionControls | null;
 }
 
 // Context Provider コンポーネント
-export function AppProvider({ children }: AppProviderProps) {
+export function AppProvider({ children, dataService, syncEngine = null, encryption = null }: AppProviderProps) {
   const { state, dispatch } = useAppReducer();
 
   const contextValue: AppContextType = {
@@ -27,9 +38,15 @@ export function AppProvider({ children }: AppProviderProps) {
   };
 
   return (
-    <AppContext.Provider value={contextValue}>
-      {children}
-    </AppContext.Provider>
+    <DataServiceProvider service={dataService}>
+      <SyncEngineContext.Provider value={syncEngine}>
+        <EncryptionContext.Provider value={encryption}>
+          <AppContext.Provider value={contextValue}>
+            {children}
+          </AppContext.Provider>
+        </EncryptionContext.Provider>
+      </SyncEngineContext.Provider>
+    </DataServiceProvider>
   );
 }
 
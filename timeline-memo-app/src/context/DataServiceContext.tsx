@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+import type { DataService } from '../services/DataService';
+import { getDefaultDataService } from '../services/dataServiceFactory';
+import { DataServiceContext } from '../hooks/useDataService';
+
+// Provider コンポーネントの Props
+interface DataServiceProviderProps {
+  // 使用するデータサービス（省略時は起動モードに応じた既定のサービス）
+  service?: DataService;
+  children: ReactNode;
+}
+
+/**
+ * データサービスを注入する Provider コンポーネント
+ * アプリ全体のフックが同じバックエンドを参照する
+ * ストレージの切り替えや、キャッシュ・暗号化などのデコレーターで包んだサービスもここで渡す
+ */
+export function DataServiceProvider({ service, children }: DataServiceProviderProps) {
+  return (
+    <DataServiceContext.Provider value={service || getDefaultDataService()}>
+      {children}
+    </DataServiceContext.Provider>
+  );
+}
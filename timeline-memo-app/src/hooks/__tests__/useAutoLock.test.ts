@@ -0,0 +1,51 @@
+import { renderHook } from '@testing-library/react';
+import { vi } from 'vitest';
+import { useAutoLock } from '../useAutoLock';
+
+describe('useAutoLock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('操作がないまま指定した時間が過ぎるとコールバックを呼び出す', () => {
+    const onIdle = vi.fn();
+    renderHook(() => useAutoLock(5, onIdle));
+
+    vi.advanceTimersByTime(5 * 60 * 1000 - 1);
+    expect(onIdle).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('操作があると時間を数え直す', () => {
+    const handlers: Record<string, EventListener> = {};
+    vi.spyOn(window, 'addEventListener').mockImplementation((type: string, listener: EventListenerOrEventListenerObject) => {
+      handlers[type] = listener as EventListener;
+    });
+    const onIdle = vi.fn();
+    renderHook(() => useAutoLock(1, onIdle));
+
+    vi.advanceTimersByTime(50 * 1000);
+    handlers.keydown(new KeyboardEvent('keydown'));
+    vi.advanceTimersByTime(50 * 1000);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10 * 1000);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('0分の場合やアンマウント後は呼び出さない', () => {
+    const onIdle = vi.fn();
+    renderHook(() => useAutoLock(0, onIdle));
+    const { unmount } = renderHook(() => useAutoLock(1, onIdle));
+    unmount();
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { describe, it, expect } from 'vitest';
+import { useJournalImport } from '../useJournalImport';
+import { useDiary } from '../useDiary';
+import { usePosts } from '../usePosts';
+import { AppProvider } from '../../context/AppContext';
+import { MemoryDataService } from '../../services/MemoryDataService';
+import { DEFAULT_JOURNAL_IMPORT_OPTIONS } from '../../services/journalParsers';
+import { createMockPost } from '../../test/fixtures/testData';
+
+const createWrapper = (dataService: MemoryDataService) => {
+  return ({ children }: { children: ReactNode }) => (
+    <AppProvider dataService={dataService}>{children}</AppProvider>
+  );
+};
+
+describe('useJournalImport', () => {
+  it('取り込んだ日の投稿を、読み込み済みの日記エントリーに反映する', async () => {
+    const dataService = new MemoryDataService({
+      posts: [createMockPost({ id: 'existing', content: '前からある投稿', createdAt: new Date(2024, 0, 10, 12), updatedAt: new Date(2024, 0, 10, 12) })]
+    });
+    const { result } = renderHook(() => ({
+      posts: usePosts(),
+      diary: useDiary(),
+      journalImport: useJournalImport()
+    }), { wrapper: createWrapper(dataService) });
+
+    await waitFor(() => {
+      expect(result.current.diary.diaryEntries.map(entry => entry.postCount)).toEqual([1]);
+    });
+
+    await act(async () => {
+      // jsdomのFileはtext()を持たないため、読み取り結果を指定する
+      const file = Object.assign(new File([], '2024-01-20.md', { type: 'text/markdown' }), {
+        text: async () => '取り込んだ日記'
+      });
+      await result.current.journalImport.importFiles([file], 'auto', DEFAULT_JOURNAL_IMPORT_OPTIONS);
+    });
+
+    expect(result.current.journalImport.report).toMatchObject({ imported: 1, failed: 0 });
+    await waitFor(() => {
+      expect(result.current.diary.diaryEntries.flatMap(entry => entry.posts.map(post => post.content)))
+        .toEqual(['取り込んだ日記', '前からある投稿']);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { describe, it, expect } from 'vitest';
+import { usePosts } from '../usePosts';
+import { AppProvider } from '../../context/AppContext';
+import { useDataService } from '../useDataService';
+import { MemoryDataService } from '../../services/MemoryDataService';
+import { createMockPosts } from '../../test/fixtures/testData';
+
+/**
+ * データサービスを注入したProviderでフックを描画する
+ * モジュールをモックせずに、メモリ上のデータでフックを検証できる
+ */
+const createWrapper = (dataService: MemoryDataService) => {
+  return ({ children }: { children: ReactNode }) => (
+    <AppProvider dataService={dataService}>{children}</AppProvider>
+  );
+};
+
+describe('usePosts（DataServiceProviderによる注入）', () => {
+  it('注入されたデータサービスから投稿を読み込む', async () => {
+    const seed = createMockPosts(3);
+    const { result } = renderHook(() => usePosts(), {
+      wrapper: createWrapper(new MemoryDataService({ posts: seed }))
+    });
+
+    await waitFor(() => {
+      expect(result.current.posts.map(post => post.id)).toEqual(seed.map(post => post.id));
+    });
+  });
+
+  it('作成・削除・復元を注入されたデータサービスに保存する', async () => {
+    const dataService = new MemoryDataService();
+    const { result } = renderHook(() => usePosts(), { wrapper: createWrapper(dataService) });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let postId = '';
+    await act(async () => {
+      const post = await result.current.createPost({ content: '注入されたサービスへの投稿' });
+      postId = post!.id;
+    });
+    expect(result.current.posts.map(post => post.id)).toEqual([postId]);
+    expect(await dataService.getPost(postId)).not.toBeNull();
+
+    await act(async () => {
+      await result.current.deletePost(postId);
+    });
+    expect(result.current.posts).toEqual([]);
+    expect((await dataService.getTrashedPosts()).map(post => post.id)).toEqual([postId]);
+
+    await act(async () => {
+      await result.current.restorePost(postId);
+    });
+    expect(result.current.posts.map(post => post.id)).toEqual([postId]);
+  });
+
+  it('一括の作成・更新・削除を状態に反映する', async () => {
+    const dataService = new MemoryDataService();
+    const { result } = renderHook(() => usePosts(), { wrapper: createWrapper(dataService) });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.createPosts([{ content: '1件目' }, { content: '2件目' }]);
+    });
+    expect(result.current.posts.map(post => post.content).sort()).toEqual(['1件目', '2件目']);
+
+    const ids = result.current.posts.map(post => post.id);
+    await act(async () => {
+      await result.current.updatePosts(ids.map(id => ({ id, input: { tags: ['まとめて'] } })));
+    });
+    expect(result.current.posts.every(post => post.tags?.includes('まとめて'))).toBe(true);
+
+    await act(async () => {
+      await result.current.deletePosts(ids);
+    });
+    expect(result.current.posts).toEqual([]);
+    expect(await dataService.getTrashedPosts()).toHaveLength(2);
+  });
+
+  it('Provider内の全てのフックが同じデータサービスを参照する', () => {
+    const dataService = new MemoryDataService();
+    const { result } = renderHook(() => useDataService(), { wrapper: createWrapper(dataService) });
+
+    expect(result.current).toBe(dataService);
+  });
+});
@@ -14,4 +14,48 @@ export { useCalendar } from './useCalendar';
 export { useStats } from './useStats';
 
 // 継続促進機能用のフック
-export { useMotivation } from './useMotivation';
\ No newline at end of file
+export { useMotivation } from './useMotivation';
+// 全文検索用のフック
+export { useSearch } from './useSearch';
+
+// スター付きの投稿の絞り込み用のフック
+export { useStarredFilter } from './useStarredFilter';
+
+// ゴミ箱用のフック
+export { useTrash } from './useTrash';
+
+// 編集履歴用のフック
+export { useRevisions } from './useRevisions';
+
+// タブ間同期用のフック
+export { usePostUpdates } from './usePostUpdates';
+
+// データサービスの注入用のフック
+export { useDataService } from './useDataService';
+
+// 同期サーバーとの同期用のフック
+export { useSync } from './useSync';
+
+// 投稿の暗号化用のフック
+export { useEncryption } from './useEncryption';
+
+// 画像の添付用のフック
+export { useAttachments } from './useAttachments';
+
+// 保存容量の確認用のフック
+export { useStorageQuota } from './useStorageQuota';
+
+// バックアップの書き出し・取り込み用のフック
+export { useBackup } from './useBackup';
+
+// 日記のMarkdown形式での書き出し用のフック
+export { useMarkdownExport } from './useMarkdownExport';
+
+// 他の日記アプリからの取り込み用のフック
+export { useJournalImport } from './useJournalImport';
+
+// 投稿のiCalendar形式での書き出し用のフック
+export { useICalendarExport } from './useICalendarExport';
+
+// 日記の本（印刷用の表示）用のフック
+export { useDiaryBook } from './useDiaryBook';
@@ -23,7 +23,24 @@ const initialState: AppState = {
   // 継続促進機能用の新規フィールド
   motivationMessages: [],    // 促進メッセージのリスト
   lastPostDate: null,        // 最後の投稿日
-  daysSinceLastPost: 0       // 最後の投稿からの経過日数
+  daysSinceLastPost: 0,      // 最後の投稿からの経過日数
+
+  // 全文検索用のフィールド
+  searchQuery: '',           // 検索ボックスの入力内容
+  searchResults: null,       // 検索にヒットした投稿（未検索時はnull）
+
+  // ページング用のフィールド
+  postsCursor: null,         // 次ページ取得時のカーソル
+  hasMorePosts: false,       // 未読み込みの投稿があるか
+
+  // タブ間同期用のフィールド
+  remotelyDeletedPostIds: [], // 他のタブで削除された投稿のID
+
+  // スター付きの絞り込み用のフィールド
+  showStarredOnly: false,    // スター付きの投稿のみ表示するか
+
+  // 保存容量の不足への対応用のフィールド
+  storageRecovery: null      // 保存容量の確認画面（閉じている時はnull）
 };
 
 // Reducerの実装
@@ -33,30 +50,66 @@ function appReducer(state: AppState, action: AppAction): AppState {
       return {
         ...state,
         posts: action.payload,
+        postsCursor: null,
+        hasMorePosts: false,
+        loading: { isLoading: false },
+        error: null
+      };
+
+    case 'LOAD_POSTS_PAGE':
+      return {
+        ...state,
+        posts: action.payload.posts,
+        postsCursor: action.payload.nextCursor,
+        hasMorePosts: action.payload.nextCursor !== null,
+        // 取り込みなどで投稿を読み込み直した場合も、日記関連のデータをクリアして再計算を促す
+        diaryEntries: [],
+        calendarData: [],
+        diaryStats: null,
+        loading: { isLoading: false },
+        error: null
+      };
+
+    case 'APPEND_POSTS_PAGE': {
+      // 読み込み中に追加された投稿と重複しないようにIDで除外
+      const loadedIds = new Set(state.posts.map(post => post.id));
+      return {
+        ...state,
+        posts: [...state.posts, ...action.payload.posts.filter(post => !loadedIds.has(post.id))],
+        postsCursor: action.payload.nextCursor,
+        hasMorePosts: action.payload.nextCursor !== null,
         loading: { isLoading: false },
         error: null
       };
+    }
 
-    case 'ADD_POST':
+    case 'ADD_POST': {
+      // 過去の日付で書いた投稿も投稿日時の位置（新しい順）に追加する
+      const posts = [action.payload, ...state.posts]
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      const isLatest = !state.lastPostDate
+        || new Date(action.payload.createdAt).getTime() >= new Date(state.lastPostDate).getTime();
       return {
         ...state,
-        posts: [action.payload, ...state.posts], // 新しい投稿を先頭に追加
+        posts,
         error: null,
         // 投稿が追加されたら日記関連のデータをクリアして再計算を促す
         diaryEntries: [],
         calendarData: [],
         diaryStats: null,
-        // 継続促進機能の状態も更新
-        lastPostDate: action.payload.createdAt,
-        daysSinceLastPost: 0 // 新しい投稿があったので0にリセット
+        // 継続促進機能の状態も更新（最後の投稿より前の日付で書いた場合はそのまま）
+        lastPostDate: isLatest ? action.payload.createdAt : state.lastPostDate,
+        daysSinceLastPost: isLatest ? 0 : state.daysSinceLastPost // 新しい投稿があったので0にリセット
       };
+    }
 
     case 'UPDATE_POST':
       return {
         ...state,
-        posts: state.posts.map(post => 
-          post.id === action.payload.id ? action.payload : post
-        ),
+        // 投稿日時が変更された場合に備えて並べ直す
+        posts: state.posts
+          .map(post => post.id === action.payload.id ? action.payload : post)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
         error: null,
         // 投稿が更新されたら日記関連のデータをクリアして再計算を促す
         diaryEntries: [],
@@ -69,6 +122,9 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         posts: state.posts.filter(post => post.id !== action.payload),
         selectedPostId: state.selectedPostId === action.payload ? null : state.selectedPostId,
+        searchResults: state.searchResults
+          ? state.searchResults.filter(post => post.id !== action.payload)
+          : null,
         error: null,
         // 投稿が削除されたら日記関連のデータをクリアして再計算を促す
         diaryEntries: [],
@@ -77,6 +133,133 @@ function appReducer(state: AppState, action: AppAction): AppState {
         // 継続促進機能の状態は削除後に再計算されるため、ここでは更新しない
       };
 
+    case 'RESTORE_POST': {
+      // 復元した投稿は作成日時の位置（新しい順）に戻す
+      const posts = [
+        action.payload,
+        ...state.posts.filter(post => post.id !== action.payload.id)
+      ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      return {
+        ...state,
+        posts,
+        error: null,
+        // 投稿が復元されたら日記関連のデータをクリアして再計算を促す
+        diaryEntries: [],
+        calendarData: [],
+        diaryStats: null
+      };
+    }
+
+    case 'ADD_POSTS': {
+      if (action.payload.length === 0) {
+        return state;
+      }
+      const addedIds = new Set(action.payload.map(post => post.id));
+      const posts = [
+        ...action.payload,
+        ...state.posts.filter(post => !addedIds.has(post.id))
+      ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      const newestCreatedAt = action.payload.reduce(
+        (newest, post) => (new Date(post.createdAt) > newest ? new Date(post.createdAt) : newest),
+        new Date(action.payload[0].createdAt)
+      );
+      const isLatest = !state.lastPostDate || newestCreatedAt.getTime() >= new Date(state.lastPostDate).getTime();
+      return {
+        ...state,
+        posts,
+        error: null,
+        // 投稿が追加されたら日記関連のデータをクリアして再計算を促す
+        diaryEntries: [],
+        calendarData: [],
+        diaryStats: null,
+        lastPostDate: isLatest ? newestCreatedAt : state.lastPostDate,
+        daysSinceLastPost: isLatest ? 0 : state.daysSinceLastPost
+      };
+    }
+
+    case 'UPDATE_POSTS': {
+      const updatedPosts = new Map(action.payload.map(post => [post.id, post]));
+      return {
+        ...state,
+        posts: state.posts
+          .map(post => updatedPosts.get(post.id) || post)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+        searchResults: state.searchResults
+          ? state.searchResults.map(post => updatedPosts.get(post.id) || post)
+          : null,
+        error: null,
+        // 投稿が更新されたら日記関連のデータをクリアして再計算を促す
+        diaryEntries: [],
+        calendarData: [],
+        diaryStats: null
+      };
+    }
+
+    case 'DELETE_POSTS': {
+      const deletedIds = new Set(action.payload);
+      return {
+        ...state,
+        posts: state.posts.filter(post => !deletedIds.has(post.id)),
+        selectedPostId: state.selectedPostId && deletedIds.has(state.selectedPostId) ? null : state.selectedPostId,
+        highlightedPostIds: state.highlightedPostIds.filter(id => !deletedIds.has(id)),
+        searchResults: state.searchResults
+          ? state.searchResults.filter(post => !deletedIds.has(post.id))
+          : null,
+        error: null,
+        // 投稿が削除されたら日記関連のデータをクリアして再計算を促す
+        diaryEntries: [],
+        calendarData: [],
+        diaryStats: null
+      };
+    }
+
+    case 'APPLY_REMOTE_CHANGES': {
+      const deletedIds = new Set(action.payload.deletedIds);
+      const changedPosts = new Map(action.payload.posts.map(post => [post.id, post]));
+      const remainingPosts = state.posts.filter(post => !deletedIds.has(post.id));
+      const loadedIds = new Set(remainingPosts.map(post => post.id));
+
+      // 未読み込みのページに含まれる古い投稿は、ページの読み込み時に取得されるため追加しない
+      const oldestLoaded = state.hasMorePosts && remainingPosts.length > 0
+        ? new Date(remainingPosts[remainingPosts.length - 1].createdAt).getTime()
+        : -Infinity;
+      const addedPosts = action.payload.posts.filter(post =>
+        !loadedIds.has(post.id) && new Date(post.createdAt).getTime() >= oldestLoaded
+      );
+
+      const posts = [
+        ...remainingPosts.map(post => changedPosts.get(post.id) || post),
+        ...addedPosts
+      ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+      return {
+        ...state,
+        posts,
+        selectedPostId: state.selectedPostId && deletedIds.has(state.selectedPostId) ? null : state.selectedPostId,
+        highlightedPostIds: state.highlightedPostIds.filter(id => !deletedIds.has(id)),
+        searchResults: state.searchResults
+          ? state.searchResults
+              .filter(post => !deletedIds.has(post.id))
+              .map(post => changedPosts.get(post.id) || post)
+          : null,
+        // 復元された投稿は削除の警告対象から外す
+        remotelyDeletedPostIds: [
+          ...state.remotelyDeletedPostIds.filter(id => !changedPosts.has(id) && !deletedIds.has(id)),
+          ...action.payload.deletedIds
+        ],
+        // 他のタブで変更されたら日記関連のデータをクリアして再計算を促す
+        diaryEntries: [],
+        calendarData: [],
+        diaryStats: null
+      };
+    }
+
+    case 'DISMISS_REMOTE_DELETION':
+      return {
+        ...state,
+        remotelyDeletedPostIds: state.remotelyDeletedPostIds.filter(id => id !== action.payload)
+      };
+
     case 'SELECT_POST':
       return {
         ...state,
@@ -221,6 +404,48 @@ function appReducer(state: AppState, action: AppAction): AppState {
         daysSinceLastPost: action.payload
       };
 
+    // 全文検索用のアクション
+    case 'SET_SEARCH_QUERY':
+      return {
+        ...state,
+        searchQuery: action.payload
+      };
+
+    case 'SET_SEARCH_RESULTS':
+      return {
+        ...state,
+        searchResults: action.payload
+      };
+
+    case 'CLEAR_SEARCH':
+      return {
+        ...state,
+        searchQuery: '',
+        searchResults: null
+      };
+
+    case 'SET_STARRED_ONLY':
+      return {
+        ...state,
+        showStarredOnly: action.payload
+      };
+
+    case 'OPEN_STORAGE_RECOVERY':
+      return {
+        ...state,
+        // 開いている間に続けて失敗した場合も、最初の未保存の内容を失わないようにする
+        storageRecovery: {
+          operation: action.payload.operation ?? state.storageRecovery?.operation ?? null,
+          unsavedContent: action.payload.unsavedContent ?? state.storageRecovery?.unsavedContent ?? null
+        }
+      };
+
+    case 'CLOSE_STORAGE_RECOVERY':
+      return {
+        ...state,
+        storageRecovery: null
+      };
+
     default:
       return state;
   }
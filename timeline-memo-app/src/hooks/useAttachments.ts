@@ -0,0 +1,66 @@
+import { useCallback, useState } from 'react';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import { createAttachmentInput, createAttachmentMarkdown } from '../utils/attachmentUtils';
+
+/**
+ * useAttachmentsフックの戻り値の型定義
+ */
+export interface UseAttachmentsReturn {
+  // 保存先が画像の添付に対応しているか
+  isAvailable: boolean;
+  isUploading: boolean;
+  // 画像を保存し、本文に挿入するMarkdownを返す（保存できなかった画像は含まない）
+  uploadImages: (files: File[]) => Promise<string[]>;
+}
+
+/**
+ * 投稿への画像の添付用のカスタムフック
+ *
+ * 機能:
+ * - 画像の検証（形式・サイズ）とサムネイルの作成
+ * - 添付画像の保存と、本文に挿入するMarkdownの作成
+ *
+ * 保存した画像は、投稿を保存した時に投稿へ紐付けられる（usePosts）
+ *
+ * @returns 添付の可否と操作関数
+ */
+export function useAttachments(): UseAttachmentsReturn {
+  const dataService = useDataService();
+  const { executeAsync } = useErrorHandler();
+  const [isUploading, setIsUploading] = useState(false);
+  const attachmentStore = dataService.attachments;
+
+  const uploadImages = useCallback(async (files: File[]): Promise<string[]> => {
+    if (!attachmentStore || files.length === 0) {
+      return [];
+    }
+
+    setIsUploading(true);
+    try {
+      const snippets: string[] = [];
+      for (const file of files) {
+        const attachment = await executeAsync(
+          async () => attachmentStore.saveAttachment(await createAttachmentInput(file)),
+          {
+            loadingMessage: '画像を添付しています...',
+            errorTitle: `「${file.name || '画像'}」を添付できませんでした`,
+            context: 'uploadAttachment'
+          }
+        );
+        if (attachment) {
+          snippets.push(createAttachmentMarkdown(attachment.id, attachment.fileName));
+        }
+      }
+      return snippets;
+    } finally {
+      setIsUploading(false);
+    }
+  }, [attachmentStore, executeAsync]);
+
+  return {
+    isAvailable: attachmentStore !== undefined,
+    isUploading,
+    uploadImages
+  };
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+
+// 操作があったとみなすイベント
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * 一定時間操作がない場合にコールバックを呼び出すカスタムフック
+ * 画面が非表示の間も時間を数え、表示に戻った時点で時間を過ぎていれば呼び出す
+ *
+ * @param minutes 操作がない状態を許容する時間（分）。0以下の場合は何もしない
+ * @param onIdle 時間を過ぎた時に呼び出すコールバック
+ */
+export function useAutoLock(minutes: number, onIdle: () => void): void {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (minutes <= 0) {
+      return;
+    }
+
+    const timeoutMs = minutes * 60 * 1000;
+    let lastActivity = Date.now();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      schedule();
+    };
+
+    // スリープなどでタイマーが遅れた場合に備え、表示に戻った時に経過時間を確認する
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && Date.now() - lastActivity >= timeoutMs) {
+        onIdleRef.current();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    schedule();
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [minutes]);
+}
@@ -0,0 +1,144 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import { POSTS_PAGE_SIZE } from './usePosts';
+import type { Post } from '../types';
+import {
+  exportBackup as createBackup,
+  parseBackup,
+  planBackupImport,
+  applyBackupImport,
+  type BackupImportPlan,
+  type BackupMergeStrategy,
+  type ParsedBackup
+} from '../services/BackupService';
+import { downloadFile, createDatedFileName } from '../utils/downloadUtils';
+
+// 取り込む前に内容を確認しているバックアップ
+interface PendingBackupImport {
+  fileName: string;
+  backup: ParsedBackup;
+  existingPosts: Post[];
+}
+
+/**
+ * useBackupフックの戻り値の型定義
+ */
+export interface UseBackupReturn {
+  // 取り込む前に確認しているファイル（選択していない場合はnull）
+  pendingFileName: string | null;
+  pendingIssues: string[];
+  importPlan: BackupImportPlan | null;
+  mergeStrategy: BackupMergeStrategy;
+  exportBackup: () => Promise<boolean>;
+  selectImportFile: (file: File) => Promise<boolean>;
+  setMergeStrategy: (strategy: BackupMergeStrategy) => void;
+  confirmImport: () => Promise<boolean>;
+  cancelImport: () => void;
+}
+
+/**
+ * 投稿のバックアップ用のカスタムフック
+ *
+ * 機能:
+ * - 全ての投稿と編集履歴のJSONファイルへの書き出し
+ * - ファイルの読み込みと検証、同じIDの投稿の取り込み方の選択
+ * - 取り込む前のプレビュー（追加・上書き・別の投稿として追加・スキップの件数）
+ *
+ * @returns 取り込みの計画と操作関数
+ */
+export function useBackup(): UseBackupReturn {
+  const { dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { executeAsync, showSuccess } = useErrorHandler();
+  const [pendingImport, setPendingImport] = useState<PendingBackupImport | null>(null);
+  const [mergeStrategy, setMergeStrategy] = useState<BackupMergeStrategy>('skip');
+
+  const importPlan = useMemo(
+    () => pendingImport ? planBackupImport(pendingImport.backup, pendingImport.existingPosts, mergeStrategy) : null,
+    [pendingImport, mergeStrategy]
+  );
+
+  const exportBackup = useCallback(async (): Promise<boolean> => {
+    const backup = await executeAsync(
+      () => createBackup(dataService),
+      {
+        loadingMessage: 'バックアップを作成しています...',
+        errorTitle: 'バックアップを作成できませんでした',
+        context: 'exportBackup'
+      }
+    );
+    if (!backup) {
+      return false;
+    }
+
+    downloadFile(
+      JSON.stringify(backup, null, 2),
+      createDatedFileName('timeline-memo-backup', 'json'),
+      'application/json'
+    );
+    showSuccess('バックアップを書き出しました', `${backup.metadata.postCount}件の投稿を保存しました`);
+    return true;
+  }, [executeAsync, showSuccess, dataService]);
+
+  // ファイルを読み込み、既存の投稿と照らし合わせてプレビューを表示する
+  const selectImportFile = useCallback(async (file: File): Promise<boolean> => {
+    const pending = await executeAsync(
+      async () => {
+        const backup = parseBackup(await file.text());
+        const existingPosts = [...await dataService.getAllPosts(), ...await dataService.getTrashedPosts()];
+        return { fileName: file.name, backup, existingPosts };
+      },
+      {
+        loadingMessage: 'バックアップを読み込んでいます...',
+        errorTitle: 'バックアップを読み込めませんでした',
+        context: 'readBackup'
+      }
+    );
+    setPendingImport(pending);
+    return pending !== null;
+  }, [executeAsync, dataService]);
+
+  const confirmImport = useCallback(async (): Promise<boolean> => {
+    if (!importPlan) {
+      return false;
+    }
+    const page = await executeAsync(
+      async () => {
+        await applyBackupImport(dataService, importPlan);
+        return dataService.getPostsPage({ limit: POSTS_PAGE_SIZE });
+      },
+      {
+        loadingMessage: 'バックアップを取り込んでいます...',
+        errorTitle: 'バックアップを取り込めませんでした',
+        context: 'importBackup'
+      }
+    );
+    if (!page) {
+      return false;
+    }
+
+    // 取り込んだ投稿は一覧のどこに入るか分からないため、先頭ページから読み込み直す
+    dispatch({ type: 'LOAD_POSTS_PAGE', payload: page });
+    setPendingImport(null);
+    showSuccess('バックアップを取り込みました', `${importPlan.posts.length}件の投稿を取り込みました`);
+    return true;
+  }, [importPlan, executeAsync, dispatch, showSuccess, dataService]);
+
+  const cancelImport = useCallback(() => {
+    setPendingImport(null);
+  }, []);
+
+  return {
+    pendingFileName: pendingImport?.fileName ?? null,
+    pendingIssues: pendingImport?.backup.issues ?? [],
+    importPlan,
+    mergeStrategy,
+    exportBackup,
+    selectImportFile,
+    setMergeStrategy,
+    confirmImport,
+    cancelImport
+  };
+}
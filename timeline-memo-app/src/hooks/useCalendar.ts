@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { CalendarDay, Post } from '../types';
 import { CalendarService } from '../services/CalendarService';
-import { IndexedDBService } from '../services/IndexedDBService';
+import { useDataService } from './useDataService';
 import { useAppReducer } from './useAppReducer';
 
 /**
@@ -50,12 +50,9 @@ export interface UseCalendarReturn {
 export function useCalendar(): UseCalendarReturn {
   const { state, dispatch } = useAppReducer();
   
-  // カレンダーサービスのインスタンス化（メモ化）
-  const calendarService = useMemo(() => {
-    // IndexedDBServiceを使用
-    const dataService = new IndexedDBService();
-    return new CalendarService(dataService);
-  }, []);
+  // カレンダーサービスのインスタンス化（注入されたデータサービスを使用）
+  const dataService = useDataService();
+  const calendarService = useMemo(() => new CalendarService(dataService), [dataService]);
   
   // 現在の年月の状態管理
   const [currentYear, setCurrentYear] = useState(() => new Date().getFullYear());
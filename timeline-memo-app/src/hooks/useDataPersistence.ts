@@ -1,12 +1,13 @@
 import { useCallback } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { IndexedDBService } from '../services/IndexedDBService';
+import { useDataService } from './useDataService';
 import { performDataIntegrityCheck, checkDatabaseHealth, checkStorageQuota } from '../utils/dataIntegrityUtils';
+import { createActionToast } from '../utils/errorUtils';
 
 // データ永続化とオフライン対応のカスタムフック
 export function useDataPersistence() {
   const { state, dispatch } = useAppContext();
-  const dataService = new IndexedDBService();
+  const dataService = useDataService();
 
   /**
    * アプリ起動時のデータ復元
@@ -16,8 +17,8 @@ export function useDataPersistence() {
       dispatch({ type: 'SET_LOADING', payload: { isLoading: true, operation: 'データを読み込んでいます...' } });
       dispatch({ type: 'SET_ERROR', payload: null });
 
-      // IndexedDBサービスの初期化
-      await dataService.init();
+      // データサービスの初期化（接続を持つ実装のみ）
+      await dataService.init?.();
 
       // 保存されている投稿データを取得
       const rawPosts = await dataService.getAllPosts();
@@ -35,6 +36,16 @@ export function useDataPersistence() {
       const storageInfo = await checkStorageQuota();
       if (storageInfo.isNearLimit) {
         console.warn('[データ復元] ストレージ使用量が上限に近づいています');
+        // 保存できなくなる前に、容量の確認画面から空き容量を確保できるようにする
+        dispatch({
+          type: 'ADD_TOAST',
+          payload: createActionToast(
+            '保存容量が残りわずかです',
+            `ブラウザの保存容量の${Math.round(storageInfo.percentage)}%を使用しています`,
+            '容量を確認',
+            () => dispatch({ type: 'OPEN_STORAGE_RECOVERY', payload: { operation: null, unsavedContent: null } })
+          )
+        });
       }
       
       console.log(`[データ復元] ${integrityResult.validPosts.length}件の投稿を復元しました`);
@@ -47,15 +58,20 @@ export function useDataPersistence() {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: { isLoading: false } });
     }
-  }, [dispatch]);
+  }, [dispatch, dataService]);
 
   /**
    * データ整合性の確認
    */
   const verifyDataIntegrity = useCallback(async () => {
     try {
-      // データベースの統計情報を取得
-      const stats = await dataService.getStats();
+      // データベースの統計情報を取得（投稿は新しい順）
+      const posts = await dataService.getAllPosts();
+      const stats = {
+        totalPosts: posts.length,
+        newestPost: posts[0]?.createdAt,
+        oldestPost: posts[posts.length - 1]?.createdAt
+      };
       console.log('[データ整合性確認]', stats);
 
       // データベースの健全性チェック
@@ -65,7 +81,8 @@ export function useDataPersistence() {
       }
 
       // 現在のstate内の投稿数とデータベース内の投稿数を比較
-      if (state.posts.length !== stats.totalPosts) {
+      // （ページ単位で読み込み中の場合は未読み込み分があるため比較しない）
+      if (!state.hasMorePosts && state.posts.length !== stats.totalPosts) {
         console.warn('[データ整合性警告] state内の投稿数とDB内の投稿数が一致しません', {
           stateCount: state.posts.length,
           dbCount: stats.totalPosts
@@ -88,7 +105,7 @@ export function useDataPersistence() {
       console.error('[データ整合性確認エラー]', error);
       return false;
     }
-  }, [state.posts, loadInitialData, dispatch]);
+  }, [state.posts, state.hasMorePosts, loadInitialData, dispatch, dataService]);
 
   /**
    * エラー時のデータ復旧
@@ -97,14 +114,8 @@ export function useDataPersistence() {
     try {
       console.log('[データ復旧] エラーからの復旧を開始します');
       
-      // データベース接続の状態を確認
-      const status = dataService.getStatus();
-      console.log('[データ復旧] データベース状態:', status);
-
-      if (!status.isInitialized || !status.isConnected) {
-        // データベースを再初期化
-        await dataService.init();
-      }
+      // データベースを再初期化（初期化済みの場合は何もしない）
+      await dataService.init?.();
 
       // データを再読み込み
       await loadInitialData();
@@ -119,7 +130,7 @@ export function useDataPersistence() {
       });
       return false;
     }
-  }, [loadInitialData, dispatch]);
+  }, [loadInitialData, dispatch, dataService]);
 
   /**
    * オフライン状態の検出と対応
@@ -176,7 +187,7 @@ export function useDataPersistence() {
   const handleBeforeUnload = useCallback(() => {
     const handleBeforeUnloadEvent = () => {
       // ブラウザ終了前にデータベース接続を適切に閉じる
-      dataService.close();
+      dataService.close?.();
     };
 
     window.addEventListener('beforeunload', handleBeforeUnloadEvent);
@@ -184,7 +195,7 @@ export function useDataPersistence() {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnloadEvent);
     };
-  }, []);
+  }, [dataService]);
 
   return {
     loadInitialData,
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import type { DataService } from '../services/DataService';
+import { getDefaultDataService } from '../services/dataServiceFactory';
+
+// データサービスの Context（Provider外では起動モードに応じた既定のサービスを使う）
+export const DataServiceContext = createContext<DataService | null>(null);
+
+/**
+ * 注入されたデータサービスを取得するカスタムフック
+ * DataServiceProvider（AppProviderに含まれる）で指定されたサービスを返す
+ */
+export function useDataService(): DataService {
+  return useContext(DataServiceContext) || getDefaultDataService();
+}
@@ -1,10 +1,9 @@
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { useErrorHandler } from './useErrorHandler';
-import type { DiaryEntry, DateRange } from '../types';
-import type { DataService } from '../services/DataService';
+import type { DiaryEntry, DateRange, PostsPageCursor } from '../types';
 import { DiaryService } from '../services/DiaryService';
-import { IndexedDBService } from '../services/IndexedDBService';
+import { useDataService } from './useDataService';
 import { 
   validateDateRange,
   logDiaryError,
@@ -13,9 +12,8 @@ import {
   ErrorLevel
 } from '../utils/diaryErrorUtils';
 
-// データサービスとDiaryServiceのインスタンス
-const dataService: DataService = new IndexedDBService();
-const diaryService = new DiaryService(dataService);
+// 1ページあたりに読み込む投稿数（日記エントリーは投稿の日付でグループ化される）
+const DIARY_PAGE_SIZE = 50;
 
 /**
  * 日記機能のためのカスタムフック
@@ -25,24 +23,18 @@ export function useDiary() {
   const { state, dispatch } = useAppContext();
   const { executeAsync } = useErrorHandler();
 
-  // 日記エントリーの読み込み（全期間）
+  // 注入されたデータサービスを使うDiaryService
+  const dataService = useDataService();
+  const diaryService = useMemo(() => new DiaryService(dataService), [dataService]);
+
+  // 次ページのカーソル（日付範囲フィルター中はnull）
+  const [diaryCursor, setDiaryCursor] = useState<PostsPageCursor | null>(null);
+  const isLoadingMoreRef = useRef(false);
+
+  // 日記エントリーの読み込み（全期間の先頭ページ）
   const loadDiaryEntries = useCallback(async () => {
-    const entries = await executeAsync(
-      async () => {
-        // 全投稿を取得して日付でグループ化
-        const posts = await dataService.getAllPosts();
-        if (posts.length === 0) {
-          return [];
-        }
-        
-        // 最古と最新の投稿日を取得
-        const sortedPosts = [...posts].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-        const startDate = new Date(sortedPosts[0].createdAt);
-        const endDate = new Date(sortedPosts[sortedPosts.length - 1].createdAt);
-        
-        // 日付範囲で日記エントリーを取得
-        return await diaryService.getEntriesByDateRange(startDate, endDate);
-      },
+    const page = await executeAsync(
+      () => diaryService.getEntriesPage({ limit: DIARY_PAGE_SIZE }),
       {
         loadingMessage: '日記エントリーを読み込んでいます...',
         errorTitle: '日記エントリーの読み込みに失敗しました',
@@ -50,10 +42,40 @@ export function useDiary() {
       }
     );
     
-    if (entries) {
-      dispatch({ type: 'LOAD_DIARY_ENTRIES', payload: entries });
+    if (page) {
+      setDiaryCursor(page.nextCursor);
+      dispatch({ type: 'LOAD_DIARY_ENTRIES', payload: page.entries });
+    }
+  }, [dispatch, executeAsync, diaryService]);
+
+  // 続きの日記エントリーの読み込み（無限スクロール用）
+  const loadMoreDiaryEntries = useCallback(async () => {
+    if (!diaryCursor || isLoadingMoreRef.current) {
+      return;
+    }
+
+    isLoadingMoreRef.current = true;
+    try {
+      const page = await executeAsync(
+        () => diaryService.getEntriesPage({ before: diaryCursor, limit: DIARY_PAGE_SIZE }),
+        {
+          loadingMessage: '日記エントリーをさらに読み込んでいます...',
+          errorTitle: '日記エントリーの読み込みに失敗しました',
+          context: 'loadMoreDiaryEntries'
+        }
+      );
+
+      if (page) {
+        setDiaryCursor(page.nextCursor);
+        dispatch({
+          type: 'LOAD_DIARY_ENTRIES',
+          payload: diaryService.mergeEntries(state.diaryEntries, page.entries)
+        });
+      }
+    } finally {
+      isLoadingMoreRef.current = false;
     }
-  }, [dispatch, executeAsync]);
+  }, [diaryCursor, state.diaryEntries, dispatch, executeAsync, diaryService]);
 
   // 指定した日付範囲の日記エントリーを読み込み
   const loadDiaryEntriesByDateRange = useCallback(async (dateRange: DateRange) => {
@@ -95,9 +117,11 @@ export function useDiary() {
     );
     
     if (entries) {
+      // 日付範囲内のエントリーは一括で取得するため、続きのページはない
+      setDiaryCursor(null);
       dispatch({ type: 'LOAD_DIARY_ENTRIES', payload: entries });
     }
-  }, [dispatch, executeAsync]);
+  }, [dispatch, executeAsync, diaryService]);
 
   // 特定の日付の日記エントリーを取得
   const getEntryByDate = useCallback(async (date: Date): Promise<DiaryEntry | null> => {
@@ -136,7 +160,7 @@ export function useDiary() {
         context: 'getEntryByDate'
       }
     );
-  }, [executeAsync, dispatch]);
+  }, [executeAsync, dispatch, diaryService]);
 
   // 日記統計の読み込み
   const loadDiaryStats = useCallback(async () => {
@@ -152,7 +176,7 @@ export function useDiary() {
     if (stats) {
       dispatch({ type: 'LOAD_DIARY_STATS', payload: stats });
     }
-  }, [dispatch, executeAsync]);
+  }, [dispatch, executeAsync, diaryService]);
 
   // 日付の選択
   const selectDate = useCallback((date: Date | null) => {
@@ -248,6 +272,7 @@ export function useDiary() {
   return {
     // 状態
     diaryEntries: state.diaryEntries,
+    hasMoreDiaryEntries: diaryCursor !== null,
     selectedDate: state.selectedDate,
     selectedDateEntry,
     diaryStats: state.diaryStats,
@@ -257,6 +282,7 @@ export function useDiary() {
     
     // アクション
     loadDiaryEntries,
+    loadMoreDiaryEntries,
     loadDiaryEntriesByDateRange,
     loadDiaryStats,
     getEntryByDate,
@@ -0,0 +1,77 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import { DiaryService } from '../services/DiaryService';
+import { StatsService } from '../services/StatsService';
+import type { DateRange } from '../types';
+import { createDiaryBook, type DiaryBook, type DiaryBookAppendix } from '../utils/diaryBookUtils';
+
+/**
+ * useDiaryBookフックの戻り値の型定義
+ */
+export interface UseDiaryBookReturn {
+  // 表示している日記の本（読み込んでいない場合はnull）
+  book: DiaryBook | null;
+  appendix: DiaryBookAppendix | null;
+  isLoading: boolean;
+  loadBook: (range: DateRange) => Promise<boolean>;
+  closeBook: () => void;
+}
+
+/**
+ * 日記の本（印刷用の表示）用のカスタムフック
+ *
+ * 機能:
+ * - 日付範囲の日記エントリーの読み込みと、月ごとの章へのまとめ
+ * - 付録の統計（本に含まれる投稿の統計と月ごとの統計）の計算
+ *
+ * @returns 日記の本と操作関数
+ */
+export function useDiaryBook(): UseDiaryBookReturn {
+  const dataService = useDataService();
+  const { executeAsync } = useErrorHandler();
+  const diaryService = useMemo(() => new DiaryService(dataService), [dataService]);
+  const [book, setBook] = useState<DiaryBook | null>(null);
+  const [appendix, setAppendix] = useState<DiaryBookAppendix | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadBook = useCallback(async (range: DateRange): Promise<boolean> => {
+    setIsLoading(true);
+    try {
+      const entries = await executeAsync(
+        () => diaryService.getEntriesForExport(range.start, range.end),
+        {
+          errorTitle: '日記の本を作成できませんでした',
+          context: 'loadDiaryBook'
+        }
+      );
+      if (!entries) {
+        return false;
+      }
+
+      const nextBook = createDiaryBook(entries, range);
+      const posts = entries.flatMap(entry => entry.posts);
+      setBook(nextBook);
+      setAppendix({
+        stats: StatsService.calculateDiaryStats(posts),
+        monthlySummaries: nextBook.months.map(bookMonth => StatsService.generateMonthlySummary(posts, bookMonth.year, bookMonth.month))
+      });
+      return true;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [executeAsync, diaryService]);
+
+  const closeBook = useCallback(() => {
+    setBook(null);
+    setAppendix(null);
+  }, []);
+
+  return {
+    book,
+    appendix,
+    isLoading,
+    loadBook,
+    closeBook
+  };
+}
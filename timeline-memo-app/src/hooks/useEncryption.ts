@@ -0,0 +1,109 @@
+import { useCallback } from 'react';
+import { useErrorHandler } from './useErrorHandler';
+import { useEncryptionControls } from './useEncryptionSession';
+
+/**
+ * useEncryptionフックの戻り値の型定義
+ */
+export interface UseEncryptionReturn {
+  isAvailable: boolean;
+  isEnabled: boolean;
+  autoLockMinutes: number;
+  lock: () => void;
+  enable: (passphrase: string) => Promise<boolean>;
+  changePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<boolean>;
+  disable: (passphrase: string) => Promise<boolean>;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+/**
+ * 投稿の暗号化の設定用のカスタムフック
+ *
+ * 機能:
+ * - 暗号化の有効化・パスフレーズの変更・解除（処理中の表示と結果の通知を含む）
+ * - 自動ロックまでの時間の設定と、手動でのロック
+ *
+ * @returns 暗号化の状態と操作関数
+ */
+export function useEncryption(): UseEncryptionReturn {
+  const controls = useEncryptionControls();
+  const { executeAsync, showSuccess } = useErrorHandler();
+
+  const run = useCallback(async (
+    operation: () => Promise<void>,
+    messages: { loading: string; error: string; success: string; context: string }
+  ): Promise<boolean> => {
+    const result = await executeAsync(
+      async () => {
+        await operation();
+        return true;
+      },
+      {
+        loadingMessage: messages.loading,
+        errorTitle: messages.error,
+        context: messages.context
+      }
+    );
+
+    if (result) {
+      showSuccess(messages.success);
+      return true;
+    }
+    return false;
+  }, [executeAsync, showSuccess]);
+
+  const enable = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!controls) {
+      return false;
+    }
+    return run(() => controls.enable(passphrase), {
+      loading: '投稿を暗号化しています...',
+      error: '暗号化に失敗しました',
+      success: '投稿を暗号化しました',
+      context: 'enableEncryption'
+    });
+  }, [controls, run]);
+
+  const changePassphrase = useCallback(async (currentPassphrase: string, nextPassphrase: string): Promise<boolean> => {
+    if (!controls) {
+      return false;
+    }
+    return run(() => controls.changePassphrase(currentPassphrase, nextPassphrase), {
+      loading: '新しいパスフレーズで暗号化し直しています...',
+      error: 'パスフレーズの変更に失敗しました',
+      success: 'パスフレーズを変更しました',
+      context: 'changePassphrase'
+    });
+  }, [controls, run]);
+
+  const disable = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!controls) {
+      return false;
+    }
+    return run(() => controls.disable(passphrase), {
+      loading: '暗号化を解除しています...',
+      error: '暗号化の解除に失敗しました',
+      success: '暗号化を解除しました',
+      context: 'disableEncryption'
+    });
+  }, [controls, run]);
+
+  const lock = useCallback(() => {
+    controls?.lock();
+  }, [controls]);
+
+  const setAutoLockMinutes = useCallback((minutes: number) => {
+    controls?.setAutoLockMinutes(minutes);
+  }, [controls]);
+
+  return {
+    isAvailable: controls !== null,
+    isEnabled: controls ? controls.isEnabled : false,
+    autoLockMinutes: controls ? controls.autoLockMinutes : 0,
+    lock,
+    enable,
+    changePassphrase,
+    disable,
+    setAutoLockMinutes
+  };
+}
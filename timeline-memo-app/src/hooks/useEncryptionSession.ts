@@ -0,0 +1,162 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { DataService } from '../services/DataService';
+import { reencryptPosts } from '../services/EncryptedDataService';
+import {
+  ENCRYPTION_SETTINGS_STORAGE_KEY,
+  EncryptionError,
+  createEncryptionSettings,
+  loadEncryptionSettings,
+  saveEncryptionSettings,
+  unlockEncryption,
+  type EncryptionKey,
+  type EncryptionSettings,
+} from '../services/EncryptionService';
+import { useAutoLock } from './useAutoLock';
+
+/**
+ * 暗号化の設定を変更する操作
+ * 失敗した場合はEncryptionErrorなどを投げる
+ */
+export interface EncryptionControls {
+  isEnabled: boolean;
+  autoLockMinutes: number;
+  lock: () => void;
+  enable: (passphrase: string) => Promise<void>;
+  changePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<void>;
+  disable: (passphrase: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+// 暗号化の操作の Context（お試しモードなど暗号化に対応しない場合はnull）
+export const EncryptionContext = createContext<EncryptionControls | null>(null);
+
+/**
+ * 注入された暗号化の操作を取得するカスタムフック
+ * AppProviderで指定されていない場合はnullを返す
+ */
+export function useEncryptionControls(): EncryptionControls | null {
+  return useContext(EncryptionContext);
+}
+
+/**
+ * useEncryptionSessionフックの戻り値の型定義
+ */
+export interface EncryptionSession {
+  // 復号に使う鍵（暗号化が無効、またはロック中の場合はnull）
+  key: EncryptionKey | null;
+  // ロックされていて、パスフレーズの入力が必要か
+  isLocked: boolean;
+  unlock: (passphrase: string) => Promise<void>;
+  controls: EncryptionControls;
+}
+
+/**
+ * 暗号化の鍵と設定を管理するカスタムフック（アプリのルートで1回だけ使う）
+ *
+ * 機能:
+ * - 起動時のロックと、パスフレーズによるロック解除
+ * - 一定時間操作がない場合の自動ロック
+ * - 暗号化の有効化・パスフレーズの変更・解除（保存されている投稿を暗号化し直す）
+ * - 他のタブで設定が変わった場合のロック
+ *
+ * @param service 暗号化していない保存先のデータサービス（同期する場合は変更ログで包んだもの）
+ */
+export function useEncryptionSession(service: DataService | null): EncryptionSession {
+  const [settings, setSettings] = useState<EncryptionSettings | null>(() => loadEncryptionSettings());
+  const [key, setKey] = useState<EncryptionKey | null>(null);
+
+  const lock = useCallback(() => {
+    setKey(null);
+  }, []);
+
+  // 他のタブでパスフレーズが変更された場合、この鍵では読めなくなるためロックする
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ENCRYPTION_SETTINGS_STORAGE_KEY) {
+        setSettings(loadEncryptionSettings());
+        setKey(null);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // ロック解除中だけ、操作がない時間を数える
+  useAutoLock(key && settings ? settings.autoLockMinutes : 0, lock);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    if (!settings) {
+      return;
+    }
+    setKey(await unlockEncryption(settings, passphrase));
+  }, [settings]);
+
+  const enable = useCallback(async (passphrase: string) => {
+    if (!service) {
+      throw new EncryptionError('保存先が準備できていません', 'enable');
+    }
+    const created = await createEncryptionSettings(passphrase);
+    // 設定を先に保存する（暗号化が途中で失敗しても、暗号化されていない投稿はそのまま読める）
+    saveEncryptionSettings(created.settings);
+    await reencryptPosts(service, null, created.key);
+    setSettings(created.settings);
+    setKey(created.key);
+  }, [service]);
+
+  const changePassphrase = useCallback(async (currentPassphrase: string, nextPassphrase: string) => {
+    if (!service || !settings) {
+      throw new EncryptionError('暗号化が有効になっていません', 'changePassphrase');
+    }
+    const currentKey = await unlockEncryption(settings, currentPassphrase);
+    const created = await createEncryptionSettings(nextPassphrase, { autoLockMinutes: settings.autoLockMinutes });
+
+    saveEncryptionSettings(created.settings);
+    try {
+      await reencryptPosts(service, currentKey, created.key);
+    } catch (error) {
+      // 書き換えに失敗した場合、投稿は元の鍵のままなので設定を戻す
+      saveEncryptionSettings(settings);
+      throw error;
+    }
+    setSettings(created.settings);
+    setKey(created.key);
+  }, [service, settings]);
+
+  const disable = useCallback(async (passphrase: string) => {
+    if (!service || !settings) {
+      throw new EncryptionError('暗号化が有効になっていません', 'disable');
+    }
+    const currentKey = await unlockEncryption(settings, passphrase);
+    // 投稿を復号してから設定を削除する（途中で失敗しても、設定が残っていれば読める）
+    await reencryptPosts(service, currentKey, null);
+    saveEncryptionSettings(null);
+    setSettings(null);
+    setKey(null);
+  }, [service, settings]);
+
+  const setAutoLockMinutes = useCallback((minutes: number) => {
+    if (!settings) {
+      return;
+    }
+    const nextSettings = { ...settings, autoLockMinutes: minutes };
+    saveEncryptionSettings(nextSettings);
+    setSettings(nextSettings);
+  }, [settings]);
+
+  const controls = useMemo<EncryptionControls>(() => ({
+    isEnabled: settings !== null,
+    autoLockMinutes: settings ? settings.autoLockMinutes : 0,
+    lock,
+    enable,
+    changePassphrase,
+    disable,
+    setAutoLockMinutes,
+  }), [settings, lock, enable, changePassphrase, disable, setAutoLockMinutes]);
+
+  return {
+    key,
+    isLocked: settings !== null && key === null,
+    unlock,
+    controls,
+  };
+}
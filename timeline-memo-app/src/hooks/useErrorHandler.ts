@@ -86,13 +86,15 @@ export function useErrorHandler() {
       successMessage?: string;
       errorTitle?: string;
       context?: string;
+      unsavedContent?: string; // 容量不足で保存できなかった場合に確認画面で表示する内容
     }
   ): Promise<T | null> => {
     const {
       loadingMessage = '処理中...',
       successMessage,
       errorTitle = '操作に失敗しました',
-      context
+      context,
+      unsavedContent
     } = options || {};
 
     // ローディング開始
@@ -115,12 +117,19 @@ export function useErrorHandler() {
       // エラー時の処理（型安全な方法）
       const errorResult = result as { success: false; error: AppError };
       showError(errorResult.error, errorTitle);
+      // 容量不足の場合は、空き容量を確保できるように確認画面を開く
+      if (errorResult.error.type === 'STORAGE_ERROR' && errorResult.error.isQuotaExceeded) {
+        dispatch({
+          type: 'OPEN_STORAGE_RECOVERY',
+          payload: { operation: context ?? null, unsavedContent: unsavedContent ?? null }
+        });
+      }
       return null;
     } finally {
       // ローディング終了
       setLoading({ isLoading: false });
     }
-  }, [setLoading, showError, showSuccess]);
+  }, [dispatch, setLoading, showError, showSuccess]);
 
   // プログレス付き非同期操作のラッパー
   const executeAsyncWithProgress = useCallback(async <T>(
@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import { createICalendar } from '../utils/icalendarUtils';
+import { getMonthDateRange } from '../utils/markdownExportUtils';
+import { downloadFile } from '../utils/downloadUtils';
+
+/**
+ * useICalendarExportフックの戻り値の型定義
+ */
+export interface UseICalendarExportReturn {
+  exportMonth: (year: number, month: number) => Promise<boolean>;
+}
+
+/**
+ * 投稿のiCalendar（.ics）形式での書き出し用のカスタムフック
+ *
+ * 機能:
+ * - 月を指定した投稿の書き出し（1件の投稿を1件の日誌（VJOURNAL）にする）
+ *
+ * @returns 書き出しの操作関数
+ */
+export function useICalendarExport(): UseICalendarExportReturn {
+  const dataService = useDataService();
+  const { executeAsync, showSuccess, showWarning } = useErrorHandler();
+
+  const exportMonth = useCallback(async (year: number, month: number): Promise<boolean> => {
+    const { start, end } = getMonthDateRange(year, month);
+    const posts = await executeAsync(
+      () => dataService.getPostsByDateRange(start, end),
+      {
+        loadingMessage: '投稿を書き出しています...',
+        errorTitle: 'iCalendarに書き出せませんでした',
+        context: 'exportICalendar'
+      }
+    );
+    if (!posts) {
+      return false;
+    }
+    if (posts.length === 0) {
+      showWarning('書き出す投稿がありません', `${year}年${month}月の投稿がありません`);
+      return false;
+    }
+
+    downloadFile(createICalendar(posts), `timeline-memo-${year}-${String(month).padStart(2, '0')}.ics`, 'text/calendar');
+    showSuccess('iCalendarに書き出しました', `${posts.length}件の投稿を.icsファイルに保存しました`);
+    return true;
+  }, [executeAsync, showSuccess, showWarning, dataService]);
+
+  return {
+    exportMonth
+  };
+}
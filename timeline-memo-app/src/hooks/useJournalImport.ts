@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import { POSTS_PAGE_SIZE } from './usePosts';
+import { importJournalFiles, type JournalImportReport } from '../services/JournalImportService';
+import type { JournalFormat, JournalImportOptions } from '../services/journalParsers';
+
+/**
+ * useJournalImportフックの戻り値の型定義
+ */
+export interface UseJournalImportReturn {
+  // 最後に取り込んだ結果（取り込んでいない場合はnull）
+  report: JournalImportReport | null;
+  importFiles: (files: File[], format: JournalFormat | 'auto', options: JournalImportOptions) => Promise<boolean>;
+  clearReport: () => void;
+}
+
+/**
+ * 他の日記アプリからの取り込み用のカスタムフック
+ *
+ * 機能:
+ * - Day One・JourneyのJSONファイル、X（旧Twitter）のtweets.js、LINEのトーク履歴、iCalendar（.ics）の日誌、日付付きのテキスト・Markdownファイルの取り込み（複数ファイル可）
+ * - 返信・写真などを除く設定と、取り込み済みの記事の重複の防止
+ * - 取り込んだ・スキップした・取り込めなかった記事の件数の報告
+ *
+ * @returns 取り込みの結果と操作関数
+ */
+export function useJournalImport(): UseJournalImportReturn {
+  const { dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { executeAsync, showSuccess, showWarning } = useErrorHandler();
+  const [report, setReport] = useState<JournalImportReport | null>(null);
+
+  const importFiles = useCallback(async (files: File[], format: JournalFormat | 'auto', options: JournalImportOptions): Promise<boolean> => {
+    const result = await executeAsync(
+      async () => {
+        const contents = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+        const importReport = await importJournalFiles(dataService, contents, format, options);
+        const page = await dataService.getPostsPage({ limit: POSTS_PAGE_SIZE });
+        return { importReport, page };
+      },
+      {
+        loadingMessage: '日記を取り込んでいます...',
+        errorTitle: '日記を取り込めませんでした',
+        context: 'importJournal'
+      }
+    );
+    if (!result) {
+      return false;
+    }
+
+    const { importReport, page } = result;
+    // 取り込んだ投稿は一覧のどこに入るか分からないため、先頭ページから読み込み直す（日記・カレンダーも再計算される）
+    dispatch({ type: 'LOAD_POSTS_PAGE', payload: page });
+    setReport(importReport);
+    if (importReport.failed > 0) {
+      showWarning('一部の記事を取り込めませんでした', `${importReport.imported}件を取り込み、${importReport.failed}件は取り込めませんでした`);
+    } else {
+      showSuccess('日記を取り込みました', `${importReport.imported}件の記事を取り込みました`);
+    }
+    return true;
+  }, [executeAsync, dispatch, showSuccess, showWarning, dataService]);
+
+  const clearReport = useCallback(() => {
+    setReport(null);
+  }, []);
+
+  return {
+    report,
+    importFiles,
+    clearReport
+  };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useMemo } from 'react';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import { DiaryService } from '../services/DiaryService';
+import type { DateRange } from '../types';
+import { createMarkdownArchive, getMonthDateRange } from '../utils/markdownExportUtils';
+import { toDateInputValue } from '../utils/dateUtils';
+import { downloadFile } from '../utils/downloadUtils';
+
+/**
+ * useMarkdownExportフックの戻り値の型定義
+ */
+export interface UseMarkdownExportReturn {
+  exportMonth: (year: number, month: number) => Promise<boolean>;
+  exportDateRange: (range: DateRange) => Promise<boolean>;
+}
+
+/**
+ * 日記のMarkdown形式での書き出し用のカスタムフック
+ *
+ * 機能:
+ * - 月・日付範囲を指定した日記の書き出し（1日1ファイルのMarkdownをZIPにまとめてダウンロード）
+ *
+ * @returns 書き出しの操作関数
+ */
+export function useMarkdownExport(): UseMarkdownExportReturn {
+  const dataService = useDataService();
+  const { executeAsync, showSuccess, showWarning } = useErrorHandler();
+  const diaryService = useMemo(() => new DiaryService(dataService), [dataService]);
+
+  const exportEntries = useCallback(async (range: DateRange, fileLabel: string): Promise<boolean> => {
+    const entries = await executeAsync(
+      () => diaryService.getEntriesForExport(range.start, range.end),
+      {
+        loadingMessage: '日記を書き出しています...',
+        errorTitle: '日記を書き出せませんでした',
+        context: 'exportMarkdown'
+      }
+    );
+    if (!entries) {
+      return false;
+    }
+    if (entries.length === 0) {
+      showWarning('書き出す日記がありません', '指定した期間に投稿がありません');
+      return false;
+    }
+
+    downloadFile(createMarkdownArchive(entries), `timeline-memo-diary-${fileLabel}.zip`, 'application/zip');
+    showSuccess('日記を書き出しました', `${entries.length}日分の日記をZIPファイルに保存しました`);
+    return true;
+  }, [executeAsync, showSuccess, showWarning, diaryService]);
+
+  const exportMonth = useCallback((year: number, month: number): Promise<boolean> => {
+    return exportEntries(getMonthDateRange(year, month), `${year}-${String(month).padStart(2, '0')}`);
+  }, [exportEntries]);
+
+  const exportDateRange = useCallback((range: DateRange): Promise<boolean> => {
+    return exportEntries(range, `${toDateInputValue(range.start)}_${toDateInputValue(range.end)}`);
+  }, [exportEntries]);
+
+  return {
+    exportMonth,
+    exportDateRange
+  };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect } from 'react';
+import { useAppContext } from '../context/AppContext';
+import type { Post, PostChangeEvent } from '../types';
+import { useDataService } from './useDataService';
+
+
+/**
+ * 他のタブでの投稿の変更をstateに反映するカスタムフック
+ * アプリ全体で1回だけ呼び出す（MainLayoutで使用）
+ *
+ * 通知には投稿IDのみが含まれるため、作成・更新された投稿はデータベースから読み直す
+ * 読み直した時点でゴミ箱に移動されていた投稿は削除として扱う
+ */
+export function usePostUpdates(): void {
+  const { dispatch } = useAppContext();
+  const dataService = useDataService();
+
+  const applyChange = useCallback(async (change: PostChangeEvent) => {
+    const changedIds = [...new Set([...change.created, ...change.updated])]
+      .filter(id => !change.deleted.includes(id));
+
+    try {
+      const results = await Promise.all(changedIds.map(id => dataService.getPost(id)));
+      const posts = results.filter((post): post is Post => post !== null);
+      const missingIds = changedIds.filter((_, index) => results[index] === null);
+
+      dispatch({
+        type: 'APPLY_REMOTE_CHANGES',
+        payload: { posts, deletedIds: [...change.deleted, ...missingIds] }
+      });
+    } catch (error) {
+      console.error('[タブ間同期] 変更の反映に失敗しました', error);
+    }
+  }, [dispatch, dataService]);
+
+  useEffect(() => {
+    if (!dataService.subscribeToUpdates) {
+      return;
+    }
+
+    const unsubscribe = dataService.subscribeToUpdates(change => {
+      applyChange(change);
+    });
+
+    return unsubscribe;
+  }, [applyChange, dataService]);
+}
@@ -1,24 +1,46 @@
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { useErrorHandler } from './useErrorHandler';
-import type { DataService, Post } from '../types';
-import { IndexedDBService } from '../services/IndexedDBService';
+import type { Post, CreatePostInput, UpdatePostInput, PostUpdate, PostFlags } from '../types';
+import { useDataService } from './useDataService';
+import type { DataService } from '../services/DataService';
+import { extractAttachmentIds } from '../utils/attachmentUtils';
 
-// データサービスのインスタンス（将来的にはDIで注入可能にする）
-const dataService: DataService = new IndexedDBService();
+
+// 1ページあたりの投稿数（起動時は先頭ページのみ読み込む）
+export const POSTS_PAGE_SIZE = 50;
+
+/**
+ * 本文で参照している添付画像を投稿に紐付ける（投稿を完全に削除した時に一緒に削除するため）
+ * 投稿の保存は済んでいるため、紐付けに失敗しても保存の失敗としては扱わない
+ */
+async function assignAttachments(dataService: DataService, post: Post): Promise<void> {
+  const ids = extractAttachmentIds(post.content);
+  if (!dataService.attachments || ids.length === 0) {
+    return;
+  }
+  try {
+    await dataService.attachments.assignAttachments(ids, post.id);
+  } catch (error) {
+    console.warn('添付画像を投稿に紐付けられませんでした:', error);
+  }
+}
 
 /**
  * 投稿データ操作のためのカスタムフック
- * データの取得、作成、更新、削除を抽象化
+ * データの取得、作成、更新、削除（ゴミ箱への移動）を抽象化
  */
 export function usePosts() {
   const { state, dispatch } = useAppContext();
+  const dataService = useDataService();
   const { executeAsync } = useErrorHandler();
 
-  // 全投稿の読み込み
+  const isLoadingMoreRef = useRef(false);
+
+  // 先頭ページの読み込み（全投稿を一度に読み込まない）
   const loadPosts = useCallback(async () => {
-    const posts = await executeAsync(
-      () => dataService.getAllPosts(),
+    const page = await executeAsync(
+      () => dataService.getPostsPage({ limit: POSTS_PAGE_SIZE }),
       {
         loadingMessage: '投稿を読み込んでいます...',
         errorTitle: '投稿の読み込みに失敗しました',
@@ -26,52 +48,82 @@ export function usePosts() {
       }
     );
     
-    if (posts) {
-      dispatch({ type: 'LOAD_POSTS', payload: posts });
+    if (page) {
+      dispatch({ type: 'LOAD_POSTS_PAGE', payload: page });
+    }
+  }, [dispatch, executeAsync, dataService]);
+
+  // 続きのページの読み込み（無限スクロール用）
+  const loadMorePosts = useCallback(async () => {
+    if (!state.hasMorePosts || !state.postsCursor || isLoadingMoreRef.current) {
+      return;
+    }
+
+    isLoadingMoreRef.current = true;
+    try {
+      const before = state.postsCursor;
+      const page = await executeAsync(
+        () => dataService.getPostsPage({ before, limit: POSTS_PAGE_SIZE }),
+        {
+          loadingMessage: '投稿をさらに読み込んでいます...',
+          errorTitle: '投稿の読み込みに失敗しました',
+          context: 'loadMorePosts'
+        }
+      );
+
+      if (page) {
+        dispatch({ type: 'APPEND_POSTS_PAGE', payload: page });
+      }
+    } finally {
+      isLoadingMoreRef.current = false;
     }
-  }, [dispatch, executeAsync]);
+  }, [state.hasMorePosts, state.postsCursor, dispatch, executeAsync, dataService]);
 
   // 新規投稿の作成
-  const createPost = useCallback(async (content: string): Promise<Post | null> => {
-    console.log('usePosts.createPost 開始:', content);
+  const createPost = useCallback(async (input: CreatePostInput): Promise<Post | null> => {
+    console.log('usePosts.createPost 開始:', input);
     const newPost = await executeAsync(
       () => {
-        console.log('dataService.createPost 呼び出し:', content);
-        return dataService.createPost(content);
+        console.log('dataService.createPost 呼び出し:', input);
+        return dataService.createPost(input);
       },
       {
         loadingMessage: '投稿を作成しています...',
         errorTitle: '投稿の作成に失敗しました',
-        context: 'createPost'
+        context: 'createPost',
+        unsavedContent: input.content
       }
     );
     
     console.log('executeAsync 結果:', newPost);
     if (newPost) {
+      await assignAttachments(dataService, newPost);
       console.log('dispatch ADD_POST:', newPost);
       dispatch({ type: 'ADD_POST', payload: newPost });
     }
     
     return newPost;
-  }, [dispatch, executeAsync]);
+  }, [dispatch, executeAsync, dataService]);
 
   // 投稿の更新
-  const updatePost = useCallback(async (id: string, content: string): Promise<Post | null> => {
+  const updatePost = useCallback(async (id: string, input: UpdatePostInput): Promise<Post | null> => {
     const updatedPost = await executeAsync(
-      () => dataService.updatePost(id, content),
+      () => dataService.updatePost(id, input),
       {
         loadingMessage: '投稿を更新しています...',
         errorTitle: '投稿の更新に失敗しました',
-        context: 'updatePost'
+        context: 'updatePost',
+        unsavedContent: input.content
       }
     );
     
     if (updatedPost) {
+      await assignAttachments(dataService, updatedPost);
       dispatch({ type: 'UPDATE_POST', payload: updatedPost });
     }
     
     return updatedPost;
-  }, [dispatch, executeAsync]);
+  }, [dispatch, executeAsync, dataService]);
 
   // 投稿の削除
   const deletePost = useCallback(async (id: string): Promise<boolean> => {
@@ -90,7 +142,110 @@ export function usePosts() {
     }
     
     return false;
-  }, [dispatch, executeAsync]);
+  }, [dispatch, executeAsync, dataService]);
+
+  // 複数の投稿の一括作成（1つのトランザクションで作成し、一覧への反映も1回で行う）
+  const createPosts = useCallback(async (inputs: CreatePostInput[]): Promise<Post[] | null> => {
+    const newPosts = await executeAsync(
+      () => dataService.createPosts(inputs),
+      {
+        loadingMessage: `${inputs.length}件の投稿を作成しています...`,
+        errorTitle: '投稿の作成に失敗しました',
+        context: 'createPosts',
+        unsavedContent: inputs.map(input => input.content).join('\n\n')
+      }
+    );
+
+    if (newPosts) {
+      for (const post of newPosts) {
+        await assignAttachments(dataService, post);
+      }
+      dispatch({ type: 'ADD_POSTS', payload: newPosts });
+    }
+
+    return newPosts;
+  }, [dispatch, executeAsync, dataService]);
+
+  // 複数の投稿の一括更新
+  const updatePosts = useCallback(async (updates: PostUpdate[]): Promise<Post[] | null> => {
+    const updatedPosts = await executeAsync(
+      () => dataService.updatePosts(updates),
+      {
+        loadingMessage: `${updates.length}件の投稿を更新しています...`,
+        errorTitle: '投稿の更新に失敗しました',
+        context: 'updatePosts'
+      }
+    );
+
+    if (updatedPosts) {
+      for (const post of updatedPosts) {
+        await assignAttachments(dataService, post);
+      }
+      dispatch({ type: 'UPDATE_POSTS', payload: updatedPosts });
+    }
+
+    return updatedPosts;
+  }, [dispatch, executeAsync, dataService]);
+
+  // 複数の投稿の一括削除（ゴミ箱への移動）
+  const deletePosts = useCallback(async (ids: string[]): Promise<boolean> => {
+    const result = await executeAsync(
+      () => dataService.deletePosts(ids),
+      {
+        loadingMessage: `${ids.length}件の投稿を削除しています...`,
+        errorTitle: '投稿の削除に失敗しました',
+        context: 'deletePosts'
+      }
+    );
+
+    if (result !== null) {
+      dispatch({ type: 'DELETE_POSTS', payload: ids });
+      return true;
+    }
+
+    return false;
+  }, [dispatch, executeAsync, dataService]);
+
+  // ゴミ箱に移動した投稿を元に戻す（削除直後の「元に戻す」操作用）
+  const restorePost = useCallback(async (id: string): Promise<Post | null> => {
+    const restoredPost = await executeAsync(
+      () => dataService.restorePost(id),
+      {
+        loadingMessage: '投稿を復元しています...',
+        errorTitle: '投稿の復元に失敗しました',
+        context: 'restorePost'
+      }
+    );
+
+    if (restoredPost) {
+      dispatch({ type: 'RESTORE_POST', payload: restoredPost });
+    }
+
+    return restoredPost;
+  }, [dispatch, executeAsync, dataService]);
+
+  // ピン留め・スターの変更（更新日時と編集履歴は変更しない）
+  const setPostFlags = useCallback(async (id: string, flags: PostFlags): Promise<Post | null> => {
+    const updatedPost = await executeAsync(
+      () => dataService.updatePostFlags(id, flags),
+      {
+        loadingMessage: '投稿を更新しています...',
+        errorTitle: flags.pinned !== undefined ? 'ピン留めの変更に失敗しました' : 'スターの変更に失敗しました',
+        context: 'setPostFlags'
+      }
+    );
+
+    if (updatedPost) {
+      dispatch({ type: 'UPDATE_POST', payload: updatedPost });
+    }
+
+    return updatedPost;
+  }, [dispatch, executeAsync, dataService]);
+
+  // 他のタブで削除された投稿の警告を閉じる（編集フォームを閉じた時など）
+  const dismissRemoteDeletion = useCallback((postId: string) => {
+    dispatch({ type: 'DISMISS_REMOTE_DELETION', payload: postId });
+  }, [dispatch]);
 
   // 投稿の選択
   const selectPost = useCallback((postId: string | null) => {
@@ -111,7 +266,7 @@ export function usePosts() {
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
       return null;
     }
-  }, [dispatch]);
+  }, [dispatch, dataService]);
 
   // 日付範囲で投稿を取得
   const getPostsByDateRange = useCallback(async (start: Date, end: Date): Promise<Post[]> => {
@@ -122,7 +277,29 @@ export function usePosts() {
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
       return [];
     }
-  }, [dispatch]);
+  }, [dispatch, dataService]);
+
+  // タグで投稿を取得
+  const getPostsByTag = useCallback(async (tag: string): Promise<Post[]> => {
+    try {
+      return await dataService.getPostsByTag(tag);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '投稿の取得に失敗しました';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return [];
+    }
+  }, [dispatch, dataService]);
+
+  // ピン留めした投稿を取得（未読み込みのページにある投稿も含む）
+  const getPinnedPosts = useCallback(async (): Promise<Post[]> => {
+    try {
+      return await dataService.getPinnedPosts();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '投稿の取得に失敗しました';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return [];
+    }
+  }, [dispatch, dataService]);
 
   // アプリ初期化時に投稿を読み込み
   useEffect(() => {
@@ -133,18 +310,29 @@ export function usePosts() {
   return {
     // 状態
     posts: state.posts,
+    hasMorePosts: state.hasMorePosts,
     selectedPostId: state.selectedPostId,
+    remotelyDeletedPostIds: state.remotelyDeletedPostIds,
     isLoading: state.loading.isLoading,
     error: state.error,
     
     // アクション
     loadPosts,
+    loadMorePosts,
     createPost,
     updatePost,
     deletePost,
+    createPosts,
+    updatePosts,
+    deletePosts,
+    restorePost,
+    setPostFlags,
+    dismissRemoteDeletion,
     selectPost,
     clearError,
     getPost,
-    getPostsByDateRange
+    getPostsByDateRange,
+    getPostsByTag,
+    getPinnedPosts
   };
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useErrorHandler } from './useErrorHandler';
+import type { Post, PostRevision } from '../types';
+import { useDataService } from './useDataService';
+
+
+/**
+ * useRevisionsフックの戻り値の型定義
+ */
+export interface UseRevisionsReturn {
+  revisions: PostRevision[];   // 編集前のバージョン（新しい順）
+  isLoading: boolean;
+  loadRevisions: () => Promise<void>;
+  restoreRevision: (revisionId: string) => Promise<Post | null>;
+}
+
+/**
+ * 投稿の編集履歴用のカスタムフック
+ *
+ * 機能:
+ * - 編集履歴の取得
+ * - 過去のバージョンへの復元（復元前のバージョンも履歴に残る）
+ *
+ * @param postId 対象の投稿ID
+ * @returns 編集履歴の状態と操作関数
+ */
+export function useRevisions(postId: string): UseRevisionsReturn {
+  const { dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { executeAsync, showSuccess } = useErrorHandler();
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // 編集履歴の読み込み
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRevisions(await dataService.getRevisions(postId));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '編集履歴の読み込みに失敗しました';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId, dispatch, dataService]);
+
+  // 過去のバージョンに戻す
+  const restoreRevision = useCallback(async (revisionId: string): Promise<Post | null> => {
+    const restoredPost = await executeAsync(
+      () => dataService.restoreRevision(postId, revisionId),
+      {
+        loadingMessage: 'バージョンを復元しています...',
+        errorTitle: 'バージョンの復元に失敗しました',
+        context: 'restoreRevision'
+      }
+    );
+
+    if (restoredPost) {
+      dispatch({ type: 'UPDATE_POST', payload: restoredPost });
+      showSuccess('バージョンを復元しました', '復元前の内容も編集履歴に残っています');
+      await loadRevisions();
+    }
+
+    return restoredPost;
+  }, [postId, dispatch, executeAsync, showSuccess, loadRevisions, dataService]);
+
+  return {
+    revisions,
+    isLoading,
+    loadRevisions,
+    restoreRevision
+  };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import type { Post } from '../types';
+import { useDataService } from './useDataService';
+
+
+// 入力中の検索を抑制するための待ち時間（ミリ秒）
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * useSearchフックの戻り値の型定義
+ */
+export interface UseSearchReturn {
+  searchQuery: string;
+  searchResults: Post[] | null;   // 検索にヒットした投稿（未検索時はnull）
+  isSearching: boolean;
+  setSearchQuery: (query: string) => void;
+  clearSearch: () => void;
+}
+
+/**
+ * 全文検索用のカスタムフック
+ *
+ * 機能:
+ * - 検索クエリの状態管理（入力のデバウンス付き）
+ * - 転置インデックスを使った検索の実行
+ * - 投稿の作成・更新・削除時の検索結果の再計算
+ * - 検索結果は読み込み済みのページに限らず、全ての投稿が対象
+ *
+ * @returns 検索状態と操作関数
+ */
+export function useSearch(): UseSearchReturn {
+  const { state, dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { posts, searchQuery, searchResults } = state;
+  const [isSearching, setIsSearching] = useState(false);
+
+  // 検索クエリ変更・投稿変更時に検索を実行
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await dataService.searchPosts(searchQuery);
+        if (!cancelled) {
+          dispatch({ type: 'SET_SEARCH_RESULTS', payload: results });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          const errorMessage = error instanceof Error ? error.message : '検索に失敗しました';
+          dispatch({ type: 'SET_ERROR', payload: errorMessage });
+        }
+      } finally {
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, posts, dispatch, dataService]);
+
+  const setSearchQuery = useCallback((query: string) => {
+    if (!query.trim()) {
+      dispatch({ type: 'CLEAR_SEARCH' });
+      return;
+    }
+    dispatch({ type: 'SET_SEARCH_QUERY', payload: query });
+  }, [dispatch]);
+
+  const clearSearch = useCallback(() => {
+    dispatch({ type: 'CLEAR_SEARCH' });
+  }, [dispatch]);
+
+  return {
+    searchQuery,
+    searchResults,
+    isSearching,
+    setSearchQuery,
+    clearSearch
+  };
+}
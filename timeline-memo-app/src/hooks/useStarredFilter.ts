@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import type { Post } from '../types';
+import { useDataService } from './useDataService';
+import { filterPostsBySearch } from '../utils/searchUtils';
+
+/**
+ * useStarredFilterフックの戻り値の型定義
+ */
+export interface UseStarredFilterReturn {
+  showStarredOnly: boolean;
+  // 全文検索・スターで絞り込んだ投稿（どちらの絞り込みもない場合はnull）
+  filteredPosts: Post[] | null;
+  setShowStarredOnly: (showStarredOnly: boolean) => void;
+}
+
+/**
+ * スター付きの投稿のみに絞り込むためのカスタムフック
+ *
+ * 機能:
+ * - 「スター付きのみ」の状態管理（全ビューモード共通）
+ * - starredインデックスを使ったスター付きの投稿の取得（読み込み済みのページに限らない）
+ * - 投稿の作成・更新・削除時の再取得
+ * - 全文検索中は、検索結果のうちスター付きの投稿に絞り込む
+ *
+ * 取得をまとめるため、MainLayoutで1回だけ使い、絞り込んだ投稿は各パネルにpropsで渡す
+ *
+ * @returns 絞り込みの状態と、絞り込んだ投稿
+ */
+export function useStarredFilter(): UseStarredFilterReturn {
+  const { state, dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { posts, searchResults, showStarredOnly } = state;
+  const [starredPosts, setStarredPosts] = useState<Post[] | null>(null);
+
+  // 絞り込み中はスター付きの投稿を取得（投稿の変更時も再取得）
+  useEffect(() => {
+    if (!showStarredOnly) {
+      setStarredPosts(null);
+      return;
+    }
+
+    let cancelled = false;
+    dataService.getStarredPosts()
+      .then(results => {
+        if (!cancelled) {
+          setStarredPosts(results);
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          const errorMessage = error instanceof Error ? error.message : 'スター付きの投稿の取得に失敗しました';
+          dispatch({ type: 'SET_ERROR', payload: errorMessage });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showStarredOnly, posts, dispatch, dataService]);
+
+  const setShowStarredOnly = useCallback((value: boolean) => {
+    dispatch({ type: 'SET_STARRED_ONLY', payload: value });
+  }, [dispatch]);
+
+  let filteredPosts: Post[] | null = searchResults;
+  if (showStarredOnly) {
+    // 取得が終わるまでは空の結果として扱う（絞り込む前の投稿を一瞬表示しない）
+    filteredPosts = filterPostsBySearch(starredPosts || [], searchResults);
+  }
+
+  return {
+    showStarredOnly,
+    filteredPosts,
+    setShowStarredOnly
+  };
+}
@@ -1,6 +1,7 @@
 import { useEffect, useCallback, useMemo } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { StatsService } from '../services/StatsService';
+import { useDataService } from './useDataService';
 import type { Post, DiaryStats, MonthlySummary } from '../types';
 
 /**
@@ -64,7 +65,9 @@ export function useStats(options: UseStatsOptions = {}): UseStatsReturn {
   } = options;
 
   const { state, dispatch } = useAppContext();
-  const { posts, diaryStats, loading, error } = state;
+  // 投稿がページ単位で読み込まれている場合に、統計用の全投稿を取得するデータサービス
+  const dataService = useDataService();
+  const { posts, diaryStats, loading, error, hasMorePosts } = state;
 
   /**
    * 統計データを計算して状態を更新
@@ -73,8 +76,11 @@ export function useStats(options: UseStatsOptions = {}): UseStatsReturn {
     try {
       dispatch({ type: 'SET_LOADING', payload: { isLoading: true, operation: 'stats' } });
       
+      // 未読み込みのページがある場合は全投稿を対象に計算する
+      const statsPosts = hasMorePosts ? await dataService.getAllPosts() : postsData;
+
       // StatsServiceを使用して統計を計算
-      const calculatedStats = StatsService.calculateDiaryStats(postsData);
+      const calculatedStats = StatsService.calculateDiaryStats(statsPosts);
       
       // 状態を更新
       dispatch({ type: 'LOAD_DIARY_STATS', payload: calculatedStats });
@@ -83,7 +89,7 @@ export function useStats(options: UseStatsOptions = {}): UseStatsReturn {
       const errorMessage = err instanceof Error ? err.message : '統計の計算中にエラーが発生しました';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
     }
-  }, [dispatch]);
+  }, [dispatch, hasMorePosts, dataService]);
 
   /**
    * 統計データを手動で更新
@@ -97,12 +103,19 @@ export function useStats(options: UseStatsOptions = {}): UseStatsReturn {
    */
   const getMonthlySummary = useCallback(async (year: number, month: number): Promise<MonthlySummary> => {
     try {
-      return StatsService.generateMonthlySummary(posts, year, month);
+      // 未読み込みのページがある場合は指定月の投稿をcreatedAtインデックスから取得
+      const monthPosts = hasMorePosts
+        ? await dataService.getPostsByDateRange(
+            new Date(year, month - 1, 1, 0, 0, 0, 0),
+            new Date(year, month, 0, 23, 59, 59, 999)
+          )
+        : posts;
+      return StatsService.generateMonthlySummary(monthPosts, year, month);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : '月間サマリーの生成中にエラーが発生しました';
       throw new Error(errorMessage);
     }
-  }, [posts]);
+  }, [posts, hasMorePosts, dataService]);
 
   /**
    * 現在の月間サマリーを計算（メモ化）
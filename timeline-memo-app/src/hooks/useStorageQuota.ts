@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useErrorHandler } from './useErrorHandler';
+import { useDataService } from './useDataService';
+import type { DataStorageUsage, StorageRecoveryState } from '../types';
+import {
+  getStorageEstimate,
+  isStoragePersisted,
+  requestPersistentStorage,
+  clearCacheStorage,
+  type StorageEstimateInfo
+} from '../utils/storageQuotaUtils';
+
+/**
+ * useStorageQuotaフックの戻り値の型定義
+ */
+export interface UseStorageQuotaReturn {
+  // 確認画面の状態（閉じている時はnull）
+  recovery: StorageRecoveryState | null;
+  dataUsage: DataStorageUsage | null;
+  estimate: StorageEstimateInfo | null;
+  isPersisted: boolean;
+  isLoading: boolean;
+  // 保存先が画像の添付に対応しているか（使われていない画像を削除できるか）
+  canPurgeAttachments: boolean;
+  openRecovery: () => void;
+  closeRecovery: () => void;
+  refreshUsage: () => Promise<void>;
+  requestPersist: () => Promise<boolean>;
+  purgeOrphanAttachments: () => Promise<boolean>;
+  clearCaches: () => Promise<boolean>;
+}
+
+/**
+ * 保存容量の確認と空き容量の確保用のカスタムフック
+ *
+ * 機能:
+ * - 保存データの種類ごとの使用量と、ブラウザの保存容量の取得
+ * - 確認画面の開閉（容量不足で保存できなかった場合はuseErrorHandlerが開く）
+ * - 紐付いていない画像とキャッシュの削除（バックアップの書き出しはuseBackup）
+ * - 保存データの永続化の要求
+ *
+ * @returns 使用量と操作関数
+ */
+export function useStorageQuota(): UseStorageQuotaReturn {
+  const { state, dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { executeAsync, showSuccess, showWarning } = useErrorHandler();
+  const [dataUsage, setDataUsage] = useState<DataStorageUsage | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimateInfo | null>(null);
+  const [isPersisted, setIsPersisted] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const recovery = state.storageRecovery;
+  const isRecoveryOpen = recovery !== null;
+
+  const refreshUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [usage, storageEstimate, persisted] = await Promise.all([
+        dataService.getStorageUsage().catch(error => {
+          console.warn('保存データの使用量を取得できませんでした:', error);
+          return null;
+        }),
+        getStorageEstimate(),
+        isStoragePersisted()
+      ]);
+      setDataUsage(usage);
+      setEstimate(storageEstimate);
+      setIsPersisted(persisted);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dataService]);
+
+  // 確認画面を開いた時に最新の使用量を読み込む
+  useEffect(() => {
+    if (isRecoveryOpen) {
+      refreshUsage();
+    }
+  }, [isRecoveryOpen, refreshUsage]);
+
+  const openRecovery = useCallback(() => {
+    dispatch({ type: 'OPEN_STORAGE_RECOVERY', payload: { operation: null, unsavedContent: null } });
+  }, [dispatch]);
+
+  const closeRecovery = useCallback(() => {
+    dispatch({ type: 'CLOSE_STORAGE_RECOVERY' });
+  }, [dispatch]);
+
+  const requestPersist = useCallback(async (): Promise<boolean> => {
+    const persisted = await requestPersistentStorage();
+    setIsPersisted(persisted);
+    if (persisted) {
+      showSuccess('保存データを永続化しました', 'ブラウザの容量が不足しても自動で削除されません');
+    } else {
+      showWarning('永続化を許可されませんでした', 'ブラウザの設定やサイトの利用状況によっては許可されない場合があります');
+    }
+    return persisted;
+  }, [showSuccess, showWarning]);
+
+  // 投稿に紐付いていない添付画像を全て削除する（保存前の投稿に添付した画像も含む）
+  const purgeOrphanAttachments = useCallback(async (): Promise<boolean> => {
+    const attachmentStore = dataService.attachments;
+    if (!attachmentStore) {
+      return false;
+    }
+    const purgedCount = await executeAsync(
+      () => attachmentStore.purgeOrphanAttachments(new Date()),
+      {
+        loadingMessage: '使われていない画像を削除しています...',
+        errorTitle: '画像を削除できませんでした',
+        context: 'purgeOrphanAttachments'
+      }
+    );
+    if (purgedCount === null) {
+      return false;
+    }
+    showSuccess('使われていない画像を削除しました', `${purgedCount}件の画像を削除しました`);
+    await refreshUsage();
+    return true;
+  }, [executeAsync, showSuccess, refreshUsage, dataService]);
+
+  const clearCaches = useCallback(async (): Promise<boolean> => {
+    const clearedCount = await executeAsync(
+      () => clearCacheStorage(),
+      {
+        loadingMessage: 'キャッシュを削除しています...',
+        errorTitle: 'キャッシュを削除できませんでした',
+        context: 'clearCaches'
+      }
+    );
+    if (clearedCount === null) {
+      return false;
+    }
+    showSuccess('キャッシュを削除しました', 'アプリのファイルは次回の起動時に取得し直します');
+    await refreshUsage();
+    return true;
+  }, [executeAsync, showSuccess, refreshUsage]);
+
+  return {
+    recovery,
+    dataUsage,
+    estimate,
+    isPersisted,
+    isLoading,
+    canPurgeAttachments: Boolean(dataService.attachments),
+    openRecovery,
+    closeRecovery,
+    refreshUsage,
+    requestPersist,
+    purgeOrphanAttachments,
+    clearCaches
+  };
+}
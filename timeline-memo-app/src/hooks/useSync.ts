@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SyncEngineState, ConflictResolution } from '../services/SyncEngine';
+import type { SyncSettings, SyncConflict } from '../services/SyncChangeLog';
+import { setupNetworkStatusMonitoring } from '../utils/pwaUtils';
+import { useErrorHandler } from './useErrorHandler';
+import { useSyncEngine } from './useSyncEngine';
+
+// 自動同期の間隔
+const AUTO_SYNC_INTERVAL_MS = 60 * 1000;
+
+// 投稿を変更してから送信するまでの待ち時間（続けて変更した場合にまとめて送信する）
+const OUTBOX_FLUSH_DELAY_MS = 2 * 1000;
+
+// 同期エンジンがない場合の状態
+const UNAVAILABLE_STATE: SyncEngineState = {
+  status: 'disabled',
+  settings: { serverUrl: null, token: null },
+  lastSyncedAt: null,
+  lastError: null,
+  pendingCount: 0,
+  failedCount: 0,
+  nextRetryAt: null,
+  postStatuses: {},
+  conflicts: [],
+};
+
+/**
+ * useSyncフックの戻り値の型定義
+ */
+export interface UseSyncReturn extends SyncEngineState {
+  isAvailable: boolean;
+  isOnline: boolean;
+  syncNow: () => Promise<boolean>;
+  retryAll: () => Promise<boolean>;
+  updateSettings: (settings: SyncSettings) => boolean;
+  resolveConflict: (postId: string, resolution: ConflictResolution) => Promise<boolean>;
+}
+
+/**
+ * 同期サーバーとの同期用のカスタムフック
+ *
+ * 機能:
+ * - 同期の状態（最終同期日時・送信待ちの件数・競合）の取得
+ * - 接続先の設定と手動での同期
+ * - 送信待ちの変更の再送信
+ * - 競合の手動解決
+ * - 自動同期（autoSync指定時。アプリ全体で1回だけ指定する）
+ *   起動時・一定間隔・オンラインに戻った時に同期し、送信待ちの変更は再試行の予定に合わせて送信する
+ *
+ * @param options.autoSync 起動時と一定間隔で自動的に同期するか
+ * @returns 同期の状態と操作関数
+ */
+export function useSync(options: { autoSync?: boolean } = {}): UseSyncReturn {
+  const { autoSync = false } = options;
+  const engine = useSyncEngine();
+  const { executeAsync, showSuccess, showError } = useErrorHandler();
+  const [state, setState] = useState<SyncEngineState>(() => engine ? engine.getState() : UNAVAILABLE_STATE);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  // 同期エンジンの状態の変化を反映
+  useEffect(() => {
+    if (!engine) {
+      return;
+    }
+
+    setState(engine.getState());
+    return engine.subscribe(() => setState(engine.getState()));
+  }, [engine]);
+
+  // 競合は本文を復号してから表示する（暗号化が有効な場合、同期の状態には暗号文が入っている）
+  const storedConflicts = state.conflicts;
+  useEffect(() => {
+    if (!engine) {
+      return;
+    }
+
+    let cancelled = false;
+    engine.getReadableConflicts().then(readable => {
+      if (!cancelled) {
+        setConflicts(readable);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [engine, storedConflicts]);
+
+  // ネットワークの状態（オフラインの間は自動同期しない）
+  // 監視は自動同期するインスタンスだけで行う（投稿の一覧などでは送信状態だけを使う）
+  useEffect(() => {
+    if (!autoSync) {
+      return;
+    }
+    return setupNetworkStatusMonitoring(() => setIsOnline(true), () => setIsOnline(false));
+  }, [autoSync]);
+
+  const isEnabled = state.settings.serverUrl !== null;
+  const canAutoSync = Boolean(engine) && autoSync && isEnabled && isOnline;
+
+  // 自動同期（失敗した場合は状態に記録し、通知は表示しない）
+  // オンラインに戻った時も、この処理で送信待ちの変更を送信する
+  useEffect(() => {
+    if (!engine || !canAutoSync) {
+      return;
+    }
+
+    const runSync = () => {
+      engine.sync().catch(() => {
+        // エラーは同期エンジンの状態（lastError）に記録される
+      });
+    };
+
+    runSync();
+    const timer = setInterval(runSync, AUTO_SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [engine, canAutoSync]);
+
+  // 送信待ちの変更を、再試行の予定日時（新しい変更は少し待ってから）に送信する
+  // 同期中に変更された場合は、同期が終わってから予定し直す
+  const nextRetryTime = state.nextRetryAt ? state.nextRetryAt.getTime() : null;
+  const isSyncing = state.status === 'syncing';
+  const { pendingCount } = state;
+  useEffect(() => {
+    if (!engine || !canAutoSync || isSyncing || nextRetryTime === null || pendingCount === 0) {
+      return;
+    }
+
+    const delay = Math.max(nextRetryTime - Date.now(), OUTBOX_FLUSH_DELAY_MS);
+    const timer = setTimeout(() => {
+      engine.sync().catch(() => {
+        // エラーは同期エンジンの状態（lastError）に記録され、次の再試行が予定される
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [engine, canAutoSync, isSyncing, nextRetryTime, pendingCount]);
+
+  // 手動で同期
+  const syncNow = useCallback(async (): Promise<boolean> => {
+    if (!engine) {
+      return false;
+    }
+
+    const result = await executeAsync(
+      () => engine.sync(),
+      {
+        loadingMessage: '同期しています...',
+        errorTitle: '同期に失敗しました',
+        context: 'syncNow'
+      }
+    );
+
+    if (result) {
+      showSuccess(
+        '同期しました',
+        result.conflicts > 0 ? `${result.conflicts}件の競合を解決してください` : undefined
+      );
+      return true;
+    }
+
+    return false;
+  }, [engine, executeAsync, showSuccess]);
+
+  // 送信待ちの変更を全てすぐに送信し直す
+  const retryAll = useCallback(async (): Promise<boolean> => {
+    if (!engine) {
+      return false;
+    }
+
+    const result = await executeAsync(
+      () => engine.retryAll(),
+      {
+        loadingMessage: '送信待ちの変更を送信しています...',
+        errorTitle: '送信に失敗しました',
+        context: 'retryAll'
+      }
+    );
+
+    if (result) {
+      showSuccess('送信待ちの変更を送信しました');
+      return true;
+    }
+
+    return false;
+  }, [engine, executeAsync, showSuccess]);
+
+  // 接続先の設定
+  const updateSettings = useCallback((settings: SyncSettings): boolean => {
+    if (!engine) {
+      return false;
+    }
+
+    try {
+      engine.setSettings(settings);
+      return true;
+    } catch (error) {
+      showError(error, '同期の設定に失敗しました');
+      return false;
+    }
+  }, [engine, showError]);
+
+  // 競合の手動解決
+  const resolveConflict = useCallback(async (postId: string, resolution: ConflictResolution): Promise<boolean> => {
+    if (!engine) {
+      return false;
+    }
+
+    const result = await executeAsync(
+      async () => {
+        await engine.resolveConflict(postId, resolution);
+        return true;
+      },
+      {
+        loadingMessage: '競合を解決しています...',
+        errorTitle: '競合の解決に失敗しました',
+        context: 'resolveConflict'
+      }
+    );
+
+    if (!result) {
+      return false;
+    }
+
+    showSuccess('競合を解決しました');
+    // 解決した内容を送信する（失敗した場合は次回の同期で送信される）
+    engine.sync().catch(() => {});
+    return true;
+  }, [engine, executeAsync, showSuccess]);
+
+  return {
+    ...state,
+    conflicts,
+    isAvailable: engine !== null,
+    isOnline,
+    syncNow,
+    retryAll,
+    updateSettings,
+    resolveConflict
+  };
+}
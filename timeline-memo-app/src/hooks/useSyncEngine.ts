@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { SyncEngine } from '../services/SyncEngine';
+
+// 同期エンジンの Context（お試しモードなど同期しない場合はnull）
+export const SyncEngineContext = createContext<SyncEngine | null>(null);
+
+/**
+ * 注入された同期エンジンを取得するカスタムフック
+ * AppProviderで指定されていない場合はnullを返す
+ */
+export function useSyncEngine(): SyncEngine | null {
+  return useContext(SyncEngineContext);
+}
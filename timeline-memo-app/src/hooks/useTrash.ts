@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useErrorHandler } from './useErrorHandler';
+import type { Post } from '../types';
+import { useDataService } from './useDataService';
+import {
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getPurgeCutoffDate
+} from '../utils/trashUtils';
+import { ORPHAN_ATTACHMENT_RETENTION_MS } from '../utils/attachmentUtils';
+
+
+/**
+ * useTrashフックの戻り値の型定義
+ */
+export interface UseTrashReturn {
+  trashedPosts: Post[];
+  retentionDays: number;
+  isLoading: boolean;
+  loadTrashedPosts: () => Promise<void>;
+  restorePost: (id: string) => Promise<boolean>;
+  purgePost: (id: string) => Promise<boolean>;
+  emptyTrash: () => Promise<boolean>;
+  changeRetentionDays: (days: number) => void;
+}
+
+/**
+ * ゴミ箱用のカスタムフック
+ *
+ * 機能:
+ * - ゴミ箱の投稿一覧の取得
+ * - 投稿の復元・完全削除・ゴミ箱を空にする
+ * - 保持期間の設定
+ * - 起動時に保持期間を過ぎた投稿を自動で完全削除
+ *
+ * @returns ゴミ箱の状態と操作関数
+ */
+export function useTrash(): UseTrashReturn {
+  const { dispatch } = useAppContext();
+  const dataService = useDataService();
+  const { executeAsync, showSuccess } = useErrorHandler();
+  const [trashedPosts, setTrashedPosts] = useState<Post[]>([]);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const hasPurgedRef = useRef(false);
+
+  // ゴミ箱の投稿を読み込み
+  const loadTrashedPosts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const posts = await dataService.getTrashedPosts();
+      setTrashedPosts(posts);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'ゴミ箱の読み込みに失敗しました';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dispatch, dataService]);
+
+  // ゴミ箱から投稿を復元
+  const restorePost = useCallback(async (id: string): Promise<boolean> => {
+    const restoredPost = await executeAsync(
+      () => dataService.restorePost(id),
+      {
+        loadingMessage: '投稿を復元しています...',
+        errorTitle: '投稿の復元に失敗しました',
+        context: 'restorePost'
+      }
+    );
+
+    if (restoredPost) {
+      dispatch({ type: 'RESTORE_POST', payload: restoredPost });
+      setTrashedPosts(prev => prev.filter(post => post.id !== id));
+      showSuccess('投稿を復元しました');
+      return true;
+    }
+
+    return false;
+  }, [dispatch, executeAsync, showSuccess, dataService]);
+
+  // 投稿を完全に削除
+  const purgePost = useCallback(async (id: string): Promise<boolean> => {
+    const result = await executeAsync(
+      () => dataService.purgePost(id),
+      {
+        loadingMessage: '投稿を完全に削除しています...',
+        errorTitle: '投稿の完全削除に失敗しました',
+        context: 'purgePost'
+      }
+    );
+
+    if (result !== null) {
+      setTrashedPosts(prev => prev.filter(post => post.id !== id));
+      showSuccess('投稿を完全に削除しました');
+      return true;
+    }
+
+    return false;
+  }, [executeAsync, showSuccess, dataService]);
+
+  // ゴミ箱を空にする（現在ゴミ箱にある全ての投稿を完全に削除）
+  const emptyTrash = useCallback(async (): Promise<boolean> => {
+    const purgedCount = await executeAsync(
+      () => dataService.purgeTrashedPosts(new Date()),
+      {
+        loadingMessage: 'ゴミ箱を空にしています...',
+        errorTitle: 'ゴミ箱を空にできませんでした',
+        context: 'emptyTrash'
+      }
+    );
+
+    if (purgedCount !== null) {
+      await loadTrashedPosts();
+      showSuccess('ゴミ箱を空にしました', `${purgedCount}件の投稿を完全に削除しました`);
+      return true;
+    }
+
+    return false;
+  }, [executeAsync, loadTrashedPosts, showSuccess, dataService]);
+
+  // 保持期間の変更
+  const changeRetentionDays = useCallback((days: number) => {
+    try {
+      setTrashRetentionDays(days);
+      setRetentionDays(days);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '保持期間の保存に失敗しました';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+    }
+  }, [dispatch]);
+
+  // 起動時に保持期間を過ぎた投稿を完全削除（ユーザー操作ではないため通知はしない）
+  useEffect(() => {
+    if (hasPurgedRef.current) {
+      return;
+    }
+    hasPurgedRef.current = true;
+
+    dataService.purgeTrashedPosts(getPurgeCutoffDate(getTrashRetentionDays()))
+      .then(purgedCount => {
+        if (purgedCount > 0) {
+          console.info(`保持期間を過ぎたゴミ箱の投稿を${purgedCount}件削除しました`);
+        }
+      })
+      .catch(error => {
+        console.warn('ゴミ箱の自動削除に失敗しました:', error);
+      });
+
+    // 投稿フォームで添付したまま保存されなかった画像も削除する
+    dataService.attachments?.purgeOrphanAttachments(new Date(Date.now() - ORPHAN_ATTACHMENT_RETENTION_MS))
+      .catch(error => {
+        console.warn('投稿に紐付いていない添付画像の削除に失敗しました:', error);
+      });
+  }, [dataService]);
+
+  return {
+    trashedPosts,
+    retentionDays,
+    isLoading,
+    loadTrashedPosts,
+    restorePost,
+    purgePost,
+    emptyTrash,
+    changeRetentionDays
+  };
+}
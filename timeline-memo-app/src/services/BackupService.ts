@@ -0,0 +1,341 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Post, PostRevision } from '../types';
+import type { DataService } from './DataService';
+import { performDataIntegrityCheck, sortPostsByDate } from '../utils/dataIntegrityUtils';
+
+/**
+ * 投稿のバックアップ（JSON形式の書き出しと取り込み）
+ * 書き出したファイルはバージョン番号を持ち、古いバージョンのファイルも取り込める
+ */
+
+// バックアップのファイルを識別する名前
+export const BACKUP_FORMAT = 'timeline-memo-backup';
+
+// 現在のバックアップの形式のバージョン（形式を変更した場合は上げ、migrateBackupに変換を追加する）
+export const BACKUP_VERSION = 1;
+
+// バックアップのファイル（日時はISO 8601形式の文字列）
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  metadata: {
+    postCount: number;     // ゴミ箱の投稿を含む投稿の件数
+    trashedCount: number;  // ゴミ箱の投稿の件数
+    revisionCount: number; // 編集履歴の件数
+  };
+  posts: BackupPost[];
+  revisions: BackupRevision[];
+}
+
+export interface BackupPost {
+  id: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  tags?: string[];
+  deletedAt?: string;
+  pinned?: boolean;
+  starred?: boolean;
+}
+
+export interface BackupRevision {
+  id: string;
+  postId: string;
+  content: string;
+  tags?: string[];
+  createdAt: string;
+}
+
+// 読み込んだバックアップ
+export interface ParsedBackup {
+  version: number;          // 読み込んだファイルの形式のバージョン
+  exportedAt: Date | null;
+  posts: Post[];
+  revisions: PostRevision[];
+  issues: string[];         // 取り込まない投稿・編集履歴があった場合の内容
+}
+
+// 同じIDの投稿が既にある場合の取り込み方
+// - skip: 既存の投稿を残し、取り込まない
+// - overwrite: バックアップの投稿で上書きする
+// - keepBoth: 新しいIDを付けて別の投稿として取り込む
+export type BackupMergeStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+// 取り込みの計画（プレビューの表示と取り込みに使う）
+export interface BackupImportPlan {
+  strategy: BackupMergeStrategy;
+  posts: Post[];           // 取り込む投稿
+  revisions: PostRevision[];
+  added: Post[];           // 新しく追加する投稿
+  overwritten: Post[];     // 既存の投稿を上書きする投稿
+  duplicated: Post[];      // 新しいIDを付けて追加する投稿
+  skipped: Post[];         // IDが重複するため取り込まない投稿
+  unchangedCount: number;  // 既存の投稿と同じ内容のため取り込まない投稿の件数
+}
+
+// バックアップの読み込み・取り込みのエラー
+export class BackupError extends Error {
+  public operation: string;
+  public originalError?: Error;
+
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message);
+    this.name = 'BackupError';
+    this.operation = operation;
+    this.originalError = originalError;
+  }
+}
+
+const toOptionalDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toTags = (value: unknown): string[] | undefined => {
+  return Array.isArray(value) ? value.filter((tag): tag is string => typeof tag === 'string') : undefined;
+};
+
+/**
+ * 投稿と編集履歴からバックアップを作成する
+ */
+export function createBackupDocument(
+  posts: Post[],
+  revisions: PostRevision[],
+  exportedAt: Date = new Date()
+): BackupDocument {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    metadata: {
+      postCount: posts.length,
+      trashedCount: posts.filter(post => post.deletedAt).length,
+      revisionCount: revisions.length
+    },
+    posts: sortPostsByDate(posts).map(post => ({
+      id: post.id,
+      content: post.content,
+      createdAt: post.createdAt.toISOString(),
+      updatedAt: post.updatedAt.toISOString(),
+      ...(post.tags && { tags: post.tags }),
+      ...(post.deletedAt && { deletedAt: post.deletedAt.toISOString() }),
+      ...(post.pinned && { pinned: true }),
+      ...(post.starred && { starred: true })
+    })),
+    revisions: revisions.map(revision => ({
+      id: revision.id,
+      postId: revision.postId,
+      content: revision.content,
+      ...(revision.tags && { tags: revision.tags }),
+      createdAt: revision.createdAt.toISOString()
+    }))
+  };
+}
+
+/**
+ * 全ての投稿（ゴミ箱の投稿を含む）と編集履歴をバックアップにする
+ */
+export async function exportBackup(service: DataService, exportedAt: Date = new Date()): Promise<BackupDocument> {
+  const posts = [...await service.getAllPosts(), ...await service.getTrashedPosts()];
+  const revisions = (await Promise.all(posts.map(post => service.getRevisions(post.id)))).flat();
+  return createBackupDocument(posts, revisions, exportedAt);
+}
+
+/**
+ * 古いバージョンのバックアップを現在の形式に変換する
+ * - バージョン0: 保存容量の確認画面から書き出した投稿のみのファイル（{ exportedAt, posts }）
+ */
+function migrateBackup(raw: Record<string, unknown>): { version: number; data: Record<string, unknown> } {
+  if (raw.format === undefined && raw.version === undefined && Array.isArray(raw.posts)) {
+    return { version: 0, data: { ...raw, revisions: [] } };
+  }
+
+  if (raw.format !== BACKUP_FORMAT) {
+    throw new BackupError('タイムラインメモのバックアップファイルではありません', 'parseBackup');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BackupError('バックアップファイルのバージョンが不明です', 'parseBackup');
+  }
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(
+      '新しいバージョンのアプリで書き出したファイルのため取り込めません。アプリを更新してください',
+      'parseBackup'
+    );
+  }
+  return { version, data: raw };
+}
+
+/**
+ * バックアップのファイルの内容を読み込み、投稿と編集履歴を検証する
+ * 無効な投稿・重複した投稿・投稿のない編集履歴は取り込まず、issuesに内容を残す
+ */
+export function parseBackup(json: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new BackupError('JSONとして読み込めないファイルです', 'parseBackup', error as Error);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new BackupError('タイムラインメモのバックアップファイルではありません', 'parseBackup');
+  }
+
+  const { version, data } = migrateBackup(raw as Record<string, unknown>);
+  if (!Array.isArray(data.posts)) {
+    throw new BackupError('バックアップファイルに投稿が含まれていません', 'parseBackup');
+  }
+
+  const integrity = performDataIntegrityCheck(data.posts);
+  const issues = [...integrity.issues];
+  // 余分な項目は取り除き、日時をDateに揃える
+  const posts: Post[] = integrity.validPosts.map(post => {
+    const deletedAt = toOptionalDate(post.deletedAt);
+    const tags = toTags(post.tags);
+    return {
+      id: post.id,
+      content: post.content,
+      createdAt: post.createdAt,
+      updatedAt: post.updatedAt,
+      ...(tags && { tags }),
+      ...(deletedAt && { deletedAt }),
+      ...(post.pinned === true && { pinned: true }),
+      ...(post.starred === true && { starred: true })
+    };
+  });
+
+  const postIds = new Set(posts.map(post => post.id));
+  const rawRevisions: unknown[] = Array.isArray(data.revisions) ? data.revisions : [];
+  const revisions: PostRevision[] = [];
+  rawRevisions.forEach(value => {
+    const revision = value as Partial<Record<keyof BackupRevision, unknown>> | null;
+    const createdAt = toOptionalDate(revision?.createdAt);
+    if (
+      !revision ||
+      typeof revision.id !== 'string' ||
+      typeof revision.postId !== 'string' ||
+      typeof revision.content !== 'string' ||
+      !createdAt ||
+      !postIds.has(revision.postId)
+    ) {
+      return;
+    }
+    const tags = toTags(revision.tags);
+    revisions.push({
+      id: revision.id,
+      postId: revision.postId,
+      content: revision.content,
+      ...(tags && { tags }),
+      createdAt
+    });
+  });
+  if (revisions.length !== rawRevisions.length) {
+    issues.push(`${rawRevisions.length - revisions.length}件の無効な編集履歴が除外されました`);
+  }
+
+  return {
+    version,
+    exportedAt: toOptionalDate(data.exportedAt) ?? null,
+    posts,
+    revisions,
+    issues
+  };
+}
+
+// 既存の投稿と同じ内容か（同じバックアップを再び取り込んだ場合など）
+const isSamePost = (a: Post, b: Post): boolean => {
+  return a.updatedAt.getTime() === b.updatedAt.getTime()
+    && a.createdAt.getTime() === b.createdAt.getTime()
+    && a.content === b.content;
+};
+
+/**
+ * 既存の投稿と照らし合わせて、取り込む投稿と編集履歴を決める
+ * 既存の投稿と同じ内容の投稿は、取り込み方に関わらず取り込まない
+ * @param backup 読み込んだバックアップ
+ * @param existingPosts 既存の投稿（ゴミ箱の投稿を含む）
+ * @param strategy 同じIDの投稿が既にある場合の取り込み方
+ * @param createId 新しいIDの作成（テスト用）
+ */
+export function planBackupImport(
+  backup: Pick<ParsedBackup, 'posts' | 'revisions'>,
+  existingPosts: Post[],
+  strategy: BackupMergeStrategy,
+  createId: () => string = uuidv4
+): BackupImportPlan {
+  const existingById = new Map(existingPosts.map(post => [post.id, post]));
+  const plan: BackupImportPlan = {
+    strategy,
+    posts: [],
+    revisions: [],
+    added: [],
+    overwritten: [],
+    duplicated: [],
+    skipped: [],
+    unchangedCount: 0
+  };
+  // 取り込む投稿の元のIDと、取り込み後のID
+  const importedIds = new Map<string, string>();
+
+  backup.posts.forEach(post => {
+    const existingPost = existingById.get(post.id);
+    if (!existingPost) {
+      plan.added.push(post);
+      plan.posts.push(post);
+      importedIds.set(post.id, post.id);
+      return;
+    }
+    if (isSamePost(existingPost, post)) {
+      plan.unchangedCount++;
+      return;
+    }
+
+    switch (strategy) {
+      case 'skip':
+        plan.skipped.push(post);
+        break;
+      case 'overwrite':
+        plan.overwritten.push(post);
+        plan.posts.push(post);
+        importedIds.set(post.id, post.id);
+        break;
+      case 'keepBoth': {
+        const duplicate = { ...post, id: createId() };
+        plan.duplicated.push(duplicate);
+        plan.posts.push(duplicate);
+        importedIds.set(post.id, duplicate.id);
+        break;
+      }
+    }
+  });
+
+  backup.revisions.forEach(revision => {
+    const postId = importedIds.get(revision.postId);
+    if (!postId) {
+      return;
+    }
+    // 別の投稿として取り込む場合は、既存の投稿の編集履歴と混ざらないように新しいIDを付ける
+    plan.revisions.push(postId === revision.postId ? revision : { ...revision, id: createId(), postId });
+  });
+
+  return plan;
+}
+
+/**
+ * 取り込みの計画のとおりに投稿と編集履歴を保存する
+ * @returns 取り込んだ投稿の件数
+ */
+export async function applyBackupImport(service: DataService, plan: BackupImportPlan): Promise<number> {
+  if (!service.importPosts) {
+    throw new BackupError('このデータサービスは投稿の取り込みに対応していません', 'applyBackupImport');
+  }
+  if (plan.posts.length === 0) {
+    return 0;
+  }
+  // 上書きするかどうかは計画で決めているため、更新日時に関わらず保存する
+  return service.importPosts(plan.posts, plan.revisions, { overwrite: true });
+}
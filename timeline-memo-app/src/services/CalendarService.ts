@@ -7,6 +7,7 @@ import {
   ERROR_MESSAGES
 } from '../utils/diaryErrorUtils';
 import { ErrorLevel } from '../types/errors';
+import { excludeTrashedPosts } from '../utils/trashUtils';
 
 /**
  * カレンダー機能を提供するサービスクラス
@@ -93,7 +94,8 @@ export class CalendarService {
     const grouped = new Map<string, Post[]>();
     
     try {
-      posts.forEach(post => {
+      // ゴミ箱の投稿はカレンダーの投稿数に含めない
+      excludeTrashedPosts(posts).forEach(post => {
         try {
           const dateKey = this.formatDateKey(post.createdAt);
           if (!grouped.has(dateKey)) {
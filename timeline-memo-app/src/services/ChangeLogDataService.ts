@@ -0,0 +1,202 @@
+import type { Post, PostRevision, PostChangeEvent, CreatePostInput, UpdatePostInput, PostsPage, PostsPageOptions, ImportPostsOptions, AttachmentStore, PostUpdate, PostFlags, DataStorageUsage } from '../types';
+import type { DataService } from './DataService';
+import type { SyncChangeLog } from './SyncChangeLog';
+
+/**
+ * 投稿の変更を同期の変更ログに記録するデータサービス
+ * 保存先のデータサービスを包み、読み取りはそのまま委譲する
+ *
+ * 同期サーバーから受け取った変更は、記録しないよう保存先のデータサービスに直接書き込む
+ * その変更はnotifyRemoteChangesで、他のタブの変更と同じように画面に反映させる
+ */
+export class ChangeLogDataService implements DataService {
+  private inner: DataService;
+  private changeLog: SyncChangeLog;
+  private remoteListeners = new Set<(change: PostChangeEvent) => void>();
+
+  constructor(inner: DataService, changeLog: SyncChangeLog) {
+    this.inner = inner;
+    this.changeLog = changeLog;
+  }
+
+  // 変更ログに記録せずに読み書きする保存先のデータサービス
+  get innerService(): DataService {
+    return this.inner;
+  }
+
+  // 添付画像は変更ログに記録しない（同期の対象外）
+  get attachments(): AttachmentStore | undefined {
+    return this.inner.attachments;
+  }
+
+  async init(): Promise<void> {
+    await this.inner.init?.();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close?.();
+  }
+
+  async createPost(input: CreatePostInput): Promise<Post> {
+    const post = await this.inner.createPost(input);
+    this.changeLog.record(post.id, post);
+    return post;
+  }
+
+  async updatePost(id: string, input: UpdatePostInput): Promise<Post> {
+    const post = await this.inner.updatePost(id, input);
+    this.changeLog.record(id, post);
+    return post;
+  }
+
+  async deletePost(id: string): Promise<void> {
+    await this.inner.deletePost(id);
+    if (this.changeLog.isEnabled()) {
+      // ゴミ箱に移動した日時も同期するため、移動後の投稿を記録する
+      const trashedPost = (await this.inner.getTrashedPosts()).find(post => post.id === id);
+      this.changeLog.record(id, trashedPost || null);
+    }
+  }
+
+  async createPosts(inputs: CreatePostInput[]): Promise<Post[]> {
+    const posts = await this.inner.createPosts(inputs);
+    this.changeLog.recordMany(posts.map(post => ({ postId: post.id, post })));
+    return posts;
+  }
+
+  async updatePosts(updates: PostUpdate[]): Promise<Post[]> {
+    const posts = await this.inner.updatePosts(updates);
+    this.changeLog.recordMany(posts.map(post => ({ postId: post.id, post })));
+    return posts;
+  }
+
+  async deletePosts(ids: string[]): Promise<void> {
+    await this.inner.deletePosts(ids);
+    if (this.changeLog.isEnabled()) {
+      const trashedPosts = new Map((await this.inner.getTrashedPosts()).map(post => [post.id, post]));
+      this.changeLog.recordMany(ids.map(id => ({ postId: id, post: trashedPosts.get(id) || null })));
+    }
+  }
+
+  async updatePostFlags(id: string, flags: PostFlags): Promise<Post> {
+    const post = await this.inner.updatePostFlags(id, flags);
+    this.changeLog.record(id, post);
+    return post;
+  }
+
+  getPinnedPosts(): Promise<Post[]> {
+    return this.inner.getPinnedPosts();
+  }
+
+  getStarredPosts(): Promise<Post[]> {
+    return this.inner.getStarredPosts();
+  }
+
+  getPost(id: string): Promise<Post | null> {
+    return this.inner.getPost(id);
+  }
+
+  getAllPosts(): Promise<Post[]> {
+    return this.inner.getAllPosts();
+  }
+
+  getPostsByDateRange(start: Date, end: Date): Promise<Post[]> {
+    return this.inner.getPostsByDateRange(start, end);
+  }
+
+  getPostsPage(options: PostsPageOptions): Promise<PostsPage> {
+    return this.inner.getPostsPage(options);
+  }
+
+  getPostsByTag(tag: string): Promise<Post[]> {
+    return this.inner.getPostsByTag(tag);
+  }
+
+  searchPosts(query: string): Promise<Post[]> {
+    return this.inner.searchPosts(query);
+  }
+
+  getTrashedPosts(): Promise<Post[]> {
+    return this.inner.getTrashedPosts();
+  }
+
+  async restorePost(id: string): Promise<Post> {
+    const post = await this.inner.restorePost(id);
+    this.changeLog.record(id, post);
+    return post;
+  }
+
+  async purgePost(id: string): Promise<void> {
+    await this.inner.purgePost(id);
+    this.changeLog.record(id, null);
+  }
+
+  async purgeTrashedPosts(olderThan: Date): Promise<number> {
+    if (!this.changeLog.isEnabled()) {
+      return this.inner.purgeTrashedPosts(olderThan);
+    }
+
+    const trashedIds = (await this.inner.getTrashedPosts()).map(post => post.id);
+    const count = await this.inner.purgeTrashedPosts(olderThan);
+    const remainingIds = new Set((await this.inner.getTrashedPosts()).map(post => post.id));
+    trashedIds
+      .filter(id => !remainingIds.has(id))
+      .forEach(id => this.changeLog.record(id, null));
+    return count;
+  }
+
+  getRevisions(postId: string): Promise<PostRevision[]> {
+    return this.inner.getRevisions(postId);
+  }
+
+  async restoreRevision(postId: string, revisionId: string): Promise<Post> {
+    const post = await this.inner.restoreRevision(postId, revisionId);
+    this.changeLog.record(postId, post);
+    return post;
+  }
+
+  getStorageUsage(): Promise<DataStorageUsage> {
+    return this.inner.getStorageUsage();
+  }
+
+  async importPosts(posts: Post[], revisions?: PostRevision[], options?: ImportPostsOptions): Promise<number> {
+    if (!this.inner.importPosts) {
+      throw new Error('このデータサービスは投稿の取り込みに対応していません');
+    }
+    const count = await this.inner.importPosts(posts, revisions, options);
+    if (this.changeLog.isEnabled() && count > 0) {
+      // 更新日時が古く取り込まれなかった投稿もあるため、取り込み後の状態を記録する
+      const storedPosts = new Map(
+        [...await this.inner.getAllPosts(), ...await this.inner.getTrashedPosts()].map(post => [post.id, post])
+      );
+      posts.forEach(post => {
+        const storedPost = storedPosts.get(post.id);
+        if (storedPost) {
+          this.changeLog.record(post.id, storedPost);
+        }
+      });
+    }
+    return count;
+  }
+
+  /**
+   * 他のタブでの変更と、同期サーバーから反映した変更を購読する
+   * @returns 購読を解除する関数
+   */
+  subscribeToUpdates(callback: (change: PostChangeEvent) => void): () => void {
+    const unsubscribe = this.inner.subscribeToUpdates(callback);
+    this.remoteListeners.add(callback);
+
+    return () => {
+      unsubscribe();
+      this.remoteListeners.delete(callback);
+    };
+  }
+
+  /**
+   * 同期サーバーから反映した変更を購読者に通知する
+   */
+  notifyRemoteChanges(change: PostChangeEvent): void {
+    this.remoteListeners.forEach(listener => listener(change));
+  }
+}
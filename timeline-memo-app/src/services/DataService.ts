@@ -1,16 +1,52 @@
-import type { Post } from '../types';
+import type { Post, PostRevision, PostChangeEvent, CreatePostInput, UpdatePostInput, PostsPage, PostsPageOptions, ImportPostsOptions, AttachmentStore, PostUpdate, PostFlags, DataStorageUsage } from '../types';
 
 export interface DataService {
   // CRUD操作
-  createPost(content: string): Promise<Post>;
-  updatePost(id: string, content: string): Promise<Post>;
+  createPost(input: CreatePostInput): Promise<Post>;
+  updatePost(id: string, input: UpdatePostInput): Promise<Post>;
   deletePost(id: string): Promise<void>;
   getPost(id: string): Promise<Post | null>;
+
+  // 一括操作（全件を1つのトランザクションで処理し、1件でも失敗した場合は何も変更しない）
+  createPosts(inputs: CreatePostInput[]): Promise<Post[]>;
+  updatePosts(updates: PostUpdate[]): Promise<Post[]>;
+  deletePosts(ids: string[]): Promise<void>; // ゴミ箱に移動する
+
+  // ピン留め・スター（更新日時と編集履歴は変更しない）
+  updatePostFlags(id: string, flags: PostFlags): Promise<Post>;
+  getPinnedPosts(): Promise<Post[]>; // 新しい順
+  getStarredPosts(): Promise<Post[]>; // 新しい順
   
   // 一覧・検索
   getAllPosts(): Promise<Post[]>;
   getPostsByDateRange(start: Date, end: Date): Promise<Post[]>;
+  getPostsPage(options: PostsPageOptions): Promise<PostsPage>;
+  getPostsByTag(tag: string): Promise<Post[]>;
+  searchPosts(query: string): Promise<Post[]>; // 本文・タグの全文検索（転置インデックス使用）
+
+  // ゴミ箱（deletePostは投稿をゴミ箱に移動する）
+  getTrashedPosts(): Promise<Post[]>;
+  restorePost(id: string): Promise<Post>;
+  purgePost(id: string): Promise<void>; // 完全に削除
+  purgeTrashedPosts(olderThan: Date): Promise<number>; // 指定日時より前にゴミ箱に移動した投稿を完全に削除
+
+  // 編集履歴（updatePostは変更前のバージョンを履歴に追加する）
+  getRevisions(postId: string): Promise<PostRevision[]>; // 新しい順
+  restoreRevision(postId: string, revisionId: string): Promise<Post>; // 現在のバージョンも履歴に残る
   
-  // リアルタイム更新（フェーズ2）
-  subscribeToUpdates(callback: (posts: Post[]) => void): () => void;
+  // 保存データの種類ごとの使用量（容量不足時の確認用）
+  getStorageUsage(): Promise<DataStorageUsage>;
+  
+  // 接続の管理（接続を持たない実装では省略できる）
+  init?(): Promise<void>;
+  close?(): Promise<void>;
+
+  // 取り込み（IDと日時を保ったまま書き込む。既定では同じIDの投稿は更新日時が新しい方を残す）
+  importPosts?(posts: Post[], revisions?: PostRevision[], options?: ImportPostsOptions): Promise<number>;
+
+  // 画像の添付（画像を保存できない保存先では省略できる）
+  attachments?: AttachmentStore;
+
+  // 変更通知（他のタブで作成・更新・削除された投稿のIDを受け取る）
+  subscribeToUpdates(callback: (change: PostChangeEvent) => void): () => void;
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import type { Post, DiaryEntry, DiaryStats, DiaryService as IDiaryService } from '../types';
+import type { Post, DiaryEntry, DiaryEntriesPage, DiaryStats, PostsPageOptions, DiaryService as IDiaryService } from '../types';
 import type { DataService } from './DataService';
 import { 
   validateDateRange, 
@@ -9,6 +9,7 @@ import {
   createDiaryError,
   ERROR_MESSAGES
 } from '../utils/diaryErrorUtils';
+import { excludeTrashedPosts } from '../utils/trashUtils';
 // import type { ErrorHandlerResult } from '../types/errors';
 
 /**
@@ -31,8 +32,8 @@ export class DiaryService implements IDiaryService {
     try {
       const grouped = new Map<string, Post[]>();
       
-      // 投稿を日付ごとにグループ化
-      posts.forEach(post => {
+      // 投稿を日付ごとにグループ化（ゴミ箱の投稿は日記に含めない）
+      excludeTrashedPosts(posts).forEach(post => {
         try {
           const dateKey = this.formatDateKey(post.createdAt);
           if (!grouped.has(dateKey)) {
@@ -135,6 +136,18 @@ export class DiaryService implements IDiaryService {
     }
   }
 
+  /**
+   * 書き出し用に、指定した日付範囲の日記エントリーを取得
+   * 表示用のgetEntriesByDateRangeと異なり、1年を超える範囲もそのまま取得する
+   * @param start 開始日時
+   * @param end 終了日時
+   * @returns 日付範囲内の日記エントリー（日付の新しい順）
+   */
+  async getEntriesForExport(start: Date, end: Date): Promise<DiaryEntry[]> {
+    const posts = await this.dataService.getPostsByDateRange(start, end);
+    return this.groupPostsByDate(posts);
+  }
+
   /**
    * 指定した日付の日記エントリーを取得
    * @param date 取得する日付
@@ -165,7 +178,7 @@ export class DiaryService implements IDiaryService {
       endOfDay.setHours(23, 59, 59, 999);
 
       // 指定日の投稿を取得
-      const posts = await this.dataService.getPostsByDateRange(startOfDay, endOfDay);
+      const posts = excludeTrashedPosts(await this.dataService.getPostsByDateRange(startOfDay, endOfDay));
       
       if (posts.length === 0) {
         return null;
@@ -186,6 +199,60 @@ export class DiaryService implements IDiaryService {
     }
   }
 
+  /**
+   * 日記エントリーを新しい順にページ単位で取得
+   * ページの境界で同じ日の投稿が分かれる場合があるため、追加時はmergeEntriesで結合する
+   * @param options 取得オプション（beforeは前ページのnextCursor）
+   * @returns 日記エントリーと次ページのカーソル
+   */
+  async getEntriesPage(options: PostsPageOptions): Promise<DiaryEntriesPage> {
+    try {
+      const page = await this.dataService.getPostsPage(options);
+
+      return {
+        entries: this.groupPostsByDate(page.posts),
+        nextCursor: page.nextCursor
+      };
+    } catch (error) {
+      const errorResult = handleDiaryEntryError(error);
+      if (errorResult.error) {
+        logDiaryError(errorResult.error);
+      }
+      return { entries: errorResult.data || [], nextCursor: null };
+    }
+  }
+
+  /**
+   * 読み込み済みの日記エントリーに次ページのエントリーを結合
+   * @param entries 読み込み済みのエントリー（新しい順）
+   * @param nextEntries 次ページのエントリー（新しい順）
+   * @returns 結合されたエントリー
+   */
+  mergeEntries(entries: DiaryEntry[], nextEntries: DiaryEntry[]): DiaryEntry[] {
+    if (entries.length === 0) {
+      return nextEntries;
+    }
+    if (nextEntries.length === 0) {
+      return entries;
+    }
+
+    const lastEntry = entries[entries.length - 1];
+    const [firstNextEntry, ...restEntries] = nextEntries;
+
+    // ページ境界で分かれた同じ日の投稿を1つのエントリーにまとめる
+    if (lastEntry.date === firstNextEntry.date) {
+      const loadedIds = new Set(lastEntry.posts.map(post => post.id));
+      const posts = [...lastEntry.posts, ...firstNextEntry.posts.filter(post => !loadedIds.has(post.id))];
+      return [
+        ...entries.slice(0, -1),
+        { date: lastEntry.date, posts, postCount: posts.length },
+        ...restEntries
+      ];
+    }
+
+    return [...entries, ...nextEntries];
+  }
+
   /**
    * 指定した年月のカレンダーデータを取得
    * @param year 年
@@ -208,8 +275,8 @@ export class DiaryService implements IDiaryService {
     const partialStats: Partial<DiaryStats> = {};
     
     try {
-      // 全ての投稿を取得
-      const posts = await this.dataService.getAllPosts();
+      // 全ての投稿を取得（ゴミ箱の投稿は統計に含めない）
+      const posts = excludeTrashedPosts(await this.dataService.getAllPosts());
       
       if (posts.length === 0) {
         return {
@@ -0,0 +1,272 @@
+import type { Post, PostRevision, PostChangeEvent, CreatePostInput, UpdatePostInput, PostsPage, PostsPageOptions, ImportPostsOptions, AttachmentStore, PostUpdate, PostFlags, DataStorageUsage } from '../types';
+import type { DataService } from './DataService';
+import { EncryptionKey, EncryptionError, isEncryptedContent } from './EncryptionService';
+import { matchesQuery, tokenizeQuery } from '../utils/searchUtils';
+import { excludeTrashedPosts } from '../utils/trashUtils';
+
+// 復号できなかった投稿に表示する本文
+export const UNREADABLE_CONTENT = '🔒 この投稿は復号できませんでした（別のパスフレーズで暗号化されています）';
+
+/**
+ * 投稿の本文を暗号化して保存するデータサービス
+ * 保存先のデータサービスを包み、書き込む前に本文を暗号化し、読み取った本文を復号する
+ *
+ * - 暗号化するのは本文（編集履歴を含む）で、タグと日時、添付画像は暗号化しない
+ * - 保存先の全文検索インデックスは暗号文から作られるため使わず、復号した投稿をメモリ上で検索する
+ * - 暗号化されていない本文（暗号化を有効にする前の投稿など）はそのまま返す
+ * - 同期する場合は変更ログ（ChangeLogDataService）を包み、送信待ちの変更と同期サーバーには暗号文だけを渡す
+ */
+export class EncryptedDataService implements DataService {
+  private inner: DataService;
+  private key: EncryptionKey;
+
+  constructor(inner: DataService, key: EncryptionKey) {
+    this.inner = inner;
+    this.key = key;
+  }
+
+  // 暗号化せずに読み書きする保存先のデータサービス
+  get innerService(): DataService {
+    return this.inner;
+  }
+
+  // 添付画像は保存先へそのまま委譲する
+  get attachments(): AttachmentStore | undefined {
+    return this.inner.attachments;
+  }
+
+  async init(): Promise<void> {
+    await this.inner.init?.();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close?.();
+  }
+
+  async createPost(input: CreatePostInput): Promise<Post> {
+    const post = await this.inner.createPost({ ...input, content: await this.encryptContent(input.content) });
+    return this.decryptPost(post);
+  }
+
+  async updatePost(id: string, input: UpdatePostInput): Promise<Post> {
+    return this.decryptPost(await this.inner.updatePost(id, await this.encryptUpdate(id, input)));
+  }
+
+  deletePost(id: string): Promise<void> {
+    return this.inner.deletePost(id);
+  }
+
+  async createPosts(inputs: CreatePostInput[]): Promise<Post[]> {
+    const encryptedInputs = await Promise.all(
+      inputs.map(async input => ({ ...input, content: await this.encryptContent(input.content) }))
+    );
+    return this.decryptPosts(await this.inner.createPosts(encryptedInputs));
+  }
+
+  async updatePosts(updates: PostUpdate[]): Promise<Post[]> {
+    const encryptedUpdates = await Promise.all(
+      updates.map(async ({ id, input }) => ({ id, input: await this.encryptUpdate(id, input) }))
+    );
+    return this.decryptPosts(await this.inner.updatePosts(encryptedUpdates));
+  }
+
+  deletePosts(ids: string[]): Promise<void> {
+    return this.inner.deletePosts(ids);
+  }
+
+  async updatePostFlags(id: string, flags: PostFlags): Promise<Post> {
+    return this.decryptPost(await this.inner.updatePostFlags(id, flags));
+  }
+
+  async getPinnedPosts(): Promise<Post[]> {
+    return this.decryptPosts(await this.inner.getPinnedPosts());
+  }
+
+  async getStarredPosts(): Promise<Post[]> {
+    return this.decryptPosts(await this.inner.getStarredPosts());
+  }
+
+  async getPost(id: string): Promise<Post | null> {
+    const post = await this.inner.getPost(id);
+    return post ? this.decryptPost(post) : null;
+  }
+
+  async getAllPosts(): Promise<Post[]> {
+    return this.decryptPosts(await this.inner.getAllPosts());
+  }
+
+  async getPostsByDateRange(start: Date, end: Date): Promise<Post[]> {
+    return this.decryptPosts(await this.inner.getPostsByDateRange(start, end));
+  }
+
+  async getPostsPage(options: PostsPageOptions): Promise<PostsPage> {
+    const page = await this.inner.getPostsPage(options);
+    return { ...page, posts: await this.decryptPosts(page.posts) };
+  }
+
+  async getPostsByTag(tag: string): Promise<Post[]> {
+    return this.decryptPosts(await this.inner.getPostsByTag(tag));
+  }
+
+  /**
+   * 全文検索（復号した投稿をメモリ上で検索する）
+   */
+  async searchPosts(query: string): Promise<Post[]> {
+    if (tokenizeQuery(query || '').length === 0) {
+      return [];
+    }
+
+    const posts = excludeTrashedPosts(await this.getAllPosts());
+    return posts
+      .filter(post => matchesQuery(post, query))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getTrashedPosts(): Promise<Post[]> {
+    return this.decryptPosts(await this.inner.getTrashedPosts());
+  }
+
+  async restorePost(id: string): Promise<Post> {
+    return this.decryptPost(await this.inner.restorePost(id));
+  }
+
+  purgePost(id: string): Promise<void> {
+    return this.inner.purgePost(id);
+  }
+
+  purgeTrashedPosts(olderThan: Date): Promise<number> {
+    return this.inner.purgeTrashedPosts(olderThan);
+  }
+
+  async getRevisions(postId: string): Promise<PostRevision[]> {
+    const revisions = await this.inner.getRevisions(postId);
+    return Promise.all(revisions.map(async revision => ({
+      ...revision,
+      content: await this.decryptContent(revision.content),
+    })));
+  }
+
+  async restoreRevision(postId: string, revisionId: string): Promise<Post> {
+    return this.decryptPost(await this.inner.restoreRevision(postId, revisionId));
+  }
+
+  getStorageUsage(): Promise<DataStorageUsage> {
+    return this.inner.getStorageUsage();
+  }
+
+  async importPosts(posts: Post[], revisions: PostRevision[] = [], options?: ImportPostsOptions): Promise<number> {
+    if (!this.inner.importPosts) {
+      throw new Error('このデータサービスは投稿の取り込みに対応していません');
+    }
+    const encryptedPosts = await Promise.all(posts.map(async post => ({
+      ...post,
+      content: await this.encryptContent(post.content),
+    })));
+    const encryptedRevisions = await Promise.all(revisions.map(async revision => ({
+      ...revision,
+      content: await this.encryptContent(revision.content),
+    })));
+    return this.inner.importPosts(encryptedPosts, encryptedRevisions, options);
+  }
+
+  subscribeToUpdates(callback: (change: PostChangeEvent) => void): () => void {
+    return this.inner.subscribeToUpdates(callback);
+  }
+
+  /**
+   * 更新内容の本文を暗号化する
+   * 暗号文は毎回異なるため、本文が変わっていない場合は本文を渡さない（不要な編集履歴を残さない）
+   */
+  private async encryptUpdate(id: string, input: UpdatePostInput): Promise<UpdatePostInput> {
+    if (input.content === undefined) {
+      return input;
+    }
+    const current = await this.getPost(id);
+    const content = current && current.content === input.content.trim()
+      ? undefined
+      : await this.encryptContent(input.content);
+    return { ...input, content };
+  }
+
+  /**
+   * 本文を暗号化する（同期の競合をまとめた内容の保存にも使う）
+   * 空の本文は暗号化せずに渡し、保存先のバリデーションでエラーにする
+   */
+  async encryptContent(content: string): Promise<string> {
+    const trimmed = content.trim();
+    if (trimmed.length === 0 || isEncryptedContent(trimmed)) {
+      return trimmed;
+    }
+    return this.key.encrypt(trimmed);
+  }
+
+  /**
+   * 本文を復号する（暗号化されていない本文はそのまま返す）
+   */
+  async decryptContent(content: string): Promise<string> {
+    if (!isEncryptedContent(content)) {
+      return content;
+    }
+    try {
+      return await this.key.decrypt(content);
+    } catch (error) {
+      console.error('[暗号化] 投稿の復号に失敗しました', error);
+      return UNREADABLE_CONTENT;
+    }
+  }
+
+  private async decryptPost(post: Post): Promise<Post> {
+    return { ...post, content: await this.decryptContent(post.content) };
+  }
+
+  private decryptPosts(posts: Post[]): Promise<Post[]> {
+    return Promise.all(posts.map(post => this.decryptPost(post)));
+  }
+}
+
+/**
+ * 保存されている全ての投稿と編集履歴の本文を暗号化し直す
+ * 暗号化の有効化（from: null）、パスフレーズの変更、無効化（to: null）に使う
+ * 書き換えは1回の取り込み（IndexedDBでは1つのトランザクション）で行い、途中で失敗した場合は何も変更しない
+ * 現在の鍵で復号できない本文が1件でもあれば、別の鍵の暗号文を読めなくしないよう何も書き換えずにエラーにする
+ * @param service 暗号化していない保存先のデータサービス
+ * @param from 現在の鍵（暗号化されていない場合はnull）
+ * @param to 新しい鍵（暗号化を解除する場合はnull）
+ * @returns 書き換えた投稿の件数
+ */
+export async function reencryptPosts(
+  service: DataService,
+  from: EncryptionKey | null,
+  to: EncryptionKey | null
+): Promise<number> {
+  if (!service.importPosts) {
+    throw new Error('このデータサービスは投稿の書き換えに対応していません');
+  }
+
+  const convert = async (content: string): Promise<string> => {
+    let plain = content;
+    if (isEncryptedContent(content)) {
+      if (!from) {
+        throw new EncryptionError('暗号化された投稿があるため、書き換えられません', 'reencrypt');
+      }
+      try {
+        plain = await from.decrypt(content);
+      } catch (error) {
+        throw new EncryptionError('現在の鍵で復号できない投稿があるため、書き換えられません', 'reencrypt', error as Error);
+      }
+    }
+    return to ? to.encrypt(plain) : plain;
+  };
+
+  const posts = [...await service.getAllPosts(), ...await service.getTrashedPosts()];
+  const revisions = (await Promise.all(posts.map(post => service.getRevisions(post.id)))).flat();
+
+  const convertedPosts = await Promise.all(posts.map(async post => ({ ...post, content: await convert(post.content) })));
+  const convertedRevisions = await Promise.all(revisions.map(async revision => ({
+    ...revision,
+    content: await convert(revision.content),
+  })));
+
+  await service.importPosts(convertedPosts, convertedRevisions, { overwrite: true });
+  return convertedPosts.length;
+}
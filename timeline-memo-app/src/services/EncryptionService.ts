@@ -0,0 +1,231 @@
+/**
+ * 投稿の本文の暗号化
+ * パスフレーズからPBKDF2で鍵を導出し、投稿ごとにAES-GCMで暗号化する
+ * 鍵そのものは保存せず、パスフレーズの確認用に既知の文字列を暗号化した値（verifier）だけを保存する
+ */
+
+// 暗号化の設定を保存するキー
+export const ENCRYPTION_SETTINGS_STORAGE_KEY = 'timeline-memo-encryption';
+
+// 操作がない場合に自動的にロックするまでの時間（分）
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+// パスフレーズの最小文字数
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// 暗号化した本文の接頭辞（形式: enc:v1:<IV>:<暗号文>、いずれもBase64）
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+// PBKDF2の反復回数（OWASPの推奨値）
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// パスフレーズの確認に使う文字列
+const VERIFIER_TEXT = 'timeline-memo-encryption-verifier';
+
+// 暗号化の設定
+export interface EncryptionSettings {
+  version: 1;
+  salt: string;             // PBKDF2のソルト（Base64）
+  iterations: number;       // PBKDF2の反復回数
+  verifier: string;         // VERIFIER_TEXTを暗号化した値
+  autoLockMinutes: number;  // 自動ロックまでの時間（0の場合は自動ロックしない）
+}
+
+// 暗号化エラー
+export class EncryptionError extends Error {
+  public operation: string;
+  public originalError?: Error;
+
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message);
+    this.name = 'EncryptionError';
+    this.operation = operation;
+    this.originalError = originalError;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 暗号化された本文かどうかを判定する
+ */
+export function isEncryptedContent(value: string): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * パスフレーズから導出した暗号鍵
+ * 鍵は取り出せない（extractable: false）形で保持する
+ */
+export class EncryptionKey {
+  private key: CryptoKey;
+
+  private constructor(key: CryptoKey) {
+    this.key = key;
+  }
+
+  /**
+   * パスフレーズから鍵を導出する
+   * @param passphrase パスフレーズ
+   * @param salt ソルト（Base64）
+   * @param iterations PBKDF2の反復回数
+   */
+  static async derive(passphrase: string, salt: string, iterations: number): Promise<EncryptionKey> {
+    try {
+      const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+      );
+      const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      return new EncryptionKey(key);
+    } catch (error) {
+      throw new EncryptionError('暗号鍵の作成に失敗しました', 'deriveKey', error as Error);
+    }
+  }
+
+  /**
+   * 文字列を暗号化する（暗号化のたびに新しいIVを使う）
+   */
+  async encrypt(text: string): Promise<string> {
+    try {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+      const encrypted = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        this.key,
+        new TextEncoder().encode(text)
+      );
+      return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(encrypted))}`;
+    } catch (error) {
+      throw new EncryptionError('暗号化に失敗しました', 'encrypt', error as Error);
+    }
+  }
+
+  /**
+   * 暗号化された文字列を復号する
+   * 鍵が異なる場合や改ざんされている場合はEncryptionErrorを投げる
+   */
+  async decrypt(value: string): Promise<string> {
+    if (!isEncryptedContent(value)) {
+      throw new EncryptionError('暗号化された形式ではありません', 'decrypt');
+    }
+
+    try {
+      const [iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        this.key,
+        fromBase64(data)
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch (error) {
+      throw new EncryptionError('復号に失敗しました', 'decrypt', error as Error);
+    }
+  }
+}
+
+/**
+ * 保存されている暗号化の設定を読み込む
+ * @returns 暗号化が無効の場合はnull
+ */
+export function loadEncryptionSettings(storage: Storage = localStorage): EncryptionSettings | null {
+  try {
+    const raw = storage.getItem(ENCRYPTION_SETTINGS_STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    const settings = JSON.parse(raw) as EncryptionSettings;
+    return settings.version === 1 && settings.salt && settings.verifier ? settings : null;
+  } catch (error) {
+    console.error('[暗号化] 暗号化の設定の読み込みに失敗しました', error);
+    return null;
+  }
+}
+
+/**
+ * 暗号化の設定を保存する（nullの場合は削除して暗号化を無効にする）
+ */
+export function saveEncryptionSettings(settings: EncryptionSettings | null, storage: Storage = localStorage): void {
+  try {
+    if (settings) {
+      storage.setItem(ENCRYPTION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } else {
+      storage.removeItem(ENCRYPTION_SETTINGS_STORAGE_KEY);
+    }
+  } catch (error) {
+    throw new EncryptionError('暗号化の設定を保存できませんでした', 'saveSettings', error as Error);
+  }
+}
+
+/**
+ * 新しいパスフレーズで暗号化の設定と鍵を作成する（保存はしない）
+ * @param options.iterations PBKDF2の反復回数（テスト用）
+ */
+export async function createEncryptionSettings(
+  passphrase: string,
+  options: { iterations?: number; autoLockMinutes?: number } = {}
+): Promise<{ settings: EncryptionSettings; key: EncryptionKey }> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new EncryptionError(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で設定してください`, 'createSettings');
+  }
+
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const iterations = options.iterations ?? PBKDF2_ITERATIONS;
+  const key = await EncryptionKey.derive(passphrase, salt, iterations);
+
+  return {
+    settings: {
+      version: 1,
+      salt,
+      iterations,
+      verifier: await key.encrypt(VERIFIER_TEXT),
+      autoLockMinutes: options.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    },
+    key,
+  };
+}
+
+/**
+ * パスフレーズを確認し、鍵を導出する
+ * パスフレーズが正しくない場合はEncryptionErrorを投げる
+ */
+export async function unlockEncryption(settings: EncryptionSettings, passphrase: string): Promise<EncryptionKey> {
+  const key = await EncryptionKey.derive(passphrase, settings.salt, settings.iterations);
+
+  let verifier: string | null = null;
+  try {
+    verifier = await key.decrypt(settings.verifier);
+  } catch {
+    // 鍵が異なる場合は復号に失敗する
+  }
+  if (verifier !== VERIFIER_TEXT) {
+    throw new EncryptionError('パスフレーズが正しくありません', 'unlock');
+  }
+
+  return key;
+}
@@ -1,34 +1,74 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Post } from '../types';
+import type { Post, PostRevision, PostChangeEvent, CreatePostInput, UpdatePostInput, PostsPage, PostsPageOptions, ImportPostsOptions, Attachment, AttachmentStore, CreateAttachmentInput, PostUpdate, PostFlags, DataStorageUsage } from '../types';
 import type { DataService } from './DataService';
+import { sanitizeTags, validatePostDate } from '../utils/validationUtils';
+import { tokenize, tokenizeQuery, getSearchableText, matchesQuery } from '../utils/searchUtils';
+import { isTrashed } from '../utils/trashUtils';
+import { applyPostFlags } from '../utils/postFlagUtils';
+import { isQuotaExceededError, estimateJsonSize } from '../utils/storageQuotaUtils';
+import { getAttachmentStoredSize } from '../utils/attachmentUtils';
+import { MigrationRunner, type MigrationReport } from './MigrationRunner';
+import { MIGRATIONS, STORE_NAMES } from './migrations';
 
 // IndexedDBエラーの型定義
 export class IndexedDBError extends Error {
   public operation: string;
   public originalError?: Error;
+  // 保存容量の不足によるエラーか（元のエラーから判定する）
+  public isQuotaExceeded: boolean;
   
   constructor(
     message: string,
     operation: string,
     originalError?: Error
   ) {
-    super(message);
+    const isQuotaExceeded = isQuotaExceededError(originalError);
+    super(isQuotaExceeded ? `${message}（保存容量が不足しています）` : message);
     this.name = 'IndexedDBError';
     this.operation = operation;
     this.originalError = originalError;
+    this.isQuotaExceeded = isQuotaExceeded;
   }
 }
 
 // ログレベルの定義
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
-export class IndexedDBService implements DataService {
+// タブ間の変更通知に使うチャンネル名
+const UPDATE_CHANNEL_NAME = 'timeline-memo-updates';
+
+// このタブの識別子（同じタブ内の別インスタンスからの通知を無視するために使う）
+const TAB_ID = uuidv4();
+
+// タブ間でやり取りする変更通知のメッセージ
+interface PostChangeMessage extends PostChangeEvent {
+  sourceId: string;
+}
+
+// 保存する投稿のレコード（ピン留め・スターはインデックスに含めるため数値で保存する）
+type PostRecord = Omit<Post, 'pinned' | 'starred'> & {
+  pinned?: 1;
+  starred?: 1;
+};
+
+// 転置インデックスのエントリ（トークン → 投稿ID）
+interface SearchIndexEntry {
+  token: string;
+  postId: string;
+}
+
+export class IndexedDBService implements DataService, AttachmentStore {
   private dbName = 'TimelineMemoApp';
-  private version = 1;
-  private storeName = 'posts';
+  private migrationRunner = new MigrationRunner(MIGRATIONS);
+  private version = this.migrationRunner.latestVersion;
+  private storeName = STORE_NAMES.posts;
+  private searchIndexStoreName = STORE_NAMES.searchIndex;
+  private revisionsStoreName = STORE_NAMES.revisions;
+  private attachmentsStoreName = STORE_NAMES.attachments;
   private db: IDBDatabase | null = null;
   private isInitialized = false;
   private initPromise: Promise<void> | null = null;
+  private updateChannel: BroadcastChannel | null = null;
 
   /**
    * ログ出力用のプライベートメソッド
@@ -122,44 +162,35 @@ export class IndexedDBService implements DataService {
 
   /**
    * データベースのマイグレーション処理
+   * スキーマの変更内容は migrations.ts のマイグレーション定義に従う
    */
   private handleDatabaseUpgrade(event: IDBVersionChangeEvent): void {
     const db = (event.target as IDBOpenDBRequest).result;
     const transaction = (event.target as IDBOpenDBRequest).transaction;
 
     try {
-      // バージョン1: 初期スキーマの作成
-      if (event.oldVersion < 1) {
-        this.log('info', 'バージョン1のスキーマを作成中');
-        
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
-          
-          // インデックスの作成
-          store.createIndex('createdAt', 'createdAt', { unique: false });
-          store.createIndex('updatedAt', 'updatedAt', { unique: false });
-          
-          this.log('info', 'postsストアとインデックスを作成しました');
-        }
+      if (!transaction) {
+        throw new Error('versionchangeトランザクションを取得できません');
       }
 
-      // 将来のバージョンアップ用の拡張ポイント
-      // if (event.oldVersion < 2) {
-      //   // バージョン2の変更内容
-      // }
+      const report = this.migrationRunner.upgrade(db, transaction, event.oldVersion, this.version);
+      report.steps.forEach(step => {
+        this.log('info', `バージョン${step.version}のマイグレーションを実行: ${step.description}`, step.operations);
+      });
 
-      if (transaction) {
-        transaction.oncomplete = () => {
-          this.log('info', 'データベースマイグレーションが完了しました');
-        };
+      transaction.oncomplete = () => {
+        // レコードの書き換え件数はトランザクション完了時に確定する
+        this.log('info', 'データベースマイグレーションが完了しました', report);
+      };
 
-        transaction.onerror = () => {
-          this.log('error', 'マイグレーション中にエラーが発生しました', transaction.error);
-        };
-      }
+      transaction.onerror = () => {
+        this.log('error', 'マイグレーション中にエラーが発生しました', transaction.error);
+      };
 
     } catch (error) {
       this.log('error', 'マイグレーション処理でエラーが発生しました', error);
+      // 例外によりversionchangeトランザクションは中止され、データベースは元のバージョンのまま残る
+      transaction?.abort();
       throw new IndexedDBError(
         'データベースマイグレーションに失敗しました',
         'migration',
@@ -168,6 +199,56 @@ export class IndexedDBService implements DataService {
     }
   }
 
+  /**
+   * 未適用のマイグレーションをドライランする
+   * データベースは変更せず、実行予定の操作とレコード変換のエラーを報告する
+   * 接続中の場合は最新バージョンのため、実行予定のマイグレーションは空になる
+   */
+  async previewMigrations(): Promise<MigrationReport> {
+    try {
+      if (this.db) {
+        return await this.migrationRunner.dryRun(this.db, this.version);
+      }
+
+      // バージョンを指定せずに開き、現在のスキーマのまま読み取る
+      const db = await new Promise<IDBDatabase | null>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName);
+        let isNewDatabase = false;
+
+        request.onupgradeneeded = (event) => {
+          // データベースが存在しない場合は作成せずに中止する
+          if (event.oldVersion === 0) {
+            isNewDatabase = true;
+            request.transaction?.abort();
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          if (isNewDatabase) {
+            resolve(null);
+          } else {
+            reject(request.error);
+          }
+        };
+      });
+
+      try {
+        return await this.migrationRunner.dryRun(db, this.version);
+      } finally {
+        db?.close();
+      }
+    } catch (error) {
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        'マイグレーションのドライランに失敗しました',
+        'previewMigrations',
+        error as Error
+      );
+    }
+  }
+
   /**
    * データベース接続の確認と自動初期化
    */
@@ -177,7 +258,222 @@ export class IndexedDBService implements DataService {
     }
   }
 
-  async createPost(content: string): Promise<Post> {
+  /**
+   * 投稿の変更に合わせて転置インデックスを更新する
+   * 投稿ストアと同じトランザクション内で呼び出し、インデックスとの不整合を防ぐ
+   * @param transaction searchIndexストアを含むreadwriteトランザクション
+   * @param previousPost 変更前の投稿（新規作成時はnull）
+   * @param nextPost 変更後の投稿（削除時はnull）
+   */
+  private updateSearchIndex(
+    transaction: IDBTransaction,
+    previousPost: Post | null,
+    nextPost: Post | null
+  ): void {
+    const store = transaction.objectStore(this.searchIndexStoreName);
+    const previousTokens = new Set(previousPost ? tokenize(getSearchableText(previousPost)) : []);
+    const nextTokens = new Set(nextPost ? tokenize(getSearchableText(nextPost)) : []);
+
+    if (previousPost) {
+      previousTokens.forEach(token => {
+        if (!nextTokens.has(token)) {
+          store.delete([token, previousPost.id]);
+        }
+      });
+    }
+
+    if (nextPost) {
+      nextTokens.forEach(token => {
+        if (!previousTokens.has(token)) {
+          const entry: SearchIndexEntry = { token, postId: nextPost.id };
+          store.put(entry);
+        }
+      });
+    }
+  }
+
+  /**
+   * 投稿の編集履歴を削除する（完全削除時に使用）
+   * @param transaction revisionsストアを含むreadwriteトランザクション
+   * @param postId 投稿ID
+   */
+  private deleteRevisions(transaction: IDBTransaction, postId: string): void {
+    const store = transaction.objectStore(this.revisionsStoreName);
+    const request = store.index('postId').openKeyCursor(IDBKeyRange.only(postId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  }
+
+  /**
+   * 投稿に紐付いている添付画像を削除する（完全削除時に使用）
+   * @param transaction attachmentsストアを含むreadwriteトランザクション
+   * @param postId 投稿ID
+   */
+  private deleteAttachments(transaction: IDBTransaction, postId: string): void {
+    const store = transaction.objectStore(this.attachmentsStoreName);
+    const request = store.index('postId').openKeyCursor(IDBKeyRange.only(postId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  }
+
+  /**
+   * 保存されている投稿をゴミ箱の状態に関わらず取得する
+   * @param id 投稿ID
+   * @param operation エラー時に記録する操作名
+   */
+  private getStoredPost(id: string, operation: string): Promise<Post | null> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readonly');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.get(id);
+
+      request.onerror = () => {
+        const error = new IndexedDBError(
+          '投稿の取得に失敗しました',
+          operation,
+          request.error || undefined
+        );
+        this.log('error', '投稿取得エラー', { postId: id, error });
+        reject(error);
+      };
+
+      request.onsuccess = () => {
+        resolve(request.result ? this.toPost(request.result) : null);
+      };
+
+      transaction.onerror = () => {
+        const error = new IndexedDBError(
+          'トランザクションエラーが発生しました',
+          operation,
+          transaction.error || undefined
+        );
+        this.log('error', 'トランザクションエラー', error);
+        reject(error);
+      };
+    });
+  }
+
+  /**
+   * 更新後の投稿と、変更前のバージョンの編集履歴を作成する
+   * 本文かタグが変わる場合のみ、変更前のバージョンを編集履歴に残す（変わらない場合はnull）
+   */
+  private buildUpdatedPost(
+    existingPost: Post,
+    input: UpdatePostInput,
+    updatedAt: Date
+  ): { updatedPost: Post; revision: PostRevision | null } {
+    const updatedPost: Post = {
+      ...existingPost,
+      content: input.content !== undefined ? input.content.trim() : existingPost.content,
+      tags: input.tags !== undefined ? sanitizeTags(input.tags) : existingPost.tags,
+      createdAt: input.createdAt !== undefined ? new Date(input.createdAt) : existingPost.createdAt,
+      updatedAt,
+    };
+
+    // 投稿日時の変更は編集履歴に残さない（本文とタグの変更のみ）
+    const hasChanges = updatedPost.content !== existingPost.content
+      || JSON.stringify(updatedPost.tags || []) !== JSON.stringify(existingPost.tags || []);
+    const revision: PostRevision | null = hasChanges
+      ? {
+          id: uuidv4(),
+          postId: existingPost.id,
+          content: existingPost.content,
+          tags: existingPost.tags,
+          createdAt: existingPost.updatedAt,
+        }
+      : null;
+
+    return { updatedPost, revision };
+  }
+
+  /**
+   * 指定された投稿日時を検証する（省略された場合は検証しない）
+   */
+  private validatePostDates(dates: (Date | undefined)[], operation: string): void {
+    for (const date of dates) {
+      const error = date !== undefined ? validatePostDate(date) : null;
+      if (error) {
+        throw new IndexedDBError(error, operation);
+      }
+    }
+  }
+
+  /**
+   * 一括操作の対象の投稿IDを検証する（空のIDと重複を拒否する）
+   */
+  private validateBatchIds(ids: string[], operation: string): void {
+    if (ids.some(id => !id || id.trim().length === 0)) {
+      throw new IndexedDBError('投稿IDが無効です', operation);
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new IndexedDBError('同じ投稿が複数含まれています', operation);
+    }
+  }
+
+  /**
+   * 書き込みのトランザクションが中止された場合にエラーにする
+   * 保存容量の超過はリクエストのエラーではなくトランザクションの中止として通知されるため、onerrorだけでは検知できない
+   */
+  private rejectOnAbort(transaction: IDBTransaction, operation: string, reject: (error: IndexedDBError) => void): void {
+    transaction.onabort = () => {
+      const error = new IndexedDBError(
+        'トランザクションが中止されました',
+        operation,
+        transaction.error || undefined
+      );
+      this.log('error', 'トランザクションの中止', error);
+      reject(error);
+    };
+  }
+
+  /**
+   * 保存されたレコードを投稿に変換する（日時をDateオブジェクトに、ピン留め・スターを真偽値に戻す）
+   */
+  private toPost(record: Post | PostRecord): Post {
+    const { pinned, starred, ...rest } = record;
+    const post: Post = {
+      ...rest,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+    };
+    if (record.deletedAt) {
+      post.deletedAt = new Date(record.deletedAt);
+    }
+    if (pinned) {
+      post.pinned = true;
+    }
+    if (starred) {
+      post.starred = true;
+    }
+    return post;
+  }
+
+  /**
+   * 投稿を保存用のレコードに変換する
+   * 真偽値はインデックスのキーにできないため、ピン留め・スターは立っている場合のみ 1 を保存する
+   */
+  private toRecord(post: Post): PostRecord {
+    const { pinned, starred, ...record } = post;
+    return {
+      ...record,
+      ...(pinned && { pinned: 1 as const }),
+      ...(starred && { starred: 1 as const }),
+    };
+  }
+
+  async createPost(input: CreatePostInput): Promise<Post> {
+    const { content, tags = [] } = input;
+
     try {
       console.log('IndexedDBService.createPost 開始:', content);
       await this.ensureConnection();
@@ -190,20 +486,26 @@ export class IndexedDBService implements DataService {
           'createPost'
         );
       }
+      this.validatePostDates([input.createdAt], 'createPost');
 
+      // 過去の日付で書いた投稿も編集済みとして扱わないよう、更新日時は投稿日時に揃える
+      const createdAt = input.createdAt ? new Date(input.createdAt) : new Date();
       const post: Post = {
         id: uuidv4(),
         content: content.trim(),
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt,
+        updatedAt: new Date(createdAt),
+        tags: sanitizeTags(tags),
       };
 
       this.log('debug', '新しい投稿を作成中', { postId: post.id });
 
       return new Promise((resolve, reject) => {
-        const transaction = this.db!.transaction([this.storeName], 'readwrite');
+        // 投稿と転置インデックスを同一トランザクションで書き込む
+        const transaction = this.db!.transaction([this.storeName, this.searchIndexStoreName], 'readwrite');
         const store = transaction.objectStore(this.storeName);
-        const request = store.add(post);
+        const request = store.add(this.toRecord(post));
+        this.updateSearchIndex(transaction, null, post);
 
         request.onerror = () => {
           const error = new IndexedDBError(
@@ -215,12 +517,15 @@ export class IndexedDBService implements DataService {
           reject(error);
         };
 
-        request.onsuccess = () => {
+        transaction.oncomplete = () => {
           this.log('info', '投稿を作成しました', { postId: post.id });
           console.log('IndexedDBService.createPost 成功:', post);
+          this.notifyUpdates({ created: [post.id] });
           resolve(post);
         };
 
+        this.rejectOnAbort(transaction, 'createPost', reject);
+
         transaction.onerror = () => {
           const error = new IndexedDBError(
             'トランザクションエラーが発生しました',
@@ -244,7 +549,9 @@ export class IndexedDBService implements DataService {
     }
   }
 
-  async updatePost(id: string, content: string): Promise<Post> {
+  async updatePost(id: string, input: UpdatePostInput): Promise<Post> {
+    const { content, tags } = input;
+
     try {
       await this.ensureConnection();
 
@@ -256,12 +563,14 @@ export class IndexedDBService implements DataService {
         );
       }
 
-      if (!content || content.trim().length === 0) {
+      // コンテンツは指定された場合のみ検証する（タグのみの更新を許可）
+      if (content !== undefined && content.trim().length === 0) {
         throw new IndexedDBError(
           'コンテンツが空です',
           'updatePost'
         );
       }
+      this.validatePostDates([input.createdAt], 'updatePost');
 
       this.log('debug', '投稿を更新中', { postId: id });
 
@@ -273,16 +582,19 @@ export class IndexedDBService implements DataService {
         );
       }
 
-      const updatedPost: Post = {
-        ...existingPost,
-        content: content.trim(),
-        updatedAt: new Date(),
-      };
+      const { updatedPost, revision } = this.buildUpdatedPost(existingPost, { content, tags, createdAt: input.createdAt }, new Date());
 
       return new Promise((resolve, reject) => {
-        const transaction = this.db!.transaction([this.storeName], 'readwrite');
+        const transaction = this.db!.transaction(
+          [this.storeName, this.searchIndexStoreName, this.revisionsStoreName],
+          'readwrite'
+        );
         const store = transaction.objectStore(this.storeName);
-        const request = store.put(updatedPost);
+        const request = store.put(this.toRecord(updatedPost));
+        this.updateSearchIndex(transaction, existingPost, updatedPost);
+        if (revision) {
+          transaction.objectStore(this.revisionsStoreName).add(revision);
+        }
 
         request.onerror = () => {
           const error = new IndexedDBError(
@@ -294,11 +606,14 @@ export class IndexedDBService implements DataService {
           reject(error);
         };
 
-        request.onsuccess = () => {
+        transaction.oncomplete = () => {
           this.log('info', '投稿を更新しました', { postId: id });
+          this.notifyUpdates({ updated: [id] });
           resolve(updatedPost);
         };
 
+        this.rejectOnAbort(transaction, 'updatePost', reject);
+
         transaction.onerror = () => {
           const error = new IndexedDBError(
             'トランザクションエラーが発生しました',
@@ -334,9 +649,9 @@ export class IndexedDBService implements DataService {
         );
       }
 
-      this.log('debug', '投稿を削除中', { postId: id });
+      this.log('debug', '投稿をゴミ箱に移動中', { postId: id });
 
-      // 削除前に投稿の存在確認
+      // 削除前に投稿の存在確認（ゴミ箱の投稿は対象外）
       const existingPost = await this.getPost(id);
       if (!existingPost) {
         throw new IndexedDBError(
@@ -345,10 +660,17 @@ export class IndexedDBService implements DataService {
         );
       }
 
+      // 誤操作から復元できるよう、レコードは残してdeletedAtを記録する
+      // 転置インデックスは復元に備えて残し、完全削除時に取り除く
+      const trashedPost: Post = {
+        ...existingPost,
+        deletedAt: new Date(),
+      };
+
       return new Promise((resolve, reject) => {
         const transaction = this.db!.transaction([this.storeName], 'readwrite');
         const store = transaction.objectStore(this.storeName);
-        const request = store.delete(id);
+        const request = store.put(this.toRecord(trashedPost));
 
         request.onerror = () => {
           const error = new IndexedDBError(
@@ -360,11 +682,14 @@ export class IndexedDBService implements DataService {
           reject(error);
         };
 
-        request.onsuccess = () => {
-          this.log('info', '投稿を削除しました', { postId: id });
+        transaction.oncomplete = () => {
+          this.log('info', '投稿をゴミ箱に移動しました', { postId: id });
+          this.notifyUpdates({ deleted: [id] });
           resolve();
         };
 
+        this.rejectOnAbort(transaction, 'deletePost', reject);
+
         transaction.onerror = () => {
           const error = new IndexedDBError(
             'トランザクションエラーが発生しました',
@@ -388,52 +713,60 @@ export class IndexedDBService implements DataService {
     }
   }
 
-  async getPost(id: string): Promise<Post | null> {
+  /**
+   * 複数の投稿を1つのトランザクションで作成する（取り込みなどの一括操作用）
+   * 1件でも本文が空の場合は、何も作成しない
+   * @returns 作成した投稿（入力と同じ順）
+   */
+  async createPosts(inputs: CreatePostInput[]): Promise<Post[]> {
     try {
       await this.ensureConnection();
 
-      // バリデーション
-      if (!id || id.trim().length === 0) {
+      // バリデーション（書き込む前に全件を検証する）
+      if (inputs.some(input => !input.content || input.content.trim().length === 0)) {
         throw new IndexedDBError(
-          '投稿IDが無効です',
-          'getPost'
+          'コンテンツが空です',
+          'createPosts'
         );
       }
+      this.validatePostDates(inputs.map(input => input.createdAt), 'createPosts');
 
-      this.log('debug', '投稿を取得中', { postId: id });
+      if (inputs.length === 0) {
+        return [];
+      }
+
+      const now = new Date();
+      const posts: Post[] = inputs.map(({ content, tags = [], createdAt = now }) => ({
+        id: uuidv4(),
+        content: content.trim(),
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(createdAt),
+        tags: sanitizeTags(tags),
+      }));
+
+      this.log('debug', '投稿を一括作成中', { count: posts.length });
 
       return new Promise((resolve, reject) => {
-        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        // 全ての投稿と転置インデックスを同一トランザクションで書き込む
+        const transaction = this.db!.transaction([this.storeName, this.searchIndexStoreName], 'readwrite');
         const store = transaction.objectStore(this.storeName);
-        const request = store.get(id);
+        posts.forEach(post => {
+          store.add(this.toRecord(post));
+          this.updateSearchIndex(transaction, null, post);
+        });
 
-        request.onerror = () => {
-          const error = new IndexedDBError(
-            '投稿の取得に失敗しました',
-            'getPost',
-            request.error || undefined
-          );
-          this.log('error', '投稿取得エラー', { postId: id, error });
-          reject(error);
+        transaction.oncomplete = () => {
+          this.log('info', `投稿を${posts.length}件作成しました`);
+          this.notifyUpdates({ created: posts.map(post => post.id) });
+          resolve(posts);
         };
 
-        request.onsuccess = () => {
-          const result = request.result;
-          if (result) {
-            // Date オブジェクトに変換
-            result.createdAt = new Date(result.createdAt);
-            result.updatedAt = new Date(result.updatedAt);
-            this.log('debug', '投稿を取得しました', { postId: id });
-          } else {
-            this.log('debug', '投稿が見つかりませんでした', { postId: id });
-          }
-          resolve(result || null);
-        };
+        this.rejectOnAbort(transaction, 'createPosts', reject);
 
         transaction.onerror = () => {
           const error = new IndexedDBError(
             'トランザクションエラーが発生しました',
-            'getPost',
+            'createPosts',
             transaction.error || undefined
           );
           this.log('error', 'トランザクションエラー', error);
@@ -441,143 +774,1531 @@ export class IndexedDBService implements DataService {
         };
       });
     } catch (error) {
-      this.log('error', '投稿取得処理でエラーが発生しました', { postId: id, error });
+      this.log('error', '投稿の一括作成処理でエラーが発生しました', error);
       if (error instanceof IndexedDBError) {
         throw error;
       }
       throw new IndexedDBError(
-        '投稿の取得中に予期しないエラーが発生しました',
-        'getPost',
+        '投稿の一括作成中に予期しないエラーが発生しました',
+        'createPosts',
         error as Error
       );
     }
   }
 
-  async getAllPosts(): Promise<Post[]> {
+  /**
+   * 複数の投稿を1つのトランザクションで更新する
+   * 1件でも見つからない（ゴミ箱にある）投稿が含まれる場合は、トランザクションを中止して何も更新しない
+   * @returns 更新後の投稿（入力と同じ順）
+   */
+  async updatePosts(updates: PostUpdate[]): Promise<Post[]> {
     try {
       await this.ensureConnection();
 
-      this.log('debug', '全ての投稿を取得中');
+      // バリデーション（書き込む前に全件を検証する）
+      this.validateBatchIds(updates.map(update => update.id), 'updatePosts');
+      if (updates.some(({ input }) => input.content !== undefined && input.content.trim().length === 0)) {
+        throw new IndexedDBError(
+          'コンテンツが空です',
+          'updatePosts'
+        );
+      }
+      this.validatePostDates(updates.map(({ input }) => input.createdAt), 'updatePosts');
+
+      if (updates.length === 0) {
+        return [];
+      }
+
+      this.log('debug', '投稿を一括更新中', { count: updates.length });
 
       return new Promise((resolve, reject) => {
-        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        // 読み取りと書き込みを同一トランザクションで行い、途中の変更が残らないようにする
+        const transaction = this.db!.transaction(
+          [this.storeName, this.searchIndexStoreName, this.revisionsStoreName],
+          'readwrite'
+        );
         const store = transaction.objectStore(this.storeName);
-        const request = store.getAll();
-
-        request.onerror = () => {
-          const error = new IndexedDBError(
-            '投稿一覧の取得に失敗しました',
-            'getAllPosts',
-            request.error || undefined
-          );
-          this.log('error', '投稿一覧取得エラー', error);
-          reject(error);
-        };
+        const updatedAt = new Date();
+        const updatedPosts: Post[] = [];
+        let failure: IndexedDBError | null = null;
+
+        updates.forEach(({ id, input }) => {
+          const request = store.get(id);
+          request.onsuccess = () => {
+            const record = request.result as Post | undefined;
+            if (failure) {
+              return;
+            }
+            if (!record || isTrashed(record)) {
+              failure = new IndexedDBError('指定された投稿が見つかりません', 'updatePosts');
+              transaction.abort();
+              return;
+            }
+
+            const existingPost = this.toPost(record);
+            const { updatedPost, revision } = this.buildUpdatedPost(existingPost, input, updatedAt);
+            store.put(this.toRecord(updatedPost));
+            this.updateSearchIndex(transaction, existingPost, updatedPost);
+            if (revision) {
+              transaction.objectStore(this.revisionsStoreName).add(revision);
+            }
+            updatedPosts.push(updatedPost);
+          };
+        });
 
-        request.onsuccess = () => {
-          try {
-            const posts = request.result.map((post: any) => ({
-              ...post,
-              createdAt: new Date(post.createdAt),
-              updatedAt: new Date(post.updatedAt),
-            }));
-            
-            // 新しい順にソート
-            posts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-            
-            this.log('info', `${posts.length}件の投稿を取得しました`);
-            resolve(posts);
-          } catch (error) {
-            const dbError = new IndexedDBError(
-              '投稿データの処理中にエラーが発生しました',
-              'getAllPosts',
-              error as Error
-            );
-            this.log('error', 'データ処理エラー', dbError);
-            reject(dbError);
-          }
+        transaction.oncomplete = () => {
+          this.log('info', `投稿を${updatedPosts.length}件更新しました`);
+          this.notifyUpdates({ updated: updatedPosts.map(post => post.id) });
+          resolve(updatedPosts);
         };
 
-        transaction.onerror = () => {
-          const error = new IndexedDBError(
+        transaction.onabort = () => {
+          const error = failure || new IndexedDBError(
             'トランザクションエラーが発生しました',
-            'getAllPosts',
+            'updatePosts',
             transaction.error || undefined
           );
-          this.log('error', 'トランザクションエラー', error);
+          this.log('error', '投稿の一括更新を中止しました', error);
           reject(error);
         };
       });
     } catch (error) {
-      this.log('error', '投稿一覧取得処理でエラーが発生しました', error);
+      this.log('error', '投稿の一括更新処理でエラーが発生しました', error);
       if (error instanceof IndexedDBError) {
         throw error;
       }
       throw new IndexedDBError(
-        '投稿一覧の取得中に予期しないエラーが発生しました',
-        'getAllPosts',
+        '投稿の一括更新中に予期しないエラーが発生しました',
+        'updatePosts',
         error as Error
       );
     }
   }
 
-  async getPostsByDateRange(start: Date, end: Date): Promise<Post[]> {
+  /**
+   * 複数の投稿を1つのトランザクションでゴミ箱に移動する
+   * 1件でも見つからない（既にゴミ箱にある）投稿が含まれる場合は、何も移動しない
+   */
+  async deletePosts(ids: string[]): Promise<void> {
     try {
+      await this.ensureConnection();
+
       // バリデーション
-      if (!start || !end) {
-        throw new IndexedDBError(
-          '開始日時と終了日時が必要です',
-          'getPostsByDateRange'
-        );
-      }
+      this.validateBatchIds(ids, 'deletePosts');
 
-      if (start > end) {
-        throw new IndexedDBError(
-          '開始日時は終了日時より前である必要があります',
-          'getPostsByDateRange'
-        );
+      if (ids.length === 0) {
+        return;
       }
 
-      this.log('debug', '日付範囲で投稿を取得中', { 
-        start: start.toISOString(), 
-        end: end.toISOString() 
-      });
+      this.log('debug', '投稿を一括でゴミ箱に移動中', { count: ids.length });
 
-      const allPosts = await this.getAllPosts();
-      const filteredPosts = allPosts.filter(post => 
-        post.createdAt >= start && post.createdAt <= end
-      );
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readwrite');
+        const store = transaction.objectStore(this.storeName);
+        const deletedAt = new Date();
+        let failure: IndexedDBError | null = null;
+
+        ids.forEach(id => {
+          const request = store.get(id);
+          request.onsuccess = () => {
+            const record = request.result as Post | undefined;
+            if (failure) {
+              return;
+            }
+            if (!record || isTrashed(record)) {
+              failure = new IndexedDBError('指定された投稿が見つかりません', 'deletePosts');
+              transaction.abort();
+              return;
+            }
+            // deletePostと同様に、転置インデックスは復元に備えて残す
+            store.put({ ...record, deletedAt });
+          };
+        });
 
-      this.log('info', `日付範囲で${filteredPosts.length}件の投稿を取得しました`, {
-        start: start.toISOString(),
-        end: end.toISOString(),
-        count: filteredPosts.length
-      });
+        transaction.oncomplete = () => {
+          this.log('info', `投稿を${ids.length}件ゴミ箱に移動しました`);
+          this.notifyUpdates({ deleted: ids });
+          resolve();
+        };
 
-      return filteredPosts;
-    } catch (error) {
-      this.log('error', '日付範囲投稿取得処理でエラーが発生しました', error);
-      if (error instanceof IndexedDBError) {
-        throw error;
+        transaction.onabort = () => {
+          const error = failure || new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'deletePosts',
+            transaction.error || undefined
+          );
+          this.log('error', '投稿の一括削除を中止しました', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '投稿の一括削除処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿の一括削除中に予期しないエラーが発生しました',
+        'deletePosts',
+        error as Error
+      );
+    }
+  }
+
+  async updatePostFlags(id: string, flags: PostFlags): Promise<Post> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション
+      if (!id || id.trim().length === 0) {
+        throw new IndexedDBError(
+          '投稿IDが無効です',
+          'updatePostFlags'
+        );
+      }
+
+      const existingPost = await this.getPost(id);
+      if (!existingPost) {
+        throw new IndexedDBError(
+          '指定された投稿が見つかりません',
+          'updatePostFlags'
+        );
+      }
+
+      // 目印の変更は内容の編集ではないため、更新日時と編集履歴は変更しない
+      const updatedPost = applyPostFlags(existingPost, flags);
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readwrite');
+        const store = transaction.objectStore(this.storeName);
+        const request = store.put(this.toRecord(updatedPost));
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            'ピン留め・スターの変更に失敗しました',
+            'updatePostFlags',
+            request.error || undefined
+          );
+          this.log('error', 'ピン留め・スター変更エラー', { postId: id, error });
+          reject(error);
+        };
+
+        transaction.oncomplete = () => {
+          this.log('info', 'ピン留め・スターを変更しました', { postId: id, flags });
+          this.notifyUpdates({ updated: [id] });
+          resolve(updatedPost);
+        };
+
+        this.rejectOnAbort(transaction, 'updatePostFlags', reject);
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'updatePostFlags',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', 'ピン留め・スター変更処理でエラーが発生しました', { postId: id, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        'ピン留め・スターの変更中に予期しないエラーが発生しました',
+        'updatePostFlags',
+        error as Error
+      );
+    }
+  }
+
+  async getPinnedPosts(): Promise<Post[]> {
+    return this.getFlaggedPosts('pinned', 'getPinnedPosts');
+  }
+
+  async getStarredPosts(): Promise<Post[]> {
+    return this.getFlaggedPosts('starred', 'getStarredPosts');
+  }
+
+  /**
+   * ピン留め・スターのインデックスから投稿を取得する（ゴミ箱の投稿は除く、新しい順）
+   * フラグの立っていない投稿はインデックスに含まれないため、該当する投稿のみを読み込む
+   */
+  private async getFlaggedPosts(indexName: 'pinned' | 'starred', operation: string): Promise<Post[]> {
+    try {
+      await this.ensureConnection();
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        const store = transaction.objectStore(this.storeName);
+        const request = store.index(indexName).getAll();
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '投稿の取得に失敗しました',
+            operation,
+            request.error || undefined
+          );
+          this.log('error', '投稿取得エラー', { indexName, error });
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const posts: Post[] = request.result
+            .filter((record: PostRecord) => !isTrashed(record))
+            .map((record: PostRecord) => this.toPost(record));
+
+          // 新しい順にソート
+          posts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+          resolve(posts);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            operation,
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '投稿取得処理でエラーが発生しました', { indexName, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿の取得中に予期しないエラーが発生しました',
+        operation,
+        error as Error
+      );
+    }
+  }
+
+  async getPost(id: string): Promise<Post | null> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション
+      if (!id || id.trim().length === 0) {
+        throw new IndexedDBError(
+          '投稿IDが無効です',
+          'getPost'
+        );
+      }
+
+      this.log('debug', '投稿を取得中', { postId: id });
+
+      const post = await this.getStoredPost(id, 'getPost');
+
+      // ゴミ箱の投稿は存在しないものとして扱う
+      if (!post || isTrashed(post)) {
+        this.log('debug', '投稿が見つかりませんでした', { postId: id });
+        return null;
+      }
+
+      this.log('debug', '投稿を取得しました', { postId: id });
+      return post;
+    } catch (error) {
+      this.log('error', '投稿取得処理でエラーが発生しました', { postId: id, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿の取得中に予期しないエラーが発生しました',
+        'getPost',
+        error as Error
+      );
+    }
+  }
+
+  async getAllPosts(): Promise<Post[]> {
+    try {
+      await this.ensureConnection();
+
+      this.log('debug', '全ての投稿を取得中');
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        const store = transaction.objectStore(this.storeName);
+        const request = store.getAll();
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '投稿一覧の取得に失敗しました',
+            'getAllPosts',
+            request.error || undefined
+          );
+          this.log('error', '投稿一覧取得エラー', error);
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          try {
+            const posts = request.result
+              .filter((post: Post) => !isTrashed(post))
+              .map((record: PostRecord) => this.toPost(record));
+            
+            // 新しい順にソート
+            posts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+            
+            this.log('info', `${posts.length}件の投稿を取得しました`);
+            resolve(posts);
+          } catch (error) {
+            const dbError = new IndexedDBError(
+              '投稿データの処理中にエラーが発生しました',
+              'getAllPosts',
+              error as Error
+            );
+            this.log('error', 'データ処理エラー', dbError);
+            reject(dbError);
+          }
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getAllPosts',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '投稿一覧取得処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿一覧の取得中に予期しないエラーが発生しました',
+        'getAllPosts',
+        error as Error
+      );
+    }
+  }
+
+  async getPostsByDateRange(start: Date, end: Date): Promise<Post[]> {
+    try {
+      // バリデーション
+      if (!start || !end) {
+        throw new IndexedDBError(
+          '開始日時と終了日時が必要です',
+          'getPostsByDateRange'
+        );
+      }
+
+      if (start > end) {
+        throw new IndexedDBError(
+          '開始日時は終了日時より前である必要があります',
+          'getPostsByDateRange'
+        );
+      }
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        throw new IndexedDBError(
+          '日時の形式が無効です',
+          'getPostsByDateRange'
+        );
+      }
+
+      await this.ensureConnection();
+
+      this.log('debug', '日付範囲で投稿を取得中', { 
+        start: start.toISOString(), 
+        end: end.toISOString() 
+      });
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        const store = transaction.objectStore(this.storeName);
+        // createdAtインデックスを範囲指定で走査し、範囲外の投稿は読み込まない
+        // 'prev'で新しい順に取得するため、取得後のソートは不要
+        const range = IDBKeyRange.bound(start, end);
+        const request = store.index('createdAt').openCursor(range, 'prev');
+        const posts: Post[] = [];
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '日付範囲での投稿取得に失敗しました',
+            'getPostsByDateRange',
+            request.error || undefined
+          );
+          this.log('error', '日付範囲投稿取得エラー', error);
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            const post = cursor.value;
+            if (!isTrashed(post)) {
+              posts.push(this.toPost(post));
+            }
+            cursor.continue();
+            return;
+          }
+
+          this.log('info', `日付範囲で${posts.length}件の投稿を取得しました`, {
+            start: start.toISOString(),
+            end: end.toISOString(),
+            count: posts.length
+          });
+          resolve(posts);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getPostsByDateRange',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '日付範囲投稿取得処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '日付範囲での投稿取得中に予期しないエラーが発生しました',
+        'getPostsByDateRange',
+        error as Error
+      );
+    }
+  }
+
+  async getPostsPage(options: PostsPageOptions): Promise<PostsPage> {
+    const { before, limit } = options;
+
+    try {
+      // バリデーション
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new IndexedDBError(
+          '取得件数は1以上の整数である必要があります',
+          'getPostsPage'
+        );
+      }
+
+      if (before && isNaN(before.createdAt.getTime())) {
+        throw new IndexedDBError(
+          'カーソルの日時が無効です',
+          'getPostsPage'
+        );
+      }
+
+      await this.ensureConnection();
+
+      this.log('debug', '投稿のページを取得中', { before: before && { createdAt: before.createdAt.toISOString(), id: before.id }, limit });
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        const store = transaction.objectStore(this.storeName);
+        // カーソルの日時以前を新しい順に走査する
+        // 'prev'ではインデックスのキーが同じレコードは主キー（ID）の降順に並ぶため、日時とIDの組がページの境界になる
+        const range = before ? IDBKeyRange.upperBound(before.createdAt) : undefined;
+        const request = store.index('createdAt').openCursor(range, 'prev');
+        const posts: Post[] = [];
+        let hasMore = false;
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '投稿のページ取得に失敗しました',
+            'getPostsPage',
+            request.error || undefined
+          );
+          this.log('error', 'ページ取得エラー', error);
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            // カーソルと同じ日時で、カーソル以前のIDの投稿（前のページで取得済み）は読み飛ばす
+            const isPreviousPage = before
+              && new Date(cursor.value.createdAt).getTime() === before.createdAt.getTime()
+              && cursor.value.id >= before.id;
+            // ゴミ箱の投稿は件数に数えずに読み飛ばす
+            if (isPreviousPage || isTrashed(cursor.value)) {
+              cursor.continue();
+              return;
+            }
+
+            if (posts.length < limit) {
+              posts.push(this.toPost(cursor.value));
+              cursor.continue();
+              return;
+            }
+
+            hasMore = true;
+          }
+
+          const lastPost = posts[posts.length - 1];
+          const nextCursor = hasMore ? { createdAt: lastPost.createdAt, id: lastPost.id } : null;
+          this.log('info', `${posts.length}件の投稿をページ取得しました`, { hasMore });
+          resolve({ posts, nextCursor });
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getPostsPage',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', 'ページ取得処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿のページ取得中に予期しないエラーが発生しました',
+        'getPostsPage',
+        error as Error
+      );
+    }
+  }
+
+  async getPostsByTag(tag: string): Promise<Post[]> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション（先頭の「#」は保存時と同様に取り除く）
+      const [normalizedTag] = sanitizeTags([tag || '']);
+      if (!normalizedTag) {
+        throw new IndexedDBError(
+          'タグが無効です',
+          'getPostsByTag'
+        );
+      }
+
+      this.log('debug', 'タグで投稿を取得中', { tag: normalizedTag });
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        const store = transaction.objectStore(this.storeName);
+        const request = store.index('tags').getAll(normalizedTag);
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            'タグでの投稿取得に失敗しました',
+            'getPostsByTag',
+            request.error || undefined
+          );
+          this.log('error', 'タグ投稿取得エラー', { tag: normalizedTag, error });
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const posts: Post[] = request.result
+            .filter((post: Post) => !isTrashed(post))
+            .map((record: PostRecord) => this.toPost(record));
+
+          // 新しい順にソート
+          posts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+          this.log('info', `タグ「${normalizedTag}」の投稿を${posts.length}件取得しました`);
+          resolve(posts);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getPostsByTag',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', 'タグ投稿取得処理でエラーが発生しました', { tag, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        'タグでの投稿取得中に予期しないエラーが発生しました',
+        'getPostsByTag',
+        error as Error
+      );
+    }
+  }
+
+  async searchPosts(query: string): Promise<Post[]> {
+    try {
+      await this.ensureConnection();
+
+      const tokens = tokenizeQuery(query || '');
+      if (tokens.length === 0) {
+        return [];
+      }
+
+      this.log('debug', '全文検索を実行中', { query, tokens });
+
+      const posts = await new Promise<Post[]>((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName, this.searchIndexStoreName], 'readonly');
+        const searchStore = transaction.objectStore(this.searchIndexStoreName);
+        const postStore = transaction.objectStore(this.storeName);
+        const postIdSets: Set<string>[] = [];
+
+        // トークンごとに該当する投稿IDを取得し、全トークンの積集合を求める
+        tokens.forEach(token => {
+          const range = IDBKeyRange.bound([token, ''], [token, '\uffff']);
+          const request = searchStore.getAllKeys(range);
+          request.onsuccess = () => {
+            postIdSets.push(new Set((request.result as IDBValidKey[]).map(key => (key as [string, string])[1])));
+
+            if (postIdSets.length === tokens.length) {
+              const [first, ...rest] = postIdSets;
+              const matchedIds = Array.from(first).filter(postId => rest.every(ids => ids.has(postId)));
+              const results: Post[] = [];
+
+              matchedIds.forEach(postId => {
+                const postRequest = postStore.get(postId);
+                postRequest.onsuccess = () => {
+                  // ゴミ箱の投稿は転置インデックスに残っているため、ここで除外する
+                  if (postRequest.result && !isTrashed(postRequest.result)) {
+                    results.push(postRequest.result);
+                  }
+                };
+              });
+
+              transaction.oncomplete = () => resolve(results);
+            }
+          };
+        });
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'searchPosts',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+
+      // バイグラムの一致は語順を保証しないため、本文に語が含まれるかを最終確認
+      const matchedPosts = posts
+        .filter(post => matchesQuery(post, query))
+        .map(post => this.toPost(post));
+
+      // 新しい順にソート
+      matchedPosts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+      this.log('info', `「${query}」の検索結果: ${matchedPosts.length}件`);
+      return matchedPosts;
+    } catch (error) {
+      this.log('error', '全文検索処理でエラーが発生しました', { query, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '全文検索中に予期しないエラーが発生しました',
+        'searchPosts',
+        error as Error
+      );
+    }
+  }
+
+  async getTrashedPosts(): Promise<Post[]> {
+    try {
+      await this.ensureConnection();
+
+      this.log('debug', 'ゴミ箱の投稿を取得中');
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readonly');
+        const store = transaction.objectStore(this.storeName);
+        // deletedAtインデックスには削除済みの投稿のみが含まれる（削除日時の新しい順）
+        const request = store.index('deletedAt').openCursor(null, 'prev');
+        const posts: Post[] = [];
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            'ゴミ箱の投稿の取得に失敗しました',
+            'getTrashedPosts',
+            request.error || undefined
+          );
+          this.log('error', 'ゴミ箱取得エラー', error);
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            posts.push(this.toPost(cursor.value));
+            cursor.continue();
+            return;
+          }
+
+          this.log('info', `ゴミ箱の投稿を${posts.length}件取得しました`);
+          resolve(posts);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getTrashedPosts',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', 'ゴミ箱取得処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        'ゴミ箱の投稿の取得中に予期しないエラーが発生しました',
+        'getTrashedPosts',
+        error as Error
+      );
+    }
+  }
+
+  async restorePost(id: string): Promise<Post> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション
+      if (!id || id.trim().length === 0) {
+        throw new IndexedDBError(
+          '投稿IDが無効です',
+          'restorePost'
+        );
+      }
+
+      this.log('debug', 'ゴミ箱から投稿を復元中', { postId: id });
+
+      const trashedPost = await this.getStoredPost(id, 'restorePost');
+      if (!trashedPost || !isTrashed(trashedPost)) {
+        throw new IndexedDBError(
+          'ゴミ箱に指定された投稿が見つかりません',
+          'restorePost'
+        );
+      }
+
+      // deletedAtを取り除き、deletedAtインデックスからも外す
+      const restoredPost: Post = { ...trashedPost };
+      delete restoredPost.deletedAt;
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.storeName], 'readwrite');
+        const store = transaction.objectStore(this.storeName);
+        const request = store.put(this.toRecord(restoredPost));
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '投稿の復元に失敗しました',
+            'restorePost',
+            request.error || undefined
+          );
+          this.log('error', '投稿復元エラー', { postId: id, error });
+          reject(error);
+        };
+
+        transaction.oncomplete = () => {
+          this.log('info', '投稿を復元しました', { postId: id });
+          // 他のタブでは一覧に新しく現れるため作成として通知する
+          this.notifyUpdates({ created: [id] });
+          resolve(restoredPost);
+        };
+
+        this.rejectOnAbort(transaction, 'restorePost', reject);
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'restorePost',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '投稿復元処理でエラーが発生しました', { postId: id, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿の復元中に予期しないエラーが発生しました',
+        'restorePost',
+        error as Error
+      );
+    }
+  }
+
+  async purgePost(id: string): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション
+      if (!id || id.trim().length === 0) {
+        throw new IndexedDBError(
+          '投稿IDが無効です',
+          'purgePost'
+        );
+      }
+
+      this.log('debug', '投稿を完全に削除中', { postId: id });
+
+      const existingPost = await this.getStoredPost(id, 'purgePost');
+      if (!existingPost) {
+        throw new IndexedDBError(
+          '指定された投稿が見つかりません',
+          'purgePost'
+        );
+      }
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [this.storeName, this.searchIndexStoreName, this.revisionsStoreName, this.attachmentsStoreName],
+          'readwrite'
+        );
+        const store = transaction.objectStore(this.storeName);
+        const request = store.delete(id);
+        this.updateSearchIndex(transaction, existingPost, null);
+        this.deleteRevisions(transaction, id);
+        this.deleteAttachments(transaction, id);
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '投稿の完全削除に失敗しました',
+            'purgePost',
+            request.error || undefined
+          );
+          this.log('error', '投稿完全削除エラー', { postId: id, error });
+          reject(error);
+        };
+
+        transaction.oncomplete = () => {
+          this.log('info', '投稿を完全に削除しました', { postId: id });
+          this.notifyUpdates({ deleted: [id] });
+          resolve();
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'purgePost',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '投稿完全削除処理でエラーが発生しました', { postId: id, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿の完全削除中に予期しないエラーが発生しました',
+        'purgePost',
+        error as Error
+      );
+    }
+  }
+
+  async purgeTrashedPosts(olderThan: Date): Promise<number> {
+    try {
+      // バリデーション
+      if (!olderThan || isNaN(olderThan.getTime())) {
+        throw new IndexedDBError(
+          '日時の形式が無効です',
+          'purgeTrashedPosts'
+        );
+      }
+
+      await this.ensureConnection();
+
+      this.log('debug', '保持期間を過ぎたゴミ箱の投稿を削除中', { olderThan: olderThan.toISOString() });
+
+      return new Promise((resolve, reject) => {
+        // 投稿と転置インデックス・編集履歴・添付画像を同一トランザクションで削除する
+        const transaction = this.db!.transaction(
+          [this.storeName, this.searchIndexStoreName, this.revisionsStoreName, this.attachmentsStoreName],
+          'readwrite'
+        );
+        const store = transaction.objectStore(this.storeName);
+        const request = store.index('deletedAt').openCursor(IDBKeyRange.upperBound(olderThan, true));
+        const purgedIds: string[] = [];
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            'ゴミ箱の投稿の削除に失敗しました',
+            'purgeTrashedPosts',
+            request.error || undefined
+          );
+          this.log('error', 'ゴミ箱削除エラー', error);
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            this.updateSearchIndex(transaction, cursor.value as Post, null);
+            this.deleteRevisions(transaction, (cursor.value as Post).id);
+            this.deleteAttachments(transaction, (cursor.value as Post).id);
+            cursor.delete();
+            purgedIds.push((cursor.value as Post).id);
+            cursor.continue();
+          }
+        };
+
+        transaction.oncomplete = () => {
+          this.log('info', `ゴミ箱の投稿を${purgedIds.length}件完全に削除しました`);
+          if (purgedIds.length > 0) {
+            this.notifyUpdates({ deleted: purgedIds });
+          }
+          resolve(purgedIds.length);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'purgeTrashedPosts',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', 'ゴミ箱削除処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        'ゴミ箱の投稿の削除中に予期しないエラーが発生しました',
+        'purgeTrashedPosts',
+        error as Error
+      );
+    }
+  }
+
+  async getRevisions(postId: string): Promise<PostRevision[]> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション
+      if (!postId || postId.trim().length === 0) {
+        throw new IndexedDBError(
+          '投稿IDが無効です',
+          'getRevisions'
+        );
+      }
+
+      this.log('debug', '編集履歴を取得中', { postId });
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.revisionsStoreName], 'readonly');
+        const store = transaction.objectStore(this.revisionsStoreName);
+        const request = store.index('postId').getAll(postId);
+
+        request.onerror = () => {
+          const error = new IndexedDBError(
+            '編集履歴の取得に失敗しました',
+            'getRevisions',
+            request.error || undefined
+          );
+          this.log('error', '編集履歴取得エラー', { postId, error });
+          reject(error);
+        };
+
+        request.onsuccess = () => {
+          const revisions: PostRevision[] = request.result.map((revision: PostRevision) => ({
+            ...revision,
+            createdAt: new Date(revision.createdAt),
+          }));
+
+          // 新しい順にソート
+          revisions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+          this.log('info', `編集履歴を${revisions.length}件取得しました`, { postId });
+          resolve(revisions);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getRevisions',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '編集履歴取得処理でエラーが発生しました', { postId, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
       }
       throw new IndexedDBError(
-        '日付範囲での投稿取得中に予期しないエラーが発生しました',
-        'getPostsByDateRange',
+        '編集履歴の取得中に予期しないエラーが発生しました',
+        'getRevisions',
+        error as Error
+      );
+    }
+  }
+
+  async restoreRevision(postId: string, revisionId: string): Promise<Post> {
+    try {
+      await this.ensureConnection();
+
+      // バリデーション
+      if (!postId || postId.trim().length === 0 || !revisionId || revisionId.trim().length === 0) {
+        throw new IndexedDBError(
+          '投稿IDまたは履歴IDが無効です',
+          'restoreRevision'
+        );
+      }
+
+      this.log('debug', '編集履歴からバージョンを復元中', { postId, revisionId });
+
+      const revision = await new Promise<PostRevision | undefined>((resolve, reject) => {
+        const transaction = this.db!.transaction([this.revisionsStoreName], 'readonly');
+        const request = transaction.objectStore(this.revisionsStoreName).get(revisionId);
+
+        request.onsuccess = () => resolve(request.result);
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'restoreRevision',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+
+      if (!revision || revision.postId !== postId) {
+        throw new IndexedDBError(
+          '指定された編集履歴が見つかりません',
+          'restoreRevision'
+        );
+      }
+
+      // 通常の更新として保存し、復元前のバージョンも履歴に残す
+      const restoredPost = await this.updatePost(postId, {
+        content: revision.content,
+        tags: revision.tags || [],
+      });
+
+      this.log('info', '編集履歴からバージョンを復元しました', { postId, revisionId });
+      return restoredPost;
+    } catch (error) {
+      this.log('error', 'バージョン復元処理でエラーが発生しました', { postId, revisionId, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        'バージョンの復元中に予期しないエラーが発生しました',
+        'restoreRevision',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * 保存データの種類ごとの使用量を計算する
+   * 全てのレコードを読み込むため、容量の確認画面を開いた時など必要な場合のみ呼び出す
+   */
+  async getStorageUsage(): Promise<DataStorageUsage> {
+    try {
+      await this.ensureConnection();
+
+      return await new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [this.storeName, this.searchIndexStoreName, this.revisionsStoreName, this.attachmentsStoreName],
+          'readonly'
+        );
+        const usage: DataStorageUsage = { posts: 0, revisions: 0, attachments: 0 };
+
+        // 添付画像はまとめて読み込むとメモリを圧迫するため、カーソルで1件ずつ数える
+        const sumStore = (storeName: string, category: keyof DataStorageUsage, getSize: (value: unknown) => number) => {
+          const request = transaction.objectStore(storeName).openCursor();
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+              usage[category] += getSize(cursor.value);
+              cursor.continue();
+            }
+          };
+        };
+        sumStore(this.storeName, 'posts', estimateJsonSize);
+        sumStore(this.searchIndexStoreName, 'posts', estimateJsonSize);
+        sumStore(this.revisionsStoreName, 'revisions', estimateJsonSize);
+        sumStore(this.attachmentsStoreName, 'attachments', value => getAttachmentStoredSize(value as Attachment));
+
+        transaction.oncomplete = () => {
+          this.log('info', '保存データの使用量を計算しました', usage);
+          resolve(usage);
+        };
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'getStorageUsage',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '使用量の計算でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '保存データの使用量の計算中に予期しないエラーが発生しました',
+        'getStorageUsage',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * 他の保存先の投稿と編集履歴を、IDと日時を保ったまま取り込む
+   * 同じIDの投稿が既にある場合は、更新日時が新しい方を残す（overwrite指定時は常に上書きする）
+   * @param posts 取り込む投稿（ゴミ箱の投稿を含む）
+   * @param revisions 取り込む編集履歴
+   * @param options 取り込みオプション
+   * @returns 取り込んだ投稿の件数
+   */
+  async importPosts(posts: Post[], revisions: PostRevision[] = [], options: ImportPostsOptions = {}): Promise<number> {
+    try {
+      await this.ensureConnection();
+
+      if (posts.length === 0 && revisions.length === 0) {
+        return 0;
+      }
+
+      this.log('debug', '投稿を取り込み中', { posts: posts.length, revisions: revisions.length });
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [this.storeName, this.searchIndexStoreName, this.revisionsStoreName],
+          'readwrite'
+        );
+        const store = transaction.objectStore(this.storeName);
+        const importedIds: string[] = [];
+
+        posts.forEach(input => {
+          const post = this.toPost(input);
+          const request = store.get(post.id);
+          request.onsuccess = () => {
+            const existingPost: Post | null = request.result ? this.toPost(request.result) : null;
+            if (existingPost && !options.overwrite && existingPost.updatedAt.getTime() >= post.updatedAt.getTime()) {
+              return;
+            }
+            store.put(this.toRecord(post));
+            this.updateSearchIndex(transaction, existingPost, post);
+            importedIds.push(post.id);
+          };
+        });
+
+        const revisionStore = transaction.objectStore(this.revisionsStoreName);
+        revisions.forEach(revision => {
+          revisionStore.put({ ...revision, createdAt: new Date(revision.createdAt) });
+        });
+
+        transaction.oncomplete = () => {
+          this.log('info', '投稿を取り込みました', { count: importedIds.length });
+          if (importedIds.length > 0) {
+            this.notifyUpdates({ created: importedIds });
+          }
+          resolve(importedIds.length);
+        };
+
+        this.rejectOnAbort(transaction, 'importPosts', reject);
+
+        transaction.onerror = () => {
+          const error = new IndexedDBError(
+            'トランザクションエラーが発生しました',
+            'importPosts',
+            transaction.error || undefined
+          );
+          this.log('error', 'トランザクションエラー', error);
+          reject(error);
+        };
+      });
+    } catch (error) {
+      this.log('error', '投稿の取り込み処理でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '投稿の取り込み中に予期しないエラーが発生しました',
+        'importPosts',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * 他のタブで行われた投稿の変更を購読する
+   * 同じタブ内の変更は各フックがstateに反映済みのため通知しない
+   * @returns 購読を解除する関数
+   */
+  subscribeToUpdates(callback: (change: PostChangeEvent) => void): () => void {
+    if (typeof BroadcastChannel === 'undefined') {
+      this.log('warn', 'BroadcastChannelに対応していないため、タブ間の更新通知は無効です');
+      return () => {};
+    }
+
+    const channel = new BroadcastChannel(UPDATE_CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<PostChangeMessage>) => {
+      const message = event.data;
+      if (!message || message.sourceId === TAB_ID) {
+        return;
+      }
+
+      this.log('debug', '他のタブから変更通知を受信しました', message);
+      callback({
+        created: message.created,
+        updated: message.updated,
+        deleted: message.deleted
+      });
+    };
+
+    return () => {
+      channel.close();
+    };
+  }
+
+  // 添付画像の保存先（このサービス自身が添付画像も保存する）
+  get attachments(): AttachmentStore {
+    return this;
+  }
+
+  /**
+   * 保存されたレコードの日時をDateオブジェクトに変換する（添付画像）
+   */
+  private toAttachment(record: Attachment): Attachment {
+    return { ...record, createdAt: new Date(record.createdAt) };
+  }
+
+  /**
+   * 添付画像のストアに対する操作を1つのトランザクションで実行する
+   * @param mode トランザクションのモード
+   * @param operation 操作名（エラー時に記録する）
+   * @param run トランザクション内で実行する処理（戻り値はトランザクション完了後に解決される）
+   */
+  private runAttachmentTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: string,
+    run: (store: IDBObjectStore) => () => T
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.attachmentsStoreName], mode);
+      const getResult = run(transaction.objectStore(this.attachmentsStoreName));
+
+      transaction.oncomplete = () => {
+        resolve(getResult());
+      };
+
+      this.rejectOnAbort(transaction, operation, reject);
+
+      transaction.onerror = () => {
+        const error = new IndexedDBError(
+          '添付画像の操作に失敗しました',
+          operation,
+          transaction.error || undefined
+        );
+        this.log('error', 'トランザクションエラー', error);
+        reject(error);
+      };
+    });
+  }
+
+  /**
+   * 添付画像を保存する（投稿に紐付けるまではpostIdがnullのまま）
+   */
+  async saveAttachment(input: CreateAttachmentInput): Promise<Attachment> {
+    try {
+      await this.ensureConnection();
+
+      if (!input.data || input.data.byteLength === 0) {
+        throw new IndexedDBError('添付画像のデータが空です', 'saveAttachment');
+      }
+
+      const attachment: Attachment = {
+        ...input,
+        id: uuidv4(),
+        postId: null,
+        createdAt: new Date()
+      };
+
+      await this.runAttachmentTransaction('readwrite', 'saveAttachment', store => {
+        store.add(attachment);
+        return () => undefined;
+      });
+      this.log('info', '添付画像を保存しました', { attachmentId: attachment.id, size: attachment.size });
+      return attachment;
+    } catch (error) {
+      this.log('error', '添付画像の保存でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '添付画像の保存中に予期しないエラーが発生しました',
+        'saveAttachment',
+        error as Error
+      );
+    }
+  }
+
+  async getAttachment(id: string): Promise<Attachment | null> {
+    try {
+      await this.ensureConnection();
+
+      return await this.runAttachmentTransaction('readonly', 'getAttachment', store => {
+        const request = store.get(id);
+        return () => request.result ? this.toAttachment(request.result) : null;
+      });
+    } catch (error) {
+      this.log('error', '添付画像の取得でエラーが発生しました', { attachmentId: id, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '添付画像の取得中に予期しないエラーが発生しました',
+        'getAttachment',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * 添付画像を投稿に紐付ける
+   * 既に他の投稿に紐付いている添付画像（本文をコピーした場合など）はそのままにする
+   */
+  async assignAttachments(ids: string[], postId: string): Promise<void> {
+    try {
+      await this.ensureConnection();
+
+      if (ids.length === 0) {
+        return;
+      }
+
+      await this.runAttachmentTransaction('readwrite', 'assignAttachments', store => {
+        ids.forEach(id => {
+          const request = store.get(id);
+          request.onsuccess = () => {
+            const attachment = request.result as Attachment | undefined;
+            if (attachment && attachment.postId === null) {
+              store.put({ ...attachment, postId });
+            }
+          };
+        });
+        return () => undefined;
+      });
+    } catch (error) {
+      this.log('error', '添付画像の紐付けでエラーが発生しました', { postId, error });
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '添付画像の紐付け中に予期しないエラーが発生しました',
+        'assignAttachments',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * 投稿に紐付かないまま残った添付画像を削除する
+   * @param olderThan この日時より前に保存されたものだけを削除する（作成中の投稿の画像を消さないため）
+   * @returns 削除した件数
+   */
+  async purgeOrphanAttachments(olderThan: Date): Promise<number> {
+    try {
+      await this.ensureConnection();
+
+      const purgedCount = await this.runAttachmentTransaction('readwrite', 'purgeOrphanAttachments', store => {
+        let count = 0;
+        const request = store.index('createdAt').openCursor(IDBKeyRange.upperBound(olderThan, true));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            if ((cursor.value as Attachment).postId === null) {
+              cursor.delete();
+              count++;
+            }
+            cursor.continue();
+          }
+        };
+        return () => count;
+      });
+
+      if (purgedCount > 0) {
+        this.log('info', `投稿に紐付いていない添付画像を${purgedCount}件削除しました`);
+      }
+      return purgedCount;
+    } catch (error) {
+      this.log('error', '添付画像の削除でエラーが発生しました', error);
+      if (error instanceof IndexedDBError) {
+        throw error;
+      }
+      throw new IndexedDBError(
+        '添付画像の削除中に予期しないエラーが発生しました',
+        'purgeOrphanAttachments',
         error as Error
       );
     }
   }
 
-  subscribeToUpdates(_callback: (posts: Post[]) => void): () => void {
-    // フェーズ1では実装なし（フェーズ2でSupabaseリアルタイム更新用）
-    this.log('debug', 'subscribeToUpdatesが呼び出されました（フェーズ1では未実装）');
-    return () => {};
+  /**
+   * 投稿の変更を他のタブに通知する
+   * トランザクション完了後に呼び出し、受信側が変更後のデータを読み取れるようにする
+   */
+  private notifyUpdates(change: Partial<PostChangeEvent>): void {
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    try {
+      if (!this.updateChannel) {
+        this.updateChannel = new BroadcastChannel(UPDATE_CHANNEL_NAME);
+      }
+
+      const message: PostChangeMessage = {
+        sourceId: TAB_ID,
+        created: change.created || [],
+        updated: change.updated || [],
+        deleted: change.deleted || []
+      };
+      this.updateChannel.postMessage(message);
+    } catch (error) {
+      // 通知の失敗は保存処理の結果に影響させない
+      this.log('warn', '変更通知の送信に失敗しました', error);
+    }
   }
 
   /**
    * データベース接続を閉じる
    */
   async close(): Promise<void> {
+    if (this.updateChannel) {
+      this.updateChannel.close();
+      this.updateChannel = null;
+    }
+
     if (this.db) {
       this.log('info', 'データベース接続を閉じています');
       this.db.close();
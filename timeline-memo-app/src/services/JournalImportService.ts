@@ -0,0 +1,182 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CreatePostInput, Post } from '../types';
+import type { DataService } from './DataService';
+import { sanitizeTags, validateCreatePostInput } from '../utils/validationUtils';
+import {
+  JOURNAL_PARSERS,
+  DEFAULT_JOURNAL_IMPORT_OPTIONS,
+  type JournalEntry,
+  type JournalFormat,
+  type JournalImportFailure,
+  type JournalImportOptions,
+  type JournalParser,
+  type JournalParseResult
+} from './journalParsers';
+
+/**
+ * 他の日記アプリからの取り込み
+ * ファイルを形式ごとのパーサーで読み込み、投稿の作成と同じ検証をしてから、元の日時のまま保存する
+ */
+
+// 取り込むファイル
+export interface JournalImportFile {
+  name: string;
+  text: string;
+}
+
+// 取り込みの結果
+export interface JournalImportReport {
+  imported: number;                  // 取り込んだ記事の件数
+  skipped: number;                   // 本文がない・取り込み済み・設定で除いたため取り込まなかった記事の件数
+  failed: number;                    // 読み込めない・検証で無効になった記事の件数
+  failures: JournalImportFailure[];  // 取り込めなかった記事と理由
+}
+
+// 取り込みの計画
+export interface JournalImportPlan {
+  posts: Post[];
+  skipped: number;
+  failures: JournalImportFailure[];
+}
+
+// 取り込みのエラー
+export class JournalImportError extends Error {
+  public operation: string;
+  public originalError?: Error;
+
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message);
+    this.name = 'JournalImportError';
+    this.operation = operation;
+    this.originalError = originalError;
+  }
+}
+
+/**
+ * ファイルの名前と内容から形式を判定する
+ * @returns 対応するパーサー（どの形式でもない場合はnull）
+ */
+export function detectJournalParser(
+  fileName: string,
+  text: string,
+  parsers: JournalParser[] = JOURNAL_PARSERS
+): JournalParser | null {
+  return parsers.find(parser => parser.canParse(fileName, text)) ?? null;
+}
+
+/**
+ * ファイルを読み込む（形式が'auto'の場合は自動で判定する）
+ * 形式が分からないファイルは、ファイル全体を読み込めなかった記事として扱う
+ */
+export function parseJournalFile(
+  file: JournalImportFile,
+  format: JournalFormat | 'auto',
+  options: JournalImportOptions = DEFAULT_JOURNAL_IMPORT_OPTIONS,
+  parsers: JournalParser[] = JOURNAL_PARSERS
+): JournalParseResult {
+  const parser = format === 'auto'
+    ? detectJournalParser(file.name, file.text, parsers)
+    : parsers.find(candidate => candidate.format === format) ?? null;
+  if (!parser) {
+    return { entries: [], failures: [{ source: file.name, reason: '対応していない形式のファイルです' }] };
+  }
+  return parser.parse(file.name, file.text, options);
+}
+
+/**
+ * 読み込んだ記事を投稿の作成データにし、投稿の作成と同じ検証をする
+ */
+export function normalizeJournalEntry(entry: JournalEntry): { input: CreatePostInput; errors: string[] } {
+  const input: CreatePostInput = {
+    content: entry.content.trim(),
+    tags: sanitizeTags(entry.tags),
+    createdAt: entry.createdAt
+  };
+  return { input, errors: validateCreatePostInput(input).errors };
+}
+
+// 同じ日時・同じ本文の投稿を取り込み済みとみなす（iCalendarなどはミリ秒を持たないため、秒までを比べる）
+// LINEで同じ分にずらしたメッセージも1秒未満のずれのため、再取り込みでは同じ投稿とみなせる
+const getDuplicateKey = (createdAt: Date, content: string): string => `${Math.floor(createdAt.getTime() / 1000)}:${content}`;
+
+/**
+ * 読み込んだ記事から、取り込む投稿を決める
+ * 本文のない記事（写真だけの記事など）と、既にある投稿と同じ記事（同じファイルの再取り込み）は取り込まない
+ * 同じファイルの中で日時と本文が重なる記事（同じ分に送った「了解」など）は、それぞれ取り込む
+ * 読み込みの際に設定で除いた記事は、取り込まなかった記事の件数に含める
+ * @param results ファイルごとの読み込みの結果
+ * @param existingPosts 既存の投稿（ゴミ箱の投稿を含む）
+ * @param createId 新しいIDの作成（テスト用）
+ */
+export function planJournalImport(
+  results: JournalParseResult[],
+  existingPosts: Post[],
+  createId: () => string = uuidv4
+): JournalImportPlan {
+  const plan: JournalImportPlan = { posts: [], skipped: 0, failures: [] };
+  const existingKeys = new Set(existingPosts.map(post => getDuplicateKey(post.createdAt, post.content)));
+
+  results.forEach(result => {
+    plan.failures.push(...result.failures);
+    plan.skipped += result.excluded ?? 0;
+    result.entries.forEach(entry => {
+      const { input, errors } = normalizeJournalEntry(entry);
+      if (input.content.length === 0) {
+        plan.skipped++;
+        return;
+      }
+      if (errors.length > 0) {
+        plan.failures.push({ source: entry.source, reason: errors.join('、') });
+        return;
+      }
+
+      const createdAt = input.createdAt!;
+      const key = getDuplicateKey(createdAt, input.content);
+      if (existingKeys.has(key)) {
+        plan.skipped++;
+        return;
+      }
+
+      // 更新日時は元のアプリの日時を残す（作成日時より前の場合は作成日時にする）
+      const updatedAt = entry.updatedAt && entry.updatedAt.getTime() > createdAt.getTime() ? entry.updatedAt : createdAt;
+      plan.posts.push({
+        id: createId(),
+        content: input.content,
+        createdAt,
+        updatedAt,
+        tags: input.tags ?? [],
+        ...(entry.starred && { starred: true })
+      });
+    });
+  });
+
+  return plan;
+}
+
+/**
+ * ファイルを読み込み、投稿として保存する
+ * @param format ファイルの形式（'auto'の場合はファイルごとに自動で判定する）
+ */
+export async function importJournalFiles(
+  service: DataService,
+  files: JournalImportFile[],
+  format: JournalFormat | 'auto',
+  options: JournalImportOptions = DEFAULT_JOURNAL_IMPORT_OPTIONS,
+  parsers: JournalParser[] = JOURNAL_PARSERS
+): Promise<JournalImportReport> {
+  if (!service.importPosts) {
+    throw new JournalImportError('このデータサービスは投稿の取り込みに対応していません', 'importJournalFiles');
+  }
+
+  const results = files.map(file => parseJournalFile(file, format, options, parsers));
+  const existingPosts = [...await service.getAllPosts(), ...await service.getTrashedPosts()];
+  const plan = planJournalImport(results, existingPosts);
+  const imported = plan.posts.length > 0 ? await service.importPosts(plan.posts) : 0;
+
+  return {
+    imported,
+    skipped: plan.skipped,
+    failed: plan.failures.length,
+    failures: plan.failures
+  };
+}
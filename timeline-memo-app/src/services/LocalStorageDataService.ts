@@ -0,0 +1,360 @@
+import type { Post, PostRevision, PostChangeEvent, CreatePostInput, UpdatePostInput, PostsPage, PostsPageOptions, ImportPostsOptions, PostUpdate, PostFlags, DataStorageUsage } from '../types';
+import type { DataService } from './DataService';
+import { MemoryDataService } from './MemoryDataService';
+import { isQuotaExceededError } from '../utils/storageQuotaUtils';
+
+// 投稿と編集履歴を保存するキー
+export const LOCAL_STORAGE_DATA_KEY = 'timeline-memo-fallback-data';
+
+// タブ間の変更通知に使うキー（storageイベントで他のタブに届く）
+const LOCAL_STORAGE_UPDATES_KEY = 'timeline-memo-fallback-updates';
+
+// localStorageの容量の目安（ブラウザによって異なるが、おおむね5MB）
+export const LOCAL_STORAGE_LIMIT_BYTES = 5 * 1024 * 1024;
+
+// 保存形式のバージョン（形式を変える場合に読み込み時の変換に使う）
+const STORAGE_FORMAT_VERSION = 1;
+
+// localStorageに保存するデータの形式（日時はISO文字列で保存される）
+interface StoredData {
+  version: number;
+  posts: Post[];
+  revisions: PostRevision[];
+}
+
+// localStorageのデータサービスのエラー
+export class LocalStorageDataServiceError extends Error {
+  public operation: string;
+  public isQuotaExceeded: boolean;
+  public originalError?: Error;
+
+  constructor(message: string, operation: string, originalError?: Error, isQuotaExceeded = false) {
+    super(message);
+    this.name = 'LocalStorageDataServiceError';
+    this.operation = operation;
+    this.originalError = originalError;
+    this.isQuotaExceeded = isQuotaExceeded;
+  }
+}
+
+/**
+ * 既定のlocalStorageを取得する（利用できない環境ではnull）
+ */
+function getDefaultStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // プライベートモードなどではアクセスしただけで例外になる
+    return null;
+  }
+}
+
+/**
+ * localStorageにデータを保存するDataServiceの実装
+ * IndexedDBを開けない環境（一部のプライベートモードなど）で使う簡易保存モード
+ *
+ * 保存データ全体を1つのキーにJSONで保存し、操作はMemoryDataServiceに任せる
+ * 他のタブでデータが書き換えられた場合は、次の操作の前に読み直す
+ * 容量は約5MBまでのため、長期間の利用には向かない
+ */
+export class LocalStorageDataService implements DataService {
+  private storage: Storage;
+  private data = new MemoryDataService();
+  // 最後に読み込んだ（または保存した）JSON。変わっていなければ読み直さない
+  private cachedRaw: string | null | undefined = undefined;
+
+  constructor(storage?: Storage) {
+    const defaultStorage = storage || getDefaultStorage();
+    if (!defaultStorage) {
+      throw new LocalStorageDataServiceError('localStorageを利用できません', 'init');
+    }
+    this.storage = defaultStorage;
+  }
+
+  /**
+   * localStorageに書き込めるかを確認する
+   * @param storage 確認するストレージ（省略時は既定のlocalStorage）
+   */
+  static isAvailable(storage?: Storage): boolean {
+    const target = storage || getDefaultStorage();
+    if (!target) {
+      return false;
+    }
+
+    const testKey = `${LOCAL_STORAGE_DATA_KEY}-test`;
+    try {
+      target.setItem(testKey, testKey);
+      target.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async init(): Promise<void> {
+    this.load('init');
+  }
+
+  async createPost(input: CreatePostInput): Promise<Post> {
+    return this.mutate('createPost', data => data.createPost(input), post => ({ created: [post.id] }));
+  }
+
+  async updatePost(id: string, input: UpdatePostInput): Promise<Post> {
+    return this.mutate('updatePost', data => data.updatePost(id, input), () => ({ updated: [id] }));
+  }
+
+  async deletePost(id: string): Promise<void> {
+    return this.mutate('deletePost', data => data.deletePost(id), () => ({ deleted: [id] }));
+  }
+
+  // 一括操作はメモリ上でまとめて行い、保存と通知を1回だけ行う
+  async createPosts(inputs: CreatePostInput[]): Promise<Post[]> {
+    return this.mutate('createPosts', data => data.createPosts(inputs), posts => ({ created: posts.map(post => post.id) }));
+  }
+
+  async updatePosts(updates: PostUpdate[]): Promise<Post[]> {
+    return this.mutate('updatePosts', data => data.updatePosts(updates), posts => ({ updated: posts.map(post => post.id) }));
+  }
+
+  async deletePosts(ids: string[]): Promise<void> {
+    return this.mutate('deletePosts', data => data.deletePosts(ids), () => ({ deleted: ids }));
+  }
+
+  async updatePostFlags(id: string, flags: PostFlags): Promise<Post> {
+    return this.mutate('updatePostFlags', data => data.updatePostFlags(id, flags), () => ({ updated: [id] }));
+  }
+
+  async getPinnedPosts(): Promise<Post[]> {
+    return this.read('getPinnedPosts', data => data.getPinnedPosts());
+  }
+
+  async getStarredPosts(): Promise<Post[]> {
+    return this.read('getStarredPosts', data => data.getStarredPosts());
+  }
+
+  async getPost(id: string): Promise<Post | null> {
+    return this.read('getPost', data => data.getPost(id));
+  }
+
+  async getAllPosts(): Promise<Post[]> {
+    return this.read('getAllPosts', data => data.getAllPosts());
+  }
+
+  async getPostsByDateRange(start: Date, end: Date): Promise<Post[]> {
+    return this.read('getPostsByDateRange', data => data.getPostsByDateRange(start, end));
+  }
+
+  async getPostsPage(options: PostsPageOptions): Promise<PostsPage> {
+    return this.read('getPostsPage', data => data.getPostsPage(options));
+  }
+
+  async getPostsByTag(tag: string): Promise<Post[]> {
+    return this.read('getPostsByTag', data => data.getPostsByTag(tag));
+  }
+
+  async searchPosts(query: string): Promise<Post[]> {
+    return this.read('searchPosts', data => data.searchPosts(query));
+  }
+
+  async getTrashedPosts(): Promise<Post[]> {
+    return this.read('getTrashedPosts', data => data.getTrashedPosts());
+  }
+
+  async restorePost(id: string): Promise<Post> {
+    // 他のタブでは一覧に新しく現れるため作成として通知する
+    return this.mutate('restorePost', data => data.restorePost(id), () => ({ created: [id] }));
+  }
+
+  async purgePost(id: string): Promise<void> {
+    return this.mutate('purgePost', data => data.purgePost(id), () => ({ deleted: [id] }));
+  }
+
+  async purgeTrashedPosts(olderThan: Date): Promise<number> {
+    let purgedIds: string[] = [];
+    return this.mutate('purgeTrashedPosts', async data => {
+      const trashedIds = (await data.getTrashedPosts()).map(post => post.id);
+      const count = await data.purgeTrashedPosts(olderThan);
+      const remainingIds = new Set((await data.getTrashedPosts()).map(post => post.id));
+      purgedIds = trashedIds.filter(id => !remainingIds.has(id));
+      return count;
+    }, () => ({ deleted: purgedIds }));
+  }
+
+  async getRevisions(postId: string): Promise<PostRevision[]> {
+    return this.read('getRevisions', data => data.getRevisions(postId));
+  }
+
+  async restoreRevision(postId: string, revisionId: string): Promise<Post> {
+    return this.mutate('restoreRevision', data => data.restoreRevision(postId, revisionId), () => ({ updated: [postId] }));
+  }
+
+  async getStorageUsage(): Promise<DataStorageUsage> {
+    return this.read('getStorageUsage', data => data.getStorageUsage());
+  }
+
+  async importPosts(posts: Post[], revisions: PostRevision[] = [], options: ImportPostsOptions = {}): Promise<number> {
+    // 取り込まなかった投稿も通知に含めるが、受け取った側で読み直すだけなので問題ない
+    return this.mutate('importPosts', data => data.importPosts(posts, revisions, options), () => ({
+      created: posts.map(post => post.id)
+    }));
+  }
+
+  /**
+   * 他のタブで行われた投稿の変更を購読する
+   * storageイベントは変更したタブ自身には届かないため、自分自身の変更は通知されない
+   * @returns 購読を解除する関数
+   */
+  subscribeToUpdates(callback: (change: PostChangeEvent) => void): () => void {
+    if (typeof window === 'undefined') {
+      return () => {};
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== LOCAL_STORAGE_UPDATES_KEY || !event.newValue) {
+        return;
+      }
+      try {
+        const message = JSON.parse(event.newValue) as { change: PostChangeEvent };
+        callback(message.change);
+      } catch (error) {
+        console.error('[LocalStorageDataService] 変更通知の読み込みに失敗しました', error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+    };
+  }
+
+  /**
+   * 保存されている全てのデータを取得する（ゴミ箱の投稿と編集履歴を含む）
+   * IndexedDBへの移行に使用する
+   */
+  exportSnapshot(): { posts: Post[]; revisions: PostRevision[] } {
+    return this.load('exportSnapshot').exportSnapshot();
+  }
+
+  /**
+   * 保存されている投稿の件数（ゴミ箱の投稿を含む）
+   */
+  getStoredPostCount(): number {
+    return this.exportSnapshot().posts.length;
+  }
+
+  /**
+   * 使用量の目安を取得する
+   * localStorageはUTF-16で保存されるため、1文字を2バイトとして見積もる
+   */
+  getUsage(): { usedBytes: number; limitBytes: number } {
+    const raw = this.storage.getItem(LOCAL_STORAGE_DATA_KEY);
+    return {
+      usedBytes: (raw ? raw.length : 0) * 2,
+      limitBytes: LOCAL_STORAGE_LIMIT_BYTES,
+    };
+  }
+
+  /**
+   * 保存されているデータを全て削除する（IndexedDBへの移行後に使用する）
+   */
+  clear(): void {
+    this.storage.removeItem(LOCAL_STORAGE_DATA_KEY);
+    this.data = new MemoryDataService();
+    this.cachedRaw = null;
+  }
+
+  /**
+   * 保存データを読み込む
+   * 前回の読み込みから変わっていない場合は、メモリ上のデータをそのまま使う
+   */
+  private load(operation: string): MemoryDataService {
+    const raw = this.storage.getItem(LOCAL_STORAGE_DATA_KEY);
+    if (raw === this.cachedRaw) {
+      return this.data;
+    }
+
+    try {
+      const stored: StoredData = raw
+        ? JSON.parse(raw)
+        : { version: STORAGE_FORMAT_VERSION, posts: [], revisions: [] };
+      this.data = new MemoryDataService({ posts: stored.posts || [], revisions: stored.revisions || [] });
+      this.cachedRaw = raw;
+      return this.data;
+    } catch (error) {
+      // 壊れたデータは上書きせず、そのまま残す
+      throw new LocalStorageDataServiceError('保存データの読み込みに失敗しました', operation, error as Error);
+    }
+  }
+
+  /**
+   * メモリ上のデータをlocalStorageに保存する
+   */
+  private save(operation: string): void {
+    const stored: StoredData = { version: STORAGE_FORMAT_VERSION, ...this.data.exportSnapshot() };
+    const raw = JSON.stringify(stored);
+
+    try {
+      this.storage.setItem(LOCAL_STORAGE_DATA_KEY, raw);
+      this.cachedRaw = raw;
+    } catch (error) {
+      // 保存できなかった変更は破棄し、次の操作で保存済みのデータを読み直す
+      this.cachedRaw = undefined;
+      if (isQuotaExceededError(error)) {
+        throw new LocalStorageDataServiceError(
+          '保存容量の上限（約5MB）に達したため保存できませんでした',
+          operation,
+          error as Error,
+          true
+        );
+      }
+      throw new LocalStorageDataServiceError('データの保存に失敗しました', operation, error as Error);
+    }
+  }
+
+  private async read<T>(operation: string, action: (data: MemoryDataService) => Promise<T>): Promise<T> {
+    const data = this.load(operation);
+    try {
+      return await action(data);
+    } catch (error) {
+      throw this.toError(error, operation);
+    }
+  }
+
+  /**
+   * 変更を行い、保存してから他のタブに通知する
+   */
+  private async mutate<T>(
+    operation: string,
+    action: (data: MemoryDataService) => Promise<T>,
+    getChange: (result: T) => Partial<PostChangeEvent>
+  ): Promise<T> {
+    const result = await this.read(operation, action);
+    this.save(operation);
+    this.notifyUpdates(getChange(result));
+    return result;
+  }
+
+  private notifyUpdates(change: Partial<PostChangeEvent>): void {
+    const event: PostChangeEvent = {
+      created: change.created || [],
+      updated: change.updated || [],
+      deleted: change.deleted || []
+    };
+
+    try {
+      // 同じ内容でもstorageイベントが発生するように日時を含める
+      this.storage.setItem(LOCAL_STORAGE_UPDATES_KEY, JSON.stringify({ change: event, sentAt: Date.now() }));
+    } catch (error) {
+      console.warn('[LocalStorageDataService] 変更通知の送信に失敗しました', error);
+    }
+  }
+
+  private toError(error: unknown, operation: string): LocalStorageDataServiceError {
+    if (error instanceof LocalStorageDataServiceError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : '予期しないエラーが発生しました';
+    return new LocalStorageDataServiceError(message, operation, error as Error);
+  }
+}
+
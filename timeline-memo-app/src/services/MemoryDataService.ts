@@ -0,0 +1,607 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Post, PostRevision, PostChangeEvent, CreatePostInput, UpdatePostInput, PostsPage, PostsPageOptions, PostsPageCursor, ImportPostsOptions, Attachment, AttachmentStore, CreateAttachmentInput, PostUpdate, PostFlags, DataStorageUsage } from '../types';
+import type { DataService } from './DataService';
+import { sanitizeTags, validatePostDate } from '../utils/validationUtils';
+import { matchesQuery, tokenizeQuery } from '../utils/searchUtils';
+import { isTrashed } from '../utils/trashUtils';
+import { applyPostFlags } from '../utils/postFlagUtils';
+import { estimateJsonSize } from '../utils/storageQuotaUtils';
+import { getAttachmentStoredSize } from '../utils/attachmentUtils';
+
+// メモリ上のデータサービスのエラー
+export class MemoryDataServiceError extends Error {
+  public operation: string;
+
+  constructor(message: string, operation: string) {
+    super(message);
+    this.name = 'MemoryDataServiceError';
+    this.operation = operation;
+  }
+}
+
+// 変更通知の購読者
+interface Subscriber {
+  owner: MemoryDataService;
+  callback: (change: PostChangeEvent) => void;
+}
+
+// 複数のインスタンスで共有するデータ
+interface MemoryStore {
+  posts: Map<string, Post>;
+  revisions: Map<string, PostRevision>;
+  attachments: Map<string, Attachment>;
+  subscribers: Set<Subscriber>;
+}
+
+export interface MemoryDataServiceOptions {
+  posts?: Post[];              // 初期データ（ゴミ箱の投稿はdeletedAtを付けて渡す）
+  revisions?: PostRevision[];  // 初期データの編集履歴
+}
+
+/**
+ * 投稿をコピーする（呼び出し側での変更がストアに影響しないようにする）
+ */
+function clonePost(post: Post): Post {
+  const copy: Post = {
+    ...post,
+    createdAt: new Date(post.createdAt),
+    updatedAt: new Date(post.updatedAt),
+  };
+  if (post.tags) {
+    copy.tags = [...post.tags];
+  }
+  if (post.deletedAt) {
+    copy.deletedAt = new Date(post.deletedAt);
+  }
+  return copy;
+}
+
+function cloneRevision(revision: PostRevision): PostRevision {
+  const copy: PostRevision = {
+    ...revision,
+    createdAt: new Date(revision.createdAt),
+  };
+  if (revision.tags) {
+    copy.tags = [...revision.tags];
+  }
+  return copy;
+}
+
+// 新しい順に並べる
+function sortByCreatedAtDesc<T extends { createdAt: Date }>(items: T[]): T[] {
+  return items.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// ページ取得の並び順（新しい順、同じ日時の投稿はIDの降順）
+function comparePostsForPage(a: Post, b: Post): number {
+  return b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+// ページ取得の並び順でカーソルより後ろ（古い側）の投稿か
+function isOlderThanCursor(post: Post, cursor: PostsPageCursor): boolean {
+  const diff = post.createdAt.getTime() - cursor.createdAt.getTime();
+  return diff < 0 || (diff === 0 && post.id < cursor.id);
+}
+
+/**
+ * メモリ上にデータを保持するDataServiceの実装
+ * お試し（デモ）モードとテストで使用し、IndexedDBには一切アクセスしない
+ *
+ * connect()で同じデータを共有する別のインスタンスを作成できる（別のタブに相当）
+ * 変更通知はIndexedDBServiceと同様に、別のインスタンスで行われた変更のみが届く
+ */
+export class MemoryDataService implements DataService, AttachmentStore {
+  private store: MemoryStore;
+
+  constructor(options: MemoryDataServiceOptions = {}, store?: MemoryStore) {
+    this.store = store || {
+      posts: new Map((options.posts || []).map(post => [post.id, clonePost(post)])),
+      revisions: new Map((options.revisions || []).map(revision => [revision.id, cloneRevision(revision)])),
+      attachments: new Map(),
+      subscribers: new Set(),
+    };
+  }
+
+  /**
+   * 同じデータを共有する別のインスタンスを作成する
+   */
+  connect(): MemoryDataService {
+    return new MemoryDataService({}, this.store);
+  }
+
+  /**
+   * 保持している全てのデータを取得する（ゴミ箱の投稿と編集履歴を含む）
+   * 別の保存先への書き出しや移行に使用する
+   */
+  exportSnapshot(): { posts: Post[]; revisions: PostRevision[] } {
+    return {
+      posts: Array.from(this.store.posts.values()).map(clonePost),
+      revisions: Array.from(this.store.revisions.values()).map(cloneRevision),
+    };
+  }
+
+  async createPost(input: CreatePostInput): Promise<Post> {
+    const { content, tags = [] } = input;
+
+    if (!content || content.trim().length === 0) {
+      throw new MemoryDataServiceError('コンテンツが空です', 'createPost');
+    }
+    this.validatePostDates([input.createdAt], 'createPost');
+
+    // 過去の日付で書いた投稿も編集済みとして扱わないよう、更新日時は投稿日時に揃える
+    const createdAt = input.createdAt ? new Date(input.createdAt) : new Date();
+    const post: Post = {
+      id: uuidv4(),
+      content: content.trim(),
+      createdAt,
+      updatedAt: new Date(createdAt),
+      tags: sanitizeTags(tags),
+    };
+
+    this.store.posts.set(post.id, clonePost(post));
+    this.notifyUpdates({ created: [post.id] });
+    return post;
+  }
+
+  async updatePost(id: string, input: UpdatePostInput): Promise<Post> {
+    const { content, tags } = input;
+
+    if (!id || id.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'updatePost');
+    }
+
+    // コンテンツは指定された場合のみ検証する（タグのみの更新を許可）
+    if (content !== undefined && content.trim().length === 0) {
+      throw new MemoryDataServiceError('コンテンツが空です', 'updatePost');
+    }
+    this.validatePostDates([input.createdAt], 'updatePost');
+
+    const existingPost = this.getActivePost(id);
+    if (!existingPost) {
+      throw new MemoryDataServiceError('指定された投稿が見つかりません', 'updatePost');
+    }
+
+    const updatedPost = this.applyUpdate(existingPost, { content, tags, createdAt: input.createdAt }, new Date());
+    this.notifyUpdates({ updated: [id] });
+    return updatedPost;
+  }
+
+  async deletePost(id: string): Promise<void> {
+    if (!id || id.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'deletePost');
+    }
+
+    const existingPost = this.getActivePost(id);
+    if (!existingPost) {
+      throw new MemoryDataServiceError('指定された投稿が見つかりません', 'deletePost');
+    }
+
+    // IndexedDBServiceと同様にゴミ箱へ移動する
+    this.store.posts.set(id, { ...existingPost, deletedAt: new Date() });
+    this.notifyUpdates({ deleted: [id] });
+  }
+
+  async createPosts(inputs: CreatePostInput[]): Promise<Post[]> {
+    // 書き込む前に全件を検証する（1件でも不正な場合は何も作成しない）
+    if (inputs.some(input => !input.content || input.content.trim().length === 0)) {
+      throw new MemoryDataServiceError('コンテンツが空です', 'createPosts');
+    }
+    this.validatePostDates(inputs.map(input => input.createdAt), 'createPosts');
+
+    const now = new Date();
+    const posts: Post[] = inputs.map(({ content, tags = [], createdAt = now }) => ({
+      id: uuidv4(),
+      content: content.trim(),
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(createdAt),
+      tags: sanitizeTags(tags),
+    }));
+
+    posts.forEach(post => this.store.posts.set(post.id, clonePost(post)));
+    if (posts.length > 0) {
+      this.notifyUpdates({ created: posts.map(post => post.id) });
+    }
+    return posts;
+  }
+
+  async updatePosts(updates: PostUpdate[]): Promise<Post[]> {
+    // 書き込む前に全件を検証する（1件でも不正な場合は何も更新しない）
+    this.validateBatchIds(updates.map(update => update.id), 'updatePosts');
+    if (updates.some(({ input }) => input.content !== undefined && input.content.trim().length === 0)) {
+      throw new MemoryDataServiceError('コンテンツが空です', 'updatePosts');
+    }
+    this.validatePostDates(updates.map(({ input }) => input.createdAt), 'updatePosts');
+    if (updates.some(({ id }) => !this.getActivePost(id))) {
+      throw new MemoryDataServiceError('指定された投稿が見つかりません', 'updatePosts');
+    }
+
+    const updatedAt = new Date();
+    const updatedPosts = updates.map(({ id, input }) => this.applyUpdate(this.getActivePost(id)!, input, updatedAt));
+    if (updatedPosts.length > 0) {
+      this.notifyUpdates({ updated: updatedPosts.map(post => post.id) });
+    }
+    return updatedPosts;
+  }
+
+  async deletePosts(ids: string[]): Promise<void> {
+    this.validateBatchIds(ids, 'deletePosts');
+    if (ids.some(id => !this.getActivePost(id))) {
+      throw new MemoryDataServiceError('指定された投稿が見つかりません', 'deletePosts');
+    }
+
+    const deletedAt = new Date();
+    ids.forEach(id => {
+      this.store.posts.set(id, { ...this.getActivePost(id)!, deletedAt: new Date(deletedAt) });
+    });
+    if (ids.length > 0) {
+      this.notifyUpdates({ deleted: ids });
+    }
+  }
+
+  async updatePostFlags(id: string, flags: PostFlags): Promise<Post> {
+    if (!id || id.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'updatePostFlags');
+    }
+
+    const existingPost = this.getActivePost(id);
+    if (!existingPost) {
+      throw new MemoryDataServiceError('指定された投稿が見つかりません', 'updatePostFlags');
+    }
+
+    // IndexedDBServiceと同様に、更新日時と編集履歴は変更しない
+    const updatedPost = applyPostFlags(existingPost, flags);
+    this.store.posts.set(id, updatedPost);
+    this.notifyUpdates({ updated: [id] });
+    return clonePost(updatedPost);
+  }
+
+  async getPinnedPosts(): Promise<Post[]> {
+    return sortByCreatedAtDesc(this.getActivePosts().filter(post => post.pinned).map(clonePost));
+  }
+
+  async getStarredPosts(): Promise<Post[]> {
+    return sortByCreatedAtDesc(this.getActivePosts().filter(post => post.starred).map(clonePost));
+  }
+
+  async getPost(id: string): Promise<Post | null> {
+    if (!id || id.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'getPost');
+    }
+
+    const post = this.getActivePost(id);
+    return post ? clonePost(post) : null;
+  }
+
+  async getAllPosts(): Promise<Post[]> {
+    return sortByCreatedAtDesc(this.getActivePosts().map(clonePost));
+  }
+
+  async getPostsByDateRange(start: Date, end: Date): Promise<Post[]> {
+    if (!start || !end) {
+      throw new MemoryDataServiceError('開始日時と終了日時が必要です', 'getPostsByDateRange');
+    }
+
+    if (start > end) {
+      throw new MemoryDataServiceError('開始日時は終了日時より前である必要があります', 'getPostsByDateRange');
+    }
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new MemoryDataServiceError('日時の形式が無効です', 'getPostsByDateRange');
+    }
+
+    const posts = this.getActivePosts().filter(post =>
+      post.createdAt.getTime() >= start.getTime() && post.createdAt.getTime() <= end.getTime()
+    );
+    return sortByCreatedAtDesc(posts.map(clonePost));
+  }
+
+  async getPostsPage(options: PostsPageOptions): Promise<PostsPage> {
+    const { before, limit } = options;
+
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new MemoryDataServiceError('取得件数は1以上の整数である必要があります', 'getPostsPage');
+    }
+
+    if (before && isNaN(before.createdAt.getTime())) {
+      throw new MemoryDataServiceError('カーソルの日時が無効です', 'getPostsPage');
+    }
+
+    // カーソルより後ろ（カーソル自体は含まない）を新しい順に取得
+    // IndexedDBのcreatedAtインデックスを逆順に走査した場合と同じく、同じ日時の投稿はIDの降順に並べる
+    const candidates = this.getActivePosts()
+      .filter(post => !before || isOlderThanCursor(post, before))
+      .sort(comparePostsForPage);
+
+    const posts = candidates.slice(0, limit).map(clonePost);
+    const lastPost = posts[posts.length - 1];
+    return {
+      posts,
+      nextCursor: candidates.length > limit ? { createdAt: lastPost.createdAt, id: lastPost.id } : null,
+    };
+  }
+
+  async getPostsByTag(tag: string): Promise<Post[]> {
+    // 先頭の「#」は保存時と同様に取り除く
+    const [normalizedTag] = sanitizeTags([tag || '']);
+    if (!normalizedTag) {
+      throw new MemoryDataServiceError('タグが無効です', 'getPostsByTag');
+    }
+
+    const posts = this.getActivePosts().filter(post => (post.tags || []).includes(normalizedTag));
+    return sortByCreatedAtDesc(posts.map(clonePost));
+  }
+
+  async searchPosts(query: string): Promise<Post[]> {
+    if (tokenizeQuery(query || '').length === 0) {
+      return [];
+    }
+
+    // 件数が少ないため転置インデックスは使わず、全件を照合する
+    const posts = this.getActivePosts().filter(post => matchesQuery(post, query));
+    return sortByCreatedAtDesc(posts.map(clonePost));
+  }
+
+  async getTrashedPosts(): Promise<Post[]> {
+    // 削除日時の新しい順
+    return Array.from(this.store.posts.values())
+      .filter(isTrashed)
+      .map(clonePost)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restorePost(id: string): Promise<Post> {
+    if (!id || id.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'restorePost');
+    }
+
+    const trashedPost = this.store.posts.get(id);
+    if (!trashedPost || !isTrashed(trashedPost)) {
+      throw new MemoryDataServiceError('ゴミ箱に指定された投稿が見つかりません', 'restorePost');
+    }
+
+    const restoredPost = clonePost(trashedPost);
+    delete restoredPost.deletedAt;
+    this.store.posts.set(id, clonePost(restoredPost));
+    // 他のインスタンスでは一覧に新しく現れるため作成として通知する
+    this.notifyUpdates({ created: [id] });
+    return restoredPost;
+  }
+
+  async purgePost(id: string): Promise<void> {
+    if (!id || id.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'purgePost');
+    }
+
+    if (!this.store.posts.has(id)) {
+      throw new MemoryDataServiceError('指定された投稿が見つかりません', 'purgePost');
+    }
+
+    this.removePost(id);
+    this.notifyUpdates({ deleted: [id] });
+  }
+
+  async purgeTrashedPosts(olderThan: Date): Promise<number> {
+    if (!olderThan || isNaN(olderThan.getTime())) {
+      throw new MemoryDataServiceError('日時の形式が無効です', 'purgeTrashedPosts');
+    }
+
+    const purgedIds = Array.from(this.store.posts.values())
+      .filter(post => isTrashed(post) && post.deletedAt!.getTime() < olderThan.getTime())
+      .map(post => post.id);
+
+    purgedIds.forEach(id => this.removePost(id));
+    if (purgedIds.length > 0) {
+      this.notifyUpdates({ deleted: purgedIds });
+    }
+    return purgedIds.length;
+  }
+
+  async getRevisions(postId: string): Promise<PostRevision[]> {
+    if (!postId || postId.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDが無効です', 'getRevisions');
+    }
+
+    const revisions = Array.from(this.store.revisions.values())
+      .filter(revision => revision.postId === postId)
+      .map(cloneRevision);
+    return sortByCreatedAtDesc(revisions);
+  }
+
+  async restoreRevision(postId: string, revisionId: string): Promise<Post> {
+    if (!postId || postId.trim().length === 0 || !revisionId || revisionId.trim().length === 0) {
+      throw new MemoryDataServiceError('投稿IDまたは履歴IDが無効です', 'restoreRevision');
+    }
+
+    const revision = this.store.revisions.get(revisionId);
+    if (!revision || revision.postId !== postId) {
+      throw new MemoryDataServiceError('指定された編集履歴が見つかりません', 'restoreRevision');
+    }
+
+    // 通常の更新として保存し、復元前のバージョンも履歴に残す
+    return this.updatePost(postId, {
+      content: revision.content,
+      tags: revision.tags || [],
+    });
+  }
+
+  async getStorageUsage(): Promise<DataStorageUsage> {
+    const sum = (sizes: number[]) => sizes.reduce((total, size) => total + size, 0);
+    return {
+      posts: sum(Array.from(this.store.posts.values(), estimateJsonSize)),
+      revisions: sum(Array.from(this.store.revisions.values(), estimateJsonSize)),
+      attachments: sum(Array.from(this.store.attachments.values(), getAttachmentStoredSize))
+    };
+  }
+
+  /**
+   * 投稿と編集履歴を、IDと日時を保ったまま取り込む
+   * 同じIDの投稿が既にある場合は、更新日時が新しい方を残す（overwrite指定時は常に上書きする）
+   * @returns 取り込んだ投稿の件数
+   */
+  async importPosts(posts: Post[], revisions: PostRevision[] = [], options: ImportPostsOptions = {}): Promise<number> {
+    const importedIds: string[] = [];
+
+    posts.forEach(input => {
+      const post = clonePost(input);
+      const existingPost = this.store.posts.get(post.id);
+      if (existingPost && !options.overwrite && existingPost.updatedAt.getTime() >= post.updatedAt.getTime()) {
+        return;
+      }
+      this.store.posts.set(post.id, post);
+      importedIds.push(post.id);
+    });
+    revisions.forEach(revision => {
+      this.store.revisions.set(revision.id, cloneRevision(revision));
+    });
+
+    if (importedIds.length > 0) {
+      this.notifyUpdates({ created: importedIds });
+    }
+    return importedIds.length;
+  }
+
+  // 添付画像の保存先（このサービス自身が添付画像も保存する）
+  get attachments(): AttachmentStore {
+    return this;
+  }
+
+  async saveAttachment(input: CreateAttachmentInput): Promise<Attachment> {
+    if (!input.data || input.data.byteLength === 0) {
+      throw new MemoryDataServiceError('添付画像のデータが空です', 'saveAttachment');
+    }
+
+    const attachment: Attachment = { ...input, id: uuidv4(), postId: null, createdAt: new Date() };
+    this.store.attachments.set(attachment.id, attachment);
+    return { ...attachment };
+  }
+
+  async getAttachment(id: string): Promise<Attachment | null> {
+    const attachment = this.store.attachments.get(id);
+    return attachment ? { ...attachment } : null;
+  }
+
+  async assignAttachments(ids: string[], postId: string): Promise<void> {
+    ids.forEach(id => {
+      const attachment = this.store.attachments.get(id);
+      if (attachment && attachment.postId === null) {
+        attachment.postId = postId;
+      }
+    });
+  }
+
+  async purgeOrphanAttachments(olderThan: Date): Promise<number> {
+    const orphanIds = Array.from(this.store.attachments.values())
+      .filter(attachment => attachment.postId === null && attachment.createdAt.getTime() < olderThan.getTime())
+      .map(attachment => attachment.id);
+    orphanIds.forEach(id => this.store.attachments.delete(id));
+    return orphanIds.length;
+  }
+
+  /**
+   * 別のインスタンスで行われた投稿の変更を購読する
+   * @returns 購読を解除する関数
+   */
+  subscribeToUpdates(callback: (change: PostChangeEvent) => void): () => void {
+    const subscriber: Subscriber = { owner: this, callback };
+    this.store.subscribers.add(subscriber);
+
+    return () => {
+      this.store.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * 変更を別のインスタンスの購読者に通知する
+   * IndexedDBServiceのBroadcastChannelと同様に非同期で届ける
+   */
+  private notifyUpdates(change: Partial<PostChangeEvent>): void {
+    const event: PostChangeEvent = {
+      created: change.created || [],
+      updated: change.updated || [],
+      deleted: change.deleted || []
+    };
+
+    this.store.subscribers.forEach(subscriber => {
+      if (subscriber.owner !== this) {
+        setTimeout(() => {
+          // 通知までの間に購読が解除された場合は届けない
+          if (this.store.subscribers.has(subscriber)) {
+            subscriber.callback(event);
+          }
+        }, 0);
+      }
+    });
+  }
+
+  /**
+   * 投稿を更新して保存し、更新後の投稿のコピーを返す
+   * 本文かタグが変わる場合のみ、変更前のバージョンを編集履歴に残す
+   */
+  private applyUpdate(existingPost: Post, input: UpdatePostInput, updatedAt: Date): Post {
+    const updatedPost: Post = {
+      ...existingPost,
+      content: input.content !== undefined ? input.content.trim() : existingPost.content,
+      tags: input.tags !== undefined ? sanitizeTags(input.tags) : existingPost.tags,
+      createdAt: input.createdAt !== undefined ? new Date(input.createdAt) : existingPost.createdAt,
+      updatedAt: new Date(updatedAt),
+    };
+
+    // 投稿日時の変更は編集履歴に残さない（本文とタグの変更のみ）
+    const hasChanges = updatedPost.content !== existingPost.content
+      || JSON.stringify(updatedPost.tags || []) !== JSON.stringify(existingPost.tags || []);
+    if (hasChanges) {
+      const revision: PostRevision = {
+        id: uuidv4(),
+        postId: existingPost.id,
+        content: existingPost.content,
+        tags: existingPost.tags,
+        createdAt: existingPost.updatedAt,
+      };
+      this.store.revisions.set(revision.id, cloneRevision(revision));
+    }
+
+    this.store.posts.set(existingPost.id, clonePost(updatedPost));
+    return clonePost(updatedPost);
+  }
+
+  // 一括操作の対象の投稿IDを検証する（空のIDと重複を拒否する）
+  private validateBatchIds(ids: string[], operation: string): void {
+    if (ids.some(id => !id || id.trim().length === 0)) {
+      throw new MemoryDataServiceError('投稿IDが無効です', operation);
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new MemoryDataServiceError('同じ投稿が複数含まれています', operation);
+    }
+  }
+
+  // 指定された投稿日時を検証する（省略された場合は検証しない）
+  private validatePostDates(dates: (Date | undefined)[], operation: string): void {
+    for (const date of dates) {
+      const error = date !== undefined ? validatePostDate(date) : null;
+      if (error) {
+        throw new MemoryDataServiceError(error, operation);
+      }
+    }
+  }
+
+  // ゴミ箱にない投稿を取得（ストア内のオブジェクトをそのまま返す）
+  private getActivePost(id: string): Post | null {
+    const post = this.store.posts.get(id);
+    return post && !isTrashed(post) ? post : null;
+  }
+
+  private getActivePosts(): Post[] {
+    return Array.from(this.store.posts.values()).filter(post => !isTrashed(post));
+  }
+
+  // 投稿と編集履歴・添付画像を完全に削除する
+  private removePost(id: string): void {
+    this.store.posts.delete(id);
+    Array.from(this.store.revisions.values())
+      .filter(revision => revision.postId === id)
+      .forEach(revision => this.store.revisions.delete(revision.id));
+    Array.from(this.store.attachments.values())
+      .filter(attachment => attachment.postId === id)
+      .forEach(attachment => this.store.attachments.delete(attachment.id));
+  }
+}
@@ -0,0 +1,357 @@
+import type { ValidationResult } from '../types';
+
+// マイグレーションエラーの型定義
+export class MigrationError extends Error {
+  public version: number;
+  public originalError?: Error;
+
+  constructor(
+    message: string,
+    version: number,
+    originalError?: Error
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+    this.version = version;
+    this.originalError = originalError;
+  }
+}
+
+/**
+ * マイグレーションの各ステップに渡される操作API
+ * 実行時はversionchangeトランザクションに書き込み、ドライラン時は読み取りのみで操作内容を記録する
+ */
+export interface MigrationContext {
+  readonly dryRun: boolean;
+  hasStore(storeName: string): boolean;
+  hasIndex(storeName: string, indexName: string): boolean;
+  createStore(storeName: string, options?: IDBObjectStoreParameters): void;
+  createIndex(storeName: string, indexName: string, keyPath: string | string[], options?: IDBIndexParameters): void;
+  // 全レコードを走査する（ドライラン時も既存データを読み取る）
+  forEachRecord<T>(storeName: string, callback: (record: T) => void): void;
+  // レコードを書き込む（ドライラン時は件数のみ記録）
+  put(storeName: string, value: unknown): void;
+  // 全レコードを書き換える（変換結果がnullの場合は削除、undefinedの場合は変更なし）
+  rewriteRecords<T>(storeName: string, transform: (record: T) => T | null | undefined): void;
+  log(message: string): void;
+}
+
+/**
+ * バージョンごとのマイグレーション定義
+ */
+export interface Migration {
+  version: number;       // 1から連番
+  description: string;
+  up(context: MigrationContext): void;
+}
+
+// マイグレーション1件分の結果
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  operations: string[];  // 実行した（ドライラン時は実行予定の）スキーマ操作
+  recordsWritten: number;
+  recordsDeleted: number;
+  errors: string[];      // ドライラン時に検出したレコード変換のエラー
+}
+
+// マイグレーション全体の結果
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: MigrationStepReport[];
+}
+
+/**
+ * マイグレーション定義の妥当性を検証する
+ * バージョンは1から始まる重複のない連番である必要がある
+ */
+export function validateMigrations(migrations: Migration[]): ValidationResult {
+  const errors: string[] = [];
+  const versions = migrations.map(migration => migration.version).sort((a, b) => a - b);
+
+  versions.forEach((version, index) => {
+    if (!Number.isInteger(version) || version <= 0) {
+      errors.push(`バージョン${version}は1以上の整数である必要があります`);
+    } else if (index > 0 && version === versions[index - 1]) {
+      errors.push(`バージョン${version}が重複しています`);
+    }
+  });
+
+  const latestVersion = versions.length > 0 ? versions[versions.length - 1] : 0;
+  for (let version = 1; version < latestVersion; version++) {
+    if (!versions.includes(version)) {
+      errors.push(`バージョン${version}のマイグレーションがありません`);
+    }
+  }
+
+  migrations.forEach(migration => {
+    if (!migration.description || migration.description.trim().length === 0) {
+      errors.push(`バージョン${migration.version}の説明がありません`);
+    }
+    if (typeof migration.up !== 'function') {
+      errors.push(`バージョン${migration.version}のupがありません`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 順序付きのマイグレーションを実行するクラス
+ * - 実行: onupgradeneededのversionchangeトランザクション内でスキーマとレコードを更新する
+ * - ドライラン: 既存のデータベースを読み取り専用で走査し、実行予定の操作と変換エラーを報告する
+ */
+export class MigrationRunner {
+  private migrations: Migration[];
+
+  constructor(migrations: Migration[]) {
+    const validation = validateMigrations(migrations);
+    if (!validation.isValid) {
+      throw new MigrationError(
+        `マイグレーション定義が不正です: ${validation.errors.join(' / ')}`,
+        0
+      );
+    }
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * 最新のスキーマバージョン
+   */
+  get latestVersion(): number {
+    return this.migrations.length;
+  }
+
+  /**
+   * 指定したバージョン間で実行が必要なマイグレーションを取得
+   */
+  getPendingMigrations(fromVersion: number, toVersion: number = this.latestVersion): Migration[] {
+    return this.migrations.filter(migration => migration.version > fromVersion && migration.version <= toVersion);
+  }
+
+  /**
+   * マイグレーションを実行する（onupgradeneeded内で呼び出す）
+   * レコードの書き換えは非同期に行われるため、件数はトランザクション完了時に確定する
+   * いずれかのステップで例外が発生した場合はトランザクションごと中止され、データベースは変更されない
+   * @param db アップグレード中のデータベース
+   * @param transaction versionchangeトランザクション
+   * @param fromVersion 現在のバージョン（event.oldVersion）
+   * @param toVersion 移行先のバージョン
+   */
+  upgrade(db: IDBDatabase, transaction: IDBTransaction, fromVersion: number, toVersion: number = this.latestVersion): MigrationReport {
+    const report: MigrationReport = { fromVersion, toVersion, dryRun: false, steps: [] };
+
+    for (const migration of this.getPendingMigrations(fromVersion, toVersion)) {
+      const step = this.createStepReport(migration);
+      report.steps.push(step);
+
+      try {
+        migration.up(this.createUpgradeContext(db, transaction, step));
+      } catch (error) {
+        throw new MigrationError(
+          `バージョン${migration.version}のマイグレーションに失敗しました`,
+          migration.version,
+          error as Error
+        );
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * マイグレーションをドライランする（データベースは変更しない）
+   * @param db 現在のデータベース（未作成の場合はnull）
+   * @param toVersion 移行先のバージョン
+   */
+  dryRun(db: IDBDatabase | null, toVersion: number = this.latestVersion): Promise<MigrationReport> {
+    const fromVersion = db ? db.version : 0;
+    const report: MigrationReport = { fromVersion, toVersion, dryRun: true, steps: [] };
+    const pending = this.getPendingMigrations(fromVersion, toVersion);
+    const storeNames = db ? Array.from(db.objectStoreNames) : [];
+
+    if (!db || pending.length === 0 || storeNames.length === 0) {
+      pending.forEach(migration => this.runDryRunStep(migration, null, db, report));
+      return Promise.resolve(report);
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, 'readonly');
+      pending.forEach(migration => this.runDryRunStep(migration, transaction, db, report));
+
+      transaction.oncomplete = () => resolve(report);
+      transaction.onerror = () => {
+        reject(new MigrationError(
+          'ドライラン中にエラーが発生しました',
+          fromVersion,
+          transaction.error || undefined
+        ));
+      };
+    });
+  }
+
+  private createStepReport(migration: Migration): MigrationStepReport {
+    return {
+      version: migration.version,
+      description: migration.description,
+      operations: [],
+      recordsWritten: 0,
+      recordsDeleted: 0,
+      errors: []
+    };
+  }
+
+  /**
+   * ドライランでマイグレーション1件を実行する
+   * 同じドライラン内で作成予定のストア・インデックスは、以降のステップで存在するものとして扱う
+   */
+  private runDryRunStep(
+    migration: Migration,
+    transaction: IDBTransaction | null,
+    db: IDBDatabase | null,
+    report: MigrationReport
+  ): void {
+    const step = this.createStepReport(migration);
+    report.steps.push(step);
+
+    try {
+      migration.up(this.createDryRunContext(db, transaction, step, report));
+    } catch (error) {
+      step.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 実行用のコンテキストを作成
+   */
+  private createUpgradeContext(db: IDBDatabase, transaction: IDBTransaction, step: MigrationStepReport): MigrationContext {
+    return {
+      dryRun: false,
+      hasStore: (storeName) => db.objectStoreNames.contains(storeName),
+      hasIndex: (storeName, indexName) =>
+        db.objectStoreNames.contains(storeName) && transaction.objectStore(storeName).indexNames.contains(indexName),
+      createStore: (storeName, options) => {
+        db.createObjectStore(storeName, options);
+        step.operations.push(`ストア「${storeName}」を作成`);
+      },
+      createIndex: (storeName, indexName, keyPath, options) => {
+        transaction.objectStore(storeName).createIndex(indexName, keyPath, options);
+        step.operations.push(`インデックス「${storeName}.${indexName}」を作成`);
+      },
+      forEachRecord: (storeName, callback) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            callback(cursor.value);
+            cursor.continue();
+          }
+        };
+      },
+      put: (storeName, value) => {
+        transaction.objectStore(storeName).put(value);
+        step.recordsWritten++;
+      },
+      rewriteRecords: (storeName, transform) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+
+          const result = transform(cursor.value);
+          if (result === null) {
+            cursor.delete();
+            step.recordsDeleted++;
+          } else if (result !== undefined) {
+            cursor.update(result);
+            step.recordsWritten++;
+          }
+          cursor.continue();
+        };
+      },
+      log: (message) => {
+        step.operations.push(message);
+      }
+    };
+  }
+
+  /**
+   * ドライラン用のコンテキストを作成
+   * 書き込み操作は行わず、操作内容と件数、レコード変換のエラーを記録する
+   */
+  private createDryRunContext(
+    db: IDBDatabase | null,
+    transaction: IDBTransaction | null,
+    step: MigrationStepReport,
+    report: MigrationReport
+  ): MigrationContext {
+    // このドライランで作成予定のストア・インデックス
+    const isPlanned = (operation: string) => report.steps.some(s => s.operations.includes(operation));
+    const isPlannedStore = (storeName: string) => isPlanned(`ストア「${storeName}」を作成`);
+    const isPlannedIndex = (storeName: string, indexName: string) =>
+      isPlanned(`インデックス「${storeName}.${indexName}」を作成`);
+    const isExistingStore = (storeName: string) => Boolean(db && db.objectStoreNames.contains(storeName));
+
+    const readRecords = (storeName: string, onRecord: (record: unknown, key: IDBValidKey) => void) => {
+      // 作成予定のストアは空として扱う
+      if (!transaction || !isExistingStore(storeName)) return;
+
+      const request = transaction.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          onRecord(cursor.value, cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    };
+
+    return {
+      dryRun: true,
+      hasStore: (storeName) => isExistingStore(storeName) || isPlannedStore(storeName),
+      hasIndex: (storeName, indexName) =>
+        (isExistingStore(storeName) && Boolean(transaction) && transaction!.objectStore(storeName).indexNames.contains(indexName))
+        || isPlannedIndex(storeName, indexName),
+      createStore: (storeName) => {
+        step.operations.push(`ストア「${storeName}」を作成`);
+      },
+      createIndex: (storeName, indexName) => {
+        step.operations.push(`インデックス「${storeName}.${indexName}」を作成`);
+      },
+      forEachRecord<T>(storeName: string, callback: (record: T) => void) {
+        readRecords(storeName, (record, key) => {
+          try {
+            callback(record as T);
+          } catch (error) {
+            step.errors.push(`${storeName}[${String(key)}]: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+      },
+      put: () => {
+        step.recordsWritten++;
+      },
+      rewriteRecords<T>(storeName: string, transform: (record: T) => T | null | undefined) {
+        readRecords(storeName, (record, key) => {
+          try {
+            const result = transform(record as T);
+            if (result === null) {
+              step.recordsDeleted++;
+            } else if (result !== undefined) {
+              step.recordsWritten++;
+            }
+          } catch (error) {
+            step.errors.push(`${storeName}[${String(key)}]: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+      },
+      log: (message) => {
+        step.operations.push(message);
+      }
+    };
+  }
+}
@@ -6,6 +6,7 @@ import {
   ErrorLevel,
   ERROR_MESSAGES
 } from '../utils/diaryErrorUtils';
+import { isTrashed, excludeTrashedPosts } from '../utils/trashUtils';
 
 /**
  * 日記統計情報の型定義
@@ -46,11 +47,12 @@ export interface StreakResult {
 export class StatsService {
   /**
    * 投稿データから包括的な統計情報を計算
-   * @param posts 投稿データの配列
+   * @param allPosts 投稿データの配列（ゴミ箱の投稿は集計から除外する）
    * @returns 統計情報
    */
-  static calculateDiaryStats(posts: Post[]): DiaryStats {
+  static calculateDiaryStats(allPosts: Post[]): DiaryStats {
     const partialStats: Partial<DiaryStats> = {};
+    const posts = excludeTrashedPosts(allPosts);
     
     try {
       if (posts.length === 0) {
@@ -307,6 +309,9 @@ export class StatsService {
     const nextMonthStart = new Date(now.getFullYear(), now.getMonth() + 1, 1);
 
     return posts.filter(post => {
+      if (isTrashed(post)) {
+        return false;
+      }
       const postDate = new Date(post.createdAt);
       return postDate >= thisMonthStart && postDate < nextMonthStart;
     }).length;
@@ -323,8 +328,8 @@ export class StatsService {
     const monthStart = new Date(year, month - 1, 1);
     const monthEnd = new Date(year, month, 1);
 
-    // 指定月の投稿をフィルタリング
-    const monthPosts = posts.filter(post => {
+    // 指定月の投稿をフィルタリング（ゴミ箱の投稿は除外）
+    const monthPosts = excludeTrashedPosts(posts).filter(post => {
       const postDate = new Date(post.createdAt);
       return postDate >= monthStart && postDate < monthEnd;
     });
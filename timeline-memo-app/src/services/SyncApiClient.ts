@@ -0,0 +1,175 @@
+import type { Post } from '../types';
+
+/**
+ * 同期サーバーのHTTP APIクライアント
+ * APIの仕様は SYNC_API.md を参照（参照実装: scripts/sync-server.js）
+ */
+
+// 同期APIのパス
+export const SYNC_API_PATH = '/api/sync';
+
+// サーバーに保存されている投稿の最新の状態
+export interface SyncRecord {
+  postId: string;
+  revision: number;     // サーバーが採番する通し番号（変更のたびに増える）
+  post: Post | null;    // nullの場合は完全に削除された投稿
+  updatedAt: Date;      // 変更した端末で変更が行われた日時（競合の解決に使う）
+  clientId: string;     // 変更した端末の識別子
+}
+
+// サーバーに送信する変更
+export interface SyncPushChange {
+  postId: string;
+  baseRevision: number | null; // 変更の元になったサーバーのリビジョン（サーバーにない場合はnull）
+  post: Post | null;           // nullの場合は完全に削除
+  updatedAt: Date;
+}
+
+// 変更ごとの送信結果
+export type SyncPushResult =
+  | { postId: string; status: 'applied'; revision: number }
+  | { postId: string; status: 'conflict'; record: SyncRecord | null };
+
+export interface SyncPullResponse {
+  records: SyncRecord[];
+  cursor: number;     // 次回の取得で since に指定する値
+  hasMore: boolean;   // trueの場合は続きがある
+}
+
+export interface SyncPushResponse {
+  results: SyncPushResult[];
+  cursor: number;
+}
+
+// 同期APIのエラー
+export class SyncApiError extends Error {
+  public operation: string;
+  public status?: number;         // HTTPステータス（通信できなかった場合はundefined）
+  public originalError?: Error;
+
+  constructor(message: string, operation: string, status?: number, originalError?: Error) {
+    super(message);
+    this.name = 'SyncApiError';
+    this.operation = operation;
+    this.status = status;
+    this.originalError = originalError;
+  }
+}
+
+// JSONで受け取った投稿（日時はISO文字列）
+type SerializedPost = Omit<Post, 'createdAt' | 'updatedAt' | 'deletedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+};
+
+type SerializedRecord = Omit<SyncRecord, 'post' | 'updatedAt'> & {
+  post: SerializedPost | null;
+  updatedAt: string;
+};
+
+function deserializePost(post: SerializedPost): Post {
+  const result: Post = {
+    ...post,
+    createdAt: new Date(post.createdAt),
+    updatedAt: new Date(post.updatedAt),
+    deletedAt: post.deletedAt ? new Date(post.deletedAt) : undefined,
+  };
+  if (!result.deletedAt) {
+    delete result.deletedAt;
+  }
+  return result;
+}
+
+function deserializeRecord(record: SerializedRecord): SyncRecord {
+  return {
+    ...record,
+    post: record.post ? deserializePost(record.post) : null,
+    updatedAt: new Date(record.updatedAt),
+  };
+}
+
+export interface SyncApiClientOptions {
+  token?: string;            // Authorizationヘッダーで送るアクセストークン
+  fetch?: typeof fetch;      // テスト用に差し替えられるfetch
+}
+
+export class SyncApiClient {
+  private baseUrl: string;
+  private token?: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(serverUrl: string, options: SyncApiClientOptions = {}) {
+    this.baseUrl = serverUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * 指定したカーソル以降に変更された投稿を取得する
+   * @param since 前回の取得で受け取ったカーソル（初回は0）
+   */
+  async pullChanges(since: number): Promise<SyncPullResponse> {
+    const body = await this.request<{ records: SerializedRecord[]; cursor: number; hasMore: boolean }>(
+      'pullChanges',
+      `${SYNC_API_PATH}/changes?since=${since}`,
+      { method: 'GET' }
+    );
+    return {
+      records: body.records.map(deserializeRecord),
+      cursor: body.cursor,
+      hasMore: body.hasMore,
+    };
+  }
+
+  /**
+   * 変更を送信する
+   * サーバーの投稿がbaseRevisionから変わっていた場合、その変更は競合として返される
+   * @param clientId この端末の識別子
+   * @param changes 送信する変更
+   */
+  async pushChanges(clientId: string, changes: SyncPushChange[]): Promise<SyncPushResponse> {
+    const body = await this.request<{
+      results: Array<{ postId: string; status: 'applied'; revision: number } | { postId: string; status: 'conflict'; record: SerializedRecord | null }>;
+      cursor: number;
+    }>('pushChanges', `${SYNC_API_PATH}/changes`, {
+      method: 'POST',
+      body: JSON.stringify({ clientId, changes }),
+    });
+
+    return {
+      results: body.results.map(result => result.status === 'conflict'
+        ? { ...result, record: result.record ? deserializeRecord(result.record) : null }
+        : result
+      ),
+      cursor: body.cursor,
+    };
+  }
+
+  private async request<T>(operation: string, path: string, init: RequestInit): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, { ...init, headers });
+    } catch (error) {
+      throw new SyncApiError('同期サーバーに接続できませんでした', operation, undefined, error as Error);
+    }
+
+    if (response.status === 401) {
+      throw new SyncApiError('同期サーバーの認証に失敗しました。アクセストークンを確認してください', operation, 401);
+    }
+    if (!response.ok) {
+      throw new SyncApiError(`同期サーバーがエラーを返しました（${response.status}）`, operation, response.status);
+    }
+
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      throw new SyncApiError('同期サーバーの応答を読み取れませんでした', operation, response.status, error as Error);
+    }
+  }
+}
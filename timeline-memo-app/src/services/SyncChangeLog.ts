@@ -0,0 +1,377 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Post } from '../types';
+
+// 同期の状態を保存するキー
+export const SYNC_STATE_STORAGE_KEY = 'timeline-memo-sync-state';
+
+// 送信待ちの変更の種類（画面表示用）
+export type PendingOperation = 'create' | 'update' | 'delete';
+
+// 同期サーバーに送信していない変更（投稿ごとに最新の状態だけを残す）
+// 投稿の内容は保存せず、送信する時に保存先から読み直す（全ての投稿の複製でlocalStorageの容量を超えないように）
+export interface PendingChange {
+  postId: string;
+  baseRevision: number | null;  // 変更の元になったサーバーのリビジョン
+  changedAt: Date;              // 最後に変更した日時
+  operation: PendingOperation;
+  attempts: number;             // 送信に失敗した回数
+  lastError: string | null;     // 直前の送信の失敗理由
+  nextAttemptAt: Date | null;   // 次に送信する日時（nullの場合はすぐに送信する）
+}
+
+// 送信の再試行の間隔（失敗するたびに倍にする）
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * 送信に失敗した回数から、次の送信までの待ち時間を計算する
+ * 5秒・10秒・20秒…と倍にしていき、30分を上限とする
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+// 送信待ちの変更の種類を判定する
+function getOperation(post: Post | null, baseRevision: number | null, previous?: PendingOperation): PendingOperation {
+  if (!post || post.deletedAt) {
+    return 'delete';
+  }
+  // サーバーに届く前に編集した場合も、作成として扱う
+  return baseRevision === null || previous === 'create' ? 'create' : 'update';
+}
+
+// 自動で解決できなかった競合（同じ投稿の本文が両方の端末で編集された）
+export interface SyncConflict {
+  postId: string;
+  local: Post | null;     // この端末の内容
+  remote: Post | null;    // サーバーの内容
+  remoteRevision: number;
+  detectedAt: Date;
+}
+
+// 同期サーバーの接続設定
+export interface SyncSettings {
+  serverUrl: string | null;  // nullの場合は同期しない
+  token: string | null;      // アクセストークン（任意）
+}
+
+interface StoredSyncState extends SyncSettings {
+  clientId: string;
+  cursor: number;                          // 前回取得したサーバーの変更の位置
+  initialized: boolean;                    // この端末の既存の投稿を送信対象に追加済みか
+  knownRevisions: Record<string, number>;  // 投稿ごとに把握しているサーバーのリビジョン
+  pending: PendingChange[];
+  conflicts: SyncConflict[];
+  lastSyncedAt: Date | null;
+}
+
+// JSONから読み込んだ日時文字列をDateに戻す
+function revivePost(post: Post | null): Post | null {
+  if (!post) {
+    return null;
+  }
+  const result: Post = {
+    ...post,
+    createdAt: new Date(post.createdAt),
+    updatedAt: new Date(post.updatedAt),
+  };
+  if (post.deletedAt) {
+    result.deletedAt = new Date(post.deletedAt);
+  }
+  return result;
+}
+
+function createInitialState(): StoredSyncState {
+  return {
+    clientId: uuidv4(),
+    serverUrl: null,
+    token: null,
+    cursor: 0,
+    initialized: false,
+    knownRevisions: {},
+    pending: [],
+    conflicts: [],
+    lastSyncedAt: null,
+  };
+}
+
+/**
+ * 同期の変更ログと状態
+ * 同期が有効な間、この端末での投稿の変更を記録し、サーバーへの送信を待つ
+ * 同じ投稿の変更はまとめて最新の状態だけを送信する
+ */
+export class SyncChangeLog {
+  private storage: Storage;
+  private state: StoredSyncState = createInitialState();
+  // 最後に読み込んだ（または保存した）JSON。他のタブで書き換えられた場合に読み直す
+  private cachedRaw: string | null | undefined = undefined;
+  private listeners = new Set<() => void>();
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+    this.refresh();
+  }
+
+  get clientId(): string {
+    return this.refresh().clientId;
+  }
+
+  get cursor(): number {
+    return this.refresh().cursor;
+  }
+
+  get isInitialized(): boolean {
+    return this.refresh().initialized;
+  }
+
+  get lastSyncedAt(): Date | null {
+    return this.refresh().lastSyncedAt;
+  }
+
+  /**
+   * 状態の変化を購読する
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.refresh().serverUrl !== null;
+  }
+
+  getSettings(): SyncSettings {
+    const { serverUrl, token } = this.refresh();
+    return { serverUrl, token };
+  }
+
+  /**
+   * 接続先を設定する
+   * 接続先が変わった場合は、新しいサーバーに全ての投稿を送信し直す
+   * 同期を無効にした場合は、送信待ちの変更と競合も破棄する
+   */
+  setSettings(settings: SyncSettings): void {
+    this.update(state => {
+      const serverChanged = settings.serverUrl !== state.serverUrl;
+      return {
+        ...(serverChanged ? { ...createInitialState(), clientId: state.clientId } : state),
+        serverUrl: settings.serverUrl,
+        token: settings.token,
+      };
+    });
+  }
+
+  /**
+   * 投稿の変更を記録する（同期が無効な場合は何もしない）
+   * @param postId 投稿ID
+   * @param post 変更後の投稿（変更の種類の判定に使う。完全に削除した場合はnull）
+   */
+  record(postId: string, post: Post | null, changedAt: Date = new Date()): void {
+    this.recordMany([{ postId, post }], changedAt);
+  }
+
+  /**
+   * 複数の投稿の変更をまとめて記録する（一括操作用。保存は1回だけ行う）
+   * @param changes 投稿IDと変更後の投稿（完全に削除した場合はnull）
+   */
+  recordMany(changes: { postId: string; post: Post | null }[], changedAt: Date = new Date()): void {
+    if (!this.isEnabled() || changes.length === 0) {
+      return;
+    }
+
+    this.update(initialState => changes.reduce((state, { postId, post }) => {
+      const existing = state.pending.find(item => item.postId === postId);
+      const others = state.pending.filter(item => item.postId !== postId);
+      // まとめた変更は、最初の変更の元になったリビジョンを基準にする
+      const baseRevision = existing ? existing.baseRevision : state.knownRevisions[postId] ?? null;
+
+      if (!post && baseRevision === null) {
+        // サーバーに届く前に完全に削除した投稿は、送信する必要がない
+        return { ...state, pending: others };
+      }
+
+      const change: PendingChange = {
+        postId,
+        baseRevision,
+        changedAt,
+        operation: getOperation(post, baseRevision, existing?.operation),
+        // 新しい変更はすぐに送信する
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: null,
+      };
+      return { ...state, pending: [...others, change] };
+    }, initialState));
+  }
+
+  getPending(postId: string): PendingChange | undefined {
+    return this.refresh().pending.find(item => item.postId === postId);
+  }
+
+  // 送信待ちの変更（変更した順）
+  getPendingChanges(): PendingChange[] {
+    return [...this.refresh().pending];
+  }
+
+  /**
+   * 送信に失敗した変更を記録し、次に送信する日時を遅らせる
+   * @param postIds 送信できなかった変更の投稿ID
+   * @param error 失敗の理由
+   */
+  markAttemptFailed(postIds: string[], error: string, now: Date = new Date()): void {
+    const ids = new Set(postIds);
+    this.update(state => ({
+      ...state,
+      pending: state.pending.map(item => {
+        if (!ids.has(item.postId)) {
+          return item;
+        }
+        const attempts = item.attempts + 1;
+        return {
+          ...item,
+          attempts,
+          lastError: error,
+          nextAttemptAt: new Date(now.getTime() + getRetryDelay(attempts)),
+        };
+      }),
+    }));
+  }
+
+  // 送信の待ち時間を取り消し、全ての変更をすぐに送信できるようにする
+  resetAttempts(): void {
+    this.update(state => ({
+      ...state,
+      pending: state.pending.map(item => ({ ...item, attempts: 0, lastError: null, nextAttemptAt: null })),
+    }));
+  }
+
+  /**
+   * 送信済みの変更を取り除く
+   * @param changedAt 送信した変更の日時（送信中にさらに変更された場合は残す）
+   */
+  removePending(postId: string, changedAt?: Date): void {
+    this.update(state => ({
+      ...state,
+      pending: state.pending.filter(item =>
+        item.postId !== postId || (changedAt !== undefined && item.changedAt.getTime() !== changedAt.getTime())
+      ),
+    }));
+  }
+
+  // 送信待ちの変更の基準リビジョンを置き換える（サーバーの内容を上書きする場合に使う）
+  rebasePending(postId: string, baseRevision: number | null): void {
+    this.update(state => ({
+      ...state,
+      pending: state.pending.map(item => item.postId === postId ? { ...item, baseRevision } : item),
+    }));
+  }
+
+  getKnownRevision(postId: string): number | null {
+    return this.refresh().knownRevisions[postId] ?? null;
+  }
+
+  setKnownRevision(postId: string, revision: number): void {
+    this.update(state => ({ ...state, knownRevisions: { ...state.knownRevisions, [postId]: revision } }));
+  }
+
+  setCursor(cursor: number): void {
+    this.update(state => ({ ...state, cursor }));
+  }
+
+  markInitialized(): void {
+    this.update(state => ({ ...state, initialized: true }));
+  }
+
+  markSynced(date: Date = new Date()): void {
+    this.update(state => ({ ...state, lastSyncedAt: date }));
+  }
+
+  getConflicts(): SyncConflict[] {
+    return [...this.refresh().conflicts];
+  }
+
+  // 競合を記録する（同じ投稿の競合は最新のものに置き換える）
+  addConflict(conflict: SyncConflict): void {
+    this.update(state => ({
+      ...state,
+      conflicts: [...state.conflicts.filter(item => item.postId !== conflict.postId), conflict],
+    }));
+  }
+
+  removeConflict(postId: string): void {
+    this.update(state => ({ ...state, conflicts: state.conflicts.filter(item => item.postId !== postId) }));
+  }
+
+  /**
+   * 保存されている状態を読み込む
+   * 前回の読み込みから変わっていない場合は、メモリ上の状態をそのまま使う
+   */
+  private refresh(): StoredSyncState {
+    let raw: string | null;
+    try {
+      raw = this.storage.getItem(SYNC_STATE_STORAGE_KEY);
+    } catch (error) {
+      console.error('[同期] 同期の状態の読み込みに失敗しました', error);
+      return this.state;
+    }
+    if (raw === this.cachedRaw) {
+      return this.state;
+    }
+
+    this.cachedRaw = raw;
+    if (!raw) {
+      // 初めて使う場合は端末の識別子を保存しておく
+      this.state = createInitialState();
+      this.save();
+      return this.state;
+    }
+
+    try {
+      const stored = JSON.parse(raw);
+      this.state = {
+        ...createInitialState(),
+        ...stored,
+        // 以前の形式で保存された投稿の内容（post）は読み込まない
+        pending: (stored.pending || []).map((item: PendingChange & { post?: Post | null }) => ({
+          postId: item.postId,
+          baseRevision: item.baseRevision,
+          changedAt: new Date(item.changedAt),
+          operation: item.operation || getOperation(item.post ?? null, item.baseRevision),
+          attempts: item.attempts || 0,
+          lastError: item.lastError || null,
+          nextAttemptAt: item.nextAttemptAt ? new Date(item.nextAttemptAt) : null,
+        })),
+        conflicts: (stored.conflicts || []).map((item: SyncConflict) => ({
+          ...item,
+          local: revivePost(item.local),
+          remote: revivePost(item.remote),
+          detectedAt: new Date(item.detectedAt),
+        })),
+        lastSyncedAt: stored.lastSyncedAt ? new Date(stored.lastSyncedAt) : null,
+      };
+    } catch (error) {
+      console.error('[同期] 同期の状態の読み込みに失敗しました', error);
+      this.state = createInitialState();
+    }
+    return this.state;
+  }
+
+  private update(recipe: (state: StoredSyncState) => StoredSyncState): void {
+    this.state = recipe(this.refresh());
+    this.save();
+  }
+
+  private save(): void {
+    const raw = JSON.stringify(this.state);
+    try {
+      this.storage.setItem(SYNC_STATE_STORAGE_KEY, raw);
+      this.cachedRaw = raw;
+    } catch (error) {
+      console.error('[同期] 同期の状態の保存に失敗しました', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,521 @@
+import type { Post, PostChangeEvent, PostSyncStatus } from '../types';
+import type { DataService } from './DataService';
+import { ChangeLogDataService } from './ChangeLogDataService';
+import { SyncChangeLog, type PendingChange, type SyncConflict, type SyncSettings } from './SyncChangeLog';
+import { SyncApiClient, type SyncRecord } from './SyncApiClient';
+
+// 同期の状態
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncEngineState {
+  status: SyncStatus;
+  settings: SyncSettings;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+  pendingCount: number;        // 送信待ちの変更の件数
+  failedCount: number;         // 送信に繰り返し失敗している変更の件数
+  nextRetryAt: Date | null;    // 次に送信する予定の日時（送信する変更がない場合はnull）
+  postStatuses: Record<string, PostSyncStatus>;  // 送信待ちの投稿ごとの状態
+  conflicts: SyncConflict[];   // 手動での解決を待つ競合
+}
+
+// 1回の同期の結果
+export interface SyncResult {
+  pulled: number;     // この端末に反映した変更の件数
+  pushed: number;     // サーバーに送信した変更の件数
+  conflicts: number;  // 手動での解決を待つ競合の件数
+}
+
+// 競合の解決方法
+export type ConflictResolution =
+  | { type: 'local' }                                  // この端末の内容を残す
+  | { type: 'remote' }                                 // サーバーの内容を残す
+  | { type: 'merged'; content: string; tags: string[] };  // 編集した内容で保存する
+
+// 送信待ちの変更と、保存先から読み直した変更後の投稿（nullの場合は完全に削除）
+export interface LocalChange extends PendingChange {
+  post: Post | null;
+}
+
+/**
+ * 競合の自動解決の判定結果
+ * - same: 内容が同じため解決不要
+ * - local / remote: 変更日時（updatedAt）が新しい方を残す
+ * - manual: 本文が両方で編集されたため、利用者が選ぶ
+ */
+export type ConflictDecision = 'same' | 'local' | 'remote' | 'manual';
+
+// 送信の再試行回数（送信中に他の端末の変更と競合した場合に送り直す）
+const MAX_PUSH_ATTEMPTS = 3;
+
+// この回数続けて送信に失敗した変更は「送信失敗」として表示する
+const FAILED_ATTEMPTS_THRESHOLD = 3;
+
+/**
+ * 投稿の本文の暗号化（EncryptedDataServiceが実装する）
+ * 変更ログと同期サーバーには暗号文のまま渡し、競合の判定・表示・解決の時だけ使う
+ */
+export interface SyncContentCipher {
+  encryptContent(content: string): Promise<string>;
+  decryptContent(content: string): Promise<string>;
+}
+
+// 同期エラー
+export class SyncError extends Error {
+  public operation: string;
+  public originalError?: Error;
+
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message);
+    this.name = 'SyncError';
+    this.operation = operation;
+    this.originalError = originalError;
+  }
+}
+
+const isSameTags = (a: Post, b: Post): boolean =>
+  JSON.stringify([...(a.tags || [])].sort()) === JSON.stringify([...(b.tags || [])].sort());
+
+const isSameTrashState = (a: Post, b: Post): boolean =>
+  Boolean(a.deletedAt) === Boolean(b.deletedAt);
+
+/**
+ * 送信待ちの変更とサーバーの変更が競合した場合の解決方法を判定する
+ * 本文が両方で書き換えられた場合は、どちらかの文章が失われるため手動で解決する
+ * それ以外（タグ・ゴミ箱の状態・完全削除）は、変更日時が新しい方を残す
+ */
+export function decideConflict(local: LocalChange, remote: SyncRecord): ConflictDecision {
+  if (!local.post && !remote.post) {
+    return 'same';
+  }
+
+  if (local.post && remote.post) {
+    if (local.post.content === remote.post.content && isSameTags(local.post, remote.post) && isSameTrashState(local.post, remote.post)) {
+      return 'same';
+    }
+    if (local.post.content !== remote.post.content && !local.post.deletedAt && !remote.post.deletedAt) {
+      return 'manual';
+    }
+  }
+
+  return local.changedAt.getTime() > remote.updatedAt.getTime() ? 'local' : 'remote';
+}
+
+/**
+ * 同期サーバーとの同期を行うエンジン
+ *
+ * 1. pull: 前回以降にサーバーで変更された投稿を取得し、この端末に反映する
+ *    送信待ちの変更と競合した場合は decideConflict で解決する
+ * 2. push: 送信待ちの変更を、保存先から読み直した投稿で送信する
+ *    サーバーの投稿が変更の元になったリビジョンから変わっていた場合は競合として扱う
+ */
+export class SyncEngine {
+  private dataService: ChangeLogDataService;
+  private changeLog: SyncChangeLog;
+  private createClient: (settings: SyncSettings) => SyncApiClient;
+  private cipher: SyncContentCipher | null = null;
+  private status: SyncStatus;
+  private lastError: string | null = null;
+  private syncPromise: Promise<SyncResult> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    dataService: ChangeLogDataService,
+    changeLog: SyncChangeLog,
+    createClient: (settings: SyncSettings) => SyncApiClient = settings =>
+      new SyncApiClient(settings.serverUrl!, { token: settings.token || undefined })
+  ) {
+    this.dataService = dataService;
+    this.changeLog = changeLog;
+    this.createClient = createClient;
+    this.status = changeLog.isEnabled() ? 'idle' : 'disabled';
+    // 投稿の変更で送信待ちの変更が増えた場合も、状態の変化として通知する
+    changeLog.subscribe(() => this.emit());
+  }
+
+  getState(): SyncEngineState {
+    const pending = this.changeLog.getPendingChanges();
+    const conflicts = this.changeLog.getConflicts();
+    const conflictIds = new Set(conflicts.map(conflict => conflict.postId));
+
+    const postStatuses: Record<string, PostSyncStatus> = {};
+    pending.forEach(change => {
+      postStatuses[change.postId] = change.attempts >= FAILED_ATTEMPTS_THRESHOLD ? 'failed' : 'pending';
+    });
+
+    // 競合の解決を待つ変更は送信しないため、次の送信予定には含めない
+    const retryTimes = pending
+      .filter(change => !conflictIds.has(change.postId))
+      .map(change => change.nextAttemptAt ? change.nextAttemptAt.getTime() : 0);
+
+    return {
+      status: this.status,
+      settings: this.changeLog.getSettings(),
+      lastSyncedAt: this.changeLog.lastSyncedAt,
+      lastError: this.lastError,
+      pendingCount: pending.length,
+      failedCount: Object.values(postStatuses).filter(status => status === 'failed').length,
+      nextRetryAt: retryTimes.length > 0 ? new Date(Math.min(...retryTimes)) : null,
+      postStatuses,
+      conflicts,
+    };
+  }
+
+  /**
+   * 状態の変化を購読する
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 本文の暗号化を設定する（暗号化が無効、またはロック中の場合はnull）
+   */
+  setContentCipher(cipher: SyncContentCipher | null): void {
+    this.cipher = cipher;
+    this.emit();
+  }
+
+  /**
+   * 本文を復号した競合（画面表示用。getStateの競合は暗号文のまま）
+   */
+  getReadableConflicts(): Promise<SyncConflict[]> {
+    return Promise.all(this.changeLog.getConflicts().map(async conflict => ({
+      ...conflict,
+      local: await this.decryptPost(conflict.local),
+      remote: await this.decryptPost(conflict.remote),
+    })));
+  }
+
+  /**
+   * 接続先を設定する（serverUrlをnullにすると同期を無効にする）
+   */
+  setSettings(settings: SyncSettings): void {
+    const serverUrl = settings.serverUrl ? settings.serverUrl.trim() : null;
+    if (serverUrl && !/^https?:\/\/[^\s]+$/.test(serverUrl)) {
+      throw new SyncError('同期サーバーのURLはhttp://またはhttps://で始まる必要があります', 'setSettings');
+    }
+
+    this.changeLog.setSettings({ serverUrl: serverUrl || null, token: settings.token?.trim() || null });
+    this.status = serverUrl ? 'idle' : 'disabled';
+    this.lastError = null;
+    this.emit();
+  }
+
+  /**
+   * 同期を実行する（実行中に呼び出された場合は、実行中の同期の結果を返す）
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.changeLog.isEnabled()) {
+      return Promise.reject(new SyncError('同期サーバーが設定されていません', 'sync'));
+    }
+
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * 送信の待ち時間を取り消し、送信待ちの変更をすぐに全て送信する
+   */
+  retryAll(): Promise<SyncResult> {
+    this.changeLog.resetAttempts();
+    return this.sync();
+  }
+
+  /**
+   * 手動で競合を解決する（解決した内容は次の同期で送信する）
+   * サーバーの内容を選んだ場合も、この端末の内容は編集履歴に残る
+   */
+  async resolveConflict(postId: string, resolution: ConflictResolution): Promise<void> {
+    const conflict = this.changeLog.getConflicts().find(item => item.postId === postId);
+    if (!conflict) {
+      throw new SyncError('指定された競合が見つかりません', 'resolveConflict');
+    }
+
+    const inner = this.dataService.innerService;
+    switch (resolution.type) {
+      case 'remote':
+        if (conflict.remote && !conflict.remote.deletedAt && await inner.getPost(postId)) {
+          // この端末の内容を編集履歴に残してから、サーバーの内容で上書きする
+          await inner.updatePost(postId, { content: conflict.remote.content, tags: conflict.remote.tags || [] });
+        }
+        await this.applyRemote({ postId, post: conflict.remote });
+        this.changeLog.setKnownRevision(postId, conflict.remoteRevision);
+        this.changeLog.removePending(postId);
+        break;
+      case 'local':
+        this.changeLog.setKnownRevision(postId, conflict.remoteRevision);
+        this.changeLog.rebasePending(postId, conflict.remoteRevision);
+        break;
+      case 'merged':
+        this.changeLog.setKnownRevision(postId, conflict.remoteRevision);
+        this.changeLog.rebasePending(postId, conflict.remoteRevision);
+        await this.dataService.updatePost(postId, {
+          content: this.cipher ? await this.cipher.encryptContent(resolution.content) : resolution.content,
+          tags: resolution.tags
+        });
+        this.dataService.notifyRemoteChanges({ created: [], updated: [postId], deleted: [] });
+        break;
+    }
+
+    this.changeLog.removeConflict(postId);
+    this.emit();
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    this.status = 'syncing';
+    this.lastError = null;
+    this.emit();
+
+    try {
+      const client = this.createClient(this.changeLog.getSettings());
+
+      // 初回は、この端末の既存の投稿を全て送信対象にする
+      if (!this.changeLog.isInitialized) {
+        await this.enqueueLocalPosts();
+        this.changeLog.markInitialized();
+      }
+
+      const pulled = await this.pull(client);
+      const pushed = await this.push(client);
+
+      this.changeLog.markSynced(new Date());
+      this.status = 'idle';
+      return { pulled, pushed, conflicts: this.changeLog.getConflicts().length };
+    } catch (error) {
+      this.status = 'error';
+      this.lastError = error instanceof Error ? error.message : '同期中にエラーが発生しました';
+      // 送信できなかった変更は、待ち時間を延ばしてから送り直す
+      this.changeLog.markAttemptFailed(this.getDueChanges().map(change => change.postId), this.lastError);
+      console.error('[同期] 同期に失敗しました', error);
+      throw error;
+    } finally {
+      this.emit();
+    }
+  }
+
+  private async enqueueLocalPosts(): Promise<void> {
+    const inner = this.dataService.innerService;
+    const posts = [...await inner.getAllPosts(), ...await inner.getTrashedPosts()];
+    posts.forEach(post => {
+      if (!this.changeLog.getPending(post.id)) {
+        this.changeLog.record(post.id, post, post.updatedAt);
+      }
+    });
+  }
+
+  private async pull(client: SyncApiClient): Promise<number> {
+    let applied = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await client.pullChanges(this.changeLog.cursor);
+      for (const record of response.records) {
+        if (await this.handleRemoteRecord(record)) {
+          applied++;
+        }
+      }
+      this.changeLog.setCursor(response.cursor);
+      hasMore = response.hasMore && response.records.length > 0;
+    }
+
+    return applied;
+  }
+
+  /**
+   * 送信する時期になった変更（競合の解決を待つ変更を除く、変更した順）
+   */
+  private getDueChanges(now: Date = new Date()): PendingChange[] {
+    const conflictIds = new Set(this.changeLog.getConflicts().map(conflict => conflict.postId));
+    return this.changeLog.getPendingChanges()
+      .filter(change =>
+        !conflictIds.has(change.postId) &&
+        (!change.nextAttemptAt || change.nextAttemptAt.getTime() <= now.getTime())
+      )
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+
+  private async push(client: SyncApiClient): Promise<number> {
+    let pushed = 0;
+
+    for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt++) {
+      const changes = this.getDueChanges();
+      if (changes.length === 0) {
+        break;
+      }
+
+      const posts = await this.loadLocalPosts(changes.map(change => change.postId));
+      const response = await client.pushChanges(this.changeLog.clientId, changes.map(change => ({
+        postId: change.postId,
+        baseRevision: change.baseRevision,
+        post: posts.get(change.postId) ?? null,
+        updatedAt: change.changedAt,
+      })));
+
+      for (const result of response.results) {
+        const change = changes.find(item => item.postId === result.postId);
+        if (!change) {
+          continue;
+        }
+
+        if (result.status === 'applied') {
+          this.changeLog.setKnownRevision(result.postId, result.revision);
+          this.changeLog.removePending(result.postId, change.changedAt);
+          pushed++;
+        } else if (result.record) {
+          // 送信までの間に他の端末が変更していた
+          await this.handleRemoteRecord(result.record);
+        } else {
+          // サーバーに投稿がない（サーバーのデータが初期化された）場合は新規として送り直す
+          this.changeLog.rebasePending(result.postId, null);
+        }
+      }
+    }
+
+    // 他の端末の変更と競合し続けて送信できなかった変更は、時間をおいて送り直す
+    const remaining = this.getDueChanges();
+    if (remaining.length > 0) {
+      this.changeLog.markAttemptFailed(
+        remaining.map(change => change.postId),
+        '他の端末の変更と競合したため送信できませんでした'
+      );
+    }
+
+    return pushed;
+  }
+
+  /**
+   * サーバーの変更を反映する
+   * @returns この端末のデータを書き換えた場合はtrue
+   */
+  private async handleRemoteRecord(record: SyncRecord): Promise<boolean> {
+    const knownRevision = this.changeLog.getKnownRevision(record.postId);
+    if (knownRevision !== null && record.revision <= knownRevision) {
+      // 反映済み（自分が送信した変更を含む）
+      return false;
+    }
+
+    const pending = this.changeLog.getPending(record.postId);
+    if (!pending) {
+      await this.applyRemote(record);
+      this.changeLog.setKnownRevision(record.postId, record.revision);
+      return true;
+    }
+
+    const localPost = (await this.loadLocalPosts([record.postId])).get(record.postId) ?? null;
+    // 暗号文は暗号化するたびに異なるため、復号した本文で比べる
+    const decision = decideConflict(
+      { ...pending, post: await this.decryptPost(localPost) },
+      { ...record, post: await this.decryptPost(record.post) }
+    );
+    switch (decision) {
+      case 'same':
+        this.changeLog.setKnownRevision(record.postId, record.revision);
+        this.changeLog.removePending(record.postId);
+        return false;
+      case 'remote':
+        await this.applyRemote(record);
+        this.changeLog.setKnownRevision(record.postId, record.revision);
+        this.changeLog.removePending(record.postId);
+        return true;
+      case 'local':
+        // この端末の変更でサーバーの内容を上書きする
+        this.changeLog.setKnownRevision(record.postId, record.revision);
+        this.changeLog.rebasePending(record.postId, record.revision);
+        return false;
+      case 'manual':
+        this.changeLog.addConflict({
+          postId: record.postId,
+          local: localPost,
+          remote: record.post,
+          remoteRevision: record.revision,
+          detectedAt: new Date(),
+        });
+        return false;
+    }
+  }
+
+  /**
+   * 送信待ちの変更の投稿を保存先から読み直す（ゴミ箱の投稿を含む。完全に削除された投稿はnull）
+   */
+  private async loadLocalPosts(postIds: string[]): Promise<Map<string, Post | null>> {
+    const inner = this.dataService.innerService;
+    const posts = new Map<string, Post | null>();
+    let trashedPosts: Map<string, Post> | null = null;
+
+    for (const postId of postIds) {
+      let post = await inner.getPost(postId);
+      if (!post) {
+        trashedPosts ??= new Map((await inner.getTrashedPosts()).map(item => [item.id, item]));
+        post = trashedPosts.get(postId) ?? null;
+      }
+      posts.set(postId, post);
+    }
+    return posts;
+  }
+
+  /**
+   * サーバーの内容をこの端末に書き込む（変更ログには記録しない）
+   */
+  private async applyRemote(record: Pick<SyncRecord, 'postId' | 'post'>): Promise<void> {
+    const inner = this.dataService.innerService;
+    const change: PostChangeEvent = { created: [], updated: [], deleted: [] };
+
+    if (record.post) {
+      if (!inner.importPosts) {
+        throw new SyncError('このデータサービスは同期に対応していません', 'applyRemote');
+      }
+      await inner.importPosts([record.post], [], { overwrite: true });
+      if (record.post.deletedAt) {
+        change.deleted.push(record.postId);
+      } else {
+        change.updated.push(record.postId);
+      }
+    } else {
+      // 完全に削除された投稿（ゴミ箱に移動してから完全に削除する）
+      if (await inner.getPost(record.postId)) {
+        await inner.deletePost(record.postId);
+      }
+      if ((await inner.getTrashedPosts()).some(post => post.id === record.postId)) {
+        await inner.purgePost(record.postId);
+      }
+      change.deleted.push(record.postId);
+    }
+
+    this.dataService.notifyRemoteChanges(change);
+  }
+
+  private async decryptPost(post: Post | null): Promise<Post | null> {
+    if (!post || !this.cipher) {
+      return post;
+    }
+    return { ...post, content: await this.cipher.decryptContent(post.content) };
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * データサービスを変更ログで包み、同期エンジンを作成する
+ * 暗号化する場合は、返されたデータサービスをEncryptedDataServiceで包む（変更ログに平文を残さない）
+ * @param service 保存先のデータサービス
+ * @param storage 同期の状態を保存するストレージ
+ */
+export function createSyncEngine(
+  service: DataService,
+  storage?: Storage
+): { dataService: ChangeLogDataService; syncEngine: SyncEngine } {
+  const changeLog = new SyncChangeLog(storage);
+  const dataService = new ChangeLogDataService(service, changeLog);
+  return { dataService, syncEngine: new SyncEngine(dataService, changeLog) };
+}
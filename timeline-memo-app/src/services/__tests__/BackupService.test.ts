@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryDataService } from '../MemoryDataService';
+import {
+  exportBackup,
+  parseBackup,
+  planBackupImport,
+  applyBackupImport,
+  BackupError,
+  BACKUP_FORMAT,
+  BACKUP_VERSION
+} from '../BackupService';
+import { createMockPost } from '../../test/fixtures/testData';
+
+describe('BackupService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // 編集履歴・ゴミ箱・ピン留めを含む投稿を作成する
+  const createSourceService = async () => {
+    const service = new MemoryDataService();
+    vi.setSystemTime(new Date('2024-01-01T10:00:00Z'));
+    const edited = await service.createPost({ content: '最初の内容', tags: ['日記'] });
+    const trashed = await service.createPost({ content: '削除する投稿' });
+    vi.setSystemTime(new Date('2024-01-02T10:00:00Z'));
+    await service.updatePost(edited.id, { content: '編集した内容' });
+    await service.updatePostFlags(edited.id, { pinned: true, starred: true });
+    await service.deletePost(trashed.id);
+    return { service, editedId: edited.id, trashedId: trashed.id };
+  };
+
+  it('書き出したファイルを取り込むと、投稿・ゴミ箱・編集履歴が元どおりになる', async () => {
+    const { service, editedId } = await createSourceService();
+
+    const document = await exportBackup(service, new Date('2024-01-03T00:00:00Z'));
+    expect(document).toMatchObject({
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: '2024-01-03T00:00:00.000Z',
+      metadata: { postCount: 2, trashedCount: 1, revisionCount: 1 }
+    });
+
+    const backup = parseBackup(JSON.stringify(document));
+    expect(backup.issues).toEqual([]);
+
+    const target = new MemoryDataService();
+    const plan = planBackupImport(backup, [], 'skip');
+    expect(plan.added).toHaveLength(2);
+    expect(await applyBackupImport(target, plan)).toBe(2);
+
+    expect(await target.getAllPosts()).toEqual(await service.getAllPosts());
+    expect(await target.getTrashedPosts()).toEqual(await service.getTrashedPosts());
+    expect(await target.getRevisions(editedId)).toEqual(await service.getRevisions(editedId));
+  });
+
+  it('無効な投稿と、投稿のない編集履歴は取り込まない', () => {
+    const backup = parseBackup(JSON.stringify({
+      format: BACKUP_FORMAT,
+      version: 1,
+      exportedAt: '2024-01-03T00:00:00.000Z',
+      posts: [
+        { id: 'valid', content: '有効な投稿', createdAt: '2024-01-01T10:00:00.000Z', updatedAt: '2024-01-01T10:00:00.000Z', extra: 'x' },
+        { id: 'invalid', content: '', createdAt: '2024-01-01T10:00:00.000Z', updatedAt: '2024-01-01T10:00:00.000Z' }
+      ],
+      revisions: [
+        { id: 'revision', postId: 'valid', content: '前の内容', createdAt: '2024-01-01T09:00:00.000Z' },
+        { id: 'orphan', postId: 'invalid', content: '前の内容', createdAt: '2024-01-01T09:00:00.000Z' }
+      ]
+    }));
+
+    expect(backup.posts).toEqual([{
+      id: 'valid',
+      content: '有効な投稿',
+      createdAt: new Date('2024-01-01T10:00:00.000Z'),
+      updatedAt: new Date('2024-01-01T10:00:00.000Z')
+    }]);
+    expect(backup.revisions.map(revision => revision.id)).toEqual(['revision']);
+    expect(backup.issues).toEqual(['1件の無効な投稿が除外されました', '1件の無効な編集履歴が除外されました']);
+  });
+
+  it('投稿のみの古い形式のファイルも取り込み、新しいバージョンや別のファイルはエラーにする', () => {
+    const legacy = parseBackup(JSON.stringify({
+      exportedAt: '2024-01-03T00:00:00.000Z',
+      posts: [{ id: 'legacy', content: '古い形式', createdAt: '2024-01-01T10:00:00.000Z', updatedAt: '2024-01-01T10:00:00.000Z' }]
+    }));
+    expect(legacy.version).toBe(0);
+    expect(legacy.posts.map(post => post.id)).toEqual(['legacy']);
+
+    expect(() => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1, posts: [] })))
+      .toThrow('新しいバージョンのアプリで書き出したファイル');
+    expect(() => parseBackup(JSON.stringify({ format: 'other', version: 1, posts: [] }))).toThrow(BackupError);
+    expect(() => parseBackup('not json')).toThrow('JSONとして読み込めないファイルです');
+  });
+
+  describe('planBackupImport', () => {
+    const existing = createMockPost({ id: 'same-id', content: '既存の投稿', updatedAt: new Date('2024-01-01T10:00:00Z') });
+    const unchanged = createMockPost({ id: 'unchanged', content: '同じ投稿' });
+    const backup = {
+      posts: [
+        createMockPost({ id: 'same-id', content: 'バックアップの投稿', updatedAt: new Date('2024-01-02T10:00:00Z') }),
+        { ...unchanged },
+        createMockPost({ id: 'new', content: '新しい投稿' })
+      ],
+      revisions: [
+        { id: 'revision', postId: 'same-id', content: 'バックアップの前の内容', createdAt: new Date('2024-01-01T12:00:00Z') }
+      ]
+    };
+    let nextId = 0;
+    const createId = () => `generated-${++nextId}`;
+
+    beforeEach(() => {
+      nextId = 0;
+    });
+
+    it('同じ内容の投稿は取り込み方に関わらず取り込まない', () => {
+      (['skip', 'overwrite', 'keepBoth'] as const).forEach(strategy => {
+        const plan = planBackupImport(backup, [existing, unchanged], strategy, createId);
+        expect(plan.unchangedCount).toBe(1);
+        expect(plan.added.map(post => post.id)).toEqual(['new']);
+      });
+    });
+
+    it('スキップ・上書き・両方残すで、重複した投稿と編集履歴の扱いを変える', () => {
+      const skip = planBackupImport(backup, [existing], 'skip', createId);
+      expect(skip.skipped.map(post => post.id)).toEqual(['same-id']);
+      expect(skip.posts.map(post => post.id)).toEqual(['unchanged', 'new']);
+      expect(skip.revisions).toEqual([]);
+
+      const overwrite = planBackupImport(backup, [existing], 'overwrite', createId);
+      expect(overwrite.overwritten.map(post => post.content)).toEqual(['バックアップの投稿']);
+      expect(overwrite.revisions).toEqual(backup.revisions);
+
+      const keepBoth = planBackupImport(backup, [existing], 'keepBoth', createId);
+      expect(keepBoth.duplicated).toEqual([{ ...backup.posts[0], id: 'generated-1' }]);
+      expect(keepBoth.revisions).toEqual([{ ...backup.revisions[0], id: 'generated-2', postId: 'generated-1' }]);
+    });
+
+    it('両方残す場合は既存の投稿を変更せずに別の投稿として保存する', async () => {
+      const service = new MemoryDataService();
+      await service.importPosts([existing]);
+
+      const plan = planBackupImport(backup, [existing], 'keepBoth', createId);
+      await applyBackupImport(service, plan);
+
+      expect(await service.getPost('same-id')).toMatchObject({ content: '既存の投稿' });
+      expect(await service.getPost('generated-1')).toMatchObject({ content: 'バックアップの投稿' });
+      expect(await service.getRevisions('generated-1')).toHaveLength(1);
+      expect(await service.getRevisions('same-id')).toEqual([]);
+    });
+  });
+});
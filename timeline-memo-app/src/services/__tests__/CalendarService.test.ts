@@ -8,9 +8,25 @@ const mockDataService: DataService = {
   createPost: vi.fn(),
   updatePost: vi.fn(),
   deletePost: vi.fn(),
+  createPosts: vi.fn(),
+  updatePosts: vi.fn(),
+  deletePosts: vi.fn(),
+  updatePostFlags: vi.fn(),
+  getPinnedPosts: vi.fn(),
+  getStarredPosts: vi.fn(),
+  getStorageUsage: vi.fn(),
   getPost: vi.fn(),
   getAllPosts: vi.fn(),
   getPostsByDateRange: vi.fn(),
+  getPostsPage: vi.fn(),
+  getPostsByTag: vi.fn(),
+  searchPosts: vi.fn(),
+  getTrashedPosts: vi.fn(),
+  restorePost: vi.fn(),
+  purgePost: vi.fn(),
+  purgeTrashedPosts: vi.fn(),
+  getRevisions: vi.fn(),
+  restoreRevision: vi.fn(),
 };
 
 describe('CalendarService', () => {
@@ -0,0 +1,486 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import type { DataService } from '../DataService';
+import { IndexedDBService } from '../IndexedDBService';
+import { MemoryDataService } from '../MemoryDataService';
+import { LocalStorageDataService } from '../LocalStorageDataService';
+import { createDemoPosts } from '../demoData';
+import { createMockPosts } from '../../test/fixtures/testData';
+import type { AttachmentStore, CreateAttachmentInput } from '../../types';
+
+interface ContractSubject {
+  create: () => DataService;
+  dispose: (service: DataService) => Promise<void>;
+  supportsAttachments?: boolean; // 画像の添付に対応しているか
+}
+
+// 添付画像のテスト用の入力
+const createAttachmentInput = (bytes: number[] = [1, 2, 3, 4]): CreateAttachmentInput => ({
+  fileName: 'photo.png',
+  mimeType: 'image/png',
+  size: bytes.length,
+  width: 2,
+  height: 2,
+  data: new Uint8Array(bytes).buffer,
+  thumbnail: null
+});
+
+/**
+ * DataServiceの実装が満たすべき振る舞いのテスト
+ * 全ての実装で同じテストを実行し、実装ごとの差異を防ぐ
+ */
+function describeDataServiceContract(name: string, subject: ContractSubject) {
+  describe(`${name} (DataService契約)`, () => {
+    let service: DataService;
+
+    // 指定した日時に投稿を作成する
+    const createPostAt = async (date: string, content: string, tags?: string[]) => {
+      vi.setSystemTime(new Date(date));
+      return service.createPost({ content, tags });
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      service = subject.create();
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      await subject.dispose(service);
+    });
+
+    describe('作成・取得', () => {
+      it('本文を整形し、タグを正規化して作成する', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '  新しい投稿  ', ['#日記', '日記', ' 仕事 ']);
+
+        expect(post).toMatchObject({ content: '新しい投稿', tags: ['日記', '仕事'] });
+        expect(post.createdAt).toEqual(new Date('2024-01-01T10:00:00Z'));
+        expect(await service.getPost(post.id)).toEqual(post);
+      });
+
+      it('投稿日時を指定して過去の日付で作成する（未来の日時は指定できない）', async () => {
+        vi.setSystemTime(new Date('2024-01-02T09:00:00Z'));
+        const post = await service.createPost({ content: '昨日の日記', createdAt: new Date('2024-01-01T21:00:00Z') });
+
+        expect(post.createdAt).toEqual(new Date('2024-01-01T21:00:00Z'));
+        expect(post.updatedAt).toEqual(post.createdAt);
+        expect(await service.getPostsByDateRange(new Date('2024-01-01T00:00:00Z'), new Date('2024-01-01T23:59:59Z')))
+          .toEqual([post]);
+        await expect(service.createPost({ content: '明日の日記', createdAt: new Date('2024-01-03T00:00:00Z') }))
+          .rejects.toThrow('未来の日時は指定できません');
+      });
+
+      it('空の本文では作成できない', async () => {
+        await expect(service.createPost({ content: '   ' })).rejects.toThrow('コンテンツが空です');
+      });
+
+      it('存在しない投稿はnullを返す', async () => {
+        expect(await service.getPost('missing')).toBeNull();
+      });
+    });
+
+    describe('一覧・検索', () => {
+      beforeEach(async () => {
+        await createPostAt('2024-01-01T10:00:00Z', '元日の投稿', ['日記']);
+        await createPostAt('2024-01-02T10:00:00Z', '会議のメモ', ['仕事']);
+        await createPostAt('2024-01-03T10:00:00Z', '読書の記録', ['日記', '読書']);
+      });
+
+      it('全件を新しい順に取得する', async () => {
+        const posts = await service.getAllPosts();
+        expect(posts.map(post => post.content)).toEqual(['読書の記録', '会議のメモ', '元日の投稿']);
+      });
+
+      it('日付範囲（両端を含む）で取得し、不正な範囲は拒否する', async () => {
+        const posts = await service.getPostsByDateRange(
+          new Date('2024-01-01T10:00:00Z'),
+          new Date('2024-01-02T10:00:00Z')
+        );
+        expect(posts.map(post => post.content)).toEqual(['会議のメモ', '元日の投稿']);
+
+        await expect(service.getPostsByDateRange(
+          new Date('2024-01-02T00:00:00Z'),
+          new Date('2024-01-01T00:00:00Z')
+        )).rejects.toThrow();
+      });
+
+      it('カーソルでページ単位に取得する', async () => {
+        const firstPage = await service.getPostsPage({ limit: 2 });
+        expect(firstPage.posts.map(post => post.content)).toEqual(['読書の記録', '会議のメモ']);
+        expect(firstPage.nextCursor).toEqual({ createdAt: new Date('2024-01-02T10:00:00Z'), id: firstPage.posts[1].id });
+
+        const secondPage = await service.getPostsPage({ before: firstPage.nextCursor!, limit: 2 });
+        expect(secondPage.posts.map(post => post.content)).toEqual(['元日の投稿']);
+        expect(secondPage.nextCursor).toBeNull();
+
+        await expect(service.getPostsPage({ limit: 0 })).rejects.toThrow();
+      });
+
+      it('タグで取得する（先頭の#は無視する）', async () => {
+        const posts = await service.getPostsByTag('#日記');
+        expect(posts.map(post => post.content)).toEqual(['読書の記録', '元日の投稿']);
+      });
+
+      it('本文とタグを全文検索する', async () => {
+        expect((await service.searchPosts('会議')).map(post => post.content)).toEqual(['会議のメモ']);
+        expect((await service.searchPosts('読書')).map(post => post.content)).toEqual(['読書の記録']);
+        expect(await service.searchPosts('   ')).toEqual([]);
+      });
+    });
+
+    describe('更新・編集履歴', () => {
+      it('更新すると変更前のバージョンを履歴に残し、復元できる', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '最初の本文', ['日記']);
+        vi.setSystemTime(new Date('2024-01-01T11:00:00Z'));
+        const updated = await service.updatePost(post.id, { content: '書き直した本文' });
+
+        expect(updated.content).toBe('書き直した本文');
+        expect(updated.updatedAt).toEqual(new Date('2024-01-01T11:00:00Z'));
+        expect(updated.tags).toEqual(['日記']);
+
+        const revisions = await service.getRevisions(post.id);
+        expect(revisions).toHaveLength(1);
+        expect(revisions[0]).toMatchObject({ postId: post.id, content: '最初の本文' });
+
+        vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+        const restored = await service.restoreRevision(post.id, revisions[0].id);
+        expect(restored.content).toBe('最初の本文');
+        expect((await service.getRevisions(post.id)).map(revision => revision.content))
+          .toEqual(['書き直した本文', '最初の本文']);
+      });
+
+      it('内容が変わらない更新は履歴に残さない', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '本文', ['日記']);
+        await service.updatePost(post.id, { tags: ['#日記'] });
+
+        expect(await service.getRevisions(post.id)).toEqual([]);
+      });
+
+      it('投稿日時を変更できる（編集履歴には残さない）', async () => {
+        const post = await createPostAt('2024-01-02T10:00:00Z', '本文');
+        vi.setSystemTime(new Date('2024-01-02T11:00:00Z'));
+        const updated = await service.updatePost(post.id, { createdAt: new Date('2024-01-01T22:00:00Z') });
+
+        expect(updated).toMatchObject({ content: '本文', createdAt: new Date('2024-01-01T22:00:00Z') });
+        expect(updated.updatedAt).toEqual(new Date('2024-01-02T11:00:00Z'));
+        expect(await service.getRevisions(post.id)).toEqual([]);
+        await expect(service.updatePost(post.id, { createdAt: new Date('invalid') })).rejects.toThrow('投稿日時が無効です');
+      });
+
+      it('存在しない投稿や空の本文では更新できない', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '本文');
+
+        await expect(service.updatePost('missing', { content: '本文' })).rejects.toThrow();
+        await expect(service.updatePost(post.id, { content: '' })).rejects.toThrow('コンテンツが空です');
+      });
+    });
+
+    describe('ゴミ箱', () => {
+      it('削除した投稿はゴミ箱に移動し、復元できる', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '消す投稿', ['日記']);
+        vi.setSystemTime(new Date('2024-01-02T10:00:00Z'));
+        await service.deletePost(post.id);
+
+        expect(await service.getPost(post.id)).toBeNull();
+        expect(await service.getAllPosts()).toEqual([]);
+        expect(await service.searchPosts('消す')).toEqual([]);
+        expect(await service.getPostsByTag('日記')).toEqual([]);
+
+        const trashed = await service.getTrashedPosts();
+        expect(trashed.map(item => item.id)).toEqual([post.id]);
+        expect(trashed[0].deletedAt).toEqual(new Date('2024-01-02T10:00:00Z'));
+
+        const restored = await service.restorePost(post.id);
+        expect(restored.deletedAt).toBeUndefined();
+        expect(await service.getPost(post.id)).toEqual(restored);
+        expect(await service.getTrashedPosts()).toEqual([]);
+      });
+
+      it('ゴミ箱の投稿は重ねて削除できず、ゴミ箱にない投稿は復元できない', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '投稿');
+
+        await expect(service.restorePost(post.id)).rejects.toThrow();
+        await service.deletePost(post.id);
+        await expect(service.deletePost(post.id)).rejects.toThrow();
+      });
+
+      it('完全に削除すると編集履歴も消える', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '投稿');
+        await service.updatePost(post.id, { content: '編集した投稿' });
+        await service.deletePost(post.id);
+        await service.purgePost(post.id);
+
+        expect(await service.getTrashedPosts()).toEqual([]);
+        expect(await service.getRevisions(post.id)).toEqual([]);
+        await expect(service.restorePost(post.id)).rejects.toThrow();
+      });
+
+      it('指定日時より前にゴミ箱に移動した投稿のみを完全に削除する', async () => {
+        const oldPost = await createPostAt('2024-01-01T10:00:00Z', '古い投稿');
+        const newPost = await createPostAt('2024-01-01T11:00:00Z', '新しい投稿');
+        vi.setSystemTime(new Date('2024-01-05T00:00:00Z'));
+        await service.deletePost(oldPost.id);
+        vi.setSystemTime(new Date('2024-01-20T00:00:00Z'));
+        await service.deletePost(newPost.id);
+
+        expect(await service.purgeTrashedPosts(new Date('2024-01-10T00:00:00Z'))).toBe(1);
+        expect((await service.getTrashedPosts()).map(post => post.id)).toEqual([newPost.id]);
+      });
+    });
+
+    describe('一括操作', () => {
+      it('複数の投稿をまとめて作成・更新・削除する', async () => {
+        vi.setSystemTime(new Date('2024-01-01T10:00:00Z'));
+        const created = await service.createPosts([
+          { content: ' 1件目 ', tags: ['#日記'] },
+          { content: '2件目' }
+        ]);
+        expect(created.map(post => post.content)).toEqual(['1件目', '2件目']);
+        expect(created[0].tags).toEqual(['日記']);
+        expect(await service.getAllPosts()).toHaveLength(2);
+
+        vi.setSystemTime(new Date('2024-01-01T11:00:00Z'));
+        const updated = await service.updatePosts([
+          { id: created[0].id, input: { content: '書き直した1件目' } },
+          { id: created[1].id, input: { tags: ['仕事'] } }
+        ]);
+        expect(updated.map(post => post.updatedAt)).toEqual([
+          new Date('2024-01-01T11:00:00Z'),
+          new Date('2024-01-01T11:00:00Z')
+        ]);
+        expect(await service.getPost(created[1].id)).toMatchObject({ content: '2件目', tags: ['仕事'] });
+        expect((await service.getRevisions(created[0].id)).map(revision => revision.content)).toEqual(['1件目']);
+
+        await service.deletePosts(created.map(post => post.id));
+        expect(await service.getAllPosts()).toEqual([]);
+        expect(await service.getTrashedPosts()).toHaveLength(2);
+      });
+
+      it('同じ日時の投稿も、日時とIDのカーソルで1ページの件数を超えずに取りこぼさない', async () => {
+        vi.setSystemTime(new Date('2024-01-01T10:00:00Z'));
+        const created = await service.createPosts([{ content: '1件目' }, { content: '2件目' }, { content: '3件目' }]);
+        expect(created.map(post => post.createdAt)).toEqual(Array(3).fill(new Date('2024-01-01T10:00:00Z')));
+        const expectedIds = created.map(post => post.id).sort().reverse();
+
+        const first = await service.getPostsPage({ limit: 2 });
+        expect(first.posts.map(post => post.id)).toEqual(expectedIds.slice(0, 2));
+        expect(first.nextCursor).toEqual({ createdAt: new Date('2024-01-01T10:00:00Z'), id: expectedIds[1] });
+        const second = await service.getPostsPage({ limit: 2, before: first.nextCursor! });
+        expect(second.posts.map(post => post.id)).toEqual([expectedIds[2]]);
+        expect(second.nextCursor).toBeNull();
+      });
+
+      it('1件でも失敗した場合は何も変更しない', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '本文');
+
+        await expect(service.createPosts([{ content: '新しい投稿' }, { content: '' }])).rejects.toThrow();
+        await expect(service.updatePosts([
+          { id: post.id, input: { content: '書き直した本文' } },
+          { id: 'missing', input: { content: '本文' } }
+        ])).rejects.toThrow();
+        await expect(service.deletePosts([post.id, 'missing'])).rejects.toThrow();
+        await expect(service.deletePosts([post.id, post.id])).rejects.toThrow();
+
+        expect(await service.getAllPosts()).toEqual([post]);
+        expect(await service.getRevisions(post.id)).toEqual([]);
+        expect(await service.getTrashedPosts()).toEqual([]);
+      });
+    });
+
+    describe('ピン留め・スター', () => {
+      it('ピン留め・スターを付け外しする（更新日時と編集履歴は変更しない）', async () => {
+        const post = await createPostAt('2024-01-01T10:00:00Z', '本文');
+
+        vi.setSystemTime(new Date('2024-01-02T10:00:00Z'));
+        const pinned = await service.updatePostFlags(post.id, { pinned: true, starred: true });
+        expect(pinned).toMatchObject({ pinned: true, starred: true });
+        expect(pinned.updatedAt).toEqual(post.updatedAt);
+        expect(await service.getPost(post.id)).toEqual(pinned);
+        expect(await service.getAllPosts()).toEqual([pinned]);
+        expect(await service.getRevisions(post.id)).toEqual([]);
+
+        // 指定しなかったフラグはそのまま残る
+        const unpinned = await service.updatePostFlags(post.id, { pinned: false });
+        expect(unpinned.pinned).toBeUndefined();
+        expect(unpinned.starred).toBe(true);
+        expect(await service.getPost(post.id)).toEqual(unpinned);
+
+        await expect(service.updatePostFlags('missing', { starred: true })).rejects.toThrow();
+      });
+
+      it('ピン留め・スター付きの投稿のみを新しい順に取得する（ゴミ箱の投稿は除く）', async () => {
+        const older = await createPostAt('2024-01-01T10:00:00Z', '古い投稿');
+        const newer = await createPostAt('2024-01-02T10:00:00Z', '新しい投稿');
+        const trashed = await createPostAt('2024-01-03T10:00:00Z', '削除する投稿');
+        await createPostAt('2024-01-04T10:00:00Z', '目印のない投稿');
+
+        await service.updatePostFlags(older.id, { pinned: true, starred: true });
+        await service.updatePostFlags(newer.id, { starred: true });
+        await service.updatePostFlags(trashed.id, { pinned: true, starred: true });
+        await service.deletePost(trashed.id);
+
+        expect((await service.getPinnedPosts()).map(post => post.content)).toEqual(['古い投稿']);
+        expect((await service.getStarredPosts()).map(post => post.content)).toEqual(['新しい投稿', '古い投稿']);
+
+        // ゴミ箱から戻すとフラグも元どおり
+        await service.restorePost(trashed.id);
+        expect((await service.getPinnedPosts()).map(post => post.content)).toEqual(['削除する投稿', '古い投稿']);
+      });
+    });
+
+    describe('保存容量', () => {
+      it('投稿と編集履歴の使用量を種類ごとに計算する', async () => {
+        expect(await service.getStorageUsage()).toEqual({ posts: 0, revisions: 0, attachments: 0 });
+
+        const post = await createPostAt('2024-01-01T10:00:00Z', '使用量を計算する投稿');
+        const afterCreate = await service.getStorageUsage();
+        expect(afterCreate.posts).toBeGreaterThan(0);
+        expect(afterCreate.revisions).toBe(0);
+
+        await service.updatePost(post.id, { content: '編集した投稿' });
+        expect((await service.getStorageUsage()).revisions).toBeGreaterThan(0);
+      });
+    });
+
+    describe.runIf(subject.supportsAttachments)('添付画像', () => {
+      let store: AttachmentStore;
+
+      beforeEach(() => {
+        store = service.attachments!;
+      });
+
+      it('投稿に紐付けずに保存し、取得できる', async () => {
+        const attachment = await store.saveAttachment(createAttachmentInput([5, 6, 7]));
+
+        expect(attachment.postId).toBeNull();
+        const stored = await store.getAttachment(attachment.id);
+        expect(stored).toMatchObject({ id: attachment.id, fileName: 'photo.png', mimeType: 'image/png', postId: null });
+        expect(Array.from(new Uint8Array(stored!.data))).toEqual([5, 6, 7]);
+        expect(await store.getAttachment('missing')).toBeNull();
+        await expect(store.saveAttachment(createAttachmentInput([]))).rejects.toThrow();
+      });
+
+      it('投稿に紐付けた画像は、投稿を完全に削除すると消える（他の投稿には紐付け直さない）', async () => {
+        const attachment = await store.saveAttachment(createAttachmentInput());
+        const post = await createPostAt('2024-01-01T10:00:00Z', `![写真](attachment://${attachment.id})`);
+        const copiedPost = await createPostAt('2024-01-01T11:00:00Z', `![写真](attachment://${attachment.id})`);
+        await store.assignAttachments([attachment.id, 'missing'], post.id);
+        await store.assignAttachments([attachment.id], copiedPost.id);
+        expect((await store.getAttachment(attachment.id))!.postId).toBe(post.id);
+
+        await service.deletePost(post.id);
+        expect(await store.getAttachment(attachment.id)).not.toBeNull();
+
+        await service.purgePost(post.id);
+        expect(await store.getAttachment(attachment.id)).toBeNull();
+      });
+
+      it('保持期間を過ぎたゴミ箱の投稿と、紐付かないまま残った古い画像を削除する', async () => {
+        vi.setSystemTime(new Date('2024-01-01T10:00:00Z'));
+        const oldOrphan = await store.saveAttachment(createAttachmentInput());
+        const trashed = await store.saveAttachment(createAttachmentInput());
+        const post = await createPostAt('2024-01-01T10:00:00Z', '写真つきの投稿');
+        await store.assignAttachments([trashed.id], post.id);
+        await service.deletePost(post.id);
+        vi.setSystemTime(new Date('2024-01-03T10:00:00Z'));
+        const newOrphan = await store.saveAttachment(createAttachmentInput());
+
+        expect(await store.purgeOrphanAttachments(new Date('2024-01-02T00:00:00Z'))).toBe(1);
+        expect(await store.getAttachment(oldOrphan.id)).toBeNull();
+        expect(await store.getAttachment(trashed.id)).not.toBeNull();
+        expect(await store.getAttachment(newOrphan.id)).not.toBeNull();
+
+        expect(await service.purgeTrashedPosts(new Date('2024-01-02T00:00:00Z'))).toBe(1);
+        expect(await store.getAttachment(trashed.id)).toBeNull();
+      });
+
+      it('添付画像の使用量は画像のバイト数で計算する', async () => {
+        await store.saveAttachment(createAttachmentInput([1, 2, 3, 4, 5]));
+
+        expect((await service.getStorageUsage()).attachments).toBe(5);
+      });
+    });
+
+    describe('変更通知', () => {
+      it('購読を解除する関数を返し、自分自身の変更は通知しない', async () => {
+        const callback = vi.fn();
+        const unsubscribe = service.subscribeToUpdates(callback);
+
+        await service.createPost({ content: '自分の投稿' });
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(callback).not.toHaveBeenCalled();
+        expect(typeof unsubscribe).toBe('function');
+        unsubscribe();
+      });
+    });
+  });
+}
+
+describeDataServiceContract('MemoryDataService', {
+  create: () => new MemoryDataService(),
+  dispose: async () => {},
+  supportsAttachments: true
+});
+
+describeDataServiceContract('IndexedDBService', {
+  create: () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    return new IndexedDBService();
+  },
+  dispose: async (service) => {
+    await (service as IndexedDBService).close();
+    vi.unstubAllGlobals();
+  },
+  supportsAttachments: true
+});
+
+describeDataServiceContract('LocalStorageDataService', {
+  // setup.tsでテストごとに空のlocalStorageのモックが用意される
+  create: () => new LocalStorageDataService(),
+  dispose: async () => {}
+});
+
+describe('MemoryDataService', () => {
+  it('初期データを読み込み、取得した投稿を変更してもデータに影響しない', async () => {
+    const seed = createMockPosts(3);
+    const service = new MemoryDataService({ posts: seed });
+
+    const posts = await service.getAllPosts();
+    expect(posts.map(post => post.id)).toEqual(seed.map(post => post.id));
+
+    posts[0].content = '書き換え';
+    posts[0].tags!.push('追加');
+    seed[1].content = '書き換え';
+    expect(await service.getPost(seed[0].id)).toMatchObject({ content: seed[0].content, tags: ['テスト', 'サンプル'] });
+    expect((await service.getPost(seed[1].id))!.content).toBe('テスト投稿 2');
+  });
+
+  it('同じデータを共有する別のインスタンスの変更を通知する', async () => {
+    const service = new MemoryDataService();
+    const otherTab = service.connect();
+    const callback = vi.fn();
+    const unsubscribe = service.subscribeToUpdates(callback);
+
+    const post = await otherTab.createPost({ content: '別のタブの投稿' });
+    await vi.waitFor(() => {
+      expect(callback).toHaveBeenCalledWith({ created: [post.id], updated: [], deleted: [] });
+    });
+    expect(await service.getPost(post.id)).toEqual(post);
+
+    unsubscribe();
+    await otherTab.deletePost(post.id);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('お試しモードのサンプル投稿は基準日時より未来にならない', async () => {
+    const now = new Date('2024-03-10T09:30:00');
+    const service = new MemoryDataService({ posts: createDemoPosts(now) });
+    const posts = await service.getAllPosts();
+
+    expect(posts.length).toBeGreaterThan(0);
+    expect(posts.every(post => post.createdAt <= now)).toBe(true);
+  });
+});
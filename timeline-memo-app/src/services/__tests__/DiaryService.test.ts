@@ -1,26 +1,28 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { DiaryService } from '../DiaryService';
-import type { DataService, Post } from '../../types';
+import type { DataService, Post, PostRevision, CreatePostInput, UpdatePostInput, PostUpdate, PostFlags, PostsPage, PostsPageOptions, DataStorageUsage } from '../../types';
 
 // モックのDataService
 class MockDataService implements DataService {
   private posts: Post[] = [];
 
-  async createPost(content: string): Promise<Post> {
+  async createPost(input: CreatePostInput): Promise<Post> {
     const post: Post = {
       id: `post-${Date.now()}`,
-      content,
+      content: input.content,
       createdAt: new Date(),
-      updatedAt: new Date()
+      updatedAt: new Date(),
+      tags: input.tags
     };
     this.posts.push(post);
     return post;
   }
 
-  async updatePost(id: string, content: string): Promise<Post> {
+  async updatePost(id: string, input: UpdatePostInput): Promise<Post> {
     const post = this.posts.find(p => p.id === id);
     if (!post) throw new Error('投稿が見つかりません');
-    post.content = content;
+    if (input.content !== undefined) post.content = input.content;
+    if (input.tags !== undefined) post.tags = input.tags;
     post.updatedAt = new Date();
     return post;
   }
@@ -31,6 +33,37 @@ class MockDataService implements DataService {
     this.posts.splice(index, 1);
   }
 
+  async createPosts(inputs: CreatePostInput[]): Promise<Post[]> {
+    return Promise.all(inputs.map(input => this.createPost(input)));
+  }
+
+  async updatePosts(updates: PostUpdate[]): Promise<Post[]> {
+    return Promise.all(updates.map(({ id, input }) => this.updatePost(id, input)));
+  }
+
+  async deletePosts(ids: string[]): Promise<void> {
+    await Promise.all(ids.map(id => this.deletePost(id)));
+  }
+
+  async updatePostFlags(id: string, flags: PostFlags): Promise<Post> {
+    const post = this.posts.find(p => p.id === id);
+    if (!post) throw new Error('投稿が見つかりません');
+    Object.assign(post, flags);
+    return post;
+  }
+
+  async getPinnedPosts(): Promise<Post[]> {
+    return (await this.getAllPosts()).filter(post => post.pinned);
+  }
+
+  async getStarredPosts(): Promise<Post[]> {
+    return (await this.getAllPosts()).filter(post => post.starred);
+  }
+
+  async getStorageUsage(): Promise<DataStorageUsage> {
+    return { posts: JSON.stringify(this.posts).length, revisions: 0, attachments: 0 };
+  }
+
   async getPost(id: string): Promise<Post | null> {
     return this.posts.find(p => p.id === id) || null;
   }
@@ -45,7 +78,58 @@ class MockDataService implements DataService {
     ).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  subscribeToUpdates(_callback: (posts: Post[]) => void): () => void {
+  async getPostsPage({ before, limit }: PostsPageOptions): Promise<PostsPage> {
+    const posts = this.posts
+      .filter(post => !before || post.createdAt < before.createdAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const page = posts.slice(0, limit);
+    const lastPost = page[page.length - 1];
+    return {
+      posts: page,
+      nextCursor: posts.length > limit ? { createdAt: lastPost.createdAt, id: lastPost.id } : null
+    };
+  }
+
+  async getPostsByTag(tag: string): Promise<Post[]> {
+    return this.posts.filter(post => post.tags?.includes(tag))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async searchPosts(query: string): Promise<Post[]> {
+    return this.posts.filter(post => post.content.includes(query))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getTrashedPosts(): Promise<Post[]> {
+    return this.posts.filter(post => post.deletedAt);
+  }
+
+  async restorePost(id: string): Promise<Post> {
+    const post = this.posts.find(p => p.id === id && p.deletedAt);
+    if (!post) throw new Error('投稿が見つかりません');
+    delete post.deletedAt;
+    return post;
+  }
+
+  async purgePost(id: string): Promise<void> {
+    this.posts = this.posts.filter(p => p.id !== id);
+  }
+
+  async purgeTrashedPosts(olderThan: Date): Promise<number> {
+    const count = this.posts.length;
+    this.posts = this.posts.filter(p => !p.deletedAt || p.deletedAt >= olderThan);
+    return count - this.posts.length;
+  }
+
+  async getRevisions(): Promise<PostRevision[]> {
+    return [];
+  }
+
+  async restoreRevision(): Promise<Post> {
+    throw new Error('編集履歴が見つかりません');
+  }
+
+  subscribeToUpdates(): () => void {
     return () => {};
   }
 
@@ -162,6 +246,50 @@ describe('DiaryService', () => {
     });
   });
 
+  describe('getEntriesPage', () => {
+    it('ページ単位で日記エントリーと次のカーソルを取得できる', async () => {
+      mockDataService.setPosts([
+        { id: '1', content: '投稿1', createdAt: new Date('2024-01-14T12:00:00Z'), updatedAt: new Date('2024-01-14T12:00:00Z') },
+        { id: '2', content: '投稿2', createdAt: new Date('2024-01-15T10:00:00Z'), updatedAt: new Date('2024-01-15T10:00:00Z') },
+        { id: '3', content: '投稿3', createdAt: new Date('2024-01-15T14:00:00Z'), updatedAt: new Date('2024-01-15T14:00:00Z') }
+      ]);
+
+      const firstPage = await diaryService.getEntriesPage({ limit: 2 });
+
+      expect(firstPage.entries).toHaveLength(1);
+      expect(firstPage.entries[0].date).toBe('2024-01-15');
+      expect(firstPage.nextCursor).toEqual({ createdAt: new Date('2024-01-15T10:00:00Z'), id: '2' });
+
+      const secondPage = await diaryService.getEntriesPage({ before: firstPage.nextCursor!, limit: 2 });
+
+      expect(secondPage.entries[0].date).toBe('2024-01-14');
+      expect(secondPage.nextCursor).toBeNull();
+    });
+  });
+
+  describe('mergeEntries', () => {
+    it('ページ境界で分かれた同じ日のエントリーを結合する', () => {
+      const post = (id: string, createdAt: string): Post => ({
+        id,
+        content: `投稿${id}`,
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(createdAt)
+      });
+
+      const merged = diaryService.mergeEntries(
+        [{ date: '2024-01-15', posts: [post('3', '2024-01-15T14:00:00Z')], postCount: 1 }],
+        [
+          { date: '2024-01-15', posts: [post('2', '2024-01-15T10:00:00Z')], postCount: 1 },
+          { date: '2024-01-14', posts: [post('1', '2024-01-14T12:00:00Z')], postCount: 1 }
+        ]
+      );
+
+      expect(merged.map(entry => entry.date)).toEqual(['2024-01-15', '2024-01-14']);
+      expect(merged[0].postCount).toBe(2);
+      expect(merged[0].posts.map(p => p.id)).toEqual(['3', '2']);
+    });
+  });
+
   describe('getCalendarData', () => {
     it('指定した年月のカレンダーデータを正しく生成できる', async () => {
       const posts: Post[] = [
@@ -260,6 +388,29 @@ describe('DiaryService', () => {
       expect(stats.thisMonthPosts).toBe(0);
       expect(stats.averagePostsPerDay).toBe(0);
     });
+
+    it('ゴミ箱の投稿は統計に含めない', async () => {
+      mockDataService.setPosts([
+        {
+          id: '1',
+          content: '残っている投稿',
+          createdAt: new Date('2024-01-15T10:00:00Z'),
+          updatedAt: new Date('2024-01-15T10:00:00Z')
+        },
+        {
+          id: '2',
+          content: 'ゴミ箱の投稿',
+          createdAt: new Date('2024-01-16T10:00:00Z'),
+          updatedAt: new Date('2024-01-16T10:00:00Z'),
+          deletedAt: new Date('2024-01-17T10:00:00Z')
+        }
+      ]);
+
+      const stats = await diaryService.getStats();
+
+      expect(stats.totalPosts).toBe(1);
+      expect(stats.totalDays).toBe(1);
+    });
   });
 
   describe('calculateStreak', () => {
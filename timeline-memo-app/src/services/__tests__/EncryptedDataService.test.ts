@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { MemoryDataService } from '../MemoryDataService';
+import { IndexedDBService } from '../IndexedDBService';
+import { EncryptedDataService, reencryptPosts, UNREADABLE_CONTENT } from '../EncryptedDataService';
+import {
+  createEncryptionSettings,
+  unlockEncryption,
+  isEncryptedContent,
+  EncryptionError,
+} from '../EncryptionService';
+
+// テストでは鍵の導出を速くするため、反復回数を減らす
+const TEST_ITERATIONS = 1000;
+
+describe('EncryptionService', () => {
+  it('同じパスフレーズで復号でき、IVが毎回異なる', async () => {
+    const { settings, key } = await createEncryptionSettings('correct horse', { iterations: TEST_ITERATIONS });
+    const first = await key.encrypt('今日の日記');
+    const second = await key.encrypt('今日の日記');
+
+    expect(isEncryptedContent(first)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('日記');
+
+    const unlocked = await unlockEncryption(settings, 'correct horse');
+    expect(await unlocked.decrypt(first)).toBe('今日の日記');
+  });
+
+  it('パスフレーズが正しくない場合や短すぎる場合はエラーになる', async () => {
+    const { settings } = await createEncryptionSettings('correct horse', { iterations: TEST_ITERATIONS });
+
+    await expect(unlockEncryption(settings, 'wrong horse')).rejects.toThrow('パスフレーズが正しくありません');
+    await expect(createEncryptionSettings('short')).rejects.toBeInstanceOf(EncryptionError);
+  });
+});
+
+describe('EncryptedDataService', () => {
+  const setup = async () => {
+    const inner = new MemoryDataService();
+    const { key } = await createEncryptionSettings('correct horse', { iterations: TEST_ITERATIONS });
+    return { inner, key, service: new EncryptedDataService(inner, key) };
+  };
+
+  it('本文を暗号化して保存し、読み取り時に復号する', async () => {
+    const { inner, service } = await setup();
+    const post = await service.createPost({ content: '  秘密の日記  ', tags: ['日記'] });
+
+    expect(post.content).toBe('秘密の日記');
+    const stored = await inner.getPost(post.id);
+    expect(isEncryptedContent(stored!.content)).toBe(true);
+    expect(stored!.tags).toEqual(['日記']);
+
+    expect(await service.getPost(post.id)).toMatchObject({ content: '秘密の日記' });
+    expect((await service.getAllPosts()).map(item => item.content)).toEqual(['秘密の日記']);
+    expect((await service.getPostsByTag('日記')).map(item => item.content)).toEqual(['秘密の日記']);
+  });
+
+  it('復号した投稿をメモリ上で検索できる', async () => {
+    const { service } = await setup();
+    await service.createPost({ content: '朝はコーヒーを飲んだ' });
+    const trashed = await service.createPost({ content: '夜もコーヒーを飲んだ' });
+    await service.deletePost(trashed.id);
+
+    const results = await service.searchPosts('コーヒー');
+    expect(results.map(post => post.content)).toEqual(['朝はコーヒーを飲んだ']);
+    expect(await service.searchPosts('紅茶')).toEqual([]);
+  });
+
+  it('編集履歴も暗号化し、本文が変わらない更新では履歴を残さない', async () => {
+    const { inner, service } = await setup();
+    const post = await service.createPost({ content: '最初の本文' });
+    await service.updatePost(post.id, { content: '最初の本文', tags: ['追加'] });
+    await service.updatePost(post.id, { content: '書き直した本文' });
+
+    const storedRevisions = await inner.getRevisions(post.id);
+    expect(storedRevisions.every(revision => isEncryptedContent(revision.content))).toBe(true);
+    expect((await service.getRevisions(post.id)).map(revision => revision.content)).toEqual(['最初の本文', '最初の本文']);
+
+    const restored = await service.restoreRevision(post.id, storedRevisions[storedRevisions.length - 1].id);
+    expect(restored.content).toBe('最初の本文');
+  });
+
+  it('空の本文は保存先のバリデーションでエラーになる', async () => {
+    const { service } = await setup();
+    await expect(service.createPost({ content: '   ' })).rejects.toThrow();
+  });
+});
+
+describe('reencryptPosts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('既存の投稿を暗号化し、パスフレーズの変更と暗号化の解除で書き換える', async () => {
+    const inner = new MemoryDataService();
+    const post = await inner.createPost({ content: '暗号化する前の投稿' });
+    await inner.updatePost(post.id, { content: '編集した投稿' });
+
+    const { key } = await createEncryptionSettings('first passphrase', { iterations: TEST_ITERATIONS });
+    expect(await reencryptPosts(inner, null, key)).toBe(1);
+    expect(isEncryptedContent((await inner.getPost(post.id))!.content)).toBe(true);
+    expect(isEncryptedContent((await inner.getRevisions(post.id))[0].content)).toBe(true);
+
+    const { key: nextKey } = await createEncryptionSettings('second passphrase', { iterations: TEST_ITERATIONS });
+    await reencryptPosts(inner, key, nextKey);
+    expect((await new EncryptedDataService(inner, key).getPost(post.id))!.content).toBe(UNREADABLE_CONTENT);
+    const service = new EncryptedDataService(inner, nextKey);
+    expect((await service.getPost(post.id))!.content).toBe('編集した投稿');
+    expect((await service.getRevisions(post.id))[0].content).toBe('暗号化する前の投稿');
+
+    await reencryptPosts(inner, nextKey, null);
+    expect((await inner.getPost(post.id))!.content).toBe('編集した投稿');
+  });
+
+  it('現在の鍵で復号できない本文があれば、何も書き換えずにエラーにする', async () => {
+    const inner = new MemoryDataService();
+    const { key } = await createEncryptionSettings('first passphrase', { iterations: TEST_ITERATIONS });
+    const { key: otherKey } = await createEncryptionSettings('other passphrase', { iterations: TEST_ITERATIONS });
+    const plain = await inner.createPost({ content: '暗号化されていない投稿' });
+    const foreign = await inner.createPost({ content: await otherKey.encrypt('別の鍵の投稿') });
+    const before = await inner.getAllPosts();
+
+    const { key: nextKey } = await createEncryptionSettings('second passphrase', { iterations: TEST_ITERATIONS });
+    await expect(reencryptPosts(inner, key, nextKey)).rejects.toThrow(EncryptionError);
+    await expect(reencryptPosts(inner, null, key)).rejects.toThrow(EncryptionError);
+    await expect(reencryptPosts(inner, key, null)).rejects.toThrow(EncryptionError);
+
+    expect(await inner.getAllPosts()).toEqual(before);
+    expect((await inner.getPost(plain.id))!.content).toBe('暗号化されていない投稿');
+    expect(await otherKey.decrypt((await inner.getPost(foreign.id))!.content)).toBe('別の鍵の投稿');
+  });
+
+  it('IndexedDBの全文検索インデックスから平文の語を取り除く', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    const inner = new IndexedDBService();
+    await inner.init();
+    await inner.createPost({ content: '誰にも見せない日記' });
+    expect(await inner.searchPosts('日記')).toHaveLength(1);
+
+    const { key } = await createEncryptionSettings('correct horse', { iterations: TEST_ITERATIONS });
+    await reencryptPosts(inner, null, key);
+
+    expect(await inner.searchPosts('日記')).toEqual([]);
+    expect((await new EncryptedDataService(inner, key).searchPosts('日記')).map(post => post.content)).toEqual(['誰にも見せない日記']);
+    await inner.close();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { IndexedDBService, IndexedDBError } from '../IndexedDBService';
+import type { PostChangeEvent } from '../../types';
+
+const UPDATE_CHANNEL_NAME = 'timeline-memo-updates';
+
+/**
+ * チャンネルで最初に受信したメッセージを待つ
+ */
+function waitForMessage<T>(channel: BroadcastChannel): Promise<T> {
+  return new Promise(resolve => {
+    channel.onmessage = (event: MessageEvent<T>) => resolve(event.data);
+  });
+}
+
+describe('IndexedDBService のタブ間の変更通知', () => {
+  let service: IndexedDBService;
+  let otherTab: BroadcastChannel;
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    service = new IndexedDBService();
+    // 他のタブを模したチャンネル
+    otherTab = new BroadcastChannel(UPDATE_CHANNEL_NAME);
+  });
+
+  afterEach(async () => {
+    otherTab.close();
+    await service.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('投稿の作成・更新・削除を他のタブに通知する', async () => {
+    let received = waitForMessage<PostChangeEvent>(otherTab);
+    const post = await service.createPost({ content: '新しい投稿' });
+    expect(await received).toMatchObject({ created: [post.id], updated: [], deleted: [] });
+
+    received = waitForMessage<PostChangeEvent>(otherTab);
+    await service.updatePost(post.id, { content: '更新した投稿' });
+    expect(await received).toMatchObject({ created: [], updated: [post.id], deleted: [] });
+
+    received = waitForMessage<PostChangeEvent>(otherTab);
+    await service.deletePost(post.id);
+    expect(await received).toMatchObject({ created: [], updated: [], deleted: [post.id] });
+  });
+
+  it('他のタブからの通知を購読者に渡し、解除後は渡さない', async () => {
+    const callback = vi.fn();
+    const unsubscribe = service.subscribeToUpdates(callback);
+
+    otherTab.postMessage({ sourceId: 'other-tab', created: ['post-1'], updated: [], deleted: ['post-2'] });
+    await vi.waitFor(() => {
+      expect(callback).toHaveBeenCalledWith({ created: ['post-1'], updated: [], deleted: ['post-2'] });
+    });
+
+    unsubscribe();
+    otherTab.postMessage({ sourceId: 'other-tab', created: ['post-3'], updated: [], deleted: [] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('同じタブ内の変更は購読者に通知しない', async () => {
+    const callback = vi.fn();
+    const unsubscribe = service.subscribeToUpdates(callback);
+    const received = waitForMessage<PostChangeEvent>(otherTab);
+
+    // 同じタブの別インスタンスからの変更
+    const anotherService = new IndexedDBService();
+    await anotherService.createPost({ content: '同じタブの投稿' });
+    await received;
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(callback).not.toHaveBeenCalled();
+    unsubscribe();
+    await anotherService.close();
+  });
+});
+
+describe('IndexedDBService の日付範囲での取得', () => {
+  let service: IndexedDBService;
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    service = new IndexedDBService();
+  });
+
+  afterEach(async () => {
+    await service.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('開始日時と終了日時ちょうどの投稿を含め、新しい順に返す', async () => {
+    const start = new Date('2024-03-01T00:00:00Z');
+    const end = new Date('2024-03-31T23:59:59.999Z');
+    await service.createPosts([
+      { content: '範囲の前', createdAt: new Date(start.getTime() - 1) },
+      { content: '開始ちょうど', createdAt: start },
+      { content: '範囲の中', createdAt: new Date('2024-03-15T12:00:00Z') },
+      { content: '終了ちょうど', createdAt: end },
+      { content: '範囲の後', createdAt: new Date(end.getTime() + 1) }
+    ]);
+
+    const posts = await service.getPostsByDateRange(start, end);
+    expect(posts.map(post => post.content)).toEqual(['終了ちょうど', '範囲の中', '開始ちょうど']);
+  });
+
+  it('無効な日時はエラーにする', async () => {
+    const valid = new Date('2024-03-01T00:00:00Z');
+    await expect(service.getPostsByDateRange(new Date(NaN), valid)).rejects.toThrow(IndexedDBError);
+    await expect(service.getPostsByDateRange(valid, new Date('invalid'))).rejects.toThrow('日時の形式が無効です');
+  });
+});
+
+describe('IndexedDBService のタグでの取得', () => {
+  let factory: IDBFactory;
+  let service: IndexedDBService;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    vi.stubGlobal('indexedDB', factory);
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    service = new IndexedDBService();
+  });
+
+  afterEach(async () => {
+    await service.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('タグごとのmultiEntryインデックスを作成する', async () => {
+    await service.init();
+    await service.close();
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open('TimelineMemoApp');
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const index = db.transaction(['posts'], 'readonly').objectStore('posts').index('tags');
+    expect(index.keyPath).toBe('tags');
+    expect(index.multiEntry).toBe(true);
+    db.close();
+  });
+
+  it('複数のタグを持つ投稿をそれぞれのタグで取得し、新しい順に返す', async () => {
+    await service.createPosts([
+      { content: '仕事の日記', tags: ['仕事', '日記'], createdAt: new Date('2024-01-01T10:00:00Z') },
+      { content: '日記だけ', tags: ['日記'], createdAt: new Date('2024-01-02T10:00:00Z') },
+      { content: 'タグなし', createdAt: new Date('2024-01-03T10:00:00Z') }
+    ]);
+    const trashed = await service.createPost({ content: '削除した日記', tags: ['日記'] });
+    await service.deletePost(trashed.id);
+
+    expect((await service.getPostsByTag('日記')).map(post => post.content)).toEqual(['日記だけ', '仕事の日記']);
+    expect((await service.getPostsByTag('#仕事')).map(post => post.content)).toEqual(['仕事の日記']);
+    expect(await service.getPostsByTag('旅行')).toEqual([]);
+  });
+
+  it('空のタグはエラーにする', async () => {
+    await expect(service.getPostsByTag('#')).rejects.toThrow(IndexedDBError);
+  });
+});
@@ -0,0 +1,311 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryDataService } from '../MemoryDataService';
+import {
+  detectJournalParser,
+  parseJournalFile,
+  planJournalImport,
+  importJournalFiles
+} from '../JournalImportService';
+import { dayOneParser, icalendarParser, journeyParser, lineParser, textParser, twitterParser } from '../journalParsers';
+import { createICalendar } from '../../utils/icalendarUtils';
+
+describe('JournalImportService', () => {
+  const dayOneFile = {
+    name: 'Journal.json',
+    text: JSON.stringify({
+      metadata: { version: '1.0' },
+      entries: [
+        {
+          uuid: 'A',
+          creationDate: '2023-05-01T09:30:00Z',
+          modifiedDate: '2023-05-02T08:00:00Z',
+          text: '朝の散歩\\. 気持ちよかった\\!\n![](dayone-moment://PHOTO)\n',
+          tags: ['散歩', '朝'],
+          starred: true
+        },
+        { uuid: 'B', creationDate: '2023-05-03T09:30:00Z', text: '![](dayone-moment://PHOTO)' },
+        { uuid: 'C', creationDate: 'invalid', text: '日時のない記事' }
+      ]
+    })
+  };
+
+  const twitterFile = {
+    name: 'tweets.js',
+    text: 'window.YTD.tweets.part0 = ' + JSON.stringify([
+      {
+        tweet: {
+          id_str: '100',
+          created_at: 'Mon Jan 15 12:30:00 +0000 2024',
+          full_text: '読んだ本 https://t.co/abc #読書 &amp; メモ https://t.co/photo',
+          entities: {
+            hashtags: [{ text: '読書' }],
+            urls: [{ url: 'https://t.co/abc', expanded_url: 'https://example.com/book' }],
+            media: [{ url: 'https://t.co/photo', expanded_url: 'https://x.com/me/status/100/photo/1' }]
+          }
+        }
+      },
+      {
+        tweet: {
+          id_str: '101',
+          created_at: 'Mon Jan 15 13:00:00 +0900 2024',
+          full_text: '@friend 返信です',
+          in_reply_to_status_id_str: '99',
+          entities: { hashtags: [], urls: [] }
+        }
+      },
+      {
+        tweet: {
+          id_str: '102',
+          created_at: 'Mon Jan 15 14:00:00 +0000 2024',
+          full_text: 'https://t.co/only',
+          entities: { hashtags: [], urls: [], media: [{ url: 'https://t.co/only', expanded_url: 'https://x.com/me/status/102/photo/1' }] }
+        }
+      }
+    ])
+  };
+
+  const lineFile = {
+    name: '[LINE]メモ.txt',
+    text: [
+      '[LINE] Keepメモのトーク履歴',
+      '保存日時：2024/01/20 10:00',
+      '',
+      '2024/01/15(月)',
+      '09:05\t自分\t買い物リスト',
+      '21:30\t自分\t"一行目',
+      '',
+      '""引用""した三行目"',
+      '22:00\t自分\t[写真]',
+      '22:01\t自分がメッセージの送信を取り消しました',
+      '',
+      '2024.01.16 火曜日',
+      '午後1:15\t自分\t午後のメモ'
+    ].join('\r\n')
+  };
+
+  it('形式を自動で判定する', () => {
+    expect(detectJournalParser(dayOneFile.name, dayOneFile.text)).toBe(dayOneParser);
+    expect(detectJournalParser('entry.json', JSON.stringify({ id: 'x', date_journal: 1683000000000, text: '本文' }))).toBe(journeyParser);
+    expect(detectJournalParser('2024-01-15.md', '本文')).toBe(textParser);
+    expect(detectJournalParser('tweets.js', twitterFile.text)).toBe(twitterParser);
+    expect(detectJournalParser('[LINE]メモ.txt', lineFile.text)).toBe(lineParser);
+    expect(detectJournalParser('calendar.ics', 'BEGIN:VCALENDAR\r\nEND:VCALENDAR')).toBe(icalendarParser);
+    expect(detectJournalParser('photo.png', '')).toBeNull();
+  });
+
+  it('Day Oneの記事を元の日時・タグ・スターのまま読み込む', () => {
+    const result = parseJournalFile(dayOneFile, 'auto');
+
+    expect(result.entries[0]).toEqual({
+      source: 'Journal.json #1',
+      content: '朝の散歩. 気持ちよかった!\n',
+      createdAt: new Date('2023-05-01T09:30:00Z'),
+      updatedAt: new Date('2023-05-02T08:00:00Z'),
+      tags: ['散歩', '朝'],
+      starred: true
+    });
+    expect(result.failures).toEqual([{ source: 'Journal.json #3', reason: '作成日時を読み取れません' }]);
+  });
+
+  it('JourneyのHTMLの本文をテキストにする', () => {
+    const result = parseJournalFile({
+      name: 'entry.json',
+      text: JSON.stringify({ id: 'x', date_journal: 1683000000000, text: '<p>一行目</p><p>A &amp; B</p>', tags: ['旅行'], favourite: false })
+    }, 'journey');
+
+    expect(result.entries).toEqual([expect.objectContaining({
+      content: '一行目\nA & B\n',
+      createdAt: new Date(1683000000000),
+      tags: ['旅行'],
+      starred: false
+    })]);
+  });
+
+  it('デイリーノートはファイル名の日付の12時の記事にし、フロントマターのタグを付ける', () => {
+    const result = parseJournalFile({
+      name: 'daily/2024-01-15.md',
+      text: '---\ntags:\n  - 日記\n  - 仕事\n---\n今日の出来事\n'
+    }, 'auto');
+
+    expect(result.entries).toEqual([{
+      source: 'daily/2024-01-15.md',
+      content: '今日の出来事\n',
+      createdAt: new Date(2024, 0, 15, 12, 0),
+      tags: ['日記', '仕事']
+    }]);
+  });
+
+  it('Markdownで書き出したファイルは時刻の見出しごとの記事にする', () => {
+    const result = parseJournalFile({
+      name: '2024-01-15.md',
+      text: '---\ndate: 2024-01-15\npost_count: 2\ntags: ["仕事"]\n---\n\n# 2024年1月15日（月）\n\n## 08:30\n\n朝の投稿\n\n#仕事\n\n## 21:05\n\n夜の投稿\n'
+    }, 'text');
+
+    expect(result.entries.map(entry => [entry.createdAt, entry.content.trim(), entry.tags])).toEqual([
+      [new Date(2024, 0, 15, 8, 30), '朝の投稿', ['仕事']],
+      [new Date(2024, 0, 15, 21, 5), '夜の投稿', []]
+    ]);
+  });
+
+  it('日付のないテキストは日付だけの行で記事を分け、日付より前の文章は取り込めない記事にする', () => {
+    const result = parseJournalFile({
+      name: 'journal.txt',
+      text: 'メモ\n2024/1/15 21:30\n一つ目\n# 2024年1月16日\n二つ目\n'
+    }, 'auto');
+
+    expect(result.entries.map(entry => [entry.createdAt, entry.content.trim()])).toEqual([
+      [new Date(2024, 0, 15, 21, 30), '一つ目'],
+      [new Date(2024, 0, 16, 12, 0), '二つ目']
+    ]);
+    expect(result.failures).toEqual([{ source: 'journal.txt', reason: '最初の日付より前の文章は取り込めません' }]);
+  });
+
+  it('投稿の作成と同じ検証をし、本文のない記事と取り込み済みの記事はスキップする', () => {
+    const existing = {
+      id: 'existing',
+      content: '取り込み済み',
+      createdAt: new Date('2023-01-01T00:00:00Z'),
+      updatedAt: new Date('2023-01-01T00:00:00Z'),
+      tags: []
+    };
+    let id = 0;
+    const plan = planJournalImport([{
+      entries: [
+        { source: 'a', content: '  新しい記事  ', createdAt: new Date('2023-01-02T00:00:00Z'), tags: ['#日記', '日記'] },
+        { source: 'b', content: '取り込み済み', createdAt: new Date('2023-01-01T00:00:00Z'), tags: [] },
+        { source: 'c', content: '\n', createdAt: new Date('2023-01-03T00:00:00Z'), tags: [] },
+        { source: 'd', content: '<script>alert(1)</script>', createdAt: new Date('2023-01-04T00:00:00Z'), tags: [] },
+        { source: 'e', content: '未来の記事', createdAt: new Date(Date.now() + 86400000), tags: [] }
+      ],
+      failures: [{ source: 'f', reason: '日付が見つかりません' }]
+    }], [existing], () => `new-${++id}`);
+
+    expect(plan.posts).toEqual([{
+      id: 'new-1',
+      content: '新しい記事',
+      createdAt: new Date('2023-01-02T00:00:00Z'),
+      updatedAt: new Date('2023-01-02T00:00:00Z'),
+      tags: ['日記']
+    }]);
+    expect(plan.skipped).toBe(2);
+    expect(plan.failures.map(failure => failure.source)).toEqual(['f', 'd', 'e']);
+  });
+
+  it('取り込んだ件数を報告し、同じファイルを再び取り込んでも重複しない', async () => {
+    const service = new MemoryDataService();
+
+    const report = await importJournalFiles(service, [dayOneFile, { name: 'photo.png', text: '' }], 'auto');
+    expect(report).toMatchObject({ imported: 1, skipped: 1, failed: 2 });
+    const [post] = await service.getAllPosts();
+    expect(post).toMatchObject({
+      content: '朝の散歩. 気持ちよかった!',
+      createdAt: new Date('2023-05-01T09:30:00Z'),
+      updatedAt: new Date('2023-05-02T08:00:00Z'),
+      tags: ['散歩', '朝'],
+      starred: true
+    });
+
+    const again = await importJournalFiles(service, [dayOneFile], 'dayOne');
+    expect(again).toMatchObject({ imported: 0, skipped: 2, failed: 1 });
+    expect(await service.getAllPosts()).toHaveLength(1);
+  });
+
+  it('Xのポストを元の日時で読み込み、設定により返信と写真だけのポストを除く', () => {
+    const all = parseJournalFile(twitterFile, 'twitter');
+    expect(all.entries.map(entry => [entry.createdAt, entry.content, entry.tags])).toEqual([
+      [new Date('2024-01-15T12:30:00Z'), '読んだ本 https://example.com/book #読書 & メモ https://x.com/me/status/100/photo/1', ['読書']],
+      [new Date('2024-01-15T04:00:00Z'), '@friend 返信です', []],
+      [new Date('2024-01-15T14:00:00Z'), 'https://x.com/me/status/102/photo/1', []]
+    ]);
+
+    const filtered = parseJournalFile(twitterFile, 'auto', { excludeReplies: true, excludeMedia: true });
+    expect(filtered.entries.map(entry => entry.content)).toEqual(['読んだ本 https://example.com/book #読書 & メモ']);
+    expect(filtered.excluded).toBe(2);
+  });
+
+  it('LINEのトーク履歴を日付の行と曜日の表記から読み込み、改行を含むメッセージを1件にする', () => {
+    const all = parseJournalFile(lineFile, 'auto');
+    expect(all.entries.map(entry => [entry.createdAt, entry.content])).toEqual([
+      [new Date(2024, 0, 15, 9, 5), '買い物リスト'],
+      [new Date(2024, 0, 15, 21, 30), '一行目\n\n"引用"した三行目'],
+      [new Date(2024, 0, 15, 22, 0), '[写真]'],
+      [new Date(2024, 0, 16, 13, 15), '午後のメモ']
+    ]);
+    expect(all.failures).toEqual([]);
+
+    const filtered = parseJournalFile(lineFile, 'line', { excludeReplies: false, excludeMedia: true });
+    expect(filtered.entries).toHaveLength(3);
+    expect(filtered.excluded).toBe(1);
+  });
+
+  it('除いた記事をスキップに数え、XとLINEを再び取り込んでも重複しない', async () => {
+    const service = new MemoryDataService();
+    const options = { excludeReplies: true, excludeMedia: true };
+
+    const report = await importJournalFiles(service, [twitterFile, lineFile], 'auto', options);
+    expect(report).toMatchObject({ imported: 4, skipped: 3, failed: 0 });
+
+    const again = await importJournalFiles(service, [twitterFile, lineFile], 'auto', options);
+    expect(again).toMatchObject({ imported: 0, skipped: 7, failed: 0 });
+    expect(await service.getAllPosts()).toHaveLength(4);
+  });
+
+  it('LINEで同じ分に送った同じメッセージもそれぞれ取り込み、会話の順番を残す', async () => {
+    const service = new MemoryDataService();
+    const file = {
+      name: '[LINE]友達.txt',
+      text: [
+        '[LINE] 友達とのトーク履歴',
+        '',
+        '2024/01/15(月)',
+        '09:05\t自分\t了解',
+        '09:05\t自分\t後で連絡します',
+        '09:05\t自分\t了解',
+        '09:06\t自分\t了解'
+      ].join('\n')
+    };
+
+    const report = await importJournalFiles(service, [file], 'line');
+    expect(report).toMatchObject({ imported: 4, skipped: 0, failed: 0 });
+    const posts = await service.getAllPosts();
+    expect(posts.map(post => [post.createdAt, post.content]).reverse()).toEqual([
+      [new Date(2024, 0, 15, 9, 5, 0, 0), '了解'],
+      [new Date(2024, 0, 15, 9, 5, 0, 1), '後で連絡します'],
+      [new Date(2024, 0, 15, 9, 5, 0, 2), '了解'],
+      [new Date(2024, 0, 15, 9, 6), '了解']
+    ]);
+
+    const again = await importJournalFiles(service, [file], 'line');
+    expect(again).toMatchObject({ imported: 0, skipped: 4, failed: 0 });
+  });
+
+  it('iCalendarの日誌を取り込み、書き出したファイルを再び取り込んでも重複しない', async () => {
+    const service = new MemoryDataService();
+    const post = await service.createPost({ content: '会議のメモ\n資料, 予定', tags: ['仕事'] });
+
+    const ics = createICalendar([post]) + [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART:20240110T010000Z',
+      'SUMMARY:予定は取り込まない',
+      'END:VEVENT',
+      'BEGIN:VJOURNAL',
+      'DTSTART;VALUE=DATE:20240110',
+      'SUMMARY:旅行記',
+      'DESCRIPTION:一日目',
+      'DESCRIPTION:二日目',
+      'CATEGORIES:旅行,家族',
+      'END:VJOURNAL',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const result = parseJournalFile({ name: 'calendar.ics', text: ics }, 'auto');
+    expect(result.entries.map(entry => [entry.createdAt, entry.content, entry.tags])).toEqual([
+      [new Date(Math.floor(post.createdAt.getTime() / 1000) * 1000), '会議のメモ\n資料, 予定', ['仕事']],
+      [new Date(2024, 0, 10, 12, 0), '旅行記\n\n一日目\n\n二日目', ['旅行', '家族']]
+    ]);
+
+    const report = await importJournalFiles(service, [{ name: 'calendar.ics', text: ics }], 'icalendar');
+    expect(report).toMatchObject({ imported: 1, skipped: 1, failed: 0 });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { LocalStorageDataService, LOCAL_STORAGE_DATA_KEY } from '../LocalStorageDataService';
+import { IndexedDBService } from '../IndexedDBService';
+import { selectDataService, migrateFallbackPosts } from '../dataServiceFactory';
+
+/**
+ * テスト用のStorage（容量の上限を指定できる）
+ */
+function createStorage(limit = Infinity): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > limit) {
+        throw new DOMException('容量を超えました', 'QuotaExceededError');
+      }
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+describe('LocalStorageDataService', () => {
+  it('保存したデータを別のインスタンスから読み込める（日時も復元する）', async () => {
+    const storage = createStorage();
+    const service = new LocalStorageDataService(storage);
+    const post = await service.createPost({ content: '保存する投稿', tags: ['日記'] });
+    await service.updatePost(post.id, { content: '書き直した投稿' });
+
+    const reopened = new LocalStorageDataService(storage);
+    const stored = await reopened.getPost(post.id);
+    expect(stored).toMatchObject({ content: '書き直した投稿', tags: ['日記'] });
+    expect(stored!.createdAt).toBeInstanceOf(Date);
+    expect(await reopened.getRevisions(post.id)).toHaveLength(1);
+  });
+
+  it('他のタブで保存されたデータを次の操作で読み直す', async () => {
+    const storage = createStorage();
+    const service = new LocalStorageDataService(storage);
+    const otherTab = new LocalStorageDataService(storage);
+    expect(await service.getAllPosts()).toEqual([]);
+
+    const post = await otherTab.createPost({ content: '別のタブの投稿' });
+    expect((await service.getAllPosts()).map(item => item.id)).toEqual([post.id]);
+  });
+
+  it('容量を超えた場合は容量超過のエラーにし、保存できなかった変更を破棄する', async () => {
+    const storage = createStorage(400);
+    const service = new LocalStorageDataService(storage);
+    const post = await service.createPost({ content: '短い投稿' });
+
+    await expect(service.createPost({ content: 'あ'.repeat(500) })).rejects.toMatchObject({
+      name: 'LocalStorageDataServiceError',
+      isQuotaExceeded: true,
+    });
+    expect((await service.getAllPosts()).map(item => item.id)).toEqual([post.id]);
+  });
+
+  it('壊れたデータは上書きせずにエラーにする', async () => {
+    const storage = createStorage();
+    storage.setItem(LOCAL_STORAGE_DATA_KEY, '{壊れたデータ');
+    const service = new LocalStorageDataService(storage);
+
+    await expect(service.getAllPosts()).rejects.toThrow('保存データの読み込みに失敗しました');
+    await expect(service.createPost({ content: '投稿' })).rejects.toThrow();
+    expect(storage.getItem(LOCAL_STORAGE_DATA_KEY)).toBe('{壊れたデータ');
+  });
+
+  it('使用量の目安を返す', async () => {
+    const storage = createStorage();
+    const service = new LocalStorageDataService(storage);
+    expect(service.getUsage().usedBytes).toBe(0);
+
+    await service.createPost({ content: '投稿' });
+    const usage = service.getUsage();
+    expect(usage.usedBytes).toBe(storage.getItem(LOCAL_STORAGE_DATA_KEY)!.length * 2);
+    expect(usage.limitBytes).toBe(5 * 1024 * 1024);
+  });
+
+  it('他のタブの変更をstorageイベントで通知する', () => {
+    const addEventListener = vi.spyOn(window, 'addEventListener');
+    const removeEventListener = vi.spyOn(window, 'removeEventListener');
+    const service = new LocalStorageDataService(createStorage());
+    const callback = vi.fn();
+    const unsubscribe = service.subscribeToUpdates(callback);
+
+    const [type, handleStorage] = addEventListener.mock.calls[addEventListener.mock.calls.length - 1];
+    expect(type).toBe('storage');
+    const change = { created: ['post-1'], updated: [], deleted: [] };
+    (handleStorage as (event: StorageEvent) => void)(new StorageEvent('storage', {
+      key: 'timeline-memo-fallback-updates',
+      newValue: JSON.stringify({ change, sentAt: 1 }),
+    }));
+    (handleStorage as (event: StorageEvent) => void)(new StorageEvent('storage', {
+      key: LOCAL_STORAGE_DATA_KEY,
+      newValue: '{}',
+    }));
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(change);
+
+    unsubscribe();
+    expect(removeEventListener).toHaveBeenCalledWith('storage', handleStorage);
+  });
+
+  it('書き込めないストレージは利用できないと判定する', () => {
+    expect(LocalStorageDataService.isAvailable(createStorage())).toBe(true);
+    expect(LocalStorageDataService.isAvailable(createStorage(0))).toBe(false);
+  });
+});
+
+describe('保存先の選択と移行', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('IndexedDBを開けない場合', () => {
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', {
+        open: () => {
+          throw new Error('IndexedDBは無効です');
+        },
+      });
+    });
+
+    it('localStorageの簡易保存モードを選択する', async () => {
+      const selection = await selectDataService();
+
+      expect(selection.backend).toBe('localStorage');
+      expect(selection.service).toBeInstanceOf(LocalStorageDataService);
+      expect(selection.fallbackReason).toBeTruthy();
+    });
+
+    it('localStorageも使えない場合はメモリ上に保存する', async () => {
+      vi.stubGlobal('localStorage', createStorage(0));
+      const selection = await selectDataService();
+
+      expect(selection.backend).toBe('memory');
+    });
+  });
+
+  it('IndexedDBの初期化が応答しない場合も時間切れで簡易保存モードにする', async () => {
+    vi.stubGlobal('indexedDB', { open: () => ({}) });
+    const selection = await selectDataService(10);
+
+    expect(selection.backend).toBe('localStorage');
+  });
+
+  describe('IndexedDBが利用できる場合', () => {
+    let target: IndexedDBService;
+
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', new IDBFactory());
+      vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+      target = new IndexedDBService();
+    });
+
+    afterEach(async () => {
+      await target.close();
+    });
+
+    it('簡易保存モードの投稿の件数を知らせ、IDと日時を保ったまま移行する', async () => {
+      const fallback = new LocalStorageDataService();
+      const post = await fallback.createPost({ content: '簡易保存モードの投稿', tags: ['日記'] });
+      await fallback.updatePost(post.id, { content: '編集した投稿' });
+      const trashed = await fallback.createPost({ content: 'ゴミ箱の投稿' });
+      await fallback.deletePost(trashed.id);
+
+      const selection = await selectDataService();
+      expect(selection.backend).toBe('indexedDB');
+      expect(selection.pendingMigrationCount).toBe(2);
+      await selection.service.close?.();
+
+      expect(await migrateFallbackPosts(target)).toBe(2);
+
+      const migrated = await target.getPost(post.id);
+      expect(migrated).toMatchObject({ content: '編集した投稿', tags: ['日記'], createdAt: post.createdAt });
+      expect(await target.searchPosts('編集')).toHaveLength(1);
+      expect(await target.getRevisions(post.id)).toHaveLength(1);
+      expect((await target.getTrashedPosts()).map(item => item.id)).toEqual([trashed.id]);
+
+      // 移行したデータはlocalStorageから削除される
+      expect(localStorage.getItem(LOCAL_STORAGE_DATA_KEY)).toBeNull();
+      expect((await selectDataService()).pendingMigrationCount).toBe(0);
+    });
+
+    it('IndexedDBの方が新しい投稿は上書きしない', async () => {
+      const fallback = new LocalStorageDataService();
+      const post = await fallback.createPost({ content: '古い内容' });
+      await target.importPosts([{ ...post, content: '新しい内容', updatedAt: new Date(post.updatedAt.getTime() + 1000) }]);
+
+      expect(await migrateFallbackPosts(target)).toBe(0);
+      expect((await target.getPost(post.id))!.content).toBe('新しい内容');
+    });
+  });
+});
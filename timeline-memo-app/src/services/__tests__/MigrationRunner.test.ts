@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { MigrationRunner, MigrationError, validateMigrations, type Migration, type MigrationReport } from '../MigrationRunner';
+import { MIGRATIONS, STORE_NAMES } from '../migrations';
+import { IndexedDBService } from '../IndexedDBService';
+
+const DB_NAME = 'MigrationTestDB';
+
+/**
+ * マイグレーションを適用してデータベースを開く
+ */
+function openDatabase(
+  factory: IDBFactory,
+  runner: MigrationRunner,
+  version: number,
+  onReport?: (report: MigrationReport) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, version);
+    request.onupgradeneeded = (event) => {
+      try {
+        const report = runner.upgrade(request.result, request.transaction!, event.oldVersion, version);
+        request.transaction!.oncomplete = () => onReport?.(report);
+      } catch (error) {
+        request.transaction!.abort();
+        reject(error);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * レコードを投入する
+ */
+function seedRecords(db: IDBDatabase, storeName: string, records: unknown[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    records.forEach(record => transaction.objectStore(storeName).put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * ストアの全レコードを取得する
+ */
+function readAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+interface LegacyPost {
+  id: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+  tags?: string[] | string;
+  mood?: string;
+}
+
+const seededPosts: LegacyPost[] = [
+  { id: 'post-1', content: '今日は晴れ', createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-01T10:00:00Z'), tags: '天気, 日記' },
+  { id: 'post-2', content: '会議メモ', createdAt: new Date('2024-01-02T10:00:00Z'), updatedAt: new Date('2024-01-02T10:00:00Z'), tags: ['仕事'] },
+  { id: 'post-3', content: '', createdAt: new Date('2024-01-03T10:00:00Z'), updatedAt: new Date('2024-01-03T10:00:00Z') }
+];
+
+// タグ文字列を配列に正規化し、空の投稿を削除するマイグレーション
+const normalizeTagsMigration: Migration = {
+  version: 8,
+  description: 'タグを配列に正規化し、空の投稿を削除',
+  up(context) {
+    context.rewriteRecords<LegacyPost>(STORE_NAMES.posts, post => {
+      if (post.content.length === 0) return null;
+      if (typeof post.tags !== 'string') return undefined;
+      return { ...post, tags: post.tags.split(',').map(tag => tag.trim()) };
+    });
+  }
+};
+
+describe('validateMigrations', () => {
+  const up = () => {};
+
+  it('連番のマイグレーションは妥当と判定される', () => {
+    expect(validateMigrations(MIGRATIONS)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('欠番・重複・説明の欠落を検出する', () => {
+    const result = validateMigrations([
+      { version: 1, description: '初期化', up },
+      { version: 3, description: '', up }
+    ]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('バージョン2のマイグレーションがありません');
+    expect(result.errors).toContain('バージョン3の説明がありません');
+
+    expect(validateMigrations([
+      { version: 1, description: '初期化', up },
+      { version: 1, description: '重複', up }
+    ]).errors).toContain('バージョン1が重複しています');
+  });
+
+  it('不正な定義ではMigrationRunnerを作成できない', () => {
+    expect(() => new MigrationRunner([{ version: 2, description: '欠番', up }])).toThrow(MigrationError);
+  });
+});
+
+describe('MigrationRunner', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('定義順に関わらずバージョン順に並べ、最新バージョンを返す', () => {
+    const runner = new MigrationRunner([...MIGRATIONS].reverse());
+
+    expect(runner.latestVersion).toBe(7);
+    expect(runner.getPendingMigrations(3).map(migration => migration.version)).toEqual([4, 5, 6, 7]);
+  });
+
+  it('新規データベースに全てのスキーマを作成する', async () => {
+    const db = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7);
+
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(['attachments', 'posts', 'revisions', 'searchIndex']);
+    const postIndexes = db.transaction([STORE_NAMES.posts], 'readonly').objectStore(STORE_NAMES.posts).indexNames;
+    expect(Array.from(postIndexes).sort()).toEqual(['createdAt', 'deletedAt', 'pinned', 'starred', 'tags', 'updatedAt']);
+    db.close();
+  });
+
+  it('古いバージョンのデータベースを移行し、既存の投稿から検索インデックスを構築する', async () => {
+    const seeded = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 2);
+    await seedRecords(seeded, STORE_NAMES.posts, seededPosts);
+    seeded.close();
+
+    let report: MigrationReport | null = null;
+    const db = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7, result => { report = result; });
+
+    const entries = await readAll<{ token: string; postId: string }>(db, STORE_NAMES.searchIndex);
+    expect(entries.some(entry => entry.postId === 'post-1')).toBe(true);
+    expect(entries.some(entry => entry.postId === 'post-2')).toBe(true);
+    expect(report!.steps.map(step => step.version)).toEqual([3, 4, 5, 6, 7]);
+    expect(report!.steps[0].recordsWritten).toBe(entries.length);
+    db.close();
+  });
+
+  it('レコードの書き換えと削除を行う', async () => {
+    const seeded = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7);
+    await seedRecords(seeded, STORE_NAMES.posts, seededPosts);
+    seeded.close();
+
+    let report: MigrationReport | null = null;
+    const runner = new MigrationRunner([...MIGRATIONS, normalizeTagsMigration]);
+    const db = await openDatabase(factory, runner, 8, result => { report = result; });
+
+    const posts = await readAll<LegacyPost>(db, STORE_NAMES.posts);
+    expect(posts.map(post => post.id)).toEqual(['post-1', 'post-2']);
+    expect(posts[0].tags).toEqual(['天気', '日記']);
+    expect(posts[1].tags).toEqual(['仕事']);
+    expect(report!.steps[0]).toMatchObject({ version: 8, recordsWritten: 1, recordsDeleted: 1 });
+    db.close();
+  });
+
+  it('マイグレーションで例外が発生した場合は中止され、元のバージョンのまま残る', async () => {
+    const seeded = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7);
+    await seedRecords(seeded, STORE_NAMES.posts, seededPosts);
+    seeded.close();
+
+    const runner = new MigrationRunner([
+      ...MIGRATIONS,
+      {
+        version: 8,
+        description: '失敗するマイグレーション',
+        up(context) {
+          context.createStore('broken', { keyPath: 'id' });
+          throw new Error('想定外のデータ');
+        }
+      }
+    ]);
+
+    const error = await openDatabase(factory, runner, 8).catch(e => e);
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.version).toBe(8);
+    expect(error.originalError.message).toBe('想定外のデータ');
+
+    const db = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7);
+    expect(db.version).toBe(7);
+    expect(db.objectStoreNames.contains('broken')).toBe(false);
+    expect(await readAll(db, STORE_NAMES.posts)).toHaveLength(3);
+    db.close();
+  });
+
+  describe('dryRun', () => {
+    it('データベースを変更せずに実行予定の操作と件数を報告する', async () => {
+      const seeded = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7);
+      await seedRecords(seeded, STORE_NAMES.posts, seededPosts);
+
+      const runner = new MigrationRunner([...MIGRATIONS, normalizeTagsMigration]);
+      const report = await runner.dryRun(seeded);
+
+      expect(report).toMatchObject({ fromVersion: 7, toVersion: 8, dryRun: true });
+      expect(report.steps[0]).toMatchObject({ recordsWritten: 1, recordsDeleted: 1, errors: [] });
+
+      const posts = await readAll<LegacyPost>(seeded, STORE_NAMES.posts);
+      expect(posts).toHaveLength(3);
+      expect(posts[0].tags).toBe('天気, 日記');
+      expect(seeded.version).toBe(7);
+      seeded.close();
+    });
+
+    it('レコード変換のエラーを収集する', async () => {
+      const seeded = await openDatabase(factory, new MigrationRunner(MIGRATIONS), 7);
+      await seedRecords(seeded, STORE_NAMES.posts, seededPosts);
+
+      const runner = new MigrationRunner([
+        ...MIGRATIONS,
+        {
+          version: 8,
+          description: '気分を必須にする',
+          up(context) {
+            context.rewriteRecords<LegacyPost>(STORE_NAMES.posts, post => {
+              if (!post.mood) throw new Error('moodがありません');
+              return post;
+            });
+          }
+        }
+      ]);
+      const report = await runner.dryRun(seeded);
+
+      expect(report.steps[0].errors).toEqual([
+        'posts[post-1]: moodがありません',
+        'posts[post-2]: moodがありません',
+        'posts[post-3]: moodがありません'
+      ]);
+      seeded.close();
+    });
+
+    it('未作成のデータベースでは全てのスキーマ操作を報告する', async () => {
+      const report = await new MigrationRunner(MIGRATIONS).dryRun(null);
+
+      expect(report.fromVersion).toBe(0);
+      expect(report.steps).toHaveLength(7);
+      expect(report.steps[1].operations).toEqual(['インデックス「posts.tags」を作成']);
+      expect(report.steps.every(step => step.errors.length === 0)).toBe(true);
+    });
+  });
+});
+
+describe('IndexedDBService のマイグレーション', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    vi.stubGlobal('indexedDB', factory);
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('バージョン1のデータベースにタグのインデックスを追加し、既存の投稿をタグで取得できる', async () => {
+    const request = factory.open('TimelineMemoApp', 1);
+    const seeded = await new Promise<IDBDatabase>((resolve, reject) => {
+      request.onupgradeneeded = (event) => {
+        new MigrationRunner(MIGRATIONS).upgrade(request.result, request.transaction!, event.oldVersion, 1);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    expect(Array.from(seeded.transaction([STORE_NAMES.posts], 'readonly').objectStore(STORE_NAMES.posts).indexNames)).not.toContain('tags');
+    await seedRecords(seeded, STORE_NAMES.posts, [
+      { id: 'post-1', content: '仕事の日記', createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-01T10:00:00Z'), tags: ['仕事', '日記'] },
+      { id: 'post-2', content: '日記だけ', createdAt: new Date('2024-01-02T10:00:00Z'), updatedAt: new Date('2024-01-02T10:00:00Z'), tags: ['日記'] }
+    ]);
+    seeded.close();
+
+    const service = new IndexedDBService();
+    expect((await service.getPostsByTag('日記')).map(post => post.id)).toEqual(['post-2', 'post-1']);
+    expect((await service.getPostsByTag('仕事')).map(post => post.id)).toEqual(['post-1']);
+    await service.close();
+  });
+
+  it('バージョン2のデータベースを移行して検索とゴミ箱が使えるようになる', async () => {
+    const request = factory.open('TimelineMemoApp', 2);
+    const seeded = await new Promise<IDBDatabase>((resolve, reject) => {
+      request.onupgradeneeded = (event) => {
+        new MigrationRunner(MIGRATIONS).upgrade(request.result, request.transaction!, event.oldVersion, 2);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    await seedRecords(seeded, STORE_NAMES.posts, [
+      { id: 'post-1', content: '移行前の投稿', createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-01T10:00:00Z') }
+    ]);
+    seeded.close();
+
+    const service = new IndexedDBService();
+    const preview = await service.previewMigrations();
+    expect(preview.steps.map(step => step.version)).toEqual([3, 4, 5, 6, 7]);
+    expect(preview.steps[0].recordsWritten).toBeGreaterThan(0);
+
+    const results = await service.searchPosts('移行前');
+    expect(results.map(post => post.id)).toEqual(['post-1']);
+
+    await service.deletePost('post-1');
+    expect((await service.getTrashedPosts()).map(post => post.id)).toEqual(['post-1']);
+  });
+});
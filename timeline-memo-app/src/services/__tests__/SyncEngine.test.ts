@@ -0,0 +1,389 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { MemoryDataService } from '../MemoryDataService';
+import { createSyncEngine, decideConflict, type LocalChange, type SyncEngine } from '../SyncEngine';
+import type { ChangeLogDataService } from '../ChangeLogDataService';
+import { SyncChangeLog, getRetryDelay, SYNC_STATE_STORAGE_KEY } from '../SyncChangeLog';
+import { EncryptedDataService } from '../EncryptedDataService';
+import { createEncryptionSettings, isEncryptedContent } from '../EncryptionService';
+import type { SyncRecord } from '../SyncApiClient';
+import type { Post } from '../../types';
+import { createSyncServer } from '../../../scripts/sync-server.js';
+
+/**
+ * テスト用のStorage（端末ごとに別の同期状態を持たせる）
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+const createPost = (overrides: Partial<Post> = {}): Post => ({
+  id: 'post-1',
+  content: '本文',
+  createdAt: new Date('2025-01-01T09:00:00Z'),
+  updatedAt: new Date('2025-01-01T09:00:00Z'),
+  tags: [],
+  ...overrides,
+});
+
+describe('decideConflict', () => {
+  const pending = (post: Post | null, changedAt: string): LocalChange => ({
+    postId: 'post-1',
+    post,
+    baseRevision: 1,
+    changedAt: new Date(changedAt),
+    operation: 'update',
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: null,
+  });
+  const record = (post: Post | null, updatedAt: string): SyncRecord => ({
+    postId: 'post-1',
+    revision: 2,
+    post,
+    updatedAt: new Date(updatedAt),
+    clientId: 'other',
+  });
+
+  it('同じ内容の場合は解決不要', () => {
+    expect(decideConflict(pending(createPost(), '2025-01-02'), record(createPost(), '2025-01-03'))).toBe('same');
+    expect(decideConflict(pending(null, '2025-01-02'), record(null, '2025-01-03'))).toBe('same');
+  });
+
+  it('本文が両方で編集された場合は手動で解決する', () => {
+    expect(decideConflict(
+      pending(createPost({ content: 'この端末' }), '2025-01-02'),
+      record(createPost({ content: 'サーバー' }), '2025-01-03')
+    )).toBe('manual');
+  });
+
+  it('本文以外の変更は更新日時が新しい方を残す', () => {
+    expect(decideConflict(
+      pending(createPost({ tags: ['a'] }), '2025-01-03'),
+      record(createPost({ tags: ['b'] }), '2025-01-02')
+    )).toBe('local');
+    expect(decideConflict(
+      pending(createPost({ content: '編集' }), '2025-01-02'),
+      record(createPost({ deletedAt: new Date('2025-01-03') }), '2025-01-03')
+    )).toBe('remote');
+    expect(decideConflict(
+      pending(null, '2025-01-04'),
+      record(createPost({ content: '編集' }), '2025-01-03')
+    )).toBe('local');
+  });
+});
+
+describe('SyncChangeLog（送信待ちの変更）', () => {
+  const createChangeLog = () => {
+    const changeLog = new SyncChangeLog(createStorage());
+    changeLog.setSettings({ serverUrl: 'http://localhost:8787', token: null });
+    return changeLog;
+  };
+
+  it('変更の種類を記録し、サーバーに届く前の作成と削除は送信しない', () => {
+    const changeLog = createChangeLog();
+    changeLog.record('post-1', createPost());
+    changeLog.record('post-1', createPost({ content: '編集' }));
+    expect(changeLog.getPending('post-1')?.operation).toBe('create');
+
+    changeLog.setKnownRevision('post-2', 3);
+    changeLog.record('post-2', createPost({ id: 'post-2' }));
+    expect(changeLog.getPending('post-2')?.operation).toBe('update');
+    changeLog.record('post-2', createPost({ id: 'post-2', deletedAt: new Date() }));
+    expect(changeLog.getPending('post-2')?.operation).toBe('delete');
+
+    changeLog.record('post-1', null);
+    expect(changeLog.getPendingChanges().map(change => change.postId)).toEqual(['post-2']);
+  });
+
+  it('送信待ちの変更には投稿の内容を保存せず、以前の形式の内容は読み込まない', () => {
+    const storage = createStorage();
+    const changeLog = new SyncChangeLog(storage);
+    changeLog.setSettings({ serverUrl: 'http://localhost:8787', token: null });
+    changeLog.record('post-1', createPost({ content: '長い日記の本文' }));
+
+    expect(storage.getItem(SYNC_STATE_STORAGE_KEY)).not.toContain('長い日記の本文');
+    expect(changeLog.getPending('post-1')).toMatchObject({ postId: 'post-1', operation: 'create' });
+
+    const stored = JSON.parse(storage.getItem(SYNC_STATE_STORAGE_KEY)!);
+    stored.pending[0].post = createPost({ content: '以前の形式の本文' });
+    storage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(stored));
+    expect(changeLog.getPending('post-1')).not.toHaveProperty('post');
+  });
+
+  it('送信に失敗するたびに次の送信を遅らせ、新しい変更はすぐに送信する', () => {
+    const changeLog = createChangeLog();
+    const now = new Date('2025-01-01T09:00:00Z');
+    changeLog.record('post-1', createPost());
+
+    changeLog.markAttemptFailed(['post-1'], '接続できません', now);
+    changeLog.markAttemptFailed(['post-1'], '接続できません', now);
+    const change = changeLog.getPending('post-1');
+    expect(change).toMatchObject({ attempts: 2, lastError: '接続できません' });
+    expect(change?.nextAttemptAt?.getTime()).toBe(now.getTime() + getRetryDelay(2));
+    expect(getRetryDelay(2)).toBe(getRetryDelay(1) * 2);
+    expect(getRetryDelay(100)).toBe(30 * 60 * 1000);
+
+    changeLog.record('post-1', createPost({ content: '編集' }));
+    expect(changeLog.getPending('post-1')).toMatchObject({ attempts: 0, nextAttemptAt: null });
+  });
+});
+
+describe('SyncEngine（参照サーバーとの同期）', () => {
+  let server: Server;
+  let serverUrl: string;
+
+  interface Device {
+    dataService: ChangeLogDataService;
+    syncEngine: SyncEngine;
+  }
+
+  const createDevice = (): Device => {
+    const device = createSyncEngine(new MemoryDataService(), createStorage());
+    device.syncEngine.setSettings({ serverUrl, token: null });
+    return device;
+  };
+
+  beforeEach(async () => {
+    server = createSyncServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('既存の投稿を送信し、別の端末に反映する', async () => {
+    const deviceA = createDevice();
+    const post = await deviceA.dataService.createPost({ content: '端末Aの投稿', tags: ['日記'] });
+
+    const resultA = await deviceA.syncEngine.sync();
+    expect(resultA.pushed).toBe(1);
+    expect(deviceA.syncEngine.getState().pendingCount).toBe(0);
+
+    const deviceB = createDevice();
+    const resultB = await deviceB.syncEngine.sync();
+    expect(resultB.pulled).toBe(1);
+    expect(await deviceB.dataService.getPost(post.id)).toMatchObject({ content: '端末Aの投稿', tags: ['日記'] });
+  });
+
+  it('編集とゴミ箱への移動を別の端末に反映し、画面に通知する', async () => {
+    const deviceA = createDevice();
+    const deviceB = createDevice();
+    const post = await deviceA.dataService.createPost({ content: '最初の本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+
+    const changes: string[] = [];
+    deviceB.dataService.subscribeToUpdates(change => {
+      changes.push(...change.updated, ...change.deleted);
+    });
+
+    await deviceA.dataService.updatePost(post.id, { content: '編集した本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+    expect(await deviceB.dataService.getPost(post.id)).toMatchObject({ content: '編集した本文' });
+
+    await deviceA.dataService.deletePost(post.id);
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+    expect(await deviceB.dataService.getPost(post.id)).toBeNull();
+    expect((await deviceB.dataService.getTrashedPosts()).map(item => item.id)).toEqual([post.id]);
+    expect(changes).toEqual([post.id, post.id]);
+  });
+
+  it('本文が両方で編集された場合は競合として残し、まとめた内容で解決できる', async () => {
+    const deviceA = createDevice();
+    const deviceB = createDevice();
+    const post = await deviceA.dataService.createPost({ content: '元の本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+
+    await deviceA.dataService.updatePost(post.id, { content: '端末Aの本文' });
+    await deviceB.dataService.updatePost(post.id, { content: '端末Bの本文' });
+    await deviceA.syncEngine.sync();
+
+    const result = await deviceB.syncEngine.sync();
+    expect(result.conflicts).toBe(1);
+    const [conflict] = deviceB.syncEngine.getState().conflicts;
+    expect(conflict.local?.content).toBe('端末Bの本文');
+    expect(conflict.remote?.content).toBe('端末Aの本文');
+    // 解決するまでは端末Bの内容を送信しない
+    expect(await deviceB.dataService.getPost(post.id)).toMatchObject({ content: '端末Bの本文' });
+
+    await deviceB.syncEngine.resolveConflict(post.id, { type: 'merged', content: '両方をまとめた本文', tags: [] });
+    expect(deviceB.syncEngine.getState().conflicts).toHaveLength(0);
+    await deviceB.syncEngine.sync();
+    await deviceA.syncEngine.sync();
+
+    expect(await deviceA.dataService.getPost(post.id)).toMatchObject({ content: '両方をまとめた本文' });
+    expect(deviceA.syncEngine.getState().pendingCount).toBe(0);
+    expect(deviceB.syncEngine.getState().pendingCount).toBe(0);
+  });
+
+  it('サーバーの内容を選んだ場合も、この端末の内容は編集履歴に残る', async () => {
+    const deviceA = createDevice();
+    const deviceB = createDevice();
+    const post = await deviceA.dataService.createPost({ content: '元の本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+
+    await deviceA.dataService.updatePost(post.id, { content: '端末Aの本文' });
+    await deviceB.dataService.updatePost(post.id, { content: '端末Bの本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+
+    await deviceB.syncEngine.resolveConflict(post.id, { type: 'remote' });
+    expect(await deviceB.dataService.getPost(post.id)).toMatchObject({ content: '端末Aの本文' });
+    const revisions = await deviceB.dataService.getRevisions(post.id);
+    expect(revisions.map(revision => revision.content)).toContain('端末Bの本文');
+    expect(deviceB.syncEngine.getState().pendingCount).toBe(0);
+  });
+
+  it('本文以外の競合は、更新日時が新しい方で自動的に解決する', async () => {
+    const deviceA = createDevice();
+    const deviceB = createDevice();
+    const post = await deviceA.dataService.createPost({ content: '本文', tags: ['元'] });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+
+    await deviceA.dataService.updatePost(post.id, { tags: ['端末A'] });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await deviceB.dataService.updatePost(post.id, { tags: ['端末B'] });
+    await deviceA.syncEngine.sync();
+    const result = await deviceB.syncEngine.sync();
+    await deviceA.syncEngine.sync();
+
+    expect(result.conflicts).toBe(0);
+    expect((await deviceA.dataService.getPost(post.id))?.tags).toEqual(['端末B']);
+    expect((await deviceB.dataService.getPost(post.id))?.tags).toEqual(['端末B']);
+  });
+
+  it('暗号化が有効な場合、同期の状態と送信する内容には暗号文だけが入る', async () => {
+    const storage = createStorage();
+    const deviceA = createSyncEngine(new MemoryDataService(), storage);
+    deviceA.syncEngine.setSettings({ serverUrl, token: null });
+    const { key } = await createEncryptionSettings('correct horse', { iterations: 1000 });
+    const serviceA = new EncryptedDataService(deviceA.dataService, key);
+    deviceA.syncEngine.setContentCipher(serviceA);
+
+    const post = await serviceA.createPost({ content: '秘密の日記' });
+    expect(storage.getItem(SYNC_STATE_STORAGE_KEY)).not.toContain('秘密の日記');
+
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    try {
+      await deviceA.syncEngine.sync();
+      const bodies = fetchSpy.mock.calls.map(([, init]) => String(init?.body ?? ''));
+      expect(bodies.some(body => body.includes('enc:v1:'))).toBe(true);
+      expect(bodies.join('\n')).not.toContain('秘密の日記');
+    } finally {
+      fetchSpy.mockRestore();
+    }
+
+    // 同じ鍵を持つ端末では復号して読める
+    const deviceB = createDevice();
+    await deviceB.syncEngine.sync();
+    expect(isEncryptedContent((await deviceB.dataService.getPost(post.id))!.content)).toBe(true);
+    expect(await new EncryptedDataService(deviceB.dataService, key).getPost(post.id)).toMatchObject({ content: '秘密の日記' });
+  });
+
+  it('暗号化が有効な場合、競合は復号して表示し、まとめた内容は暗号化して保存する', async () => {
+    const { key } = await createEncryptionSettings('correct horse', { iterations: 1000 });
+    const storage = createStorage();
+    const deviceA = createDevice();
+    const deviceB = createSyncEngine(new MemoryDataService(), storage);
+    deviceB.syncEngine.setSettings({ serverUrl, token: null });
+    const serviceA = new EncryptedDataService(deviceA.dataService, key);
+    const serviceB = new EncryptedDataService(deviceB.dataService, key);
+    deviceA.syncEngine.setContentCipher(serviceA);
+    deviceB.syncEngine.setContentCipher(serviceB);
+
+    const post = await serviceA.createPost({ content: '元の本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+    await serviceA.updatePost(post.id, { content: '端末Aの本文' });
+    await serviceB.updatePost(post.id, { content: '端末Bの本文' });
+    await deviceA.syncEngine.sync();
+    await deviceB.syncEngine.sync();
+
+    const [conflict] = await deviceB.syncEngine.getReadableConflicts();
+    expect(conflict.local?.content).toBe('端末Bの本文');
+    expect(conflict.remote?.content).toBe('端末Aの本文');
+    expect(storage.getItem(SYNC_STATE_STORAGE_KEY)).not.toContain('端末Aの本文');
+
+    await deviceB.syncEngine.resolveConflict(post.id, { type: 'merged', content: '両方をまとめた本文', tags: [] });
+    expect(isEncryptedContent((await deviceB.dataService.getPost(post.id))!.content)).toBe(true);
+    await deviceB.syncEngine.sync();
+    await deviceA.syncEngine.sync();
+    expect(await serviceA.getPost(post.id)).toMatchObject({ content: '両方をまとめた本文' });
+  });
+
+  it('アクセストークンが正しくない場合はエラーを状態に記録する', async () => {
+    await new Promise(resolve => server.close(resolve));
+    server = createSyncServer({ token: 'secret' });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const device = createDevice();
+    await expect(device.syncEngine.sync()).rejects.toThrow('認証に失敗しました');
+    expect(device.syncEngine.getState()).toMatchObject({ status: 'error' });
+
+    device.syncEngine.setSettings({ serverUrl, token: 'secret' });
+    await expect(device.syncEngine.sync()).resolves.toMatchObject({ conflicts: 0 });
+  });
+
+  it('送信できなかった変更は再試行の予定を延ばし、繰り返し失敗すると送信失敗として表示する', async () => {
+    const deviceA = createDevice();
+    const first = await deviceA.dataService.createPost({ content: '1件目' });
+    const second = await deviceA.dataService.createPost({ content: '2件目' });
+    await new Promise(resolve => server.close(resolve));
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      await expect(deviceA.syncEngine.sync()).rejects.toThrow();
+      let state = deviceA.syncEngine.getState();
+      expect(state.postStatuses).toEqual({ [first.id]: 'pending', [second.id]: 'pending' });
+      expect(state.nextRetryAt!.getTime()).toBeGreaterThan(Date.now());
+
+      // 再試行の予定までは送信しない
+      for (let attempt = 1; attempt < 3; attempt++) {
+        vi.setSystemTime(deviceA.syncEngine.getState().nextRetryAt!);
+        await expect(deviceA.syncEngine.sync()).rejects.toThrow();
+      }
+      state = deviceA.syncEngine.getState();
+      expect(state.failedCount).toBe(2);
+      expect(state.postStatuses[first.id]).toBe('failed');
+    } finally {
+      vi.useRealTimers();
+    }
+
+    // サーバーが復旧したら、すべて再送信で変更した順に送信する
+    await deviceA.dataService.updatePost(first.id, { content: '1件目を編集' });
+    server = createSyncServer();
+    await new Promise<void>(resolve => server.listen(Number(new URL(serverUrl).port), '127.0.0.1', resolve));
+
+    const result = await deviceA.syncEngine.retryAll();
+    expect(result.pushed).toBe(2);
+    expect(deviceA.syncEngine.getState()).toMatchObject({ pendingCount: 0, failedCount: 0, nextRetryAt: null, postStatuses: {} });
+
+    const response = await fetch(`${serverUrl}/api/sync/changes?since=0`);
+    const { records } = await response.json();
+    expect(records.map((record: { postId: string }) => record.postId)).toEqual([second.id, first.id]);
+  });
+});
@@ -0,0 +1,180 @@
+import type { DataService } from './DataService';
+import { IndexedDBService } from './IndexedDBService';
+import { MemoryDataService } from './MemoryDataService';
+import { LocalStorageDataService } from './LocalStorageDataService';
+import { createDemoPosts } from './demoData';
+
+// お試しモードを有効にするURLパラメータ（例: /?demo）
+export const DEMO_MODE_PARAM = 'demo';
+
+// IndexedDBの初期化を待つ時間（環境によってはopenが応答しないまま止まるため）
+const INDEXED_DB_INIT_TIMEOUT_MS = 5000;
+
+// 実際に使用している保存先
+export type StorageBackend = 'indexedDB' | 'localStorage' | 'memory' | 'demo';
+
+// 起動時に選択したデータサービス
+export interface DataServiceSelection {
+  service: DataService;
+  backend: StorageBackend;
+  fallbackReason?: string;        // IndexedDBを使えなかった理由
+  pendingMigrationCount: number;  // 簡易保存モードで保存され、IndexedDBに移行していない投稿の件数
+}
+
+// DataServiceProviderで指定がない場合に使う既定のインスタンス
+let defaultDataService: DataService | null = null;
+
+/**
+ * お試しモードで起動しているか
+ * URLに ?demo が含まれる場合は、利用者の記録（IndexedDB）に一切アクセスしない
+ */
+export function isDemoMode(): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  return new URLSearchParams(window.location.search).has(DEMO_MODE_PARAM);
+}
+
+/**
+ * お試しモードの切り替え先のURLを取得する
+ * モジュール単位でデータサービスを生成しているため、切り替えはページの再読み込みで行う
+ * @param enabled お試しモードにするか
+ */
+export function getDemoModeUrl(enabled: boolean): string {
+  const url = new URL(window.location.href);
+  if (enabled) {
+    url.searchParams.set(DEMO_MODE_PARAM, '');
+  } else {
+    url.searchParams.delete(DEMO_MODE_PARAM);
+  }
+  return url.toString();
+}
+
+/**
+ * 起動モードに応じたデータサービスを生成する
+ * - 通常: IndexedDBService
+ * - お試しモード: サンプル投稿を読み込んだMemoryDataService
+ */
+export function createDataService(): DataService {
+  if (isDemoMode()) {
+    return new MemoryDataService({ posts: createDemoPosts() });
+  }
+  return new IndexedDBService();
+}
+
+/**
+ * 既定のデータサービスを取得する（アプリ全体で1つのインスタンスを共有する）
+ */
+export function getDefaultDataService(): DataService {
+  if (!defaultDataService) {
+    defaultDataService = createDataService();
+  }
+  return defaultDataService;
+}
+
+/**
+ * 時間内に応答がなければ失敗として扱い、IndexedDBを初期化する
+ */
+function initIndexedDB(service: IndexedDBService, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error('IndexedDBの初期化が時間内に完了しませんでした'));
+    }, timeoutMs);
+
+    service.init().then(
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * 簡易保存モードで保存され、まだ移行していない投稿の件数を数える
+ */
+function countPendingMigration(): number {
+  if (!LocalStorageDataService.isAvailable()) {
+    return 0;
+  }
+  try {
+    return new LocalStorageDataService().getStoredPostCount();
+  } catch (error) {
+    console.warn('[データサービス] 簡易保存モードのデータを読み込めませんでした', error);
+    return 0;
+  }
+}
+
+/**
+ * 起動時に利用できる保存先を選択する
+ * - お試しモード: サンプル投稿を読み込んだMemoryDataService
+ * - 通常: IndexedDBService
+ * - IndexedDBを開けない場合: LocalStorageDataService（簡易保存モード）
+ * - localStorageも使えない場合: MemoryDataService（ページを閉じると消える）
+ *
+ * 選択したサービスは既定のデータサービスとしても使われる
+ * @param timeoutMs IndexedDBの初期化を待つ時間（ミリ秒）
+ */
+export async function selectDataService(timeoutMs = INDEXED_DB_INIT_TIMEOUT_MS): Promise<DataServiceSelection> {
+  let selection: DataServiceSelection;
+
+  if (isDemoMode()) {
+    selection = { service: createDataService(), backend: 'demo', pendingMigrationCount: 0 };
+  } else {
+    const indexedDBService = new IndexedDBService();
+    try {
+      await initIndexedDB(indexedDBService, timeoutMs);
+      selection = {
+        service: indexedDBService,
+        backend: 'indexedDB',
+        pendingMigrationCount: countPendingMigration(),
+      };
+    } catch (error) {
+      const fallbackReason = error instanceof Error ? error.message : String(error);
+      console.warn('[データサービス] IndexedDBを利用できないため、代わりの保存先を使用します', error);
+
+      if (LocalStorageDataService.isAvailable()) {
+        selection = {
+          service: new LocalStorageDataService(),
+          backend: 'localStorage',
+          fallbackReason,
+          pendingMigrationCount: 0,
+        };
+      } else {
+        selection = {
+          service: new MemoryDataService(),
+          backend: 'memory',
+          fallbackReason,
+          pendingMigrationCount: 0,
+        };
+      }
+    }
+  }
+
+  defaultDataService = selection.service;
+  return selection;
+}
+
+/**
+ * 簡易保存モードで保存した投稿をIndexedDBに移行する
+ * 移行が完了したデータはlocalStorageから削除する
+ * @param target 移行先（省略時は新しく開いたIndexedDBService）
+ * @returns IndexedDBに取り込んだ投稿の件数
+ */
+export async function migrateFallbackPosts(
+  target: IndexedDBService = new IndexedDBService(),
+  timeoutMs = INDEXED_DB_INIT_TIMEOUT_MS
+): Promise<number> {
+  await initIndexedDB(target, timeoutMs);
+
+  const source = new LocalStorageDataService();
+  const { posts, revisions } = source.exportSnapshot();
+  const importedCount = await target.importPosts(posts, revisions);
+
+  source.clear();
+  return importedCount;
+}
@@ -13,13 +13,16 @@ export async function demoIndexedDBService() {
   try {
     // 1. 投稿作成
     console.log('1. 投稿を作成中...');
-    const post1 = await service.createPost('これは最初のテスト投稿です。\n\n**Markdown**も使えます！');
+    const post1 = await service.createPost({
+      content: 'これは最初のテスト投稿です。\n\n**Markdown**も使えます！',
+      tags: ['デモ']
+    });
     console.log('作成された投稿:', post1);
     
     // 少し待つ
     await new Promise(resolve => setTimeout(resolve, 100));
     
-    const post2 = await service.createPost('2番目の投稿です。\n\n- リスト項目1\n- リスト項目2');
+    const post2 = await service.createPost({ content: '2番目の投稿です。\n\n- リスト項目1\n- リスト項目2' });
     console.log('作成された投稿:', post2);
     
     // 2. 全投稿取得
@@ -41,7 +44,7 @@ export async function demoIndexedDBService() {
     
     // 4. 投稿更新
     console.log('\n4. 投稿を更新中...');
-    const updatedPost = await service.updatePost(post1.id, '更新されたコンテンツです！\n\n`コードブロック`も使えます。');
+    const updatedPost = await service.updatePost(post1.id, { content: '更新されたコンテンツです！\n\n`コードブロック`も使えます。' });
     console.log('更新された投稿:', updatedPost);
     
     // 5. 日付範囲での取得
@@ -51,7 +54,15 @@ export async function demoIndexedDBService() {
     const oneHourLater = new Date(now.getTime() + 60 * 60 * 1000);
     const postsInRange = await service.getPostsByDateRange(oneHourAgo, oneHourLater);
     console.log(`日付範囲内の投稿数: ${postsInRange.length}`);
-    
+
+    // タグでの取得
+    const taggedPosts = await service.getPostsByTag('デモ');
+    console.log(`タグ「デモ」の投稿数: ${taggedPosts.length}`);
+
+    // 全文検索
+    const searchResults = await service.searchPosts('コンテンツ');
+    console.log(`「コンテンツ」の検索結果: ${searchResults.length}件`);
+
     // 6. 統計情報取得
     console.log('\n6. 統計情報を取得中...');
     const stats = await service.getStats();
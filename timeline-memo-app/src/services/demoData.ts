@@ -0,0 +1,39 @@
+import type { Post } from '../types';
+
+// お試しモードのサンプル投稿（daysAgo日前のhour時に作成）
+const DEMO_POST_TEMPLATES: { daysAgo: number; hour: number; content: string; tags: string[] }[] = [
+  { daysAgo: 0, hour: 8, content: 'おはようございます。今日からTimeline Memoを試してみます。', tags: ['日記'] },
+  { daysAgo: 0, hour: 12, content: '## ランチ\n\n駅前のカレー屋さん。**辛口**がおいしかった。', tags: ['食事'] },
+  { daysAgo: 1, hour: 21, content: '今日の振り返り\n\n- 企画書のドラフトを書いた\n- 夕方に30分散歩\n- 本を50ページ読んだ', tags: ['振り返り', '仕事'] },
+  { daysAgo: 2, hour: 19, content: '雨の日はカフェで読書。『星の王子さま』を読み返した。', tags: ['読書'] },
+  { daysAgo: 3, hour: 7, content: '早起きしてジョギング 5km。気持ちいい朝。', tags: ['運動'] },
+  { daysAgo: 5, hour: 22, content: 'ちょっと疲れ気味。今日は早めに寝る。', tags: ['日記'] },
+  { daysAgo: 6, hour: 15, content: '週末は友達と公園でピクニック。天気に恵まれた。', tags: ['休日'] },
+  { daysAgo: 9, hour: 10, content: '新しいプロジェクトのキックオフ。メモは[ここ](https://example.com)にまとめる。', tags: ['仕事'] },
+  { daysAgo: 13, hour: 20, content: '2週間前の自分へ：続けることが大事。', tags: ['振り返り'] }
+];
+
+/**
+ * お試しモード用のサンプル投稿を生成する
+ * 実行日を基準にした日時で作成し、カレンダーや日記ビューで直近の投稿として表示されるようにする
+ * @param now 基準日時
+ */
+export function createDemoPosts(now: Date = new Date()): Post[] {
+  return DEMO_POST_TEMPLATES.map((template, index) => {
+    const createdAt = new Date(now);
+    createdAt.setDate(createdAt.getDate() - template.daysAgo);
+    createdAt.setHours(template.hour, 0, 0, 0);
+    // 基準日時より未来にならないようにする（当日の投稿は作成順を保ったまま現在時刻の直前にずらす）
+    if (createdAt > now) {
+      createdAt.setTime(now.getTime() - index * 60 * 1000);
+    }
+
+    return {
+      id: `demo-post-${index + 1}`,
+      content: template.content,
+      tags: template.tags,
+      createdAt,
+      updatedAt: new Date(createdAt)
+    };
+  });
+}
@@ -1,10 +1,14 @@
 // サービス層のエクスポート
 export { IndexedDBService } from './IndexedDBService';
+export { MemoryDataService } from './MemoryDataService';
+export { LocalStorageDataService } from './LocalStorageDataService';
+export { createDataService, isDemoMode, selectDataService, migrateFallbackPosts } from './dataServiceFactory';
 export { DiaryService } from './DiaryService';
 export { CalendarService } from './CalendarService';
 export { StatsService } from './StatsService';
 export { MotivationService } from './MotivationService';
 export type { DataService } from './DataService';
+export type { DataServiceSelection, StorageBackend } from './dataServiceFactory';
 
 // 型定義のエクスポート
 export type { DiaryStats, MonthlySummary, StreakResult } from './StatsService';
\ No newline at end of file
@@ -0,0 +1,627 @@
+import { parseICalDateTime, parseICalendar, splitICalList, unescapeICalText } from '../utils/icalendarUtils';
+
+/**
+ * 他の日記アプリの書き出したファイルの読み込み（取り込みの形式ごとのパーサー）
+ * 形式を追加する場合は、JournalParserを実装してJOURNAL_PARSERSに加える
+ */
+
+// 取り込みに対応している形式
+export type JournalFormat = 'dayOne' | 'journey' | 'twitter' | 'line' | 'icalendar' | 'text';
+
+// ファイルから読み込んだ記事（日時は元のアプリの日時のまま）
+export interface JournalEntry {
+  source: string;       // どの記事か（取り込みの結果の表示に使う。ファイル名と記事の番号・日付など）
+  content: string;
+  createdAt: Date;
+  updatedAt?: Date;
+  tags: string[];
+  starred?: boolean;
+}
+
+// 読み込めなかった記事・ファイル
+export interface JournalImportFailure {
+  source: string;
+  reason: string;
+}
+
+export interface JournalParseResult {
+  entries: JournalEntry[];
+  failures: JournalImportFailure[];
+  excluded?: number;  // 取り込みの設定で除いた記事（返信・写真などだけのメッセージ）の件数
+}
+
+// 取り込みの設定（対応していない形式では無視する）
+export interface JournalImportOptions {
+  excludeReplies: boolean;  // 返信（他の人へのリプライ）を取り込まない
+  excludeMedia: boolean;    // 写真・動画などを取り込まない（写真などだけのメッセージは取り込まない）
+}
+
+export const DEFAULT_JOURNAL_IMPORT_OPTIONS: JournalImportOptions = {
+  excludeReplies: false,
+  excludeMedia: false
+};
+
+export interface JournalParser {
+  format: JournalFormat;
+  label: string;   // 表示名
+  accept: string;  // ファイル選択で選べるファイルの種類（input要素のaccept属性）
+  // ファイルの名前と内容から、この形式のファイルかどうかを判定する（形式の自動判定に使う）
+  canParse: (fileName: string, text: string) => boolean;
+  parse: (fileName: string, text: string, options: JournalImportOptions) => JournalParseResult;
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const toDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toStringArray = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+const normalizeNewlines = (text: string): string => text.replace(/\r\n?/g, '\n');
+
+// 時刻のない記事の時刻（その日の12時）
+const DEFAULT_HOUR = 12;
+
+const createLocalDate = (year: number, month: number, day: number, hours = DEFAULT_HOUR, minutes = 0): Date | undefined => {
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // 2月30日などの存在しない日付は読み取れない日付として扱う
+  return date.getMonth() === month - 1 && date.getDate() === day && hours < 24 && minutes < 60 ? date : undefined;
+};
+
+/**
+ * Day One（JSON形式の書き出し。{ metadata, entries: [...] }）
+ * 写真などの添付は取り込まず、本文中の添付の参照は取り除く
+ */
+const DAY_ONE_ATTACHMENT_PATTERN = /!\[[^\]]*\]\(dayone-moment:\/{1,2}[^)]*\)\n?/g;
+// Day Oneは本文のMarkdownの記号をバックスラッシュでエスケープして書き出す
+const DAY_ONE_ESCAPE_PATTERN = /\\([\\`*_{}[\]()#+\-.!>|~])/g;
+
+const isDayOneDocument = (value: unknown): value is { entries: unknown[] } => {
+  return isRecord(value)
+    && Array.isArray(value.entries)
+    && value.entries.every(entry => isRecord(entry) && 'creationDate' in entry);
+};
+
+export const dayOneParser: JournalParser = {
+  format: 'dayOne',
+  label: 'Day One（JSON）',
+  accept: 'application/json,.json',
+  canParse: (fileName, text) => /\.json$/i.test(fileName) && isDayOneDocument(parseJson(text)),
+  parse: (fileName, text) => {
+    const document = parseJson(text);
+    if (!isDayOneDocument(document)) {
+      return { entries: [], failures: [{ source: fileName, reason: 'Day OneのJSONファイルではありません' }] };
+    }
+
+    const result: JournalParseResult = { entries: [], failures: [] };
+    document.entries.forEach((value, index) => {
+      const entry = value as Record<string, unknown>;
+      const source = `${fileName} #${index + 1}`;
+      const createdAt = toDate(entry.creationDate);
+      if (!createdAt) {
+        result.failures.push({ source, reason: '作成日時を読み取れません' });
+        return;
+      }
+      const text = typeof entry.text === 'string' ? entry.text : '';
+      result.entries.push({
+        source,
+        content: normalizeNewlines(text)
+          .replace(DAY_ONE_ATTACHMENT_PATTERN, '')
+          .replace(DAY_ONE_ESCAPE_PATTERN, '$1'),
+        createdAt,
+        updatedAt: toDate(entry.modifiedDate),
+        tags: toStringArray(entry.tags),
+        starred: entry.starred === true
+      });
+    });
+    return result;
+  }
+};
+
+/**
+ * Journey（JSON形式の書き出し。1記事1ファイルで、日時はミリ秒の数値）
+ * 本文がHTMLの場合はテキストにする
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' '
+};
+
+const decodeHtmlEntities = (text: string): string => {
+  return text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity]);
+};
+
+const htmlToText = (html: string): string => {
+  return decodeHtmlEntities(html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, ''));
+};
+
+const isJourneyEntry = (value: unknown): value is Record<string, unknown> => {
+  return isRecord(value) && typeof value.date_journal === 'number';
+};
+
+// 1記事のファイルと、複数の記事をまとめた配列のファイルのどちらにも対応する
+const toJourneyEntries = (value: unknown): Record<string, unknown>[] | null => {
+  if (isJourneyEntry(value)) {
+    return [value];
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(isJourneyEntry)) {
+    return value;
+  }
+  return null;
+};
+
+export const journeyParser: JournalParser = {
+  format: 'journey',
+  label: 'Journey（JSON）',
+  accept: 'application/json,.json',
+  canParse: (fileName, text) => /\.json$/i.test(fileName) && toJourneyEntries(parseJson(text)) !== null,
+  parse: (fileName, text) => {
+    const entries = toJourneyEntries(parseJson(text));
+    if (!entries) {
+      return { entries: [], failures: [{ source: fileName, reason: 'JourneyのJSONファイルではありません' }] };
+    }
+
+    const result: JournalParseResult = { entries: [], failures: [] };
+    entries.forEach((entry, index) => {
+      const source = entries.length > 1 ? `${fileName} #${index + 1}` : fileName;
+      const createdAt = toDate(entry.date_journal);
+      if (!createdAt) {
+        result.failures.push({ source, reason: '作成日時を読み取れません' });
+        return;
+      }
+      const text = typeof entry.text === 'string' ? normalizeNewlines(entry.text) : '';
+      result.entries.push({
+        source,
+        content: /<[a-z][^>]*>/i.test(text) ? htmlToText(text) : text,
+        createdAt,
+        updatedAt: toDate(entry.date_modified),
+        tags: toStringArray(entry.tags),
+        starred: entry.favourite === true
+      });
+    });
+    return result;
+  }
+};
+
+/**
+ * X（旧Twitter）のアーカイブのtweets.js（window.YTD.tweets.part0 = [...]）
+ * t.coの短縮URLは元のURLに戻し、ハッシュタグをタグにする
+ */
+const TWITTER_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+// 「Wed Oct 10 20:19:24 +0000 2018」の形式の日時
+const TWITTER_DATE_PATTERN = /^\w{3} (\w{3}) (\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2}) (\d{4})$/;
+
+const parseTwitterDate = (value: unknown): Date | undefined => {
+  const match = typeof value === 'string' ? value.match(TWITTER_DATE_PATTERN) : null;
+  if (!match) {
+    return toDate(value);
+  }
+  const [, monthName, day, hours, minutes, seconds, sign, offsetHours, offsetMinutes, year] = match;
+  const month = TWITTER_MONTHS.indexOf(monthName);
+  if (month < 0) {
+    return undefined;
+  }
+  const offset = (sign === '-' ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes));
+  return new Date(Date.UTC(Number(year), month, Number(day), Number(hours), Number(minutes) - offset, Number(seconds)));
+};
+
+// 先頭の「window.YTD.tweets.part0 = 」を除き、JSONの配列として読み込む
+const parseTwitterArchive = (text: string): unknown[] | null => {
+  const match = text.match(/^\s*window\.YTD\.\w+\.part\d+\s*=\s*/);
+  if (!match) {
+    return null;
+  }
+  const value = parseJson(text.slice(match[0].length).trim().replace(/;$/, ''));
+  return Array.isArray(value) ? value : null;
+};
+
+const getEntityList = (entities: unknown, key: string): Record<string, unknown>[] => {
+  return isRecord(entities) && Array.isArray(entities[key]) ? entities[key].filter(isRecord) : [];
+};
+
+export const twitterParser: JournalParser = {
+  format: 'twitter',
+  label: 'X（旧Twitter）のアーカイブ（tweets.js）',
+  accept: '.js,text/javascript,application/javascript',
+  canParse: (fileName, text) => /\.js$/i.test(fileName) && parseTwitterArchive(text) !== null,
+  parse: (fileName, text, options) => {
+    const items = parseTwitterArchive(text);
+    if (!items) {
+      return { entries: [], failures: [{ source: fileName, reason: 'X（旧Twitter）のアーカイブのtweets.jsではありません' }] };
+    }
+
+    const result: JournalParseResult = { entries: [], failures: [], excluded: 0 };
+    items.forEach((item, index) => {
+      // 古いアーカイブは { tweet: {...} } で包まずにポストを並べている
+      const tweet = isRecord(item) && isRecord(item.tweet) ? item.tweet : item;
+      if (!isRecord(tweet)) {
+        result.failures.push({ source: `${fileName} #${index + 1}`, reason: 'ポストを読み取れません' });
+        return;
+      }
+      const source = typeof tweet.id_str === 'string' ? `${fileName} ${tweet.id_str}` : `${fileName} #${index + 1}`;
+      const text = typeof tweet.full_text === 'string' ? tweet.full_text : tweet.text;
+      const createdAt = parseTwitterDate(tweet.created_at);
+      if (typeof text !== 'string' || !createdAt) {
+        result.failures.push({ source, reason: typeof text !== 'string' ? '本文を読み取れません' : '作成日時を読み取れません' });
+        return;
+      }
+      if (options.excludeReplies && typeof tweet.in_reply_to_status_id_str === 'string') {
+        result.excluded!++;
+        return;
+      }
+
+      let content = decodeHtmlEntities(text);
+      getEntityList(tweet.entities, 'urls').forEach(url => {
+        if (typeof url.url === 'string' && typeof url.expanded_url === 'string') {
+          content = content.split(url.url).join(url.expanded_url);
+        }
+      });
+      // 写真・動画は取り込めないため、元のポストの写真のページへのリンクにする
+      const media = [...getEntityList(tweet.entities, 'media'), ...getEntityList(tweet.extended_entities, 'media')];
+      media.forEach(item => {
+        if (typeof item.url === 'string') {
+          const link = typeof item.expanded_url === 'string' ? item.expanded_url : item.url;
+          content = content.split(item.url).join(options.excludeMedia ? '' : link);
+        }
+      });
+      content = content.trim();
+      if (options.excludeMedia && media.length > 0 && content.length === 0) {
+        result.excluded!++;
+        return;
+      }
+
+      result.entries.push({
+        source,
+        content,
+        createdAt,
+        tags: getEntityList(tweet.entities, 'hashtags').flatMap(hashtag => typeof hashtag.text === 'string' ? [hashtag.text] : [])
+      });
+    });
+    return result;
+  }
+};
+
+/**
+ * LINEのトーク履歴（トークの設定の「トーク履歴を送信」で保存したテキスト）
+ * 日付の行（「2024/01/15(月)」「2024.01.15 月曜日」）の後に「時刻<TAB>送信者<TAB>本文」の行が続き、1件のメッセージを1件の記事にする
+ * 改行を含むメッセージは本文全体がダブルクォートで囲まれる
+ */
+const LINE_HEADER_PATTERN = /^\[LINE\]/;
+const LINE_DATE_PATTERN = /^(\d{4})[/.](\d{1,2})[/.](\d{1,2})(?:\s*[（(](?:[日月火水木金土]|Sun|Mon|Tue|Wed|Thu|Fri|Sat)[）)]|\s+[日月火水木金土]曜日)\s*$/;
+const LINE_MESSAGE_PATTERN = /^(午前|午後)?(\d{1,2}):(\d{2})\t[^\t]*\t(.*)$/;
+// 送信者のない行（「メッセージの送信を取り消しました」などの通知）
+const LINE_NOTICE_PATTERN = /^(午前|午後)?\d{1,2}:\d{2}\t[^\t]*$/;
+// 写真・スタンプなど、本文の代わりに種類だけが書かれたメッセージ
+const LINE_MEDIA_PATTERN = /^\[(写真|動画|スタンプ|ファイル|ボイスメッセージ|アルバム|位置情報|連絡先|GIF|Photo|Video|Sticker|File|Voice message|Album|Location|Contact)\]$/;
+
+// 行末のダブルクォートが奇数個の場合は、囲みの終わり（""はエスケープしたダブルクォート）
+const closesLineQuote = (line: string): boolean => {
+  const trailingQuotes = line.match(/"*$/)![0].length;
+  return trailingQuotes % 2 === 1;
+};
+
+const toLineMessageText = (lines: string[]): string => {
+  const text = lines.join('\n').trim();
+  if (lines.length > 1 && text.startsWith('"') && text.endsWith('"')) {
+    return text.slice(1, -1).replace(/""/g, '"');
+  }
+  return text;
+};
+
+export const lineParser: JournalParser = {
+  format: 'line',
+  label: 'LINEのトーク履歴（テキスト）',
+  accept: 'text/plain,.txt',
+  canParse: (fileName, text) => /\.txt$/i.test(fileName) && LINE_HEADER_PATTERN.test(text.replace(/^\uFEFF/, '')),
+  parse: (fileName, text, options) => {
+    const result: JournalParseResult = { entries: [], failures: [], excluded: 0 };
+    let date: { year: number; month: number; day: number; label: string } | null = null;
+    let current: { source: string; createdAt: Date | undefined; lines: string[]; inQuote: boolean } | null = null;
+    // LINEの時刻は分までのため、同じ分のメッセージは1ミリ秒ずつずらして会話の順番を残す
+    let previousMinute: number | null = null;
+    let sameMinuteCount = 0;
+
+    const flush = () => {
+      if (!current) {
+        return;
+      }
+      const content = toLineMessageText(current.lines);
+      if (!current.createdAt) {
+        result.failures.push({ source: current.source, reason: '日時を読み取れません' });
+      } else if (options.excludeMedia && LINE_MEDIA_PATTERN.test(content)) {
+        result.excluded!++;
+      } else {
+        result.entries.push({ source: current.source, content, createdAt: current.createdAt, tags: [] });
+      }
+      current = null;
+    };
+
+    normalizeNewlines(text).split('\n').forEach(line => {
+      if (current?.inQuote) {
+        current.lines.push(line);
+        current.inQuote = !closesLineQuote(line);
+        return;
+      }
+
+      const dateMatch = line.trim().match(LINE_DATE_PATTERN);
+      if (dateMatch) {
+        flush();
+        const [, year, month, day] = dateMatch;
+        date = { year: Number(year), month: Number(month), day: Number(day), label: line.trim() };
+        return;
+      }
+
+      const messageMatch = line.match(LINE_MESSAGE_PATTERN);
+      if (messageMatch) {
+        flush();
+        const [, period, hoursText, minutes, body] = messageMatch;
+        // 「午後1:30」のような12時間制の時刻は24時間制にする
+        const hours = period ? Number(hoursText) % 12 + (period === '午後' ? 12 : 0) : Number(hoursText);
+        const source = `${fileName} ${date ? `${date.label} ` : ''}${hoursText}:${minutes}`;
+        const minute = date ? createLocalDate(date.year, date.month, date.day, hours, Number(minutes)) : undefined;
+        sameMinuteCount = minute && minute.getTime() === previousMinute ? sameMinuteCount + 1 : 0;
+        previousMinute = minute ? minute.getTime() : null;
+        current = {
+          source,
+          createdAt: minute && new Date(minute.getTime() + sameMinuteCount),
+          lines: [body],
+          inQuote: body.startsWith('"') && !(body.length > 1 && closesLineQuote(body))
+        };
+        return;
+      }
+
+      if (LINE_NOTICE_PATTERN.test(line)) {
+        flush();
+        return;
+      }
+      // 先頭の「[LINE] ○○のトーク履歴」「保存日時：」などの行は取り込まない
+      current?.lines.push(line);
+    });
+    flush();
+
+    if (result.entries.length === 0 && result.failures.length === 0 && result.excluded === 0) {
+      result.failures.push({ source: fileName, reason: 'メッセージが見つかりません' });
+    }
+    return result;
+  }
+};
+
+/**
+ * iCalendar（.ics）の日誌（VJOURNAL）
+ * DTSTART（ない場合はCREATED）を作成日時、DESCRIPTIONを本文、CATEGORIESをタグにする
+ * 予定（VEVENT）などの日誌以外の要素は取り込まない
+ */
+export const icalendarParser: JournalParser = {
+  format: 'icalendar',
+  label: 'iCalendar（.ics）',
+  accept: 'text/calendar,.ics',
+  canParse: (fileName, text) => /\.ics$/i.test(fileName) || /^BEGIN:VCALENDAR/i.test(text.replace(/^\uFEFF/, '')),
+  parse: (fileName, text) => {
+    const journals = parseICalendar(text).filter(component => component.name === 'VJOURNAL');
+    if (journals.length === 0) {
+      return { entries: [], failures: [{ source: fileName, reason: '日誌（VJOURNAL）が含まれていません' }] };
+    }
+
+    const result: JournalParseResult = { entries: [], failures: [] };
+    journals.forEach((journal, index) => {
+      const values = (name: string) => journal.properties.filter(property => property.name === name);
+      const first = (name: string) => values(name)[0];
+      const source = `${fileName} #${index + 1}`;
+
+      const start = first('DTSTART') ?? first('CREATED');
+      const createdAt = start && parseICalDateTime(start.value, DEFAULT_HOUR);
+      if (!createdAt) {
+        result.failures.push({ source, reason: '日時を読み取れません' });
+        return;
+      }
+      const summary = first('SUMMARY') ? unescapeICalText(first('SUMMARY').value).trim() : '';
+      // 日誌は複数のDESCRIPTIONを持てる
+      const description = values('DESCRIPTION').map(property => unescapeICalText(property.value)).join('\n\n');
+      // 件名が本文の最初の行でない場合（他のアプリで書いた日誌のタイトル）は本文の前に加える
+      const content = summary && !description.trimStart().startsWith(summary)
+        ? [summary, description].filter(Boolean).join('\n\n')
+        : description;
+      const lastModified = first('LAST-MODIFIED');
+
+      result.entries.push({
+        source,
+        content,
+        createdAt,
+        updatedAt: lastModified && parseICalDateTime(lastModified.value),
+        tags: values('CATEGORIES').flatMap(property => splitICalList(property.value))
+      });
+    });
+    return result;
+  }
+};
+
+/**
+ * 日付の付いたテキスト・Markdownファイル（Obsidianのデイリーノートなど）
+ * - ファイル名またはフロントマターのdateに日付がある場合は、ファイル全体を1日分の記事にする
+ *   （「## 09:30」のような時刻の見出しがある場合は見出しごとに分ける。Markdownで書き出したファイルと同じ形式）
+ * - 日付がない場合は、日付だけの行（「2024-01-15」「# 2024/1/15 21:30」など）で記事を分ける
+ * 時刻がない記事は、その日の12時の記事にする
+ */
+const FILE_NAME_DATE_PATTERN = /(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})/;
+const DATE_LINE_PATTERN = /^(?:#{1,6}\s*)?(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:\s*[（(][^）)]*[）)])?(?:\s+(\d{1,2}):(\d{2}))?\s*$/;
+const TIME_HEADING_PATTERN = /^##\s+(\d{1,2}):(\d{2})\s*$/;
+const TAG_LINE_PATTERN = /^#[^\s#]+(?:\s+#[^\s#]+)*$/;
+
+// YAMLのフロントマター（先頭の---で囲んだ部分）を取り出す
+const splitFrontmatter = (text: string): { frontmatter: Record<string, string | string[]>; body: string } => {
+  const match = text.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+  if (!match) {
+    return { frontmatter: {}, body: text };
+  }
+
+  const frontmatter: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  match[1].split('\n').forEach(line => {
+    const listItem = line.match(/^\s+-\s+(.+)$/);
+    if (listItem && listKey) {
+      (frontmatter[listKey] as string[]).push(listItem[1].trim().replace(/^["']|["']$/g, ''));
+      return;
+    }
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) {
+      return;
+    }
+    const [, key, value] = field;
+    listKey = value === '' ? key : null;
+    if (value === '') {
+      frontmatter[key] = [];
+    } else if (/^\[.*\]$/.test(value)) {
+      frontmatter[key] = value.slice(1, -1).split(',').map(item => item.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+    } else {
+      frontmatter[key] = value.trim().replace(/^["']|["']$/g, '');
+    }
+  });
+  return { frontmatter, body: text.slice(match[0].length) };
+};
+
+// 記事の最後の「#タグ #タグ」だけの行をタグとして取り出す
+const splitTagLine = (content: string): { content: string; tags: string[] } => {
+  const lines = content.trimEnd().split('\n');
+  const lastLine = lines[lines.length - 1]?.trim() ?? '';
+  if (lines.length < 2 || !TAG_LINE_PATTERN.test(lastLine)) {
+    return { content, tags: [] };
+  }
+  return { content: lines.slice(0, -1).join('\n'), tags: lastLine.split(/\s+/).map(tag => tag.slice(1)) };
+};
+
+const toTagList = (value: string | string[] | undefined): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : value.split(/[,\s]+/).filter(Boolean);
+};
+
+// 1日分のファイルを、時刻の見出しごとの記事に分ける
+const parseDailyNote = (
+  fileName: string,
+  body: string,
+  date: { year: number; month: number; day: number },
+  fileTags: string[]
+): JournalParseResult => {
+  const lines = body.split('\n');
+  const headingIndexes = lines.flatMap((line, index) => TIME_HEADING_PATTERN.test(line) ? [index] : []);
+  const result: JournalParseResult = { entries: [], failures: [] };
+
+  if (headingIndexes.length === 0) {
+    const createdAt = createLocalDate(date.year, date.month, date.day);
+    const { content, tags } = splitTagLine(body);
+    if (createdAt) {
+      result.entries.push({ source: fileName, content, createdAt, tags: [...fileTags, ...tags] });
+    } else {
+      result.failures.push({ source: fileName, reason: '日付を読み取れません' });
+    }
+    return result;
+  }
+
+  headingIndexes.forEach((headingIndex, i) => {
+    const [, hours, minutes] = lines[headingIndex].match(TIME_HEADING_PATTERN)!;
+    const source = `${fileName} ${hours.padStart(2, '0')}:${minutes}`;
+    const createdAt = createLocalDate(date.year, date.month, date.day, Number(hours), Number(minutes));
+    if (!createdAt) {
+      result.failures.push({ source, reason: '時刻を読み取れません' });
+      return;
+    }
+    const section = lines.slice(headingIndex + 1, headingIndexes[i + 1] ?? lines.length).join('\n');
+    const { content, tags } = splitTagLine(section);
+    result.entries.push({ source, content, createdAt, tags });
+  });
+  return result;
+};
+
+// 日付だけの行で、複数の日の記事に分ける
+const parseDatedSections = (fileName: string, body: string, fileTags: string[]): JournalParseResult => {
+  const result: JournalParseResult = { entries: [], failures: [] };
+  let current: { source: string; createdAt: Date | undefined; lines: string[] } | null = null;
+  const undatedLines: string[] = [];
+
+  const flush = () => {
+    if (!current) {
+      return;
+    }
+    if (current.createdAt) {
+      const { content, tags } = splitTagLine(current.lines.join('\n'));
+      result.entries.push({ source: current.source, content, createdAt: current.createdAt, tags: [...fileTags, ...tags] });
+    } else {
+      result.failures.push({ source: current.source, reason: '日付を読み取れません' });
+    }
+  };
+
+  body.split('\n').forEach(line => {
+    const match = line.trim().match(DATE_LINE_PATTERN);
+    if (!match) {
+      (current ? current.lines : undatedLines).push(line);
+      return;
+    }
+    flush();
+    const [, year, month, day, hours, minutes] = match;
+    current = {
+      source: `${fileName} ${line.trim().replace(/^#+\s*/, '')}`,
+      createdAt: hours !== undefined
+        ? createLocalDate(Number(year), Number(month), Number(day), Number(hours), Number(minutes))
+        : createLocalDate(Number(year), Number(month), Number(day)),
+      lines: []
+    };
+  });
+  flush();
+
+  if (undatedLines.join('').trim().length > 0) {
+    result.failures.push({
+      source: fileName,
+      reason: result.entries.length > 0 ? '最初の日付より前の文章は取り込めません' : '日付が見つかりません'
+    });
+  }
+  return result;
+};
+
+export const textParser: JournalParser = {
+  format: 'text',
+  label: 'テキスト・Markdown（日付付き）',
+  accept: 'text/plain,text/markdown,.txt,.md,.markdown',
+  canParse: fileName => /\.(txt|md|markdown)$/i.test(fileName),
+  parse: (fileName, text) => {
+    const { frontmatter, body } = splitFrontmatter(normalizeNewlines(text).replace(/^\uFEFF/, ''));
+    const fileTags = toTagList(frontmatter.tags);
+    const frontmatterDate = typeof frontmatter.date === 'string' ? frontmatter.date.match(FILE_NAME_DATE_PATTERN) : null;
+    const dateMatch = frontmatterDate ?? fileName.replace(/^.*\//, '').match(FILE_NAME_DATE_PATTERN);
+
+    if (!dateMatch) {
+      return parseDatedSections(fileName, body, fileTags);
+    }
+    const [, year, month, day] = dateMatch;
+    // Markdownで書き出したファイルの「# 2024年1月15日（月）」のような日付の見出しは本文に含めない
+    const content = body.replace(/^\s*#\s+\d{4}[-/.年]\d{1,2}[-/.月]\d{1,2}日?(?:\s*[（(][^）)]*[）)])?\s*\n/, '');
+    return parseDailyNote(fileName, content, { year: Number(year), month: Number(month), day: Number(day) }, fileTags);
+  }
+};
+
+// 取り込みに対応している形式（自動判定ではこの順に判定する。LINEのトーク履歴は日付付きのテキストより先に判定する）
+export const JOURNAL_PARSERS: JournalParser[] = [dayOneParser, journeyParser, twitterParser, lineParser, icalendarParser, textParser];
@@ -0,0 +1,103 @@
+import type { Post } from '../types';
+import type { Migration } from './MigrationRunner';
+import { tokenize, getSearchableText } from '../utils/searchUtils';
+
+/**
+ * IndexedDBのスキーマ移行の定義
+ *
+ * 新しいフィールドやストアを追加する場合は、既存の定義は変更せずに末尾へ次のバージョンを追加する
+ * 既存レコードの書き換えが必要な場合は context.rewriteRecords を使う（同じトランザクション内で実行される）
+ */
+
+// ストア名の定義
+export const STORE_NAMES = {
+  posts: 'posts',
+  searchIndex: 'searchIndex',
+  revisions: 'revisions',
+  attachments: 'attachments'
+} as const;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '投稿ストアと日時インデックスを作成',
+    up(context) {
+      if (!context.hasStore(STORE_NAMES.posts)) {
+        context.createStore(STORE_NAMES.posts, { keyPath: 'id' });
+        context.createIndex(STORE_NAMES.posts, 'createdAt', 'createdAt', { unique: false });
+        context.createIndex(STORE_NAMES.posts, 'updatedAt', 'updatedAt', { unique: false });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'タグ検索用のmultiEntryインデックスを追加',
+    up(context) {
+      if (!context.hasIndex(STORE_NAMES.posts, 'tags')) {
+        // multiEntry: 配列の各要素を個別のキーとしてインデックス化する
+        context.createIndex(STORE_NAMES.posts, 'tags', 'tags', { unique: false, multiEntry: true });
+      }
+    }
+  },
+  {
+    version: 3,
+    description: '全文検索用の転置インデックスストアを追加し、既存の投稿から構築',
+    up(context) {
+      if (!context.hasStore(STORE_NAMES.searchIndex)) {
+        context.createStore(STORE_NAMES.searchIndex, { keyPath: ['token', 'postId'] });
+        context.createIndex(STORE_NAMES.searchIndex, 'postId', 'postId', { unique: false });
+      }
+
+      context.forEachRecord<Post>(STORE_NAMES.posts, post => {
+        tokenize(getSearchableText(post)).forEach(token => {
+          context.put(STORE_NAMES.searchIndex, { token, postId: post.id });
+        });
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'ゴミ箱用のdeletedAtインデックスを追加',
+    up(context) {
+      // deletedAtを持たない（未削除の）投稿はインデックスに含まれない
+      if (!context.hasIndex(STORE_NAMES.posts, 'deletedAt')) {
+        context.createIndex(STORE_NAMES.posts, 'deletedAt', 'deletedAt', { unique: false });
+      }
+    }
+  },
+  {
+    version: 5,
+    description: '編集履歴用のrevisionsストアを追加',
+    up(context) {
+      if (!context.hasStore(STORE_NAMES.revisions)) {
+        context.createStore(STORE_NAMES.revisions, { keyPath: 'id' });
+        context.createIndex(STORE_NAMES.revisions, 'postId', 'postId', { unique: false });
+      }
+    }
+  },
+  {
+    version: 6,
+    description: '添付画像用のattachmentsストアを追加',
+    up(context) {
+      if (!context.hasStore(STORE_NAMES.attachments)) {
+        context.createStore(STORE_NAMES.attachments, { keyPath: 'id' });
+        // 投稿に紐付いていない（postIdがnullの）添付画像はpostIdインデックスに含まれない
+        context.createIndex(STORE_NAMES.attachments, 'postId', 'postId', { unique: false });
+        context.createIndex(STORE_NAMES.attachments, 'createdAt', 'createdAt', { unique: false });
+      }
+    }
+  },
+  {
+    version: 7,
+    description: 'ピン留め・スター付きの投稿を取得するインデックスを追加',
+    up(context) {
+      // 真偽値はインデックスのキーにできないため、フラグを立てた投稿のみ 1 を保存する（フラグのない投稿はインデックスに含まれない）
+      if (!context.hasIndex(STORE_NAMES.posts, 'pinned')) {
+        context.createIndex(STORE_NAMES.posts, 'pinned', 'pinned', { unique: false });
+      }
+      if (!context.hasIndex(STORE_NAMES.posts, 'starred')) {
+        context.createIndex(STORE_NAMES.posts, 'starred', 'starred', { unique: false });
+      }
+    }
+  }
+];
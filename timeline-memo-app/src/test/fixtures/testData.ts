@@ -256,7 +256,14 @@ export const createMockAppState = (overrides: Partial<AppState> = {}): AppState
     diaryStats: createMockDiaryStats(),
     motivationMessages: [createMockMotivationMessage()],
     lastPostDate: posts[0]?.createdAt || null,
-    daysSinceLastPost: 0
+    daysSinceLastPost: 0,
+    searchQuery: '',
+    searchResults: null,
+    postsCursor: null,
+    hasMorePosts: false,
+    remotelyDeletedPostIds: [],
+    showStarredOnly: false,
+    storageRecovery: null
   };
 
   return { ...defaultState, ...overrides };
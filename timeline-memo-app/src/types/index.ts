@@ -4,19 +4,116 @@ export interface Post {
   content: string;      // Markdown対応のコンテンツ
   createdAt: Date;      // 投稿日時
   updatedAt: Date;      // 更新日時
-  tags?: string[];      // 将来拡張用のタグ機能
+  tags?: string[];      // タグ（multiEntryインデックスで検索）
+  deletedAt?: Date;     // ゴミ箱に移動した日時（未削除の場合はundefined）
+  pinned?: boolean;     // ピン留め（投稿リストの先頭に表示する）
+  starred?: boolean;    // スター（重要な投稿の目印。スター付きのみの絞り込みに使う）
+}
+
+// Post revision (編集前のバージョン)
+export interface PostRevision {
+  id: string;           // UUID
+  postId: string;       // 対象の投稿ID（postIdインデックスで検索）
+  content: string;      // そのバージョンの本文
+  tags?: string[];      // そのバージョンのタグ
+  createdAt: Date;      // そのバージョンが保存された日時
+}
+
+// Post change event (他のタブで変更された投稿のID)
+export interface PostChangeEvent {
+  created: string[];    // 作成・ゴミ箱から復元された投稿
+  updated: string[];    // 更新された投稿
+  deleted: string[];    // ゴミ箱に移動・完全に削除された投稿
 }
 
 // Post creation input (without generated fields)
 export interface CreatePostInput {
   content: string;
   tags?: string[];
+  createdAt?: Date; // 投稿日時（過去の日付で書く場合。省略時は現在日時）
 }
 
 // Post update input (partial content update)
 export interface UpdatePostInput {
   content?: string;
   tags?: string[];
+  createdAt?: Date; // 投稿日時の変更（編集履歴には残さない）
+}
+
+// ピン留め・スターの変更（updatePostFlagsで使用。指定したフラグのみ変更する）
+export interface PostFlags {
+  pinned?: boolean;
+  starred?: boolean;
+}
+
+// 一括更新の対象（updatePostsで使用）
+export interface PostUpdate {
+  id: string;
+  input: UpdatePostInput;
+}
+
+// Cursor of the posts page (the last post of the previous page)
+// 同じ日時の投稿はIDの降順に並べ、日時とIDの組でページの境界を決める
+export interface PostsPageCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// Cursor-based pagination options (newest first)
+export interface PostsPageOptions {
+  before?: PostsPageCursor; // このカーソルより後ろ（古い側）の投稿を取得（未指定の場合は最新から）
+  limit: number;
+}
+
+// 投稿の取り込みオプション（移行・同期で使用）
+export interface ImportPostsOptions {
+  overwrite?: boolean; // trueの場合、同じIDの投稿を更新日時に関わらず上書きする
+}
+
+// 添付画像のサムネイル
+export interface AttachmentThumbnail {
+  data: ArrayBuffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// 添付画像（本文からは attachment://<id> の形式で参照する）
+export interface Attachment {
+  id: string;                 // UUID
+  postId: string | null;      // 紐付いている投稿ID（投稿を保存する前はnull）
+  fileName: string;
+  mimeType: string;
+  size: number;               // 元の画像のバイト数
+  width: number;
+  height: number;
+  data: ArrayBuffer;          // 元の画像
+  thumbnail: AttachmentThumbnail | null; // 一覧表示用の縮小画像（作成できなかった場合はnull）
+  createdAt: Date;
+}
+
+// 保存データの種類ごとの使用量（バイト、JSONに換算したおおよその値）
+export interface DataStorageUsage {
+  posts: number;       // 投稿（ゴミ箱の投稿と検索用の索引を含む）
+  revisions: number;   // 編集履歴
+  attachments: number; // 添付画像（サムネイルを含む）
+}
+
+// 添付画像の保存時の入力
+export type CreateAttachmentInput = Omit<Attachment, 'id' | 'postId' | 'createdAt'>;
+
+// 添付画像の保存先（投稿を完全に削除すると、紐付いている添付画像も削除される）
+export interface AttachmentStore {
+  saveAttachment(input: CreateAttachmentInput): Promise<Attachment>;
+  getAttachment(id: string): Promise<Attachment | null>;
+  assignAttachments(ids: string[], postId: string): Promise<void>; // まだ投稿に紐付いていない添付画像だけを紐付ける
+  purgeOrphanAttachments(olderThan: Date): Promise<number>; // 指定日時より前に保存され、投稿に紐付いていない添付画像を削除
+}
+
+// Cursor-based pagination result
+export interface PostsPage {
+  posts: Post[];
+  nextCursor: PostsPageCursor | null; // 次ページ取得時のbefore（nullの場合は続きなし）
 }
 
 // Timeline data structure
@@ -42,6 +139,12 @@ export interface DiaryEntry {
   postCount: number;
 }
 
+// 日記エントリーのページング取得結果
+export interface DiaryEntriesPage {
+  entries: DiaryEntry[];
+  nextCursor: PostsPageCursor | null;
+}
+
 export interface CalendarDay {
   date: Date;
   hasPost: boolean;
@@ -114,14 +217,40 @@ export interface AppState {
   motivationMessages: MotivationMessage[];
   lastPostDate: Date | null;
   daysSinceLastPost: number;
+  // 全文検索用のフィールド
+  searchQuery: string;
+  searchResults: Post[] | null; // nullの場合は検索していない状態
+  // ページング用のフィールド
+  postsCursor: PostsPageCursor | null; // 次ページ取得時のカーソル
+  hasMorePosts: boolean;
+  // タブ間同期用のフィールド
+  remotelyDeletedPostIds: string[]; // 他のタブで削除された投稿（編集中フォームの警告用）
+  // スター付きの投稿のみ表示するか（全ビューモード共通）
+  showStarredOnly: boolean;
+  // 保存容量の確認画面（容量不足で保存できなかった場合は失敗した操作と未保存の内容を持つ、閉じている時はnull）
+  storageRecovery: StorageRecoveryState | null;
+}
+
+// 保存容量の確認画面の状態
+export interface StorageRecoveryState {
+  operation: string | null;      // 容量不足で失敗した操作（画面から開いた場合はnull）
+  unsavedContent: string | null; // 保存できなかった投稿の本文
 }
 
 // State management actions
 export type AppAction = 
   | { type: 'LOAD_POSTS'; payload: Post[] }
+  | { type: 'LOAD_POSTS_PAGE'; payload: PostsPage } // 先頭ページで置き換え
+  | { type: 'APPEND_POSTS_PAGE'; payload: PostsPage } // 続きのページを末尾に追加
   | { type: 'ADD_POST'; payload: Post }
   | { type: 'UPDATE_POST'; payload: Post }
   | { type: 'DELETE_POST'; payload: string }
+  | { type: 'RESTORE_POST'; payload: Post } // ゴミ箱から復元した投稿を一覧に戻す
+  | { type: 'ADD_POSTS'; payload: Post[] } // 一括作成した投稿を作成日時の位置に追加
+  | { type: 'UPDATE_POSTS'; payload: Post[] } // 一括更新した投稿を置き換え
+  | { type: 'DELETE_POSTS'; payload: string[] } // 一括でゴミ箱に移動した投稿を一覧から外す
+  | { type: 'APPLY_REMOTE_CHANGES'; payload: { posts: Post[]; deletedIds: string[] } } // 他のタブでの変更を反映
+  | { type: 'DISMISS_REMOTE_DELETION'; payload: string } // 他のタブでの削除の警告を閉じる
   | { type: 'SELECT_POST'; payload: string | null }
   | { type: 'HIGHLIGHT_POST'; payload: string } // 単一投稿のハイライト
   | { type: 'HIGHLIGHT_POSTS'; payload: string[] } // 複数投稿のハイライト
@@ -143,22 +272,67 @@ export type AppAction =
   | { type: 'REMOVE_MOTIVATION_MESSAGE'; payload: string }
   | { type: 'CLEAR_MOTIVATION_MESSAGES' }
   | { type: 'UPDATE_LAST_POST_DATE'; payload: Date | null }
-  | { type: 'UPDATE_DAYS_SINCE_LAST_POST'; payload: number };
+  | { type: 'UPDATE_DAYS_SINCE_LAST_POST'; payload: number }
+  // 全文検索用のアクション
+  | { type: 'SET_SEARCH_QUERY'; payload: string }
+  | { type: 'SET_SEARCH_RESULTS'; payload: Post[] }
+  | { type: 'CLEAR_SEARCH' }
+  // スター付きのみの絞り込み
+  | { type: 'SET_STARRED_ONLY'; payload: boolean }
+  // 保存容量の確認画面
+  | { type: 'OPEN_STORAGE_RECOVERY'; payload: StorageRecoveryState }
+  | { type: 'CLOSE_STORAGE_RECOVERY' };
 
 // Data service interface for abstraction
 export interface DataService {
   // CRUD操作
-  createPost(content: string): Promise<Post>;
-  updatePost(id: string, content: string): Promise<Post>;
+  createPost(input: CreatePostInput): Promise<Post>;
+  updatePost(id: string, input: UpdatePostInput): Promise<Post>;
   deletePost(id: string): Promise<void>;
   getPost(id: string): Promise<Post | null>;
+
+  // 一括操作（全件を1つのトランザクションで処理し、1件でも失敗した場合は何も変更しない）
+  createPosts(inputs: CreatePostInput[]): Promise<Post[]>;
+  updatePosts(updates: PostUpdate[]): Promise<Post[]>;
+  deletePosts(ids: string[]): Promise<void>; // ゴミ箱に移動する
+
+  // ピン留め・スター（更新日時と編集履歴は変更しない）
+  updatePostFlags(id: string, flags: PostFlags): Promise<Post>;
+  getPinnedPosts(): Promise<Post[]>; // 新しい順
+  getStarredPosts(): Promise<Post[]>; // 新しい順
   
   // 一覧・検索
   getAllPosts(): Promise<Post[]>;
   getPostsByDateRange(start: Date, end: Date): Promise<Post[]>;
+  getPostsPage(options: PostsPageOptions): Promise<PostsPage>;
+  getPostsByTag(tag: string): Promise<Post[]>;
+  searchPosts(query: string): Promise<Post[]>; // 本文・タグの全文検索（転置インデックス使用）
+
+  // ゴミ箱（deletePostは投稿をゴミ箱に移動する）
+  getTrashedPosts(): Promise<Post[]>;
+  restorePost(id: string): Promise<Post>;
+  purgePost(id: string): Promise<void>; // 完全に削除
+  purgeTrashedPosts(olderThan: Date): Promise<number>; // 指定日時より前にゴミ箱に移動した投稿を完全に削除
+
+  // 編集履歴（updatePostは変更前のバージョンを履歴に追加する）
+  getRevisions(postId: string): Promise<PostRevision[]>; // 新しい順
+  restoreRevision(postId: string, revisionId: string): Promise<Post>; // 現在のバージョンも履歴に残る
   
-  // リアルタイム更新（フェーズ2）
-  subscribeToUpdates?(callback: (posts: Post[]) => void): () => void;
+  // 保存データの種類ごとの使用量（容量不足時の確認用）
+  getStorageUsage(): Promise<DataStorageUsage>;
+  
+  // 接続の管理（接続を持たない実装では省略できる）
+  init?(): Promise<void>;
+  close?(): Promise<void>;
+
+  // 取り込み（IDと日時を保ったまま書き込む。既定では同じIDの投稿は更新日時が新しい方を残す）
+  importPosts?(posts: Post[], revisions?: PostRevision[], options?: ImportPostsOptions): Promise<number>;
+
+  // 画像の添付（画像を保存できない保存先では省略できる）
+  attachments?: AttachmentStore;
+
+  // 変更通知（他のタブで作成・更新・削除された投稿のIDを受け取る）
+  subscribeToUpdates?(callback: (change: PostChangeEvent) => void): () => void;
 }
 
 // 日記サービスインターフェース
@@ -166,6 +340,8 @@ export interface DiaryService {
   // 日記エントリー関連
   getEntriesByDateRange(start: Date, end: Date): Promise<DiaryEntry[]>;
   getEntryByDate(date: Date): Promise<DiaryEntry | null>;
+  getEntriesPage(options: PostsPageOptions): Promise<DiaryEntriesPage>;
+  getEntriesForExport(start: Date, end: Date): Promise<DiaryEntry[]>; // 書き出し用（範囲の上限なし）
   
   // カレンダー関連
   getCalendarData(year: number, month: number): Promise<CalendarDay[]>;
@@ -185,7 +361,7 @@ export interface ValidationResult {
 // Error types for better error handling
 export type AppError = 
   | { type: 'VALIDATION_ERROR'; message: string; field?: string }
-  | { type: 'STORAGE_ERROR'; message: string; operation?: string }
+  | { type: 'STORAGE_ERROR'; message: string; operation?: string; isQuotaExceeded?: boolean }
   | { type: 'NETWORK_ERROR'; message: string }
   | { type: 'UNKNOWN_ERROR'; message: string };
 
@@ -215,13 +391,22 @@ export interface LoadingState {
 }
 
 // UI component props types
+// 同期サーバーへの送信状態（送信済みの投稿には付かない）
+export type PostSyncStatus = 'pending' | 'failed';
+
 export interface PostItemProps {
   post: Post;
   isSelected?: boolean;
   isHighlighted?: boolean; // 時間軸からのハイライト表示用
+  syncStatus?: PostSyncStatus; // 同期サーバーに送信していない変更がある場合の状態
   onSelect?: (postId: string) => void;
   onEdit?: (post: Post) => void;
   onDelete?: (postId: string) => void;
+  onTagClick?: (tag: string) => void; // タグチップのクリック（タグ絞り込み用）
+  isChecked?: boolean; // 複数選択モードでチェックされているか
+  onToggleCheck?: (postId: string) => void; // 指定した場合は複数選択モードとして表示する
+  onTogglePin?: (post: Post) => void; // ピン留めの切り替え
+  onToggleStar?: (post: Post) => void; // スターの切り替え
 }
 
 export interface TimelineMarkerProps {
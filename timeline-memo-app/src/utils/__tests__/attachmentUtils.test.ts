@@ -0,0 +1,61 @@
+/**
+ * 添付画像ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_ATTACHMENT_SIZE,
+  createAttachmentMarkdown,
+  extractAttachmentIds,
+  getAttachmentId,
+  getThumbnailSize,
+  isAttachmentUrl,
+  validateAttachmentFile
+} from '../attachmentUtils';
+
+const ATTACHMENT_ID = '3f2b8c1e-9d4a-4e5b-8f6c-7a1b2c3d4e5f';
+const OTHER_ATTACHMENT_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+
+describe('attachmentUtils', () => {
+  describe('添付画像のURL', () => {
+    it('attachment://のURLから添付画像のIDを取り出す', () => {
+      expect(isAttachmentUrl(`attachment://${ATTACHMENT_ID}`)).toBe(true);
+      expect(getAttachmentId(`attachment://${ATTACHMENT_ID}`)).toBe(ATTACHMENT_ID);
+      expect(getAttachmentId('attachment://')).toBeNull();
+      expect(getAttachmentId('https://example.com/photo.png')).toBeNull();
+    });
+
+    it('本文で参照している添付画像のIDを重複なく取り出す', () => {
+      const content = [
+        `![朝](attachment://${ATTACHMENT_ID})`,
+        '本文',
+        `![夜](attachment://${OTHER_ATTACHMENT_ID.toUpperCase()}) ![朝](attachment://${ATTACHMENT_ID})`,
+        '![外部](https://example.com/photo.png)'
+      ].join('\n');
+
+      expect(extractAttachmentIds(content)).toEqual([ATTACHMENT_ID, OTHER_ATTACHMENT_ID]);
+      expect(extractAttachmentIds('画像のない投稿')).toEqual([]);
+    });
+
+    it('ファイル名から拡張子と記法に使う文字を除いてMarkdownを作成する', () => {
+      expect(createAttachmentMarkdown(ATTACHMENT_ID, '旅行[1].jpg')).toBe(`![旅行1](attachment://${ATTACHMENT_ID})`);
+      expect(createAttachmentMarkdown(ATTACHMENT_ID, '.png')).toBe(`![画像](attachment://${ATTACHMENT_ID})`);
+    });
+  });
+
+  describe('validateAttachmentFile', () => {
+    it('対応している形式とサイズの画像のみ添付できる', () => {
+      expect(validateAttachmentFile({ type: 'image/jpeg', size: 1024 })).toBeNull();
+      expect(validateAttachmentFile({ type: 'image/svg+xml', size: 1024 })).toBe('JPEG・PNG・GIF・WebPの画像のみ添付できます');
+      expect(validateAttachmentFile({ type: 'image/png', size: MAX_ATTACHMENT_SIZE + 1 })).toBe('画像のサイズが大きすぎます（最大10MB）');
+    });
+  });
+
+  describe('getThumbnailSize', () => {
+    it('長辺が上限に収まるように縦横比を保って縮小し、拡大はしない', () => {
+      expect(getThumbnailSize(1600, 1200)).toEqual({ width: 320, height: 240 });
+      expect(getThumbnailSize(900, 3000)).toEqual({ width: 96, height: 320 });
+      expect(getThumbnailSize(200, 100)).toEqual({ width: 200, height: 100 });
+    });
+  });
+});
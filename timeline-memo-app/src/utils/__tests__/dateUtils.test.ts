@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { toDateInputValue, toTimeInputValue, fromDateTimeInputValues } from '../dateUtils';
+
+describe('dateUtils', () => {
+  describe('日付・時刻入力欄の値', () => {
+    it('ローカル時刻で入力欄の値に変換する', () => {
+      const date = new Date(2024, 0, 5, 9, 7, 30);
+
+      expect(toDateInputValue(date)).toBe('2024-01-05');
+      expect(toTimeInputValue(date)).toBe('09:07');
+    });
+
+    it('入力欄の値から日時を作成する', () => {
+      expect(fromDateTimeInputValues('2024-01-05', '21:30')).toEqual(new Date(2024, 0, 5, 21, 30));
+    });
+
+    it('時刻が未入力の場合は現在の時刻を使う', () => {
+      const now = new Date(2024, 5, 1, 8, 15, 20, 500);
+
+      expect(fromDateTimeInputValues('2024-01-05', '', now)).toEqual(new Date(2024, 0, 5, 8, 15, 20, 500));
+    });
+
+    it('日付が未入力・不正な場合はnullを返す', () => {
+      expect(fromDateTimeInputValues('', '10:00')).toBeNull();
+      expect(fromDateTimeInputValues('2024-02-30', '10:00')).toBeNull();
+      expect(fromDateTimeInputValues('2024/01/05', '10:00')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * 日記の本（印刷用の表示）のユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createDiaryBook,
+  formatDiaryBookTitle,
+  getYearDateRange,
+  groupEntriesByMonth
+} from '../diaryBookUtils';
+import { getMonthDateRange } from '../markdownExportUtils';
+import { createMockDiaryEntry, createMockPost } from '../../test/fixtures/testData';
+
+describe('diaryBookUtils', () => {
+  const entries = [
+    createMockDiaryEntry({
+      date: '2024-02-01',
+      postCount: 1,
+      posts: [createMockPost({ id: 'feb', createdAt: new Date(2024, 1, 1, 9, 0) })]
+    }),
+    createMockDiaryEntry({
+      date: '2024-01-20',
+      postCount: 2,
+      posts: [
+        createMockPost({ id: 'jan20-night', createdAt: new Date(2024, 0, 20, 21, 0) }),
+        createMockPost({ id: 'jan20-morning', createdAt: new Date(2024, 0, 20, 8, 0) })
+      ]
+    }),
+    createMockDiaryEntry({
+      date: '2024-01-05',
+      postCount: 1,
+      posts: [createMockPost({ id: 'jan05', createdAt: new Date(2024, 0, 5, 12, 0) })]
+    })
+  ];
+
+  describe('formatDiaryBookTitle', () => {
+    it('1か月分・1年分・それ以外の期間でタイトルを変える', () => {
+      expect(formatDiaryBookTitle(getMonthDateRange(2024, 2))).toBe('2024年2月の日記');
+      expect(formatDiaryBookTitle(getYearDateRange(2024))).toBe('2024年の日記');
+      expect(formatDiaryBookTitle({ start: new Date(2024, 0, 10), end: new Date(2024, 2, 5, 23, 59) }))
+        .toBe('2024年1月10日〜2024年3月5日の日記');
+    });
+  });
+
+  describe('groupEntriesByMonth', () => {
+    it('日付・投稿とも古い順に並べて月ごとにまとめる', () => {
+      const months = groupEntriesByMonth(entries);
+
+      expect(months.map(month => month.key)).toEqual(['2024-01', '2024-02']);
+      expect(months[0]).toMatchObject({ year: 2024, month: 1, postCount: 3 });
+      expect(months[0].entries.map(entry => entry.date)).toEqual(['2024-01-05', '2024-01-20']);
+      expect(months[0].entries[1].posts.map(post => post.id)).toEqual(['jan20-morning', 'jan20-night']);
+    });
+
+    it('元の日記エントリーの投稿の順番は変えない', () => {
+      groupEntriesByMonth(entries);
+
+      expect(entries[1].posts.map(post => post.id)).toEqual(['jan20-night', 'jan20-morning']);
+    });
+  });
+
+  describe('createDiaryBook', () => {
+    it('タイトルと日数・投稿数をまとめる', () => {
+      const book = createDiaryBook(entries, getYearDateRange(2024));
+
+      expect(book.title).toBe('2024年の日記');
+      expect(book.dayCount).toBe(3);
+      expect(book.postCount).toBe(4);
+      expect(book.months).toHaveLength(2);
+    });
+
+    it('日記エントリーがない場合は空の本にする', () => {
+      const book = createDiaryBook([], getMonthDateRange(2024, 3));
+
+      expect(book).toMatchObject({ title: '2024年3月の日記', dayCount: 0, postCount: 0, months: [] });
+    });
+  });
+});
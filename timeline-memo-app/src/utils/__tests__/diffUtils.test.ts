@@ -0,0 +1,33 @@
+/**
+ * 差分ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffLines } from '../diffUtils';
+
+describe('diffUtils', () => {
+  describe('diffLines', () => {
+    it('同じテキストは全て変更なしになる', () => {
+      expect(diffLines('朝\n昼', '朝\n昼')).toEqual([
+        { type: 'unchanged', text: '朝' },
+        { type: 'unchanged', text: '昼' }
+      ]);
+    });
+
+    it('変更された行を削除と追加として返す', () => {
+      expect(diffLines('今日は晴れ\n散歩した', '今日は雨\n散歩した')).toEqual([
+        { type: 'removed', text: '今日は晴れ' },
+        { type: 'added', text: '今日は雨' },
+        { type: 'unchanged', text: '散歩した' }
+      ]);
+    });
+
+    it('末尾への追加と先頭の削除を検出する', () => {
+      expect(diffLines('一行目\n二行目', '二行目\n三行目')).toEqual([
+        { type: 'removed', text: '一行目' },
+        { type: 'unchanged', text: '二行目' },
+        { type: 'added', text: '三行目' }
+      ]);
+    });
+  });
+});
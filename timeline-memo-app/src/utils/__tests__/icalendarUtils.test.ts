@@ -0,0 +1,78 @@
+/**
+ * iCalendarユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  escapeICalText,
+  unescapeICalText,
+  splitICalList,
+  foldICalLine,
+  unfoldICalLines,
+  parseICalDateTime,
+  parseICalendar,
+  createICalendar
+} from '../icalendarUtils';
+import { createMockPost } from '../../test/fixtures/testData';
+
+describe('icalendarUtils', () => {
+  it('テキストの値をエスケープし、元に戻せる', () => {
+    const text = '一行目; A, B\\C\n二行目';
+    expect(escapeICalText(text)).toBe('一行目\\; A\\, B\\\\C\\n二行目');
+    expect(unescapeICalText(escapeICalText(text))).toBe(text);
+    expect(splitICalList('仕事,日記\\, メモ')).toEqual(['仕事', '日記, メモ']);
+  });
+
+  it('75オクテットを超える行をマルチバイト文字の途中で切らずに折り返す', () => {
+    const line = `DESCRIPTION:${'あ'.repeat(40)}`;
+    const folded = foldICalLine(line);
+    const encoder = new TextEncoder();
+
+    folded.split('\r\n').forEach((part, index) => {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+      expect(part.startsWith(' ')).toBe(index > 0);
+    });
+    expect(unfoldICalLines(folded)).toEqual([line]);
+    expect(foldICalLine('SUMMARY:短い')).toBe('SUMMARY:短い');
+  });
+
+  it('UTC・端末の時刻・日付だけの値を読み取る', () => {
+    expect(parseICalDateTime('20240115T093000Z')).toEqual(new Date('2024-01-15T09:30:00Z'));
+    expect(parseICalDateTime('20240115T093000')).toEqual(new Date(2024, 0, 15, 9, 30, 0));
+    expect(parseICalDateTime('20240115', 12)).toEqual(new Date(2024, 0, 15, 12, 0, 0));
+    expect(parseICalDateTime('2024-01-15')).toBeUndefined();
+  });
+
+  it('投稿を日誌（VJOURNAL）にして書き出し、読み取れる', () => {
+    const post = createMockPost({
+      id: 'post-1',
+      content: '今日の振り返り\n会議, 資料作成; 完了',
+      createdAt: new Date('2024-01-15T09:30:00.123Z'),
+      updatedAt: new Date('2024-01-16T10:00:00Z'),
+      tags: ['仕事', '振り返り']
+    });
+    const ics = createICalendar([post], new Date('2024-02-01T00:00:00Z'));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('DESCRIPTION:今日の振り返り\\n会議\\, 資料作成\\; 完了');
+
+    const [calendar, journal] = parseICalendar(ics);
+    expect(calendar.name).toBe('VCALENDAR');
+    expect(journal.name).toBe('VJOURNAL');
+    const value = (name: string) => journal.properties.find(property => property.name === name)?.value;
+    expect(value('UID')).toBe('post-1@timeline-memo');
+    expect(value('DTSTART')).toBe('20240115T093000Z');
+    expect(value('LAST-MODIFIED')).toBe('20240116T100000Z');
+    expect(value('SUMMARY')).toBe('今日の振り返り');
+    expect(value('CATEGORIES')).toBe('仕事,振り返り');
+  });
+
+  it('パラメーター付きのプロパティを読み取る', () => {
+    const [journal] = parseICalendar('BEGIN:VJOURNAL\r\nDTSTART;VALUE=DATE:20240115\r\nDESCRIPTION;LANGUAGE="ja":本文: コロン付き\r\nEND:VJOURNAL\r\n');
+    expect(journal.properties).toEqual([
+      { name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20240115' },
+      { name: 'DESCRIPTION', params: { LANGUAGE: 'ja' }, value: '本文: コロン付き' }
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * 日記のMarkdown書き出しユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectEntryTags,
+  createDiaryMarkdown,
+  createMarkdownArchive,
+  getDiaryMarkdownPath,
+  getMonthDateRange
+} from '../markdownExportUtils';
+import { createMockDiaryEntry, createMockPost } from '../../test/fixtures/testData';
+
+describe('markdownExportUtils', () => {
+  const entry = createMockDiaryEntry({
+    date: '2024-01-15',
+    postCount: 2,
+    posts: [
+      createMockPost({ content: '夜の投稿', createdAt: new Date(2024, 0, 15, 21, 5), updatedAt: new Date(2024, 0, 15, 21, 5), tags: ['日記'] }),
+      createMockPost({ content: '朝の投稿\n', createdAt: new Date(2024, 0, 15, 8, 30), updatedAt: new Date(2024, 0, 15, 8, 30), tags: ['仕事', '日記'] })
+    ]
+  });
+
+  it('日記エントリーのタグを重複なしで集める', () => {
+    expect(collectEntryTags(entry)).toEqual(['日記', '仕事']);
+  });
+
+  it('フロントマターと時刻の見出しを付けたMarkdownを作成する', () => {
+    expect(createDiaryMarkdown(entry)).toBe([
+      '---',
+      'date: 2024-01-15',
+      'post_count: 2',
+      'tags: ["日記", "仕事"]',
+      '---',
+      '',
+      '# 2024年1月15日（月）',
+      '',
+      '## 08:30',
+      '',
+      '朝の投稿',
+      '',
+      '#仕事 #日記',
+      '',
+      '## 21:05',
+      '',
+      '夜の投稿',
+      '',
+      '#日記',
+      ''
+    ].join('\n'));
+  });
+
+  it('年・月のフォルダに分けたパスでZIPにまとめる', () => {
+    expect(getDiaryMarkdownPath('2024-01-15')).toBe('2024/01/2024-01-15.md');
+
+    const zip = createMarkdownArchive([entry]);
+    const nameLength = new DataView(zip.buffer).getUint16(26, true);
+    expect(new TextDecoder().decode(zip.slice(30, 30 + nameLength))).toBe('2024/01/2024-01-15.md');
+  });
+
+  it('月の初日から末日までの範囲を返す', () => {
+    const range = getMonthDateRange(2024, 2);
+    expect(range.start).toEqual(new Date(2024, 1, 1, 0, 0, 0, 0));
+    expect(range.end).toEqual(new Date(2024, 1, 29, 23, 59, 59, 999));
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * ピン留め・スターのユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyPostFlags, sortPinnedFirst } from '../postFlagUtils';
+import { createMockPost } from '../../test/fixtures/testData';
+
+describe('postFlagUtils', () => {
+  describe('applyPostFlags', () => {
+    it('指定したフラグのみ変更し、外したフラグはプロパティごと取り除く', () => {
+      const post = createMockPost({ id: 'post', pinned: true });
+
+      const starred = applyPostFlags(post, { starred: true });
+      expect(starred).toMatchObject({ pinned: true, starred: true });
+      expect(post.starred).toBeUndefined();
+
+      const unpinned = applyPostFlags(starred, { pinned: false });
+      expect('pinned' in unpinned).toBe(false);
+      expect(unpinned.starred).toBe(true);
+    });
+  });
+
+  describe('sortPinnedFirst', () => {
+    it('ピン留めした投稿を先頭に並べ、それぞれの順序は保つ', () => {
+      const posts = [
+        createMockPost({ id: 'a' }),
+        createMockPost({ id: 'b', pinned: true }),
+        createMockPost({ id: 'c' }),
+        createMockPost({ id: 'd', pinned: true })
+      ];
+
+      expect(sortPinnedFirst(posts).map(post => post.id)).toEqual(['b', 'd', 'a', 'c']);
+    });
+  });
+});
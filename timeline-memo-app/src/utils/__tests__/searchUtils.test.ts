@@ -0,0 +1,151 @@
+/**
+ * 全文検索ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSearchText,
+  tokenize,
+  tokenizeQuery,
+  matchesQuery,
+  filterPostsBySearch,
+  groupSearchResultsByDate,
+  filterCalendarDaysBySearch
+} from '../searchUtils';
+import { createMockPost, createMockCalendarDay } from '../../test/fixtures/testData';
+
+describe('searchUtils', () => {
+  describe('normalizeSearchText', () => {
+    it('全角英数字と大文字を正規化する', () => {
+      expect(normalizeSearchText('ＡＢＣ１２３')).toBe('abc123');
+      expect(normalizeSearchText('TypeScript')).toBe('typescript');
+    });
+
+    it('半角カナを全角カナに統一する', () => {
+      expect(normalizeSearchText('ﾃｽﾄ')).toBe('テスト');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('日本語テキストをユニグラムとバイグラムに分解する', () => {
+      const tokens = tokenize('日記帳');
+
+      expect(tokens).toEqual(expect.arrayContaining(['日', '記', '帳', '日記', '記帳']));
+      expect(tokens).toHaveLength(5);
+    });
+
+    it('空白や記号をまたいだバイグラムは生成しない', () => {
+      const tokens = tokenize('朝 夜。');
+
+      expect(tokens).toEqual(['朝', '夜']);
+    });
+
+    it('空文字列の場合は空配列を返す', () => {
+      expect(tokenize('')).toEqual([]);
+      expect(tokenize('   ')).toEqual([]);
+    });
+  });
+
+  describe('tokenizeQuery', () => {
+    it('2文字以上の語はバイグラムのみを返す', () => {
+      expect(tokenizeQuery('日記帳')).toEqual(['日記', '記帳']);
+    });
+
+    it('1文字の語はユニグラムを返す', () => {
+      expect(tokenizeQuery('朝')).toEqual(['朝']);
+    });
+
+    it('インデックス側のトークンに含まれる', () => {
+      const indexTokens = tokenize('今日は美味しいラーメンを食べた');
+
+      tokenizeQuery('ラーメン').forEach(token => {
+        expect(indexTokens).toContain(token);
+      });
+    });
+  });
+
+  describe('matchesQuery', () => {
+    it('本文に全ての語が含まれる場合にtrueを返す', () => {
+      const post = createMockPost({ content: '今日は公園を散歩した' });
+
+      expect(matchesQuery(post, '公園 散歩')).toBe(true);
+      expect(matchesQuery(post, '公園 読書')).toBe(false);
+    });
+
+    it('タグも検索対象に含める', () => {
+      const post = createMockPost({ content: '本文', tags: ['旅行'] });
+
+      expect(matchesQuery(post, '旅行')).toBe(true);
+    });
+
+    it('バイグラムが揃っていても連続しない語には一致しない', () => {
+      const post = createMockPost({ content: '東京 京都' });
+
+      expect(matchesQuery(post, '東京都')).toBe(false);
+    });
+
+    it('空のクエリには一致しない', () => {
+      const post = createMockPost({ content: 'テスト' });
+
+      expect(matchesQuery(post, '  ')).toBe(false);
+    });
+  });
+
+  describe('filterPostsBySearch', () => {
+    const posts = [
+      createMockPost({ id: 'post-1' }),
+      createMockPost({ id: 'post-2' })
+    ];
+
+    it('検索結果に含まれる投稿のみを返す', () => {
+      const searchResults = [createMockPost({ id: 'post-2' })];
+
+      expect(filterPostsBySearch(posts, searchResults).map(post => post.id)).toEqual(['post-2']);
+    });
+
+    it('未検索（null）の場合は全ての投稿を返す', () => {
+      expect(filterPostsBySearch(posts, null)).toBe(posts);
+    });
+  });
+
+  describe('groupSearchResultsByDate', () => {
+    const searchResults = [
+      createMockPost({ id: 'post-1', createdAt: new Date('2024-01-14T09:00:00.000Z') }),
+      createMockPost({ id: 'post-2', createdAt: new Date('2024-01-15T09:00:00.000Z') }),
+      createMockPost({ id: 'post-3', createdAt: new Date('2024-01-15T18:00:00.000Z') })
+    ];
+
+    it('日付ごとに新しい順でグループ化する', () => {
+      const result = groupSearchResultsByDate(searchResults);
+
+      expect(result.map(entry => entry.date)).toEqual(['2024-01-15', '2024-01-14']);
+      expect(result[0].posts.map(post => post.id)).toEqual(['post-3', 'post-2']);
+      expect(result[0].postCount).toBe(2);
+    });
+
+    it('日付範囲外の投稿を除外する', () => {
+      const result = groupSearchResultsByDate(searchResults, {
+        start: new Date('2024-01-15T00:00:00.000Z'),
+        end: new Date('2024-01-15T23:59:59.999Z')
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].date).toBe('2024-01-15');
+    });
+  });
+
+  describe('filterCalendarDaysBySearch', () => {
+    it('検索結果の投稿数でカレンダーを再集計する', () => {
+      const days = [
+        createMockCalendarDay({ date: new Date('2024-01-15T00:00:00.000Z'), hasPost: true, postCount: 3 }),
+        createMockCalendarDay({ date: new Date('2024-01-16T00:00:00.000Z'), hasPost: true, postCount: 1 })
+      ];
+      const searchResults = [createMockPost({ createdAt: new Date('2024-01-15T10:00:00.000Z') })];
+
+      const result = filterCalendarDaysBySearch(days, searchResults);
+
+      expect(result[0]).toMatchObject({ hasPost: true, postCount: 1 });
+      expect(result[1]).toMatchObject({ hasPost: false, postCount: 0 });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * 保存容量のユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isQuotaExceededError,
+  isStorageFullError,
+  estimateJsonSize,
+  formatBytes
+} from '../storageQuotaUtils';
+import { handleAsyncOperation } from '../errorUtils';
+import { IndexedDBError } from '../../services/IndexedDBService';
+
+// ブラウザが投げる容量超過のエラー（DOMException）と同じ名前・コードを持つエラー
+const createQuotaError = (name = 'QuotaExceededError', code = 22): Error =>
+  Object.assign(new Error('The quota has been exceeded.'), { name, code });
+
+describe('storageQuotaUtils', () => {
+  describe('isQuotaExceededError', () => {
+    it('ブラウザごとの名前・コードの容量超過のエラーを判定する', () => {
+      expect(isQuotaExceededError(createQuotaError())).toBe(true);
+      expect(isQuotaExceededError(createQuotaError('NS_ERROR_DOM_QUOTA_REACHED', 1014))).toBe(true);
+      expect(isQuotaExceededError(new Error('other'))).toBe(false);
+      expect(isQuotaExceededError(undefined)).toBe(false);
+    });
+  });
+
+  describe('isStorageFullError', () => {
+    it('容量超過が原因のIndexedDBErrorを容量不足として分類する', () => {
+      const error = new IndexedDBError('トランザクションが中止されました', 'createPost', createQuotaError());
+
+      expect(error.isQuotaExceeded).toBe(true);
+      expect(error.message).toContain('保存容量が不足しています');
+      expect(isStorageFullError(error)).toBe(true);
+      expect(isStorageFullError(new IndexedDBError('投稿が見つかりません', 'getPost'))).toBe(false);
+    });
+
+    it('容量不足のエラーは保存容量の確認画面を開くSTORAGE_ERRORになる', async () => {
+      const result = await handleAsyncOperation(async () => {
+        throw new IndexedDBError('投稿の保存に失敗しました', 'createPost', createQuotaError());
+      }, 'createPost');
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          type: 'STORAGE_ERROR',
+          message: 'ストレージの容量が不足しています',
+          operation: 'createPost',
+          isQuotaExceeded: true
+        }
+      });
+    });
+  });
+
+  describe('estimateJsonSize', () => {
+    it('JSONにした場合のバイト数を計算する（日本語は1文字3バイト）', () => {
+      expect(estimateJsonSize('abc')).toBe(5);
+      expect(estimateJsonSize('日記')).toBe(8);
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('大きさに応じた単位で表示する', () => {
+      expect(formatBytes(512)).toBe('512B');
+      expect(formatBytes(1536)).toBe('1.5KB');
+      expect(formatBytes(5 * 1024 * 1024)).toBe('5.0MB');
+      expect(formatBytes(2 * 1024 * 1024 * 1024)).toBe('2.00GB');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * ゴミ箱ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  isTrashed,
+  excludeTrashedPosts,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getPurgeCutoffDate,
+  getDaysUntilPurge
+} from '../trashUtils';
+import { createMockPost } from '../../test/fixtures/testData';
+
+describe('trashUtils', () => {
+  describe('isTrashed / excludeTrashedPosts', () => {
+    it('deletedAtを持つ投稿をゴミ箱の投稿として扱う', () => {
+      const active = createMockPost({ id: 'active' });
+      const trashed = createMockPost({ id: 'trashed', deletedAt: new Date('2024-01-15T10:00:00.000Z') });
+
+      expect(isTrashed(active)).toBe(false);
+      expect(isTrashed(trashed)).toBe(true);
+      expect(excludeTrashedPosts([active, trashed]).map(post => post.id)).toEqual(['active']);
+    });
+  });
+
+  describe('保持期間の設定', () => {
+    it('未設定の場合は既定値を返す', () => {
+      expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+
+    it('保存した保持期間を返す', () => {
+      setTrashRetentionDays(7);
+
+      expect(getTrashRetentionDays()).toBe(7);
+    });
+
+    it('不正な保持期間は保存できない', () => {
+      expect(() => setTrashRetentionDays(0)).toThrow();
+      expect(() => setTrashRetentionDays(1.5)).toThrow();
+    });
+  });
+
+  describe('getPurgeCutoffDate', () => {
+    it('保持期間分さかのぼった日時を返す', () => {
+      const now = new Date('2024-01-31T00:00:00.000Z');
+
+      expect(getPurgeCutoffDate(30, now).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('getDaysUntilPurge', () => {
+    const now = new Date('2024-01-10T12:00:00.000Z');
+
+    it('完全削除までの残り日数を切り上げで返す', () => {
+      const post = createMockPost({ deletedAt: new Date('2024-01-10T00:00:00.000Z') });
+
+      expect(getDaysUntilPurge(post, 7, now)).toBe(7);
+    });
+
+    it('保持期間を過ぎた投稿は0を返す', () => {
+      const post = createMockPost({ deletedAt: new Date('2023-12-01T00:00:00.000Z') });
+
+      expect(getDaysUntilPurge(post, 30, now)).toBe(0);
+    });
+  });
+});
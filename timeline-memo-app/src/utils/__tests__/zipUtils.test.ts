@@ -0,0 +1,38 @@
+/**
+ * ZIPファイル作成ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '../zipUtils';
+
+describe('zipUtils', () => {
+  it('CRC-32を計算できる', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('ファイルを無圧縮で格納し、末尾にファイルの一覧を持つZIPを作成する', () => {
+    const zip = createZip([
+      { path: '2024/01/2024-01-15.md', data: '日記' },
+      { path: 'raw.bin', data: new Uint8Array([1, 2, 3]) }
+    ], new Date(2024, 0, 15, 10, 30, 0));
+    const view = new DataView(zip.buffer);
+
+    // 最初のファイルのヘッダーとUTF-8のファイル名・内容
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    const nameLength = view.getUint16(26, true);
+    const dataLength = view.getUint32(18, true);
+    const decoder = new TextDecoder();
+    expect(decoder.decode(zip.slice(30, 30 + nameLength))).toBe('2024/01/2024-01-15.md');
+    expect(decoder.decode(zip.slice(30 + nameLength, 30 + nameLength + dataLength))).toBe('日記');
+
+    // 終端レコードのファイル数と、ファイルの一覧の位置
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+  });
+});
@@ -0,0 +1,156 @@
+import type { Attachment, AttachmentThumbnail, CreateAttachmentInput } from '../types';
+
+/**
+ * 添付画像用のユーティリティ関数
+ * 画像は投稿とは別に保存し、本文からは ![名前](attachment://<id>) の形式で参照する
+ */
+
+// 本文から添付画像を参照するURLのスキーム
+export const ATTACHMENT_URL_PREFIX = 'attachment://';
+
+// 添付できる画像の形式
+export const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+
+// 添付できる画像の最大サイズ（10MB）
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// サムネイルの長辺の最大ピクセル数
+export const THUMBNAIL_MAX_SIZE = 320;
+
+// 投稿に紐付かないまま残った添付画像を削除するまでの時間（投稿フォームで貼り付けたまま保存しなかったもの）
+export const ORPHAN_ATTACHMENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const ATTACHMENT_URL_PATTERN = /attachment:\/\/([0-9a-f-]{36})/gi;
+
+/**
+ * 添付画像を参照するURLかを判定
+ */
+export function isAttachmentUrl(url: string): boolean {
+  return url.startsWith(ATTACHMENT_URL_PREFIX);
+}
+
+/**
+ * 添付画像を参照するURLから添付画像のIDを取り出す
+ * @returns 添付画像のID（添付画像のURLでない場合はnull）
+ */
+export function getAttachmentId(url: string): string | null {
+  return isAttachmentUrl(url) ? url.slice(ATTACHMENT_URL_PREFIX.length) || null : null;
+}
+
+/**
+ * 本文で参照している添付画像のIDを取り出す（重複は除く）
+ */
+export function extractAttachmentIds(content: string): string[] {
+  const ids = Array.from(content.matchAll(ATTACHMENT_URL_PATTERN), match => match[1].toLowerCase());
+  return Array.from(new Set(ids));
+}
+
+/**
+ * 添付画像の保存に使っているバイト数（元の画像とサムネイルの合計）
+ */
+export function getAttachmentStoredSize(attachment: Pick<Attachment, 'data' | 'thumbnail'>): number {
+  return attachment.data.byteLength + (attachment.thumbnail ? attachment.thumbnail.data.byteLength : 0);
+}
+
+/**
+ * 本文に挿入する添付画像のMarkdownを作成
+ * ファイル名のうちMarkdownの記法と衝突する文字は取り除く
+ */
+export function createAttachmentMarkdown(id: string, fileName: string): string {
+  const alt = fileName.replace(/\.[^.]+$/, '').replace(/[[\]\\\n\r]/g, '').trim() || '画像';
+  return `![${alt}](${ATTACHMENT_URL_PREFIX}${id})`;
+}
+
+/**
+ * 添付できる画像ファイルかを検証
+ * @returns エラーメッセージ（添付できる場合はnull）
+ */
+export function validateAttachmentFile(file: Pick<File, 'type' | 'size'>): string | null {
+  if (!(ALLOWED_ATTACHMENT_TYPES as readonly string[]).includes(file.type)) {
+    return 'JPEG・PNG・GIF・WebPの画像のみ添付できます';
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `画像のサイズが大きすぎます（最大${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB）`;
+  }
+  return null;
+}
+
+/**
+ * 長辺が指定のサイズに収まるように縮小した大きさを計算（拡大はしない）
+ */
+export function getThumbnailSize(width: number, height: number, maxSize = THUMBNAIL_MAX_SIZE): { width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(width, height, 1));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * 画像ファイルを読み込む（大きさの取得とサムネイルの作成に使用）
+ */
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('画像を読み込めませんでした'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * 読み込んだ画像からサムネイルを作成する
+ * JPEGはJPEGのまま、それ以外は透過を保つためPNGで書き出す
+ * 元の画像が十分に小さい場合や、作成できない環境ではnullを返す（元の画像をそのまま表示する）
+ */
+async function createThumbnail(image: HTMLImageElement, mimeType: string): Promise<AttachmentThumbnail | null> {
+  if (Math.max(image.naturalWidth, image.naturalHeight) <= THUMBNAIL_MAX_SIZE) {
+    return null;
+  }
+
+  const size = getThumbnailSize(image.naturalWidth, image.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  context.drawImage(image, 0, 0, size.width, size.height);
+
+  const thumbnailType = mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, thumbnailType, 0.8));
+  if (!blob) {
+    return null;
+  }
+  return { data: await blob.arrayBuffer(), mimeType: blob.type || thumbnailType, ...size };
+}
+
+/**
+ * 画像ファイルから添付画像の保存用データを作成（大きさの取得とサムネイルの作成を含む）
+ * @throws 添付できない形式・サイズの場合や、画像として読み込めない場合
+ */
+export async function createAttachmentInput(file: File): Promise<CreateAttachmentInput> {
+  const error = validateAttachmentFile(file);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const image = await loadImage(file);
+  return {
+    fileName: file.name || '画像',
+    mimeType: file.type,
+    size: file.size,
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    data: await file.arrayBuffer(),
+    thumbnail: await createThumbnail(image, file.type)
+  };
+}
@@ -1,4 +1,5 @@
 import type { Post } from '../types';
+import { STORAGE_WARNING_PERCENTAGE } from './storageQuotaUtils';
 
 /**
  * データ整合性チェック用のユーティリティ関数
@@ -199,7 +200,7 @@ export async function checkStorageQuota(): Promise<{
       const used = estimate.usage || 0;
       const available = estimate.quota || 0;
       const percentage = available > 0 ? (used / available) * 100 : 0;
-      const isNearLimit = percentage > 80; // 80%を超えたら警告
+      const isNearLimit = percentage > STORAGE_WARNING_PERCENTAGE;
 
       console.log('[ストレージ使用量]', {
         used: `${(used / 1024 / 1024).toFixed(2)}MB`,
@@ -208,7 +209,7 @@ export async function checkStorageQuota(): Promise<{
       });
 
       if (isNearLimit) {
-        console.warn('[ストレージ警告] ストレージ使用量が80%を超えています');
+        console.warn(`[ストレージ警告] ストレージ使用量が${STORAGE_WARNING_PERCENTAGE}%を超えています`);
       }
 
       return { used, available, percentage, isNearLimit };
@@ -36,4 +36,38 @@ export const getTimeRange = (posts: any[]): { start: Date; end: Date } => {
     start: new Date(Math.min(...timestamps)),
     end: new Date(Math.max(...timestamps)),
   };
-};
\ No newline at end of file
+};
+const padNumber = (value: number): string => String(value).padStart(2, '0');
+
+// 日付入力欄（input type="date"）の値（YYYY-MM-DD、ローカル時刻）
+export const toDateInputValue = (date: Date): string => {
+  return `${date.getFullYear()}-${padNumber(date.getMonth() + 1)}-${padNumber(date.getDate())}`;
+};
+
+// 時刻入力欄（input type="time"）の値（HH:mm、ローカル時刻）
+export const toTimeInputValue = (date: Date): string => {
+  return `${padNumber(date.getHours())}:${padNumber(date.getMinutes())}`;
+};
+
+/**
+ * 日付・時刻入力欄の値から日時を作成（ローカル時刻）
+ * 時刻が未入力の場合は現在の時刻を使う。日付が未入力・不正な場合はnullを返す
+ */
+export const fromDateTimeInputValues = (dateValue: string, timeValue: string, now: Date = new Date()): Date | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateValue);
+  if (!dateMatch) {
+    return null;
+  }
+
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(timeValue);
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const date = timeMatch
+    ? new Date(year, month - 1, day, Number(timeMatch[1]), Number(timeMatch[2]))
+    : new Date(year, month - 1, day, now.getHours(), now.getMinutes(), now.getSeconds(), now.getMilliseconds());
+
+  // 存在しない日付（2月30日など）は繰り上がるため不正として扱う
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
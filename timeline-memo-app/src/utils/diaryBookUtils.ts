@@ -0,0 +1,94 @@
+import type { DateRange, DiaryEntry, DiaryStats, MonthlySummary } from '../types';
+
+/**
+ * 日記の本（印刷用の表示）のユーティリティ関数
+ * 日記エントリーを月ごとの章にまとめ、表紙・目次に使う値を計算する
+ */
+
+// 月ごとの章
+export interface DiaryBookMonth {
+  key: string;            // YYYY-MM（目次のリンク先に使う）
+  year: number;
+  month: number;          // 1〜12
+  entries: DiaryEntry[];  // 日付の古い順（各日の投稿も古い順）
+  postCount: number;
+}
+
+export interface DiaryBook {
+  title: string;
+  range: DateRange;
+  months: DiaryBookMonth[];
+  dayCount: number;
+  postCount: number;
+}
+
+// 付録の統計（本に含まれる投稿のみで計算する）
+export interface DiaryBookAppendix {
+  stats: DiaryStats;
+  monthlySummaries: MonthlySummary[];  // 本に含まれる月のみ
+}
+
+const isSameDay = (a: Date, b: Date): boolean => {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+};
+
+const formatDay = (date: Date): string => `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`;
+
+/**
+ * 指定した年の1月1日から12月31日までの日付範囲
+ */
+export function getYearDateRange(year: number): DateRange {
+  return {
+    start: new Date(year, 0, 1, 0, 0, 0, 0),
+    end: new Date(year, 11, 31, 23, 59, 59, 999)
+  };
+}
+
+/**
+ * 本のタイトル（1か月分は「2024年1月の日記」、1年分は「2024年の日記」、それ以外は期間）
+ */
+export function formatDiaryBookTitle(range: DateRange): string {
+  const { start, end } = range;
+  const monthEnd = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+  if (start.getDate() === 1 && isSameDay(end, monthEnd)) {
+    return `${start.getFullYear()}年${start.getMonth() + 1}月の日記`;
+  }
+  if (start.getMonth() === 0 && start.getDate() === 1 && isSameDay(end, new Date(start.getFullYear(), 11, 31))) {
+    return `${start.getFullYear()}年の日記`;
+  }
+  return `${formatDay(start)}〜${formatDay(end)}の日記`;
+}
+
+/**
+ * 日記エントリーを月ごとの章にまとめる（本は古い順に読むため、日付・投稿とも古い順に並べる）
+ */
+export function groupEntriesByMonth(entries: DiaryEntry[]): DiaryBookMonth[] {
+  const months = new Map<string, DiaryBookMonth>();
+  [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(entry => {
+      const key = entry.date.slice(0, 7);
+      const [year, month] = key.split('-').map(Number);
+      const bookMonth = months.get(key) ?? { key, year, month, entries: [], postCount: 0 };
+      bookMonth.entries.push({
+        ...entry,
+        posts: [...entry.posts].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      });
+      bookMonth.postCount += entry.postCount;
+      months.set(key, bookMonth);
+    });
+  return Array.from(months.values());
+}
+
+/**
+ * 日記エントリーから日記の本を作成する
+ */
+export function createDiaryBook(entries: DiaryEntry[], range: DateRange): DiaryBook {
+  return {
+    title: formatDiaryBookTitle(range),
+    range,
+    months: groupEntriesByMonth(entries),
+    dayCount: entries.length,
+    postCount: entries.reduce((count, entry) => count + entry.postCount, 0)
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * 編集履歴の差分表示用のユーティリティ関数
+ * 行単位の最長共通部分列（LCS）から追加・削除された行を求める
+ */
+
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+/**
+ * 2つのテキストの行単位の差分を計算する
+ * @param oldText 変更前のテキスト
+ * @param newText 変更後のテキスト
+ * @returns 変更前から変更後への差分（表示順）
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const m = oldLines.length;
+  const n = newLines.length;
+
+  // lcs[i][j]: oldLines[i..] と newLines[j..] の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < m) {
+    result.push({ type: 'removed', text: oldLines[i++] });
+  }
+  while (j < n) {
+    result.push({ type: 'added', text: newLines[j++] });
+  }
+
+  return result;
+}
@@ -0,0 +1,27 @@
+import { toDateInputValue } from './dateUtils';
+
+/**
+ * ファイルのダウンロード用のユーティリティ関数
+ */
+
+/**
+ * 内容をファイルとしてダウンロードさせる
+ */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // クリック直後に解放するとダウンロードが始まらないブラウザがあるため、少し待ってから解放する
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * 日付を含むファイル名を作成する（例: timeline-memo-2024-01-15.json）
+ */
+export function createDatedFileName(prefix: string, extension: string, date: Date = new Date()): string {
+  return `${prefix}-${toDateInputValue(date)}.${extension}`;
+}
@@ -1,4 +1,5 @@
 import type { AppError, Toast } from '../types';
+import { isStorageFullError } from './storageQuotaUtils';
 
 /**
  * エラーハンドリング関連のユーティリティ関数
@@ -157,11 +158,12 @@ export async function handleAsyncOperation<T>(
           type: 'VALIDATION_ERROR',
           message: error.message,
         };
-      } else if (error.name === 'QuotaExceededError' || error.message.includes('quota')) {
+      } else if (isStorageFullError(error) || error.message.includes('quota')) {
         appError = {
           type: 'STORAGE_ERROR',
           message: 'ストレージの容量が不足しています',
           operation: context,
+          isQuotaExceeded: true,
         };
       } else if (error.message.includes('network') || error.message.includes('fetch')) {
         appError = {
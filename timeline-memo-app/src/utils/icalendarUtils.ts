@@ -0,0 +1,199 @@
+import type { Post } from '../types';
+
+/**
+ * iCalendar（RFC 5545、.ics）形式の読み書き用のユーティリティ関数
+ * 投稿は日誌（VJOURNAL）として書き出し、他のカレンダーアプリの予定と並べて表示できるようにする
+ */
+
+// iCalendarのプロパティ（例: DTSTART;VALUE=DATE:20240115）
+export interface ICalProperty {
+  name: string;                    // 大文字にしたプロパティ名
+  params: Record<string, string>;  // 大文字にしたパラメーター名と値
+  value: string;                   // エスケープしたままの値
+}
+
+// BEGIN〜ENDで囲まれた要素（入れ子の要素のプロパティは含まない）
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+}
+
+const CRLF = '\r\n';
+// 1行の長さの上限（改行を除くオクテット数）
+const MAX_LINE_OCTETS = 75;
+// 件名に使う本文の最初の行の長さの上限
+const SUMMARY_MAX_LENGTH = 50;
+
+/**
+ * テキストの値をエスケープする（\ ; , と改行）
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n?|\n/g, '\\n');
+}
+
+/**
+ * エスケープしたテキストの値を元に戻す
+ */
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * カンマ区切りの値（CATEGORIESなど）を分けて、それぞれを元に戻す
+ */
+export function splitICalList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map(item => unescapeICalText(item).trim())
+    .filter(item => item.length > 0);
+}
+
+// UTF-8でのバイト数
+const getUtf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0)!;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * 75オクテットを超える行を折り返す（続きの行は空白で始める）
+ * マルチバイト文字の途中では折り返さない
+ */
+export function foldICalLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = getUtf8Length(char);
+    // 続きの行は先頭の空白も上限に含める
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+  return lines.join(`${CRLF} `);
+}
+
+/**
+ * 折り返された行を元の1行に戻す
+ */
+export function unfoldICalLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.length > 0);
+}
+
+/**
+ * 日時をUTCの日時の値（例: 20240115T093000Z）にする
+ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * 日時・日付の値を読み取る
+ * UTC（末尾がZ）以外の日時は、タイムゾーンの指定に関わらずこの端末の時刻として扱う
+ * @param dateOnlyHour 日付だけの値の場合の時刻
+ */
+export function parseICalDateTime(value: string, dateOnlyHour = 0): Date | undefined {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day)] as const;
+  const date = hours === undefined
+    ? new Date(...parts, dateOnlyHour)
+    : utc
+      ? new Date(Date.UTC(...parts, Number(hours), Number(minutes), Number(seconds)))
+      : new Date(...parts, Number(hours), Number(minutes), Number(seconds));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// プロパティの行（名前;パラメーター:値）を読み取る。パラメーターの値はダブルクォートで囲める
+const parsePropertyLine = (line: string): ICalProperty | null => {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:,]*)(?:,(?:"[^"]*"|[^";:,]*))*)*):(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const [, name, paramText, value] = match;
+  const params: Record<string, string> = {};
+  for (const param of paramText.matchAll(/;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:])*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/"/g, '');
+  }
+  return { name: name.toUpperCase(), params, value };
+};
+
+/**
+ * iCalendarのテキストを要素ごとに読み取る
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+  const components: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  unfoldICalLines(text).forEach(line => {
+    const property = parsePropertyLine(line);
+    if (!property) {
+      return;
+    }
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.trim().toUpperCase(), properties: [] };
+      components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else {
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  });
+  return components;
+}
+
+// 本文の最初の行（カレンダーアプリで件名として表示する）
+const createSummary = (content: string): string => {
+  const firstLine = content.split('\n').map(line => line.trim()).find(line => line.length > 0) ?? '';
+  return Array.from(firstLine).slice(0, SUMMARY_MAX_LENGTH).join('');
+};
+
+/**
+ * 投稿を日誌（VJOURNAL）にしたiCalendarのテキストを作成する
+ * DTSTARTは投稿日時、DESCRIPTIONは本文、CATEGORIESはタグ
+ */
+export function createICalendar(posts: Post[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Timeline Memo//Timeline Memo//JA',
+    'CALSCALE:GREGORIAN'
+  ];
+  [...posts]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .forEach(post => {
+      lines.push(
+        'BEGIN:VJOURNAL',
+        `UID:${post.id}@timeline-memo`,
+        `DTSTAMP:${formatICalDateTime(now)}`,
+        `DTSTART:${formatICalDateTime(post.createdAt)}`,
+        `CREATED:${formatICalDateTime(post.createdAt)}`,
+        `LAST-MODIFIED:${formatICalDateTime(post.updatedAt)}`,
+        `SUMMARY:${escapeICalText(createSummary(post.content))}`,
+        `DESCRIPTION:${escapeICalText(post.content)}`
+      );
+      if (post.tags && post.tags.length > 0) {
+        lines.push(`CATEGORIES:${post.tags.map(escapeICalText).join(',')}`);
+      }
+      lines.push('END:VJOURNAL');
+    });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,89 @@
+import type { DateRange, DiaryEntry } from '../types';
+import { formatTime } from './dateUtils';
+import { createZip } from './zipUtils';
+
+/**
+ * 日記のMarkdown形式での書き出し用のユーティリティ関数
+ * 1日分の日記を1つのMarkdownファイル（YAMLのフロントマター付き）にし、ZIPにまとめる
+ */
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * 日付（YYYY-MM-DD）を「2024年1月15日（月）」の形式にする
+ */
+export const formatDiaryHeading = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  return `${year}年${month}月${day}日（${weekday}）`;
+};
+
+// YAMLの文字列（ダブルクォートで囲み、JSONと同じ規則でエスケープする）
+const toYamlString = (value: string): string => JSON.stringify(value);
+
+/**
+ * 日記エントリーの全ての投稿のタグ（重複なし、最初に出てきた順）
+ */
+export function collectEntryTags(entry: DiaryEntry): string[] {
+  return Array.from(new Set(entry.posts.flatMap(post => post.tags ?? [])));
+}
+
+/**
+ * 1日分の日記をMarkdownにする
+ * フロントマターに日付・投稿数・タグを持ち、投稿は時刻の見出しを付けて古い順に並べる
+ */
+export function createDiaryMarkdown(entry: DiaryEntry): string {
+  const tags = collectEntryTags(entry);
+  const frontmatter = [
+    '---',
+    `date: ${entry.date}`,
+    `post_count: ${entry.postCount}`,
+    `tags: [${tags.map(toYamlString).join(', ')}]`,
+    '---'
+  ].join('\n');
+
+  const sections = [...entry.posts]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(post => {
+      const tagLine = post.tags && post.tags.length > 0
+        ? `\n\n${post.tags.map(tag => `#${tag}`).join(' ')}`
+        : '';
+      return `## ${formatTime(post.createdAt)}\n\n${post.content.trim()}${tagLine}`;
+    });
+
+  return `${frontmatter}\n\n# ${formatDiaryHeading(entry.date)}\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * ZIP内のファイルのパス（年・月のフォルダに分ける。例: 2024/01/2024-01-15.md）
+ */
+export function getDiaryMarkdownPath(dateKey: string): string {
+  const [year, month] = dateKey.split('-');
+  return `${year}/${month}/${dateKey}.md`;
+}
+
+/**
+ * 日記エントリーをMarkdownファイルにしてZIPにまとめる
+ */
+export function createMarkdownArchive(entries: DiaryEntry[], now: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const files = [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => ({
+      path: getDiaryMarkdownPath(entry.date),
+      data: createDiaryMarkdown(entry),
+      // 最後の投稿の日時をファイルの更新日時にする
+      modifiedAt: new Date(Math.max(...entry.posts.map(post => post.updatedAt.getTime())))
+    }));
+  return createZip(files, now);
+}
+
+/**
+ * 指定した月の初日から末日までの日付範囲
+ * @param month 1〜12
+ */
+export function getMonthDateRange(year: number, month: number): DateRange {
+  return {
+    start: new Date(year, month - 1, 1, 0, 0, 0, 0),
+    end: new Date(year, month, 0, 23, 59, 59, 999)
+  };
+}
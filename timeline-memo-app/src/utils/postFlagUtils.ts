@@ -0,0 +1,31 @@
+import type { Post, PostFlags } from '../types';
+
+/**
+ * ピン留め・スター用のユーティリティ関数
+ * フラグは立っている場合のみ投稿に持たせ、外した場合はプロパティごと取り除く
+ */
+
+/**
+ * 投稿にピン留め・スターの変更を適用した新しい投稿を返す（指定のないフラグはそのまま）
+ */
+export function applyPostFlags(post: Post, flags: PostFlags): Post {
+  const updatedPost: Post = { ...post };
+  (['pinned', 'starred'] as const).forEach(flag => {
+    if (flags[flag] === undefined) {
+      return;
+    }
+    if (flags[flag]) {
+      updatedPost[flag] = true;
+    } else {
+      delete updatedPost[flag];
+    }
+  });
+  return updatedPost;
+}
+
+/**
+ * ピン留めした投稿を先頭に並べ替える（それぞれの中の順序は元の並びを保つ）
+ */
+export function sortPinnedFirst<T extends Pick<Post, 'pinned'>>(posts: T[]): T[] {
+  return [...posts.filter(post => post.pinned), ...posts.filter(post => !post.pinned)];
+}
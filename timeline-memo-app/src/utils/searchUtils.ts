@@ -0,0 +1,163 @@
+import type { Post, DiaryEntry, CalendarDay } from '../types';
+
+/**
+ * 全文検索用のユーティリティ関数
+ * 日本語は単語の区切りがないため、文字単位のユニグラムとバイグラムで転置インデックスを構築する
+ */
+
+/**
+ * 検索用にテキストを正規化する
+ * 全角英数字・半角カナをNFKCで統一し、大文字小文字を区別しない
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 空白・記号で区切られた語のリストに分割する
+ */
+function splitIntoTerms(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(/[\s\p{P}\p{S}]+/u)
+    .filter(term => term.length > 0);
+}
+
+/**
+ * テキストをインデックス用のトークン（ユニグラム＋バイグラム）に分解する
+ * @param text 対象テキスト
+ * @returns 重複を除いたトークンの配列
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+
+  for (const term of splitIntoTerms(text)) {
+    const chars = Array.from(term); // サロゲートペアを1文字として扱う
+    for (let i = 0; i < chars.length; i++) {
+      tokens.add(chars[i]);
+      if (i + 1 < chars.length) {
+        tokens.add(chars[i] + chars[i + 1]);
+      }
+    }
+  }
+
+  return Array.from(tokens);
+}
+
+/**
+ * 検索クエリをインデックス照会用のトークンに分解する
+ * 2文字以上の語はバイグラムのみを使い、照会するトークン数を抑える
+ * @param query 検索クエリ
+ * @returns 重複を除いたトークンの配列
+ */
+export function tokenizeQuery(query: string): string[] {
+  const tokens = new Set<string>();
+
+  for (const term of splitIntoTerms(query)) {
+    const chars = Array.from(term);
+    if (chars.length === 1) {
+      tokens.add(chars[0]);
+      continue;
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      tokens.add(chars[i] + chars[i + 1]);
+    }
+  }
+
+  return Array.from(tokens);
+}
+
+/**
+ * 投稿の検索対象テキスト（本文とタグ）を取得
+ */
+export function getSearchableText(post: Pick<Post, 'content' | 'tags'>): string {
+  return [post.content, ...(post.tags || [])].join('\n');
+}
+
+/**
+ * 投稿がクエリの全ての語を含むかを判定する
+ * バイグラムの一致だけでは語順が保証されないため、候補の最終確認に使用する
+ */
+export function matchesQuery(post: Pick<Post, 'content' | 'tags'>, query: string): boolean {
+  const terms = splitIntoTerms(query);
+  if (terms.length === 0) {
+    return false;
+  }
+
+  const text = normalizeSearchText(getSearchableText(post));
+  return terms.every(term => text.includes(term));
+}
+
+/**
+ * 検索結果で投稿を絞り込む
+ * @param posts 投稿の配列
+ * @param searchResults 検索結果の投稿（null/undefinedの場合は検索なし）
+ */
+export function filterPostsBySearch(posts: Post[], searchResults: Post[] | null | undefined): Post[] {
+  if (!searchResults) {
+    return posts;
+  }
+
+  const ids = new Set(searchResults.map(post => post.id));
+  return posts.filter(post => ids.has(post.id));
+}
+
+/**
+ * 検索結果の投稿を日記エントリー形式（日付ごと・新しい順）にグループ化する
+ * 検索結果は読み込み済みのページに限らないため、日記エントリーを絞り込まずに再構成する
+ * @param searchResults 検索結果の投稿
+ * @param dateRange 日記ビューの日付範囲フィルター（未指定の場合は全期間）
+ */
+export function groupSearchResultsByDate(
+  searchResults: Post[],
+  dateRange?: { start: Date; end: Date } | null
+): DiaryEntry[] {
+  const grouped = new Map<string, Post[]>();
+
+  searchResults.forEach(post => {
+    const createdAt = new Date(post.createdAt);
+    if (dateRange && (createdAt < dateRange.start || createdAt > dateRange.end)) {
+      return;
+    }
+
+    // DiaryServiceと同じYYYY-MM-DD形式の日付キーでグループ化
+    const dateKey = createdAt.toISOString().split('T')[0];
+    if (!grouped.has(dateKey)) {
+      grouped.set(dateKey, []);
+    }
+    grouped.get(dateKey)!.push(post);
+  });
+
+  return Array.from(grouped.entries())
+    .map(([date, posts]) => ({
+      date,
+      posts: posts.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+      postCount: posts.length
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * 検索結果でカレンダーの投稿数を再計算する
+ * @param calendarDays カレンダーデータ
+ * @param searchResults 検索にヒットした投稿（null/undefinedの場合は検索なし）
+ */
+export function filterCalendarDaysBySearch(
+  calendarDays: CalendarDay[],
+  searchResults: Post[] | null | undefined
+): CalendarDay[] {
+  if (!searchResults) {
+    return calendarDays;
+  }
+
+  // CalendarServiceと同じYYYY-MM-DD形式の日付キーで集計
+  const countsByDate = new Map<string, number>();
+  searchResults.forEach(post => {
+    const dateKey = new Date(post.createdAt).toISOString().split('T')[0];
+    countsByDate.set(dateKey, (countsByDate.get(dateKey) || 0) + 1);
+  });
+
+  return calendarDays.map(day => {
+    const postCount = countsByDate.get(day.date.toISOString().split('T')[0]) || 0;
+    return { ...day, hasPost: postCount > 0, postCount };
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * 保存容量用のユーティリティ関数
+ * 容量不足のエラーの判定、ブラウザの保存容量の取得、永続化の要求などを行う
+ */
+
+// 使用量がこの割合（%）を超えたら容量不足の警告を表示する
+export const STORAGE_WARNING_PERCENTAGE = 80;
+
+// ブラウザの保存容量の使用状況
+export interface StorageEstimateInfo {
+  used: number;          // 使用量（バイト）
+  quota: number;         // 上限（バイト、取得できない場合は0）
+  percentage: number;    // 使用率（%）
+  caches: number | null; // キャッシュ（アプリのファイル）の使用量（取得できないブラウザではnull）
+}
+
+/**
+ * 容量超過のエラーかを判定する（ブラウザによって名前とコードが異なる）
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  // DOMExceptionは実行環境によってErrorを継承しないため、名前とコードで判定する
+  const { name, code } = error as { name?: string; code?: number };
+  return name === 'QuotaExceededError'
+    || name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || code === 22
+    || code === 1014;
+}
+
+/**
+ * データサービスのエラーが容量不足によるものかを判定する
+ * IndexedDBError・LocalStorageDataServiceErrorは容量不足の場合にisQuotaExceededを持つ
+ */
+export function isStorageFullError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  return (error as { isQuotaExceeded?: boolean }).isQuotaExceeded === true || isQuotaExceededError(error);
+}
+
+/**
+ * 値をJSONにした場合のおおよその大きさ（バイト）を計算する
+ * 保存先での実際の大きさとは異なるが、種類ごとの使用量の比較に使う
+ */
+export function estimateJsonSize(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+/**
+ * バイト数を読みやすい単位の文字列にする
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes}B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)}KB`;
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+  }
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)}GB`;
+}
+
+/**
+ * ブラウザの保存容量の使用状況を取得する（Storage APIに対応していない環境ではnull）
+ */
+export async function getStorageEstimate(): Promise<StorageEstimateInfo | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  try {
+    const estimate = await navigator.storage.estimate();
+    const used = estimate.usage || 0;
+    const quota = estimate.quota || 0;
+    // 内訳はChromium系のブラウザのみが返す
+    const { usageDetails } = estimate as StorageEstimate & { usageDetails?: { caches?: number } };
+    return {
+      used,
+      quota,
+      percentage: quota > 0 ? (used / quota) * 100 : 0,
+      caches: usageDetails?.caches ?? null
+    };
+  } catch (error) {
+    console.warn('保存容量の使用状況を取得できませんでした:', error);
+    return null;
+  }
+}
+
+/**
+ * 保存したデータが永続化されているか（ブラウザの容量不足時に自動で削除されないか）
+ */
+export async function isStoragePersisted(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persisted) {
+    return false;
+  }
+  try {
+    return await navigator.storage.persisted();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 保存したデータの永続化を要求する（ブラウザの容量不足時に自動で削除されないようにする）
+ * @returns 永続化された場合はtrue（ブラウザが許可しなかった場合や、対応していない環境ではfalse）
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false;
+  }
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.warn('保存データの永続化を要求できませんでした:', error);
+    return false;
+  }
+}
+
+/**
+ * アプリのファイルのキャッシュ（Cache Storage）を削除する
+ * オフライン用のキャッシュは次回の起動時にService Workerが取得し直す
+ * @returns 削除したキャッシュの数
+ */
+export async function clearCacheStorage(): Promise<number> {
+  if (typeof caches === 'undefined') {
+    return 0;
+  }
+  const keys = await caches.keys();
+  const results = await Promise.all(keys.map(key => caches.delete(key)));
+  return results.filter(Boolean).length;
+}
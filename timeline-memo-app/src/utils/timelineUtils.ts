@@ -5,6 +5,7 @@ import {
   getCachedTimelineMarkers, 
   setCachedTimelineMarkers 
 } from './performanceCache';
+import { excludeTrashedPosts } from './trashUtils';
 
 /**
  * 時間軸の表示範囲を計算する（キャッシュ機能付き）
@@ -18,15 +19,17 @@ export function calculateTimeRange(posts: Post[]): { start: Date; end: Date } {
   }
 
   let result: { start: Date; end: Date };
+  // ゴミ箱の投稿は時間軸に表示しない
+  const activePosts = excludeTrashedPosts(posts);
 
-  if (posts.length === 0) {
+  if (activePosts.length === 0) {
     // 投稿がない場合は過去24時間をデフォルト表示
     const now = new Date();
     const start = new Date(now.getTime() - 24 * 60 * 60 * 1000);
     result = { start, end: now };
   } else {
     // 投稿がある場合は最古から最新まで
-    const timestamps = posts.map(post => new Date(post.createdAt).getTime());
+    const timestamps = activePosts.map(post => new Date(post.createdAt).getTime());
     const minTime = Math.min(...timestamps);
     const maxTime = Math.max(...timestamps);
     
@@ -72,13 +75,15 @@ export function generateTimelineMarkers(
     return cached;
   }
 
-  if (posts.length === 0) return [];
+  // ゴミ箱の投稿はマーカーに含めない
+  const activePosts = excludeTrashedPosts(posts);
+  if (activePosts.length === 0) return [];
 
   const { start, end } = timeRange;
   const totalRange = end.getTime() - start.getTime();
 
   // 投稿を時刻順にソート
-  const sortedPosts = [...posts].sort((a, b) => 
+  const sortedPosts = [...activePosts].sort((a, b) => 
     new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
   );
 
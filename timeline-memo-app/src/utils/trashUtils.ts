@@ -0,0 +1,79 @@
+import type { Post } from '../types';
+
+/**
+ * ゴミ箱用のユーティリティ関数
+ * 削除した投稿は一定期間ゴミ箱に残し、保持期間を過ぎたものを自動で完全削除する
+ */
+
+const RETENTION_STORAGE_KEY = 'timeline-memo-trash-retention-days';
+
+// ゴミ箱の保持期間（日数）の既定値
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 設定画面で選択できる保持期間（日数）
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90] as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 投稿がゴミ箱に入っているかを判定
+ */
+export function isTrashed(post: Pick<Post, 'deletedAt'>): boolean {
+  return post.deletedAt !== undefined && post.deletedAt !== null;
+}
+
+/**
+ * ゴミ箱の投稿を除外する
+ * 日記・統計・タイムラインの集計対象から削除済みの投稿を外すために使用する
+ */
+export function excludeTrashedPosts<T extends Pick<Post, 'deletedAt'>>(posts: T[]): T[] {
+  return posts.filter(post => !isTrashed(post));
+}
+
+/**
+ * ゴミ箱の保持期間（日数）を取得
+ * 未設定・不正な値の場合は既定値を返す
+ */
+export function getTrashRetentionDays(): number {
+  try {
+    const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+    const days = stored !== null ? Number(stored) : NaN;
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+/**
+ * ゴミ箱の保持期間（日数）を保存
+ */
+export function setTrashRetentionDays(days: number): void {
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error('保持期間は1日以上の整数で指定してください');
+  }
+  localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+}
+
+/**
+ * 完全削除の対象となる基準日時を計算
+ * この日時より前にゴミ箱に移動した投稿が完全削除の対象になる
+ */
+export function getPurgeCutoffDate(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * MS_PER_DAY);
+}
+
+/**
+ * 完全削除されるまでの残り日数を計算（切り上げ、最小0）
+ */
+export function getDaysUntilPurge(
+  post: Pick<Post, 'deletedAt'>,
+  retentionDays: number,
+  now: Date = new Date()
+): number {
+  if (!post.deletedAt) {
+    return retentionDays;
+  }
+
+  const purgeAt = new Date(post.deletedAt).getTime() + retentionDays * MS_PER_DAY;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / MS_PER_DAY));
+}
@@ -25,6 +25,20 @@ export const validatePostContent = (content: string): string | null => {
   return null;
 };
 
+/**
+ * 投稿日時のバリデーション
+ * 過去の日付での投稿や投稿日時の変更に使用する（未来の日時は指定できない）
+ */
+export const validatePostDate = (date: Date, now: Date = new Date()): string | null => {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    return '投稿日時が無効です';
+  }
+  if (date.getTime() > now.getTime()) {
+    return '未来の日時は指定できません';
+  }
+  return null;
+};
+
 /**
  * 投稿作成データの包括的バリデーション
  */
@@ -36,6 +50,14 @@ export const validateCreatePostInput = (input: CreatePostInput): ValidationResul
   if (contentError) {
     errors.push(contentError);
   }
+
+  // 投稿日時バリデーション（指定された場合のみ）
+  if (input.createdAt !== undefined) {
+    const dateError = validatePostDate(input.createdAt);
+    if (dateError) {
+      errors.push(dateError);
+    }
+  }
   
   // タグバリデーション（将来拡張用）
   if (input.tags) {
@@ -74,6 +96,14 @@ export const validateUpdatePostInput = (input: UpdatePostInput): ValidationResul
       errors.push(contentError);
     }
   }
+
+  // 投稿日時バリデーション（指定された場合のみ）
+  if (input.createdAt !== undefined) {
+    const dateError = validatePostDate(input.createdAt);
+    if (dateError) {
+      errors.push(dateError);
+    }
+  }
   
   // タグバリデーション（将来拡張用）
   if (input.tags) {
@@ -146,12 +176,15 @@ export const sanitizeContent = (content: string): string => {
 
 /**
  * タグのサニタイズ
+ * 先頭の「#」を取り除き、重複したタグは1つにまとめる
  */
 export const sanitizeTags = (tags: string[]): string[] => {
-  return tags
-    .map(tag => tag.trim())
-    .filter(tag => tag.length > 0)
-    .slice(0, 10); // 最大10個まで
+  const uniqueTags = new Set(
+    tags
+      .map(tag => tag.trim().replace(/^#+/, '').trim())
+      .filter(tag => tag.length > 0)
+  );
+  return Array.from(uniqueTags).slice(0, 10); // 最大10個まで
 };
 
 /**
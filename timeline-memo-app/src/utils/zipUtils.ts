@@ -0,0 +1,124 @@
+/**
+ * ZIPファイル作成用のユーティリティ関数
+ * ブラウザ内でZIPを作成するため、圧縮しない形式（無圧縮・store）で格納する
+ */
+
+// ZIPに格納するファイル
+export interface ZipEntry {
+  path: string;                // ZIP内のパス（区切りは/）
+  data: Uint8Array | string;   // 文字列はUTF-8で格納する
+  modifiedAt?: Date;           // 更新日時（省略時は作成した日時）
+}
+
+// ZIPの形式で定められた署名とフラグ
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FILE_NAME_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+/**
+ * CRC-32を計算する（ZIPの各ファイルの検査値）
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 日時をMS-DOS形式の時刻・日付に変換する（ZIPは1980年以降のみ表現できる）
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+/**
+ * ファイルをまとめたZIPを作成する（無圧縮）
+ */
+export function createZip(entries: ZipEntry[], now: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+    const dosDateTime = toDosDateTime(entry.modifiedAt ?? now);
+
+    const localHeader = new Uint8Array(30 + name.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FILE_NAME_FLAG, true);
+    local.setUint16(8, 0, true); // 無圧縮
+    local.setUint16(10, dosDateTime.time, true);
+    local.setUint16(12, dosDateTime.date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localHeader.set(name, 30);
+
+    const centralHeader = new Uint8Array(46 + name.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, UTF8_FILE_NAME_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosDateTime.time, true);
+    central.setUint16(14, dosDateTime.date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralHeader.set(name, 46);
+
+    localParts.push(localHeader, data);
+    centralParts.push(centralHeader);
+    offset += localHeader.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...localParts, ...centralParts, end].forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+}